@@ -3,30 +3,91 @@ import { jsPDF } from "jspdf";
 import html2canvas from 'html2canvas';
 import { 
   generateSimulationContent, 
-  generatePracticalContent, 
+  streamPracticalContent, 
   generateResearchContent, 
   generateQuizContent,
   generateRealisticDentalImage, 
   analyzeDentalImage,
+  analyzeDentalImageSet,
+  generateClinicalCase,
+  generateTechnicalBlueprint,
   checkApiConnection
 } from './services/geminiService';
-import { ChatMessage, Hotspot, ClinicalData, PracticalStep, LabMode, GroundingChunk, ImageAnalysisResult, QuizData } from './types';
+import { AIProviderId, getActiveProviderId, setActiveProviderId } from './services/aiProvider';
+import { summarizeValidation, validateClinicalCase } from './services/responseValidation';
+import { CacheStatus, CacheStats, clearCache, getCacheStats } from './services/responseCache';
+import { setVisibleTab } from './services/requestScheduler';
+import { isAbortError } from './services/abort';
+import { AIServiceError, AuthError, toAIServiceError } from './services/aiErrors';
+import { stampLabel } from './services/promptTemplates';
+import { BudgetStatus, getBudgetStatus, subscribeUsage } from './services/usageLog';
+import { IMAGE_FILE_ACCEPT, isSupportedImageFile, readImageFile } from './services/imageImport';
+import { RadiographFormatError, describeRadiograph } from './services/radiograph';
+import { getPreferredNotation, setPreferredNotation } from './services/toothNumbering';
+import { createOdontogram } from './services/odontogram';
+import { isHotspotPinned, loadPinnedHotspots, savePinnedHotspots, togglePinnedHotspot, updatePinnedNote } from './services/hotspotNotes';
+import { readCaseFile } from './services/caseEngine';
+import { ChatMessage, Hotspot, ClinicalData, PracticalStep, LabMode, GroundingChunk, ImageAnalysisResult, QuizData, PromptStamp, LabeledImage, MAX_COMPARISON_IMAGES, Radiograph, ToothNotation, Odontogram as OdontogramChart, PinnedHotspot, ClinicalCase, TechnicalBlueprint } from './types';
 import VisualDisplay from './components/VisualDisplay';
 import Header from './components/Header';
+import ErrorNotice from './components/ErrorNotice';
+import SettingsPanel, { ConnectionStatus } from './components/SettingsPanel';
+import PromptEditor from './components/PromptEditor';
+import UsageDashboard from './components/UsageDashboard';
+import Odontogram, { ODONTOGRAM_ELEMENT_ID } from './components/Odontogram';
+import { MEASUREMENT_REPORT_ELEMENT_ID } from './components/MeasurementReport';
+import HotspotExam from './components/HotspotExam';
+import HotspotNotes from './components/HotspotNotes';
+import CasePlayer from './components/CasePlayer';
 import MessageBubble from './components/MessageBubble';
 import SourceLink from './components/SourceLink';
 
+// Label sets for comparative uploads, applied in upload order
+const COMPARISON_PRESETS: { title: string; labels: string[] }[] = [
+  { title: 'قبل / بعد', labels: ['قبل العلاج', 'بعد العلاج', 'متابعة 1', 'متابعة 2'] },
+  { title: 'يمين / يسار', labels: ['مجنحة يمنى', 'مجنحة يسرى', 'ذروية يمنى', 'ذروية يسرى'] },
+];
+
+// Labels must stay unique: comparative findings are matched back to their image by label
+const nextImageLabel = (images: LabeledImage[]) => {
+  const used = new Set(images.map(image => image.label));
+  return [...COMPARISON_PRESETS[0].labels, 'صورة 1', 'صورة 2', 'صورة 3', 'صورة 4'].find(label => !used.has(label)) || `صورة ${images.length + 1}`;
+};
+
 const App: React.FC = () => {
   const [input, setInput] = useState('');
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [activeTab, setActiveTab] = useState<'simulation' | 'practical' | 'gallery' | 'quiz'>('simulation');
   const [examMode, setExamMode] = useState(false);
+  const [examHotspotIdx, setExamHotspotIdx] = useState<number | null>(null);
   const [errorStatus, setErrorStatus] = useState<string | null>(null);
   const [checkedPracticalSteps, setCheckedPracticalSteps] = useState<string[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const [uploadedImage, setUploadedImage] = useState<string | null>(null);
+  // Ordered, labeled uploads; two or more switch the simulation tab to comparative analysis
+  const [uploadedImages, setUploadedImages] = useState<LabeledImage[]>([]);
   const [isDragging, setIsDragging] = useState(false);
-  const [apiKeyMissing, setApiKeyMissing] = useState(false);
+  const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>('checking');
+  const apiKeyMissing = connectionStatus === 'missing';
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [promptEditorOpen, setPromptEditorOpen] = useState(false);
+  const [usageOpen, setUsageOpen] = useState(false);
+  const [budgetStatus, setBudgetStatus] = useState<BudgetStatus>(getBudgetStatus);
+  const [providerId, setProviderId] = useState<AIProviderId>(getActiveProviderId());
+  const [autoRepair, setAutoRepair] = useState(true);
+  const [forceRegenerate, setForceRegenerate] = useState(false);
+  const [cacheStatus, setCacheStatus] = useState<Partial<Record<typeof activeTab, CacheStatus>>>({});
+  // Prompt template version of the content currently shown in each tab
+  const [promptStamps, setPromptStamps] = useState<Partial<Record<typeof activeTab, PromptStamp>>>({});
+  const [cacheStats, setCacheStats] = useState<CacheStats>({ entries: 0, bytes: 0 });
+  const [toothNotation, setToothNotation] = useState<ToothNotation>(getPreferredNotation);
+  const [odontogram, setOdontogram] = useState<OdontogramChart>(() => createOdontogram());
+  const [pinnedHotspots, setPinnedHotspots] = useState<PinnedHotspot[]>(loadPinnedHotspots);
+  const [clinicalCase, setClinicalCase] = useState<ClinicalCase | null>(null);
+  const [caseLoading, setCaseLoading] = useState(false);
+  const caseController = useRef<AbortController | null>(null);
+  const caseFileInputRef = useRef<HTMLInputElement>(null);
+  const [blueprintLoading, setBlueprintLoading] = useState(false);
+  const blueprintController = useRef<AbortController | null>(null);
   
   // INDEPENDENT STATE FOR EACH TAB
   const [simulationData, setSimulationData] = useState<{
@@ -34,9 +95,17 @@ const App: React.FC = () => {
     url: string | null;
     radiologyUrl: string | null;
     explodedUrl: string | null;
+    comparisonImages?: LabeledImage[];
+    // Decoded DICOM/TIFF source of `url`, for window/level and calibrated measurements
+    radiograph?: Radiograph;
+    // Request the simulation was generated from; groups pinned hotspots in the notes
+    topic?: string;
+    // 3D lab model, generated when the 3D view is first opened
+    blueprint?: TechnicalBlueprint;
   }>({ data: null, url: null, radiologyUrl: null, explodedUrl: null });
 
   const [practicalData, setPracticalData] = useState<ClinicalData | null>(null);
+  const [isStreamingProtocol, setIsStreamingProtocol] = useState(false);
   const [quizData, setQuizData] = useState<QuizData | null>(null);
   const [activeQuizType, setActiveQuizType] = useState<'essay' | 'sa' | 'mcq'>('essay');
   const [revealedAnswers, setRevealedAnswers] = useState<Record<string, boolean>>({});
@@ -51,25 +120,205 @@ const App: React.FC = () => {
     id: number;
     prompt: string;
     imageUrl?: string;
-    status: 'loading' | 'completed' | 'failed';
+    status: 'loading' | 'completed' | 'failed' | 'cancelled';
     source?: GroundingChunk;
   }
   const [galleryItems, setGalleryItems] = useState<GalleryItem[]>([]);
   
   const [loading, setLoading] = useState(false);
+  // Last failed request, kept so the error notice can offer "retry now"
+  const [requestError, setRequestError] = useState<{ error: AIServiceError; retry: { tab: typeof activeTab; message: string } } | null>(null);
+  // One controller per tab: a new request (or Cancel) aborts that tab's previous work, including background images
+  const requestControllers = useRef<Partial<Record<typeof activeTab, AbortController>>>({});
+  const [busyTabs, setBusyTabs] = useState<Partial<Record<typeof activeTab, boolean>>>({});
   const [exportingId, setExportingId] = useState<string | null>(null);
   const [pdfExportingId, setPdfExportingId] = useState<string | null>(null);
   const [isGeneratingReport, setIsGeneratingReport] = useState(false);
 
-  // Check API Key on Mount
+  // Check API Key on Mount and whenever the provider changes (or the user asks from settings)
+  const connectionCheck = useRef(0);
+  const refreshConnection = useCallback(() => {
+    const check = ++connectionCheck.current;
+    setConnectionStatus('checking');
+    checkApiConnection().then(isConnected => {
+      if (check !== connectionCheck.current) return;
+      setConnectionStatus(isConnected ? 'connected' : 'missing');
+      setErrorStatus(isConnected ? null : "تنبيه: مفتاح API غير متصل. يرجى مراجعة إعدادات الموقع.");
+    });
+  }, []);
+
+  useEffect(() => {
+    refreshConnection();
+  }, [providerId, refreshConnection]);
+
+  // Requests for the visible tab jump ahead of background work in the scheduler queue
+  useEffect(() => {
+    setVisibleTab(activeTab);
+  }, [activeTab]);
+
+  useEffect(() => subscribeUsage(() => setBudgetStatus(getBudgetStatus())), []);
+
+  useEffect(() => savePinnedHotspots(pinnedHotspots), [pinnedHotspots]);
+
+  // A new simulation ends any running hotspot exam
   useEffect(() => {
-    const isConnected = checkApiConnection();
-    if (!isConnected) {
-        setApiKeyMissing(true);
-        setErrorStatus("تنبيه: مفتاح API غير متصل. يرجى مراجعة إعدادات الموقع.");
+    setExamMode(false);
+    setExamHotspotIdx(null);
+  }, [simulationData.data]);
+
+  // The chart belongs to one case: marks must not carry over to the next case or its report
+  useEffect(() => setOdontogram(createOdontogram()), [simulationData.data]);
+
+  // Personal notes: hotspots are pinned under the topic of the current simulation
+  const simulationTopic = simulationData.topic || 'محاكاة';
+  const isSimulationHotspotPinned = (spot: Hotspot) => isHotspotPinned(pinnedHotspots, simulationTopic, spot);
+  const toggleSimulationHotspotPin = (spot: Hotspot) => setPinnedHotspots(prev => togglePinnedHotspot(prev, simulationTopic, spot));
+
+  // Branching case: generated for the current simulation topic (or the typed one), or imported from an instructor file
+  const caseTopic = (simulationData.topic || input).trim();
+
+  const handleGenerateCase = async () => {
+    if (apiKeyMissing) {
+        setErrorStatus("توقف: لا يمكن إجراء الطلب لأن مفتاح API مفقود.");
+        return;
+    }
+    if (!caseTopic || caseLoading) return;
+    const controller = new AbortController();
+    caseController.current = controller;
+    setCaseLoading(true);
+    setErrorStatus(null);
+    try {
+        const result = await generateClinicalCase(caseTopic, { forceRegenerate, signal: controller.signal, tab: 'simulation' });
+        if (controller.signal.aborted) return;
+        setClinicalCase(result.data);
+        setMessages(prev => [...prev, {
+            role: 'assistant',
+            content: [`تم إنشاء حالة سريرية متفرعة: "${result.data.title}"`, summarizeValidation(result.issues)].filter(Boolean).join('\n\n'),
+        }]);
+    } catch (error) {
+        if (isAbortError(error) || controller.signal.aborted) return;
+        const aiError = toAIServiceError(error);
+        console.error("Case generation failed:", aiError, aiError.attempts);
+        setErrorStatus(aiError.message);
+    } finally {
+        if (caseController.current === controller) {
+            caseController.current = null;
+            setCaseLoading(false);
+        }
+        refreshCacheStats();
+    }
+  };
+
+  const handleCaseFileImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+        const result = validateClinicalCase(readCaseFile(await file.text()), 'FILE');
+        setClinicalCase(result.value);
+        setMessages(prev => [...prev, {
+            role: 'assistant',
+            content: [`تم تحميل الحالة السريرية: "${result.value.title}"`, summarizeValidation(result.issues)].filter(Boolean).join('\n\n'),
+        }]);
+    } catch (error: any) {
+        setErrorStatus(`تعذر استيراد الحالة: ${error?.message || file.name}`);
+    }
+  };
+
+  // 3D lab: the blueprint of a text simulation is generated the first time its 3D view is opened
+  const handleLoadBlueprint = async () => {
+    if (!simulationData.topic || blueprintController.current) return;
+    const controller = new AbortController();
+    blueprintController.current = controller;
+    setBlueprintLoading(true);
+    try {
+        const result = await generateTechnicalBlueprint(simulationData.topic, { forceRegenerate, signal: controller.signal, tab: 'simulation' });
+        if (controller.signal.aborted) return;
+        setSimulationData(prev => ({ ...prev, blueprint: result.data }));
+    } catch (error) {
+        if (isAbortError(error) || controller.signal.aborted) return;
+        const aiError = toAIServiceError(error);
+        console.error("Blueprint generation failed:", aiError, aiError.attempts);
+        setErrorStatus(`تعذر بناء النموذج ثلاثي الأبعاد: ${aiError.message}`);
+    } finally {
+        if (blueprintController.current === controller) {
+            blueprintController.current = null;
+            setBlueprintLoading(false);
+        }
+        refreshCacheStats();
     }
+  };
+
+  // A blueprint still loading belongs to the previous simulation
+  useEffect(() => {
+    blueprintController.current?.abort();
+    blueprintController.current = null;
+    setBlueprintLoading(false);
+  }, [simulationData.data]);
+
+  const loadCaseImage = useCallback((prompt: string, signal: AbortSignal) =>
+    generateRealisticDentalImage(prompt, 'CLINICAL', { tab: 'simulation', signal }), []);
+
+  const exitCase = useCallback(() => setClinicalCase(null), []);
+
+  const refreshCacheStats = useCallback(() => {
+    getCacheStats().then(setCacheStats).catch(() => undefined);
   }, []);
 
+  useEffect(() => {
+    refreshCacheStats();
+  }, [refreshCacheStats]);
+
+  const handleClearCache = async () => {
+    await clearCache();
+    setCacheStatus({});
+    refreshCacheStats();
+  };
+
+  const startTabRequest = (tab: typeof activeTab) => {
+    requestControllers.current[tab]?.abort();
+    const controller = new AbortController();
+    requestControllers.current[tab] = controller;
+    setBusyTabs(prev => ({ ...prev, [tab]: true }));
+    return controller;
+  };
+
+  // Results from an aborted or superseded request must never reach the tab's state
+  const isCurrentRequest = (tab: typeof activeTab, controller: AbortController) =>
+    requestControllers.current[tab] === controller && !controller.signal.aborted;
+
+  const finishTabRequest = (tab: typeof activeTab, controller: AbortController) => {
+    if (requestControllers.current[tab] !== controller) return;
+    delete requestControllers.current[tab];
+    setBusyTabs(prev => ({ ...prev, [tab]: false }));
+  };
+
+  const handleCancel = () => {
+    const tab = activeTab;
+    const controller = requestControllers.current[tab];
+    if (!controller) return;
+    controller.abort();
+    finishTabRequest(tab, controller);
+
+    if (tab === 'practical') {
+        setIsStreamingProtocol(false);
+        setPracticalData(current => current && {
+            ...current,
+            practicalProtocol: (current.practicalProtocol || []).map(step =>
+                step.imageStatus === 'pending' || step.imageStatus === 'loading' ? { ...step, imageStatus: 'cancelled' } : step
+            )
+        });
+    } else if (tab === 'gallery') {
+        setGalleryItems(current => current.map(item => item.status === 'loading' ? { ...item, status: 'cancelled' } : item));
+    }
+    setMessages(prev => [...prev, { role: 'assistant', content: "تم إلغاء الطلب." }]);
+  };
+
+  const handleProviderChange = (id: AIProviderId) => {
+    setActiveProviderId(id);
+    setProviderId(id);
+  };
+
   // Handle Drag & Drop Events
   const onDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -83,33 +332,41 @@ const App: React.FC = () => {
     setIsDragging(false);
   }, []);
 
+  const addUploadedImages = useCallback((files: File[]) => {
+    files.filter(isSupportedImageFile).forEach(async file => {
+      try {
+        const image = await readImageFile(file);
+        setUploadedImages(prev => prev.length >= MAX_COMPARISON_IMAGES ? prev : [...prev, { ...image, label: nextImageLabel(prev) }]);
+      } catch (e: any) {
+        setErrorStatus(e instanceof RadiographFormatError ? e.message : `تعذر قراءة الملف "${file.name}".`);
+      }
+    });
+  }, []);
+
+  const handleToothNotationChange = useCallback((notation: ToothNotation) => {
+    setToothNotation(notation);
+    setPreferredNotation(notation);
+  }, []);
+
+  const applyComparisonPreset = (labels: string[]) => {
+    setUploadedImages(prev => prev.map((image, idx) => ({ ...image, label: labels[idx] })));
+  };
+
   const onDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
     if (activeTab !== 'simulation') return;
 
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      const file = e.dataTransfer.files[0];
-      if (file.type.startsWith('image/')) {
-          const reader = new FileReader();
-          reader.onloadend = () => {
-            setUploadedImage(reader.result as string);
-          };
-          reader.readAsDataURL(file);
-      }
-    }
-  }, [activeTab]);
+    addUploadedImages(Array.from(e.dataTransfer.files));
+  }, [activeTab, addUploadedImages]);
 
   const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      const file = e.target.files[0];
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setUploadedImage(reader.result as string);
-        setActiveTab('simulation');
-      };
-      reader.readAsDataURL(file);
+    if (e.target.files && e.target.files.length > 0) {
+      addUploadedImages(Array.from(e.target.files));
+      setActiveTab('simulation');
     }
+    // Allows picking the same file again after removing it
+    e.target.value = '';
   };
 
   // Helper to add element to PDF page
@@ -162,6 +419,11 @@ const App: React.FC = () => {
         if (activeTab === 'simulation') {
             if (simulationData.url) {
                 await addElementToPdf('simulation-container', pdf);
+                // Present only when the analysed image has measurements
+                await addElementToPdf(MEASUREMENT_REPORT_ELEMENT_ID, pdf, true);
+                if (Object.keys(odontogram.teeth).length > 0) {
+                    await addElementToPdf(ODONTOGRAM_ELEMENT_ID, pdf, true);
+                }
             } else {
                 alert("لا يوجد محتوى محاكاة للتصدير.");
                 setIsGeneratingReport(false);
@@ -263,6 +525,15 @@ const App: React.FC = () => {
       }
   };
 
+  const updatePracticalStep = (index: number, patch: (step: PracticalStep) => Partial<PracticalStep>) => {
+    setPracticalData(current => {
+        if (!current?.practicalProtocol?.[index]) return current;
+        const newSteps = [...current.practicalProtocol];
+        newSteps[index] = { ...newSteps[index], ...patch(newSteps[index]) };
+        return { ...current, practicalProtocol: newSteps };
+    });
+  };
+
   const toggleAnswer = (id: string) => {
     setRevealedAnswers(prev => ({
         ...prev,
@@ -270,163 +541,190 @@ const App: React.FC = () => {
     }));
   };
 
-  const handleConvert = async () => {
+  // `retry` replays a failed request from the error notice, in the tab it was made from
+  const handleConvert = async (retry?: { tab: typeof activeTab; message: string }) => {
     if (apiKeyMissing) {
         setErrorStatus("توقف: لا يمكن إجراء الطلب لأن مفتاح API مفقود.");
         return;
     }
-    if ((!input.trim() && !uploadedImage) || loading) return;
+    const userMessage = retry ? retry.message : input;
+    if ((!userMessage.trim() && uploadedImages.length === 0) || loading) return;
     
-    const userMessage = input;
+    const tab = retry ? retry.tab : activeTab;
+    if (tab !== activeTab) setActiveTab(tab);
+    const controller = startTabRequest(tab);
+    const isCurrent = () => isCurrentRequest(tab, controller);
+    const generationOptions = { repair: autoRepair, forceRegenerate, signal: controller.signal };
     setErrorStatus(null);
+    setRequestError(null);
     setLoading(true);
+    // "Force regenerate" applies to this request only
+    setForceRegenerate(false);
 
     const newMessage: ChatMessage = { 
         role: 'user', 
-        content: userMessage || (uploadedImage ? 'تحليل صورة سريرية' : 'طلب جديد'),
-        visual: uploadedImage || undefined
+        content: userMessage || (uploadedImages.length > 1
+          ? `تحليل مقارن: ${uploadedImages.map(image => image.label).join(' / ')}`
+          : uploadedImages.length === 1 ? 'تحليل صورة سريرية' : 'طلب جديد'),
+        visual: uploadedImages[0]?.dataUrl
     };
     setMessages(prev => [...prev, newMessage]);
     
     try {
         // --- 1. SIMULATION TAB LOGIC ---
-        if (activeTab === 'simulation') {
-             if (uploadedImage) {
+        if (tab === 'simulation') {
+             if (uploadedImages.length > 1) {
+                // Comparative Analysis (before/after, bilateral)
+                const images = uploadedImages;
+                const comparative = await analyzeDentalImageSet(images, generationOptions);
+                if (!isCurrent()) return;
+                const { comparison } = comparative;
+                setMessages(prev => [...prev, {
+                    role: 'assistant',
+                    content: `**التحليل المقارن (${images.map(image => image.label).join(' / ')}):**\n\n${comparison.summary}\n\n**تغيرات الآفات:** ${comparison.lesionChanges}\n\n**نتيجة الترميم:** ${comparison.restorationOutcome}\n\n**تغير مستوى العظم:** ${comparison.boneLevelChange}`,
+                }]);
+                setPromptStamps(prev => ({ ...prev, simulation: undefined }));
+                setSimulationData({
+                    data: { comparativeAnalysis: comparative },
+                    url: images[0].dataUrl,
+                    radiologyUrl: null,
+                    explodedUrl: null,
+                    comparisonImages: images
+                });
+                setUploadedImages([]);
+             } else if (uploadedImages.length === 1) {
                 // Image Analysis
-                const analysis = await analyzeDentalImage(uploadedImage);
+                const { dataUrl: uploadedImage, radiograph } = uploadedImages[0];
+                const analysis = await analyzeDentalImage(uploadedImage, generationOptions);
+                if (!isCurrent()) return;
                 setMessages(prev => [...prev, {
                     role: 'assistant',
                     content: `**تقرير الجراح الاستشاري:**\n\n${analysis.detailedClinicalAnalysis}\n\n**الامتثال للمعايير:** ${analysis.adaCompliance.compliant ? '✅ مطابق' : '⚠️ غير مطابق'}`,
                 }]);
+                setPromptStamps(prev => ({ ...prev, simulation: undefined }));
                 setSimulationData({
                     data: { analysisResult: analysis },
                     url: uploadedImage,
                     radiologyUrl: null,
-                    explodedUrl: null
+                    explodedUrl: null,
+                    radiograph
                 });
-                setUploadedImage(null);
+                setUploadedImages([]);
              } else {
                 // Text to Simulation
-                const result = await generateSimulationContent(userMessage);
-                const data = result.data as ClinicalData;
+                const result = await generateSimulationContent(userMessage, generationOptions);
+                const data = result.data;
+                if (!isCurrent()) return;
+                setCacheStatus(prev => ({ ...prev, simulation: result.cache }));
+                setPromptStamps(prev => ({ ...prev, simulation: data.promptTemplate }));
                 
                 // Show text content immediately without waiting for images
                 setSimulationData({
                     data: data,
                     url: null,
                     radiologyUrl: null,
-                    explodedUrl: null
+                    explodedUrl: null,
+                    topic: userMessage
                 });
                 setMessages(prev => [...prev, {
                     role: 'assistant',
-                    content: `تم إنشاء المحاكاة السريرية لـ: "${userMessage}"`,
+                    content: [`تم إنشاء المحاكاة السريرية لـ: "${userMessage}"`, summarizeValidation(result.issues)].filter(Boolean).join('\n\n'),
                 }]);
 
-                // Generate images SEQUENTIALLY with INCREASED delay to avoid 429
+                // All three images are queued at once; the request scheduler paces them to stay under the rate limit
                 const imageRequests = [
                     { prompt: data.imagePrompt || userMessage, type: 'CLINICAL', key: 'url' },
                     { prompt: data.radiologyPrompt || userMessage, type: 'RADIOLOGY', key: 'radiologyUrl' },
                     { prompt: data.explodedPrompt || userMessage, type: 'EXPLODED', key: 'explodedUrl' }
                 ];
 
-                for (const req of imageRequests) {
+                await Promise.all(imageRequests.map(async (req) => {
                     try {
-                        const img = await generateRealisticDentalImage(req.prompt, req.type as any);
+                        const img = await generateRealisticDentalImage(req.prompt, req.type as any, { ...generationOptions, tab: 'simulation' });
                         
                         // If one image fails, we continue to try the others instead of breaking
+                        if (!isCurrent()) return;
                         if (img) {
                             setSimulationData(prev => ({ ...prev, [req.key]: img }));
                         } else {
                              console.warn(`Could not generate image for ${req.type}`);
                         }
-                        
-                        // INCREASED DELAY: 6 seconds between requests to be safe
-                        await new Promise(r => setTimeout(r, 6000));
                     } catch (imgError) {
+                        if (isAbortError(imgError)) return;
                         console.warn(`Failed to generate ${req.type} image:`, imgError);
                     }
-                }
+                }));
              }
         }
 
         // --- 2. PRACTICAL TAB LOGIC (Legendary Mentor) ---
-        else if (activeTab === 'practical') {
-             if (uploadedImage) { setErrorStatus("يرجى استخدام خانة 'عرض الحالة' لتحليل الصور."); setLoading(false); return; }
+        else if (tab === 'practical') {
+             if (uploadedImages.length > 0) { setErrorStatus("يرجى استخدام خانة 'عرض الحالة' لتحليل الصور."); finishTabRequest(tab, controller); setLoading(false); return; }
              
              setCheckedPracticalSteps([]); // Reset checks
-             
-             // 1. Get the protocol text
-             const result = await generatePracticalContent(userMessage);
-             
-             // Initialize steps with 'pending' status
-             const initialSteps = (result.data.practicalProtocol as PracticalStep[]).map(s => ({
-                ...s,
-                imageStatus: s.visualPrompt ? 'pending' : 'completed' // 'pending' only if there's a prompt
-             }));
-             
-             const dataWithStatus = { ...result.data, practicalProtocol: initialSteps };
-             setPracticalData(dataWithStatus as ClinicalData);
-             
-             setMessages(prev => [...prev, {
-                role: 'assistant',
-                content: `تم استدعاء "المعلم الأسطوري" لشرح: "${userMessage}"`,
-            }]);
-
-            // Release main loading state immediately so user sees text
-            setLoading(false);
-
-             // 2. Generate images for steps SEQUENTIALLY in background
-             (async () => {
-                 const steps = [...initialSteps];
-                 for (let i = 0; i < steps.length; i++) {
-                    if (steps[i].visualPrompt) {
-                        setPracticalData(current => {
-                            if (!current?.practicalProtocol) return current;
-                            const newSteps = [...current.practicalProtocol];
-                            if (newSteps[i].imageStatus === 'pending') {
-                                newSteps[i] = { ...newSteps[i], imageStatus: 'loading' };
-                            }
-                            return { ...current, practicalProtocol: newSteps };
-                        });
-
-                        try {
-                            const img = await generateRealisticDentalImage(steps[i].visualPrompt!, 'CLINICAL');
-                            
-                            setPracticalData(current => {
-                                if (!current?.practicalProtocol) return current;
-                                const newSteps = [...current.practicalProtocol];
-                                newSteps[i] = { 
-                                    ...newSteps[i], 
-                                    imageUrl: img || undefined, 
-                                    imageStatus: img ? 'completed' : 'failed'
-                                };
-                                return { ...current, practicalProtocol: newSteps };
-                            });
-                            
-                            // INCREASED DELAY: 6 seconds between image gens
-                            if (img) await new Promise(r => setTimeout(r, 6000));
-                        } catch (e) {
-                            console.warn(`Failed to generate image for step ${i}`, e);
-                            setPracticalData(current => {
-                                if (!current?.practicalProtocol) return current;
-                                const newSteps = [...current.practicalProtocol];
-                                newSteps[i] = { ...newSteps[i], imageStatus: 'failed' };
-                                return { ...current, practicalProtocol: newSteps };
-                            });
-                        }
+             setPracticalData({ practicalProtocol: [] });
+             setIsStreamingProtocol(true);
+
+             // Each step image is requested as soon as its step has streamed in; the scheduler paces them
+             let stepCount = 0;
+             const stepImageJobs: Promise<void>[] = [];
+
+             const generateStepImage = async (index: number, prompt: string) => {
+                updatePracticalStep(index, step => step.imageStatus === 'pending' ? { imageStatus: 'loading' } : {});
+                try {
+                    const img = await generateRealisticDentalImage(prompt, 'CLINICAL', { ...generationOptions, tab: 'practical' });
+                    if (!isCurrent()) return;
+                    updatePracticalStep(index, () => ({ imageUrl: img || undefined, imageStatus: img ? 'completed' : 'failed' }));
+                } catch (e) {
+                    // Cancelled steps are marked by handleCancel; a superseded protocol is already gone
+                    if (!isCurrent()) return;
+                    console.warn(`Failed to generate image for step ${index}`, e);
+                    updatePracticalStep(index, () => ({ imageStatus: 'failed' }));
+                }
+             };
+
+             try {
+                 const result = await streamPracticalContent(userMessage, (step) => {
+                    if (!isCurrent()) return;
+                    const index = stepCount++;
+                    // 'pending' only if there's a prompt
+                    const pendingStep: PracticalStep = { ...step, imageStatus: step.visualPrompt ? 'pending' : 'completed' };
+                    setPracticalData(current => ({
+                        ...current,
+                        practicalProtocol: [...(current?.practicalProtocol || []), pendingStep]
+                    }));
+                    if (step.visualPrompt) {
+                        stepImageJobs.push(generateStepImage(index, step.visualPrompt));
                     }
-                 }
-             })();
+                 }, generationOptions);
+                 if (!isCurrent()) return;
+                 setCacheStatus(prev => ({ ...prev, practical: result.cache }));
+                 setPromptStamps(prev => ({ ...prev, practical: result.data.promptTemplate }));
+                 setPracticalData(current => ({ ...current, promptTemplate: result.data.promptTemplate }));
+
+                 setMessages(prev => [...prev, {
+                    role: 'assistant',
+                    content: [`تم استدعاء "المعلم الأسطوري" لشرح: "${userMessage}"`, summarizeValidation(result.issues)].filter(Boolean).join('\n\n'),
+                 }]);
+             } finally {
+                 // Remaining step images keep generating in the background; Cancel stays available until they finish
+                 if (requestControllers.current[tab] === controller) setIsStreamingProtocol(false);
+                 setLoading(false);
+                 Promise.allSettled(stepImageJobs).then(() => finishTabRequest(tab, controller));
+             }
              setInput('');
              return; 
         }
 
         // --- 3. GALLERY TAB LOGIC (VISUAL SEARCH) ---
-        else if (activeTab === 'gallery') {
+        else if (tab === 'gallery') {
             setGalleryItems([]); // Clear previous
             
             // 1. Get Prompts and Sources
-            const result = await generateResearchContent(userMessage || (simulationData.data ? "Dental procedures" : "Dentistry"));
+            const result = await generateResearchContent(userMessage || (simulationData.data ? "Dental procedures" : "Dentistry"), generationOptions);
+            if (!isCurrent()) return;
+            setCacheStatus(prev => ({ ...prev, gallery: result.cache }));
+            setPromptStamps(prev => ({ ...prev, gallery: result.promptTemplate }));
             
             // Setup initial skeleton
             const initialItems: GalleryItem[] = result.prompts.map((prompt: string, i: number) => ({
@@ -444,54 +742,47 @@ const App: React.FC = () => {
             
             setLoading(false); // Release input lock
 
-            // 2. Async Image Generation
-            (async () => {
-                const items = [...initialItems];
-                for (let i = 0; i < items.length; i++) {
-                    try {
-                        const img = await generateRealisticDentalImage(items[i].prompt, 'CLINICAL');
-                        
-                        setGalleryItems(current => {
-                            const updated = [...current];
-                            if (updated[i]) {
-                                updated[i] = { 
-                                    ...updated[i], 
-                                    imageUrl: img || undefined, 
-                                    status: img ? 'completed' : 'failed' 
-                                };
-                            }
-                            return updated;
-                        });
-                        
-                        // INCREASED DELAY: 6 seconds between requests
-                        if (img) await new Promise(r => setTimeout(r, 6000));
-                    } catch (e) {
-                         setGalleryItems(current => {
-                            const updated = [...current];
-                            if (updated[i]) updated[i] = { ...updated[i], status: 'failed' };
-                            return updated;
-                        });
-                    }
+            // 2. Async Image Generation (queued together, paced by the request scheduler)
+            const galleryJobs = initialItems.map(async (item, i) => {
+                try {
+                    const img = await generateRealisticDentalImage(item.prompt, 'CLINICAL', { ...generationOptions, tab: 'gallery' });
+                    if (!isCurrent()) return;
+                    
+                    setGalleryItems(current => {
+                        const updated = [...current];
+                        if (updated[i]) {
+                            updated[i] = { 
+                                ...updated[i], 
+                                imageUrl: img || undefined, 
+                                status: img ? 'completed' : 'failed' 
+                            };
+                        }
+                        return updated;
+                    });
+                } catch (e) {
+                     if (!isCurrent()) return;
+                     setGalleryItems(current => {
+                        const updated = [...current];
+                        if (updated[i]) updated[i] = { ...updated[i], status: 'failed' };
+                        return updated;
+                    });
                 }
-            })();
+            });
+            Promise.allSettled(galleryJobs).then(() => finishTabRequest(tab, controller));
             setInput('');
             return;
         }
 
         // --- 4. QUIZ TAB LOGIC ---
-        else if (activeTab === 'quiz') {
+        else if (tab === 'quiz') {
             setQuizData(null);
             setRevealedAnswers({});
 
-            const result = await generateQuizContent(userMessage, quizLanguage, quizCount, quizDifficulty);
-            const rawData = result.data as QuizData;
-
-            // Ensure arrays exist
-            setQuizData({
-                essayQuestions: rawData.essayQuestions || [],
-                shortAnswerQuestions: rawData.shortAnswerQuestions || [],
-                mcqQuestions: rawData.mcqQuestions || []
-            });
+            const result = await generateQuizContent(userMessage, quizLanguage, quizCount, quizDifficulty, generationOptions);
+            if (!isCurrent()) return;
+            setQuizData(result.data);
+            setCacheStatus(prev => ({ ...prev, quiz: result.cache }));
+            setPromptStamps(prev => ({ ...prev, quiz: result.data.promptTemplate }));
 
             const diffLabel = quizDifficulty === 'Intellectual' ? 'الفكري (Critical Thinking)' : 
                               quizDifficulty === 'Hard' ? 'الصعب' : 
@@ -499,7 +790,7 @@ const App: React.FC = () => {
 
             setMessages(prev => [...prev, {
                 role: 'assistant',
-                content: `تم إنشاء بنك أسئلة (${quizCount} لكل نوع) للموضوع: "${userMessage}" باللغة ${quizLanguage === 'ar' ? 'العربية' : 'الإنجليزية'} - المستوى: ${diffLabel}.`,
+                content: [`تم إنشاء بنك أسئلة (${quizCount} لكل نوع) للموضوع: "${userMessage}" باللغة ${quizLanguage === 'ar' ? 'العربية' : 'الإنجليزية'} - المستوى: ${diffLabel}.`, summarizeValidation(result.issues)].filter(Boolean).join('\n\n'),
             }]);
             
             setInput('');
@@ -507,23 +798,24 @@ const App: React.FC = () => {
         }
 
     } catch (error: any) {
-      console.error("Operation Failed:", error);
-      const msg = error?.message || error?.toString() || "Unknown Error";
-      
-      if (msg.toLowerCase().includes("quota") || msg.includes("429")) {
-         setErrorStatus("يرجى المحاولة بعد قليل.");
-      } else if (msg.includes("API_KEY")) {
-         setApiKeyMissing(true);
-         setErrorStatus("خطأ: مفتاح API مفقود. تأكد من إعداد ملف .env بشكل صحيح.");
-      } else {
-         // Show the actual error message for debugging
-         setErrorStatus(`حدث خطأ: ${msg.substring(0, 100)}...`);
-      }
+      // Cancelled requests are reported by handleCancel; superseded ones are silently dropped
+      if (isAbortError(error) || !isCurrent()) return;
+      if (tab === 'gallery') finishTabRequest(tab, controller);
+      // Service errors are already typed; anything else (e.g. a UI bug) is wrapped as unknown
+      const aiError = toAIServiceError(error);
+      console.error("Operation Failed:", aiError, aiError.attempts);
+      if (aiError instanceof AuthError) setConnectionStatus('missing');
+      setRequestError({ error: aiError, retry: { tab, message: userMessage } });
     } finally {
-        if (activeTab !== 'practical' && activeTab !== 'gallery') {
+        // Gallery releases the input itself once its prompts are in; this also covers a failed or cancelled search
+        if (tab !== 'practical') {
            setLoading(false);
         }
+        if (tab === 'simulation' || tab === 'quiz') {
+           finishTabRequest(tab, controller);
+        }
         setInput(''); 
+        refreshCacheStats();
     }
   };
 
@@ -535,12 +827,55 @@ const App: React.FC = () => {
         onDragLeave={onDragLeave}
         onDrop={onDrop}
     >
-      <Header />
+      <Header providerId={providerId} onProviderChange={handleProviderChange} onOpenSettings={() => setSettingsOpen(true)} onOpenUsage={() => setUsageOpen(true)} />
+
+      {settingsOpen && (
+          <SettingsPanel
+            providerId={providerId}
+            connectionStatus={connectionStatus}
+            onProviderChange={handleProviderChange}
+            onRecheck={refreshConnection}
+            onOpenPromptEditor={() => { setSettingsOpen(false); setPromptEditorOpen(true); }}
+            onClose={() => setSettingsOpen(false)}
+          />
+      )}
+
+      {promptEditorOpen && <PromptEditor onClose={() => setPromptEditorOpen(false)} />}
+      {usageOpen && <UsageDashboard onClose={() => setUsageOpen(false)} />}
 
       {/* API Key Missing Banner */}
       {apiKeyMissing && (
           <div className="bg-red-600 text-white text-center py-2 text-sm font-bold sticky top-20 z-50">
-              ⚠️ تنبيه هام: مفتاح API غير مربوط بالموقع. يرجى إضافة VITE_API_KEY في إعدادات الاستضافة (Vercel/Netlify).
+              ⚠️ تنبيه هام: مفتاح API غير مربوط بالموقع. يرجى إضافة GEMINI_API_KEY إلى متغيرات بيئة الخادم (Vercel/Netlify) وتشغيل خادم الـ API محلياً (npm run server).
+              <button
+                onClick={() => handleProviderChange('mock')}
+                className="mr-4 bg-white/20 hover:bg-white/30 px-3 py-0.5 rounded-full text-xs font-black transition-colors"
+              >
+                  تشغيل وضع العرض دون اتصال
+              </button>
+              <button
+                onClick={() => setSettingsOpen(true)}
+                className="mr-2 bg-white/20 hover:bg-white/30 px-3 py-0.5 rounded-full text-xs font-black transition-colors"
+              >
+                  فتح الإعدادات
+              </button>
+          </div>
+      )}
+
+      {/* Daily Budget Banner */}
+      {budgetStatus.level !== 'ok' && (
+          <div className={`${budgetStatus.level === 'exceeded' ? 'bg-rose-700' : 'bg-amber-600'} text-white text-center py-2 text-sm font-bold sticky top-20 z-40`}>
+              {budgetStatus.level === 'warning'
+                ? '⚠️ اقترب الاستهلاك اليومي من الحد المحدد في الميزانية.'
+                : budgetStatus.onLimit === 'block'
+                  ? '⛔ تم بلوغ الحد اليومي: الطلبات الجديدة موقوفة حتى الغد.'
+                  : '⬇️ تم بلوغ الحد اليومي: وضع التخفيض مفعّل (نص فقط، دون صور أو إصلاح تلقائي).'}
+              <button
+                onClick={() => setUsageOpen(true)}
+                className="mr-4 bg-white/20 hover:bg-white/30 px-3 py-0.5 rounded-full text-xs font-black transition-colors"
+              >
+                  لوحة الاستهلاك
+              </button>
           </div>
       )}
 
@@ -630,6 +965,7 @@ const App: React.FC = () => {
             <div className="relative z-10">
               {/* --- SIMULATION VIEW --- */}
               {activeTab === 'simulation' && (
+                <>
                 <div className="animate-in fade-in duration-500" id="simulation-container">
                     <div className="relative group/sim">
                         {/* Simulation Export Buttons (Individual) */}
@@ -658,9 +994,21 @@ const App: React.FC = () => {
                           hotspots={simulationData.data?.hotspots}
                           vitals={simulationData.data?.vitals}
                           riskLevel={simulationData.data?.riskLevel}
+                          instruments={simulationData.data?.requiredInstruments}
+                          isHotspotPinned={isSimulationHotspotPinned}
+                          onHotspotPinToggle={toggleSimulationHotspotPin}
                           examMode={examMode}
+                          examHotspotIdx={examHotspotIdx}
                           analysisResult={simulationData.data?.analysisResult}
                           activeModeOverride={simulationData.data?.analysisResult ? LabMode.ANALYSIS : undefined}
+                          comparisonImages={simulationData.comparisonImages}
+                          comparativeAnalysis={simulationData.data?.comparativeAnalysis}
+                          radiograph={simulationData.radiograph}
+                          toothNotation={toothNotation}
+                          onToothNotationChange={handleToothNotationChange}
+                          blueprint={simulationData.blueprint}
+                          blueprintLoading={blueprintLoading}
+                          onRequestBlueprint={simulationData.topic ? handleLoadBlueprint : undefined}
                         />
                     </div>
                     {!simulationData.url && !loading && (
@@ -676,6 +1024,79 @@ const App: React.FC = () => {
                         </div>
                     )}
                 </div>
+                {/* Hotspot exam */}
+                {simulationData.url && !loading && (simulationData.data?.hotspots?.length || 0) > 0 && (
+                    <div className="mt-8 animate-in fade-in duration-500">
+                        {examMode ? (
+                            <HotspotExam
+                              hotspots={simulationData.data!.hotspots!}
+                              onActiveHotspotChange={setExamHotspotIdx}
+                              onExit={() => setExamMode(false)}
+                            />
+                        ) : (
+                            <button
+                              onClick={() => setExamMode(true)}
+                              className="w-full flex items-center justify-center gap-3 p-4 rounded-2xl border border-amber-500/20 bg-amber-500/5 text-amber-400 text-sm font-black hover:bg-amber-500/10 transition-all"
+                            >
+                              <span>🎯</span> اختبر نفسك على نقاط المحاكاة ({simulationData.data!.hotspots!.length})
+                            </button>
+                        )}
+                    </div>
+                )}
+                {/* Branching case */}
+                {!loading && (
+                    <div className="mt-8 animate-in fade-in duration-500">
+                        {clinicalCase ? (
+                            <CasePlayer clinicalCase={clinicalCase} loadImage={loadCaseImage} onExit={exitCase} />
+                        ) : (
+                            <div className="flex flex-col sm:flex-row gap-3">
+                                <button
+                                  onClick={handleGenerateCase}
+                                  disabled={!caseTopic || caseLoading}
+                                  className="flex-1 flex items-center justify-center gap-3 p-4 rounded-2xl border border-violet-500/20 bg-violet-500/5 text-violet-300 text-sm font-black hover:bg-violet-500/10 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+                                >
+                                  {caseLoading ? (
+                                    <><div className="w-4 h-4 border-2 border-violet-400/40 border-t-violet-300 rounded-full animate-spin"></div> جاري بناء الحالة...</>
+                                  ) : (
+                                    <><span>🧭</span> {caseTopic ? `حالة سريرية متفرعة: "${caseTopic}"` : 'اكتب موضوعاً لبناء حالة سريرية متفرعة'}</>
+                                  )}
+                                </button>
+                                <button
+                                  onClick={() => caseFileInputRef.current?.click()}
+                                  className="flex items-center justify-center gap-2 px-5 py-4 rounded-2xl border border-white/10 bg-white/5 text-slate-400 text-sm font-black hover:text-white transition-all"
+                                >
+                                  📂 استيراد حالة (JSON)
+                                </button>
+                                <input ref={caseFileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleCaseFileImport} />
+                            </div>
+                        )}
+                    </div>
+                )}
+                {/* Odontogram sits outside simulation-container so it is exported as its own PDF page */}
+                {simulationData.url && !loading && (
+                    <div className="mt-8 animate-in fade-in duration-500">
+                        <Odontogram
+                          chart={odontogram}
+                          onChange={setOdontogram}
+                          notation={toothNotation}
+                          onNotationChange={handleToothNotationChange}
+                          findings={simulationData.data?.analysisResult?.toothFindings}
+                          hotspots={simulationData.data?.hotspots}
+                          onExportImage={() => handleExportElement(ODONTOGRAM_ELEMENT_ID, 'odontogram')}
+                          exportingImage={exportingId === ODONTOGRAM_ELEMENT_ID}
+                        />
+                    </div>
+                )}
+                {pinnedHotspots.length > 0 && (
+                    <div className="mt-8 animate-in fade-in duration-500">
+                        <HotspotNotes
+                          pinned={pinnedHotspots}
+                          onNoteChange={(id, note) => setPinnedHotspots(prev => updatePinnedNote(prev, id, note))}
+                          onRemove={(id) => setPinnedHotspots(prev => prev.filter(item => item.id !== id))}
+                        />
+                    </div>
+                )}
+                </>
               )}
 
               {/* --- PRACTICAL VIEW (Legendary Mentor) --- */}
@@ -781,6 +1202,8 @@ const App: React.FC = () => {
                                                 <div className="w-10 h-10 border-4 border-emerald-500 border-t-transparent rounded-full animate-spin"></div>
                                             ) : step.imageStatus === 'failed' ? (
                                                 <span className="text-5xl opacity-40 grayscale">⚠️</span>
+                                            ) : step.imageStatus === 'cancelled' ? (
+                                                <span className="text-5xl opacity-30">⏹️</span>
                                             ) : (
                                                 <span className="text-4xl opacity-20">🖼️</span>
                                             )}
@@ -788,7 +1211,8 @@ const App: React.FC = () => {
                                             <span className={`text-xs font-bold uppercase tracking-widest ${step.imageStatus === 'failed' ? 'text-rose-400' : 'text-slate-600'}`}>
                                                 {step.imageStatus === 'loading' ? "جاري التوليد..." : 
                                                  step.imageStatus === 'pending' ? "في قائمة الانتظار..." :
-                                                 step.imageStatus === 'failed' ? "تعذر إنشاء الصورة (Quota/Error)" : "لا توجد صورة"}
+                                                 step.imageStatus === 'failed' ? "تعذر إنشاء الصورة (Quota/Error)" :
+                                                 step.imageStatus === 'cancelled' ? "تم الإلغاء" : "لا توجد صورة"}
                                             </span>
                                         </div>
                                     )}
@@ -800,6 +1224,14 @@ const App: React.FC = () => {
                          </div>
                       </div>
                     ))}
+                    {isStreamingProtocol && (
+                      <div className="p-10 rounded-[3.5rem] bg-slate-950/60 border border-dashed border-emerald-500/30 flex items-center justify-center gap-4" data-html2canvas-ignore>
+                          <div className="w-6 h-6 border-4 border-emerald-500 border-t-transparent rounded-full animate-spin"></div>
+                          <span className="text-emerald-400 font-bold animate-pulse">
+                              {practicalData.practicalProtocol.length === 0 ? 'المعلم الأسطوري يحضّر الشرح...' : `جاري كتابة الخطوة ${practicalData.practicalProtocol.length + 1}...`}
+                          </span>
+                      </div>
+                    )}
                   </div>
                   </>
                   )}
@@ -856,6 +1288,11 @@ const App: React.FC = () => {
                                                         <span className="text-4xl block mb-2">⚠️</span>
                                                         <span className="text-[10px] text-rose-400 font-bold">فشل العرض</span>
                                                      </div>
+                                                 ) : item.status === 'cancelled' ? (
+                                                     <div className="text-center p-4">
+                                                        <span className="text-4xl block mb-2 opacity-40">⏹️</span>
+                                                        <span className="text-[10px] text-slate-500 font-bold">تم الإلغاء</span>
+                                                     </div>
                                                  ) : (
                                                      <span className="text-4xl opacity-20">🖼️</span>
                                                  )}
@@ -1132,6 +1569,16 @@ const App: React.FC = () => {
                     {activeTab === 'gallery' && 'وحدة البحث البصري'}
                     {activeTab === 'quiz' && 'وحدة الاختبارات'}
                 </p>
+                {cacheStatus[activeTab] && (
+                    <span className={`inline-block mt-3 px-3 py-1 rounded-full text-[9px] font-black uppercase tracking-widest border ${cacheStatus[activeTab] === 'hit' ? 'bg-amber-500/10 text-amber-400 border-amber-500/20' : 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20'}`}>
+                        {cacheStatus[activeTab] === 'hit' ? '⚡ من الذاكرة المؤقتة' : '✨ توليد جديد'}
+                    </span>
+                )}
+                {promptStamps[activeTab] && (
+                    <span className="inline-block mt-3 mr-2 px-3 py-1 rounded-full text-[9px] font-black tracking-widest border bg-blue-500/10 text-blue-300 border-blue-500/20 font-mono" title="إصدار قالب الموجّه">
+                        {stampLabel(promptStamps[activeTab]!)}
+                    </span>
+                )}
               </div>
 
               <div className="flex-1 overflow-y-auto p-10 space-y-10 custom-scrollbar text-right">
@@ -1150,12 +1597,55 @@ const App: React.FC = () => {
               </div>
 
               <div className="p-10 bg-slate-950/80 border-t border-white/10 shadow-[0_-20px_40px_rgba(0,0,0,0.5)]">
-                {uploadedImage && activeTab === 'simulation' && (
-                    <div className="mb-4 relative rounded-2xl overflow-hidden border border-blue-500/30">
-                        <img src={uploadedImage} alt="Preview" className="w-full h-32 object-cover opacity-70" />
-                        <button onClick={() => setUploadedImage(null)} className="absolute top-2 right-2 bg-red-600/80 text-white p-1 rounded-full hover:bg-red-600">
-                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path d="M6 18L18 6M6 6l12 12" strokeWidth={2}/></svg>
-                        </button>
+                {uploadedImages.length > 0 && activeTab === 'simulation' && (
+                    <div className="mb-4 space-y-3">
+                        <div className={`grid gap-3 ${uploadedImages.length > 1 ? 'grid-cols-2' : 'grid-cols-1'}`}>
+                            {uploadedImages.map((image, idx) => (
+                                <div key={idx} className="relative rounded-2xl overflow-hidden border border-blue-500/30">
+                                    <img src={image.dataUrl} alt={image.label} className="w-full h-32 object-cover opacity-70" />
+                                    {image.radiograph && (
+                                        <div className="absolute top-2 left-2 flex flex-col items-start gap-1">
+                                            <span className="bg-black/70 text-blue-300 text-[9px] font-black px-2 py-0.5 rounded" title={describeRadiograph(image.radiograph.metadata).join(' · ')}>
+                                                {describeRadiograph(image.radiograph.metadata)[0]}
+                                            </span>
+                                            {image.radiograph.metadata.removedTags.length > 0 && (
+                                                <span className="bg-black/70 text-emerald-400 text-[9px] font-black px-2 py-0.5 rounded" title={image.radiograph.metadata.removedTags.join(', ')}>
+                                                    تمت إزالة {image.radiograph.metadata.removedTags.length} بيانات تعريفية
+                                                </span>
+                                            )}
+                                            {image.radiograph.metadata.burnedInAnnotation && (
+                                                <span className="bg-black/70 text-amber-400 text-[9px] font-black px-2 py-0.5 rounded">قد تحتوي الصورة على بيانات مطبوعة للمريض</span>
+                                            )}
+                                        </div>
+                                    )}
+                                    <button onClick={() => setUploadedImages(prev => prev.filter((_, i) => i !== idx))} className="absolute top-2 right-2 bg-red-600/80 text-white p-1 rounded-full hover:bg-red-600">
+                                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path d="M6 18L18 6M6 6l12 12" strokeWidth={2}/></svg>
+                                    </button>
+                                    {uploadedImages.length > 1 && (
+                                        <input
+                                            type="text"
+                                            value={image.label}
+                                            onChange={(e) => setUploadedImages(prev => prev.map((item, i) => i === idx ? { ...item, label: e.target.value } : item))}
+                                            className="absolute bottom-0 left-0 right-0 bg-black/70 text-white text-xs font-bold px-3 py-2 outline-none text-right"
+                                            placeholder="وسم الصورة"
+                                        />
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                        {uploadedImages.length > 1 && (
+                            <div className="flex items-center gap-2 text-[10px] font-black">
+                                <span className="text-slate-500">وسوم جاهزة:</span>
+                                {COMPARISON_PRESETS.map(preset => (
+                                    <button key={preset.title} onClick={() => applyComparisonPreset(preset.labels)} className="px-3 py-1 rounded-lg border border-white/10 bg-white/5 text-slate-300 hover:border-blue-500/40">
+                                        {preset.title}
+                                    </button>
+                                ))}
+                                {uploadedImages.length < MAX_COMPARISON_IMAGES && (
+                                    <span className="text-slate-600 mr-auto">حتى {MAX_COMPARISON_IMAGES} صور</span>
+                                )}
+                            </div>
+                        )}
                     </div>
                 )}
                 <div className="relative">
@@ -1164,10 +1654,10 @@ const App: React.FC = () => {
                     value={input}
                     onChange={(e) => setInput(e.target.value)}
                     onKeyPress={(e) => e.key === 'Enter' && handleConvert()}
-                    placeholder={uploadedImage ? "تم إرفاق صورة..." : `اكتب الموضوع لـ ${activeTab === 'simulation' ? 'المحاكاة' : activeTab === 'practical' ? 'البروتوكول' : activeTab === 'quiz' ? 'الاختبار' : 'البحث'}...`}
-                    className="w-full bg-slate-900 border-2 border-white/5 rounded-[2.5rem] pl-20 pr-16 py-7 text-sm font-bold focus:border-blue-600 outline-none transition-all shadow-2xl text-right placeholder:text-slate-700"
+                    placeholder={uploadedImages.length > 1 ? `تم إرفاق ${uploadedImages.length} صور للمقارنة...` : uploadedImages.length === 1 ? "تم إرفاق صورة..." : `اكتب الموضوع لـ ${activeTab === 'simulation' ? 'المحاكاة' : activeTab === 'practical' ? 'البروتوكول' : activeTab === 'quiz' ? 'الاختبار' : 'البحث'}...`}
+                    className={`w-full bg-slate-900 border-2 border-white/5 rounded-[2.5rem] ${busyTabs[activeTab] ? 'pl-52' : 'pl-20'} pr-16 py-7 text-sm font-bold focus:border-blue-600 outline-none transition-all shadow-2xl text-right placeholder:text-slate-700`}
                   />
-                  <input type="file" ref={fileInputRef} onChange={handleImageUpload} accept="image/*" className="hidden" />
+                  <input type="file" ref={fileInputRef} onChange={handleImageUpload} accept={IMAGE_FILE_ACCEPT} multiple className="hidden" />
                   <button
                     onClick={() => fileInputRef.current?.click()}
                     className={`absolute right-4 top-4 bottom-4 transition-colors px-2 ${activeTab === 'simulation' ? 'text-slate-400 hover:text-blue-400' : 'text-slate-700 cursor-not-allowed'}`}
@@ -1177,8 +1667,8 @@ const App: React.FC = () => {
                      <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2-2v12a2 2 0 002 2z" strokeWidth={2}/></svg>
                   </button>
                   <button 
-                    onClick={handleConvert}
-                    disabled={loading || (!input.trim() && !uploadedImage)}
+                    onClick={() => handleConvert()}
+                    disabled={loading || (!input.trim() && uploadedImages.length === 0)}
                     className="absolute left-4 top-4 bottom-4 bg-blue-600 text-white px-8 rounded-[1.8rem] hover:bg-blue-700 disabled:opacity-20 transition-all shadow-xl active:scale-95 flex items-center justify-center min-w-[80px]"
                   >
                     {loading ? (
@@ -1187,12 +1677,54 @@ const App: React.FC = () => {
                        <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path d="M13 10V3L4 14h7v7l9-11h-7z" strokeWidth={3}/></svg>
                     )}
                   </button>
+                  {busyTabs[activeTab] && (
+                    <button
+                      onClick={handleCancel}
+                      className="absolute left-28 top-4 bottom-4 bg-rose-600/20 border border-rose-500/40 text-rose-300 px-4 rounded-[1.8rem] hover:bg-rose-600/40 transition-all active:scale-95 flex items-center gap-2 text-[10px] font-black uppercase tracking-widest"
+                      title="إيقاف الطلب الحالي وتوليد الصور المتبقية"
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path d="M6 18L18 6M6 6l12 12" strokeWidth={3}/></svg>
+                      إلغاء
+                    </button>
+                  )}
+                </div>
+                <div className="flex flex-wrap justify-end gap-2 mt-3">
+                  <button
+                    onClick={handleClearCache}
+                    className="text-[9px] font-black uppercase tracking-widest px-3 py-1 rounded-lg border bg-white/5 border-white/10 text-slate-500 hover:text-white transition-all"
+                    title="حذف جميع النتائج المحفوظة"
+                  >
+                    مسح الذاكرة المؤقتة ({cacheStats.entries} · {(cacheStats.bytes / (1024 * 1024)).toFixed(1)} MB)
+                  </button>
+                  <button
+                    onClick={() => setForceRegenerate(!forceRegenerate)}
+                    className={`text-[9px] font-black uppercase tracking-widest px-3 py-1 rounded-lg border transition-all ${forceRegenerate ? 'bg-amber-600/20 border-amber-500/40 text-amber-300' : 'bg-white/5 border-white/10 text-slate-500'}`}
+                    title="تجاهل النتائج المحفوظة وإعادة التوليد في الطلب القادم"
+                  >
+                    إعادة التوليد الإجباري: {forceRegenerate ? 'مفعّل' : 'معطّل'}
+                  </button>
+                  <button
+                    onClick={() => setAutoRepair(!autoRepair)}
+                    className={`text-[9px] font-black uppercase tracking-widest px-3 py-1 rounded-lg border transition-all ${autoRepair ? 'bg-blue-600/20 border-blue-500/40 text-blue-300' : 'bg-white/5 border-white/10 text-slate-500'}`}
+                    title="اطلب من النموذج إصلاح العناصر غير الصالحة بدلاً من تجاهلها"
+                  >
+                    الإصلاح التلقائي للاستجابات: {autoRepair ? 'مفعّل' : 'معطّل'}
+                  </button>
                 </div>
                 {errorStatus && (
                   <div className="bg-rose-600/10 border border-rose-500/20 p-4 rounded-2xl mt-4 animate-bounce">
                     <p className="text-rose-400 text-[10px] font-black text-center">{errorStatus}</p>
                   </div>
                 )}
+                {requestError && (
+                  <ErrorNotice
+                    error={requestError.error}
+                    onRetry={() => handleConvert(requestError.retry)}
+                    onOpenSettings={() => setSettingsOpen(true)}
+                    onOpenUsage={() => setUsageOpen(true)}
+                    onDismiss={() => setRequestError(null)}
+                  />
+                )}
               </div>
            </div>
         </section>
@@ -0,0 +1,11 @@
+import { clientIdFromHeader, handleApiRequest } from "../server/api";
+
+// Vercel Function entry; vercel.json rewrites /api/<route> to /api?route=<route>.
+// Set GEMINI_API_KEY in the project's environment variables, not in a VITE_ variable.
+
+// Vercel replaces x-vercel-forwarded-for with the address of the connecting client
+const handle = (request: Request) => handleApiRequest(request, clientIdFromHeader(request.headers, 'x-vercel-forwarded-for'));
+
+export const GET = handle;
+export const POST = handle;
+export const OPTIONS = handle;
@@ -0,0 +1,255 @@
+import React, { memo, useEffect, useMemo, useRef, useState } from 'react';
+import { CaseChoice, CaseChoiceQuality, CaseOutcome, CaseRun, ClinicalCase } from '../types';
+import {
+  CASE_OUTCOME_LABELS, CHOICE_QUALITY_LABELS, ComparedStep, caseNode, choose, comparePaths, exportCaseFile, isEndNode,
+  loadCaseRuns, recordCaseRun, startPath
+} from '../services/caseEngine';
+import { createMonitor, currentVitals, vitalAlarms } from '../services/physiology';
+import HotspotDetailDrawer from './HotspotDetailDrawer';
+
+interface CasePlayerProps {
+  clinicalCase: ClinicalCase;
+  // Node images are generated when the node is first reached
+  loadImage: (prompt: string, signal: AbortSignal) => Promise<string | null>;
+  onExit: () => void;
+}
+
+const QUALITY_CLASS: Record<CaseChoiceQuality, string> = {
+  OPTIMAL: 'text-emerald-300 bg-emerald-500/10 border-emerald-500/30',
+  ACCEPTABLE: 'text-blue-300 bg-blue-500/10 border-blue-500/30',
+  POOR: 'text-amber-300 bg-amber-500/10 border-amber-500/30',
+  HARMFUL: 'text-red-300 bg-red-500/10 border-red-500/30',
+};
+
+const OUTCOME_CLASS: Record<CaseOutcome, string> = {
+  GOOD: 'text-emerald-300 bg-emerald-500/10 border-emerald-500/30',
+  FAIR: 'text-amber-300 bg-amber-500/10 border-amber-500/30',
+  POOR: 'text-red-300 bg-red-500/10 border-red-500/30',
+};
+
+// Plays a branching case: each choice leads to the next clinical state with feedback; the end
+// screen compares the student's path with the optimal one and keeps the attempt.
+const CasePlayer: React.FC<CasePlayerProps> = ({ clinicalCase, loadImage, onExit }) => {
+  const [path, setPath] = useState(() => startPath(clinicalCase));
+  const [lastChoice, setLastChoice] = useState<CaseChoice | null>(null);
+  // undefined = not generated yet, null = generation failed
+  const [images, setImages] = useState<Record<string, string | null>>({});
+  const [selectedHotspotIdx, setSelectedHotspotIdx] = useState<number | null>(null);
+  const [runs, setRuns] = useState<CaseRun[]>(loadCaseRuns);
+  const recordedPath = useRef<typeof path | null>(null);
+
+  // A new case starts from its first state
+  useEffect(() => {
+    setPath(startPath(clinicalCase));
+    setLastChoice(null);
+    setImages({});
+    setSelectedHotspotIdx(null);
+  }, [clinicalCase]);
+
+  const node = caseNode(clinicalCase, path[path.length - 1].nodeId);
+  const finished = !!node && isEndNode(node);
+
+  useEffect(() => {
+    if (!node || node.id in images) return;
+    const controller = new AbortController();
+    loadImage(node.imagePrompt, controller.signal)
+      .then(image => setImages(prev => ({ ...prev, [node.id]: image })))
+      .catch(() => {
+        if (!controller.signal.aborted) setImages(prev => ({ ...prev, [node.id]: null }));
+      });
+    return () => controller.abort();
+  }, [node?.id, loadImage]);
+
+  useEffect(() => {
+    if (!finished || recordedPath.current === path) return;
+    recordedPath.current = path;
+    setRuns(recordCaseRun(clinicalCase, path));
+  }, [finished, path, clinicalCase]);
+
+  const comparison = useMemo(() => (finished ? comparePaths(clinicalCase, path) : null), [finished, clinicalCase, path]);
+  const previousRuns = runs.filter(run => run.caseId === clinicalCase.id);
+
+  const handleChoose = (choice: CaseChoice) => {
+    setLastChoice(choice);
+    setSelectedHotspotIdx(null);
+    setPath(prev => choose(prev, choice));
+  };
+
+  const handleRestart = () => {
+    setPath(startPath(clinicalCase));
+    setLastChoice(null);
+    setSelectedHotspotIdx(null);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportCaseFile(clinicalCase)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `dentalbrain-case-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  if (!node) return null;
+
+  const image = images[node.id];
+  const vitals = node.vitals && currentVitals(createMonitor(node.vitals));
+  const alarms = vitals ? vitalAlarms(vitals) : [];
+  const vitalClass = (vital: string) => {
+    const alarm = alarms.find(item => item.vital === vital);
+    return alarm ? (alarm.level === 'CRITICAL' ? 'text-red-400' : 'text-amber-400') : 'text-emerald-400';
+  };
+
+  const renderSteps = (steps: ComparedStep[], title: string, divergedAt?: number) => (
+    <div className="bg-black/30 border border-white/5 rounded-xl p-4 space-y-2">
+      <span className="block text-[10px] font-black uppercase tracking-widest text-slate-500">{title}</span>
+      <ol className="space-y-2">
+        {steps.map((step, idx) => (
+          <li key={`${step.node.id}-${idx}`} className={`rounded-lg p-2 ${idx === divergedAt ? 'bg-red-500/10 border border-red-500/30' : ''}`}>
+            <span className="block text-xs font-black text-white">{idx + 1}. {step.node.title}</span>
+            {step.choice ? (
+              <span className={`inline-block mt-1 text-[11px] font-bold px-2 py-0.5 rounded border ${QUALITY_CLASS[step.choice.quality]}`}>
+                {step.best ? '✓ ' : ''}{step.choice.label}
+              </span>
+            ) : step.node.outcome && (
+              <span className={`inline-block mt-1 text-[11px] font-bold px-2 py-0.5 rounded border ${OUTCOME_CLASS[step.node.outcome]}`}>
+                {CASE_OUTCOME_LABELS[step.node.outcome]}
+              </span>
+            )}
+            {idx === divergedAt && <span className="block mt-1 text-[10px] font-black text-red-400">هنا ابتعدت عن المسار الأمثل</span>}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+
+  return (
+    <div className="bg-slate-900/60 border border-violet-500/20 rounded-[2rem] p-6 space-y-5" dir="rtl">
+      {/* Header */}
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <span className="block text-[10px] font-black uppercase tracking-widest text-violet-400">
+            🧭 حالة متفرعة{clinicalCase.source === 'FILE' ? ' · ملف مدرّس' : ''} · المرحلة {path.length}
+          </span>
+          <h3 className="text-lg font-black text-white">{clinicalCase.title}</h3>
+          {clinicalCase.summary && path.length === 1 && <p className="text-sm text-slate-400 leading-relaxed mt-1">{clinicalCase.summary}</p>}
+        </div>
+        <div className="flex items-center gap-2 text-[10px] font-black">
+          <button onClick={handleExport} className="px-3 py-1.5 rounded-lg border bg-white/5 border-white/10 text-slate-400 hover:text-white" title="تصدير للتعديل أو المشاركة">تصدير JSON</button>
+          <button onClick={handleRestart} className="px-3 py-1.5 rounded-lg border bg-white/5 border-white/10 text-slate-400 hover:text-white">↺ من البداية</button>
+          <button onClick={onExit} className="px-3 py-1.5 rounded-lg border bg-white/5 border-white/10 text-slate-400 hover:text-white">✕ إنهاء</button>
+        </div>
+      </div>
+
+      {/* Feedback on the previous decision */}
+      {lastChoice && (
+        <div className={`rounded-xl border p-4 animate-in fade-in duration-300 ${QUALITY_CLASS[lastChoice.quality]}`}>
+          <span className="block text-[10px] font-black mb-1">{CHOICE_QUALITY_LABELS[lastChoice.quality]}: {lastChoice.label}</span>
+          {lastChoice.feedback && <p className="text-sm leading-relaxed text-slate-200">{lastChoice.feedback}</p>}
+        </div>
+      )}
+
+      {/* Current clinical state */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-5">
+        <div className="relative aspect-video rounded-2xl overflow-hidden bg-black/40 border border-white/5">
+          {image === undefined ? (
+            <div className="absolute inset-0 flex items-center justify-center">
+              <div className="w-8 h-8 border-2 border-violet-500/40 border-t-violet-400 rounded-full animate-spin"></div>
+            </div>
+          ) : image === null ? (
+            <div className="absolute inset-0 flex items-center justify-center text-xs font-bold text-slate-500">تعذر توليد صورة هذه المرحلة</div>
+          ) : (
+            <img src={image} alt={node.title} className="w-full h-full object-cover" />
+          )}
+          {node.hotspots.map((spot, idx) => (
+            <button
+              key={idx}
+              onClick={() => setSelectedHotspotIdx(idx === selectedHotspotIdx ? null : idx)}
+              className={`absolute -translate-x-1/2 -translate-y-1/2 w-7 h-7 rounded-full border-2 border-white text-[10px] font-black text-white transition-all ${idx === selectedHotspotIdx ? 'bg-violet-600 scale-125' : 'bg-blue-600/80 hover:scale-110'}`}
+              style={{ left: `${spot.x}%`, top: `${spot.y}%` }}
+              title={spot.label}
+            >
+              {idx + 1}
+            </button>
+          ))}
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <h4 className="text-base font-black text-white mb-1">{node.title}</h4>
+            <p className="text-sm text-slate-300 leading-relaxed">{node.narrative}</p>
+          </div>
+          {vitals && (
+            <div className="grid grid-cols-3 gap-2 font-mono text-center" dir="ltr">
+              <div className="bg-black/40 rounded-xl p-2">
+                <span className="block text-[9px] font-black text-slate-500">HR</span>
+                <span className={`text-lg font-black ${vitalClass('heartRate')}`}>{Math.round(vitals.heartRate)}</span>
+              </div>
+              <div className="bg-black/40 rounded-xl p-2">
+                <span className="block text-[9px] font-black text-slate-500">BP</span>
+                <span className={`text-lg font-black ${vitalClass('systolic')}`}>{Math.round(vitals.systolic)}/{Math.round(vitals.diastolic)}</span>
+              </div>
+              <div className="bg-black/40 rounded-xl p-2">
+                <span className="block text-[9px] font-black text-slate-500">SpO₂</span>
+                <span className={`text-lg font-black ${vitalClass('oxygenSaturation')}`}>{Math.round(vitals.oxygenSaturation)}%</span>
+              </div>
+            </div>
+          )}
+          {alarms.length > 0 && (
+            <p className="text-[11px] font-bold text-amber-400" role="alert">⚠️ {alarms.map(alarm => alarm.message).join(' · ')}</p>
+          )}
+
+          {!finished && (
+            <div className="space-y-2">
+              <span className="block text-[10px] font-black uppercase tracking-widest text-slate-500">ما قرارك؟</span>
+              {node.choices.map(choice => (
+                <button
+                  key={choice.id}
+                  onClick={() => handleChoose(choice)}
+                  className="w-full text-right px-4 py-3 rounded-xl border border-white/10 bg-white/5 text-sm font-bold text-slate-200 hover:bg-violet-600/20 hover:border-violet-500/40 transition-all"
+                >
+                  {choice.label}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {selectedHotspotIdx !== null && (
+        <HotspotDetailDrawer
+          hotspots={node.hotspots}
+          selectedIdx={selectedHotspotIdx}
+          onSelect={setSelectedHotspotIdx}
+          onClose={() => setSelectedHotspotIdx(null)}
+        />
+      )}
+
+      {/* End screen: the student's path next to the optimal one */}
+      {comparison && (
+        <div className="space-y-4 border-t border-white/10 pt-5 animate-in fade-in duration-500">
+          <div className="flex flex-wrap items-center gap-3">
+            {comparison.outcome && (
+              <span className={`text-sm font-black px-3 py-1 rounded-lg border ${OUTCOME_CLASS[comparison.outcome]}`}>{CASE_OUTCOME_LABELS[comparison.outcome]}</span>
+            )}
+            <span className="text-sm font-black text-white">النقاط: <span dir="ltr">{comparison.score} / {comparison.maxScore}</span></span>
+            {comparison.harmfulChoices > 0 && <span className="text-xs font-black text-red-400">{comparison.harmfulChoices} قرار ضار</span>}
+            {previousRuns.length > 1 && (
+              <span className="text-xs font-bold text-slate-500">
+                المحاولة {previousRuns.length} · أفضل نتيجة <span dir="ltr">{Math.max(...previousRuns.map(run => run.score))}</span>
+              </span>
+            )}
+          </div>
+          {comparison.divergedAt === undefined && <p className="text-sm font-bold text-emerald-400">اتبعت المسار الأمثل في كل القرارات.</p>}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {renderSteps(comparison.played, 'مسارك', comparison.divergedAt)}
+            {renderSteps(comparison.optimal, 'المسار الأمثل')}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default memo(CasePlayer);
@@ -0,0 +1,190 @@
+import React, { memo, useMemo, useState } from 'react';
+import { ComparativeAnalysisResult, ComparisonTrend, DangerZone, LabeledImage, ToothNotation } from '../types';
+import ToothFindings from './ToothFindings';
+
+interface ComparisonViewProps {
+  images: LabeledImage[];
+  result: ComparativeAnalysisResult;
+  toothNotation: ToothNotation;
+  onToothNotationChange: (notation: ToothNotation) => void;
+}
+
+type RiskFilter = 'ALL' | DangerZone['riskLevel'];
+
+const TREND_STYLES: Record<ComparisonTrend, { label: string; className: string }> = {
+  IMPROVED: { label: 'تحسّن', className: 'bg-emerald-500/10 border-emerald-500/30 text-emerald-400' },
+  STABLE: { label: 'مستقر', className: 'bg-blue-500/10 border-blue-500/30 text-blue-400' },
+  WORSENED: { label: 'تراجع', className: 'bg-red-500/10 border-red-500/30 text-red-400' },
+  NOT_APPLICABLE: { label: 'مقارنة ثنائية الجانب', className: 'bg-slate-500/10 border-slate-500/30 text-slate-400' },
+};
+
+const RISK_COLORS: Record<DangerZone['riskLevel'], string> = {
+  HIGH: 'border-red-500 bg-red-500/20 text-red-400',
+  MODERATE: 'border-amber-500 bg-amber-500/20 text-amber-400',
+  LOW: 'border-emerald-500 bg-emerald-500/20 text-emerald-400',
+};
+
+const GRID_COLUMNS: Record<number, string> = { 2: 'md:grid-cols-2', 3: 'md:grid-cols-3', 4: 'md:grid-cols-2' };
+
+// Zones are synchronized across images by name: the model is asked to reuse names for the same structure
+const zoneKey = (zone: DangerZone) => zone.name.trim().toLowerCase();
+
+const ComparisonView: React.FC<ComparisonViewProps> = ({ images, result, toothNotation, onToothNotationChange }) => {
+  const [hoveredZone, setHoveredZone] = useState<string | null>(null);
+  const [pinnedZone, setPinnedZone] = useState<string | null>(null);
+  const [showOverlays, setShowOverlays] = useState(true);
+  const [riskFilter, setRiskFilter] = useState<RiskFilter>('ALL');
+  const activeZone = hoveredZone ?? pinnedZone;
+
+  // 1. One row per zone name, one cell per image
+  const zoneRows = useMemo(() => {
+    const rows = new Map<string, { name: string; cells: (DangerZone | undefined)[] }>();
+    result.images.forEach(({ analysis }, imageIdx) => {
+      analysis.dangerZones.forEach(zone => {
+        const key = zoneKey(zone);
+        if (!rows.has(key)) rows.set(key, { name: zone.name, cells: result.images.map(() => undefined) });
+        rows.get(key)!.cells[imageIdx] = zone;
+      });
+    });
+    return Array.from(rows, ([key, row]) => ({ key, ...row }));
+  }, [result]);
+
+  const isVisible = (zone: DangerZone) => riskFilter === 'ALL' || zone.riskLevel === riskFilter;
+  const trend = TREND_STYLES[result.comparison.trend];
+
+  return (
+    <div className="flex flex-col gap-6 w-full" dir="rtl">
+      {/* 2. Shared overlay controls */}
+      <div className="flex flex-wrap items-center justify-between gap-3 bg-slate-900/60 border border-white/10 rounded-2xl px-5 py-3">
+        <div className="flex items-center gap-2">
+          {(['ALL', 'HIGH', 'MODERATE', 'LOW'] as RiskFilter[]).map(level => (
+            <button
+              key={level}
+              onClick={() => setRiskFilter(level)}
+              className={`text-[9px] font-black uppercase tracking-widest px-3 py-1.5 rounded-lg border transition-all ${riskFilter === level ? 'bg-blue-600 border-white text-white' : 'bg-white/5 border-white/10 text-slate-400'}`}
+            >
+              {level === 'ALL' ? 'كل المناطق' : level}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={() => setShowOverlays(!showOverlays)}
+          className={`text-[9px] font-black uppercase tracking-widest px-4 py-1.5 rounded-lg border transition-all ${showOverlays ? 'bg-red-600 border-white text-white' : 'bg-white/5 border-white/10 text-slate-400'}`}
+        >
+          مناطق الخطر
+        </button>
+      </div>
+
+      {/* 3. Side-by-side images; boxes are percentages of each image, so the image keeps its own aspect ratio */}
+      <div className={`grid grid-cols-1 ${GRID_COLUMNS[images.length] || 'md:grid-cols-2'} gap-4`}>
+        {images.map((image, imageIdx) => {
+          const analysis = result.images[imageIdx]?.analysis;
+          return (
+            <div key={imageIdx} className="bg-black rounded-[2rem] overflow-hidden border-4 border-slate-800 shadow-2xl">
+              <div className="flex items-center justify-between px-5 py-3 bg-slate-900/80 border-b border-white/10">
+                <span className="text-sm font-black text-white">{image.label}</span>
+                {analysis && !analysis.isHighQuality && (
+                  <span className="text-[9px] font-black text-amber-400 bg-amber-500/10 border border-amber-500/30 px-2 py-0.5 rounded" title={analysis.rejectionReason}>جودة منخفضة</span>
+                )}
+              </div>
+              <div className="relative">
+                <img src={image.dataUrl} className="w-full h-auto block" alt={image.label} />
+                {showOverlays && analysis?.dangerZones.filter(isVisible).map((zone, idx) => {
+                  const key = zoneKey(zone);
+                  const highlighted = activeZone === key;
+                  return (
+                    <div
+                      key={idx}
+                      onMouseEnter={() => setHoveredZone(key)}
+                      onMouseLeave={() => setHoveredZone(null)}
+                      onClick={() => setPinnedZone(pinnedZone === key ? null : key)}
+                      className={`absolute z-20 border-2 rounded-lg cursor-pointer transition-all ${RISK_COLORS[zone.riskLevel]} ${highlighted ? 'ring-4 ring-white/60 opacity-100' : activeZone ? 'opacity-25' : 'opacity-80'}`}
+                      style={{
+                        top: `${zone.box.ymin}%`,
+                        left: `${zone.box.xmin}%`,
+                        width: `${zone.box.xmax - zone.box.xmin}%`,
+                        height: `${zone.box.ymax - zone.box.ymin}%`
+                      }}
+                    >
+                      <div className="absolute -top-6 left-1/2 -translate-x-1/2 bg-black/80 text-white text-[9px] font-black px-2 py-0.5 rounded whitespace-nowrap">
+                        {zone.name} ({zone.riskLevel})
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+              {analysis && (
+                <details className="px-5 py-3 bg-slate-900/60 border-t border-white/10">
+                  <summary className="text-[10px] font-black text-slate-400 cursor-pointer">نتائج الصورة</summary>
+                  <p className="text-xs text-slate-300 leading-relaxed mt-2 whitespace-pre-line">{analysis.detailedClinicalAnalysis}</p>
+                  <div className="mt-3">
+                    <ToothFindings findings={analysis.toothFindings} notation={toothNotation} onNotationChange={onToothNotationChange} />
+                  </div>
+                </details>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* 4. Zone matrix: hovering or pinning a row highlights that zone in every image */}
+      {zoneRows.length > 0 && (
+        <div className="bg-slate-900/60 border border-white/10 rounded-2xl overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-slate-500 text-[10px] font-black">
+                <th className="text-right px-4 py-3">المنطقة</th>
+                {images.map((image, idx) => <th key={idx} className="text-center px-4 py-3">{image.label}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {zoneRows.map(row => (
+                <tr
+                  key={row.key}
+                  onMouseEnter={() => setHoveredZone(row.key)}
+                  onMouseLeave={() => setHoveredZone(null)}
+                  onClick={() => setPinnedZone(pinnedZone === row.key ? null : row.key)}
+                  className={`border-t border-white/5 cursor-pointer transition-colors ${activeZone === row.key ? 'bg-blue-600/20' : 'hover:bg-white/5'}`}
+                >
+                  <td className="px-4 py-2 font-bold text-white">{row.name}</td>
+                  {row.cells.map((zone, idx) => (
+                    <td key={idx} className="px-4 py-2 text-center">
+                      {zone ? (
+                        <span className={`text-[9px] font-black px-2 py-0.5 rounded border ${RISK_COLORS[zone.riskLevel]}`} title={zone.description}>{zone.riskLevel}</span>
+                      ) : (
+                        <span className="text-slate-600">—</span>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* 5. Comparison */}
+      <div className="bg-slate-900/60 border border-white/10 rounded-[2rem] p-6 space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <h3 className="text-lg font-black text-white">المقارنة</h3>
+          <span className={`text-[10px] font-black px-3 py-1 rounded-full border ${trend.className}`}>{trend.label}</span>
+        </div>
+        <p className="text-sm text-slate-300 leading-relaxed">{result.comparison.summary}</p>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          {[
+            { title: 'تغيرات الآفات', text: result.comparison.lesionChanges },
+            { title: 'نتيجة الترميم', text: result.comparison.restorationOutcome },
+            { title: 'تغير مستوى العظم', text: result.comparison.boneLevelChange },
+          ].map(section => (
+            <div key={section.title} className="bg-black/30 border border-white/5 rounded-xl p-4">
+              <h4 className="text-[10px] font-black text-blue-400 mb-2">{section.title}</h4>
+              <p className="text-xs text-slate-300 leading-relaxed">{section.text}</p>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default memo(ComparisonView);
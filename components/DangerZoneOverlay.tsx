@@ -0,0 +1,161 @@
+import React, { memo, useRef } from 'react';
+import { DangerZone } from '../types';
+import { ResizeHandle, ZoneBox, isUsableBox, moveBox, normalizeBox, resizeBox } from '../services/annotations';
+import { ViewTransform } from '../services/viewTransform';
+import FittedImageLayer from './FittedImageLayer';
+
+interface DangerZoneOverlayProps {
+  zones: DangerZone[];
+  // Natural size of the displayed image; the overlay is fitted to it like `object-contain`
+  imageSize: { width: number; height: number };
+  view?: ViewTransform;
+  editing: boolean;
+  selectedIdx: number | null;
+  onSelect: (idx: number | null) => void;
+  // Live update while dragging (no undo step)
+  onPreview: (zones: DangerZone[]) => void;
+  // Finished edit; `previous` is the state before the drag started
+  onCommit: (zones: DangerZone[], previous: DangerZone[]) => void;
+}
+
+type DragState =
+  | { mode: 'move'; idx: number; startX: number; startY: number; snapshot: DangerZone[] }
+  | { mode: 'resize'; idx: number; handle: ResizeHandle; startX: number; startY: number; snapshot: DangerZone[] }
+  | { mode: 'draw'; originX: number; originY: number; snapshot: DangerZone[] };
+
+const RISK_STYLES: Record<DangerZone['riskLevel'], { box: string; label: string }> = {
+  HIGH: { box: 'border-red-500/70 bg-red-500/20 shadow-[0_0_20px_rgba(239,68,68,0.3)]', label: 'bg-red-600' },
+  MODERATE: { box: 'border-amber-500/70 bg-amber-500/20 shadow-[0_0_20px_rgba(245,158,11,0.3)]', label: 'bg-amber-600' },
+  LOW: { box: 'border-emerald-500/70 bg-emerald-500/20 shadow-[0_0_20px_rgba(16,185,129,0.3)]', label: 'bg-emerald-600' },
+};
+
+const HANDLES: { id: ResizeHandle; className: string }[] = [
+  { id: 'nw', className: '-top-1.5 -left-1.5 cursor-nwse-resize' },
+  { id: 'ne', className: '-top-1.5 -right-1.5 cursor-nesw-resize' },
+  { id: 'sw', className: '-bottom-1.5 -left-1.5 cursor-nesw-resize' },
+  { id: 'se', className: '-bottom-1.5 -right-1.5 cursor-nwse-resize' },
+];
+
+const NEW_ZONE: Omit<DangerZone, 'box'> = { name: 'منطقة جديدة', riskLevel: 'MODERATE', description: '' };
+
+const DangerZoneOverlay: React.FC<DangerZoneOverlayProps> = ({ zones, imageSize, view, editing, selectedIdx, onSelect, onPreview, onCommit }) => {
+  const imageRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+
+  // 1. Pointer handling, in percent of the image
+  const toPercent = (clientX: number, clientY: number) => {
+    const rect = imageRef.current!.getBoundingClientRect();
+    return { x: ((clientX - rect.left) / rect.width) * 100, y: ((clientY - rect.top) / rect.height) * 100 };
+  };
+
+  const withBox = (list: DangerZone[], idx: number, box: ZoneBox) => list.map((zone, i) => (i === idx ? { ...zone, box } : zone));
+
+  const startDrag = (e: React.PointerEvent, state: DragState) => {
+    if (!editing || e.button !== 0) return;
+    e.stopPropagation();
+    e.preventDefault();
+    dragRef.current = state;
+    imageRef.current?.setPointerCapture(e.pointerId);
+  };
+
+  const handleBoxPointerDown = (e: React.PointerEvent, idx: number) => {
+    onSelect(idx);
+    const { x, y } = toPercent(e.clientX, e.clientY);
+    startDrag(e, { mode: 'move', idx, startX: x, startY: y, snapshot: zones });
+  };
+
+  const handleResizePointerDown = (e: React.PointerEvent, idx: number, handle: ResizeHandle) => {
+    onSelect(idx);
+    const { x, y } = toPercent(e.clientX, e.clientY);
+    startDrag(e, { mode: 'resize', idx, handle, startX: x, startY: y, snapshot: zones });
+  };
+
+  // Dragging on empty image area draws a new zone
+  const handleBackgroundPointerDown = (e: React.PointerEvent) => {
+    onSelect(null);
+    const { x, y } = toPercent(e.clientX, e.clientY);
+    startDrag(e, { mode: 'draw', originX: x, originY: y, snapshot: zones });
+  };
+
+  const draftZones = (drag: DragState, x: number, y: number): DangerZone[] => {
+    if (drag.mode === 'draw') {
+      const box = normalizeBox({ xmin: drag.originX, ymin: drag.originY, xmax: x, ymax: y });
+      return [...drag.snapshot, { ...NEW_ZONE, box }];
+    }
+    const original = drag.snapshot[drag.idx].box;
+    const box = drag.mode === 'move'
+      ? moveBox(original, x - drag.startX, y - drag.startY)
+      : resizeBox(original, drag.handle, x - drag.startX, y - drag.startY);
+    return withBox(drag.snapshot, drag.idx, box);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const { x, y } = toPercent(e.clientX, e.clientY);
+    onPreview(draftZones(drag, x, y));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    dragRef.current = null;
+    const { x, y } = toPercent(e.clientX, e.clientY);
+    const next = draftZones(drag, x, y);
+
+    if (drag.mode === 'draw') {
+      // A click without a real drag just clears the selection
+      if (!isUsableBox(next[next.length - 1].box)) return onPreview(drag.snapshot);
+      onCommit(next, drag.snapshot);
+      onSelect(next.length - 1);
+      return;
+    }
+    const before = drag.snapshot[drag.idx].box;
+    const after = next[drag.idx].box;
+    if (JSON.stringify(before) === JSON.stringify(after)) return onPreview(drag.snapshot);
+    onCommit(next, drag.snapshot);
+  };
+
+  return (
+    <FittedImageLayer
+      ref={imageRef}
+      imageSize={imageSize}
+      view={view}
+      interactive={editing}
+      className={editing ? 'cursor-crosshair outline outline-1 outline-dashed outline-white/30' : ''}
+      onPointerDown={handleBackgroundPointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+    >
+      {zones.map((zone, idx) => {
+        const selected = editing && selectedIdx === idx;
+        return (
+          <div
+            key={idx}
+            onPointerDown={(e) => handleBoxPointerDown(e, idx)}
+            className={`absolute border-2 rounded-lg ${RISK_STYLES[zone.riskLevel].box} ${editing ? 'cursor-move' : 'animate-pulse'} ${selected ? 'ring-2 ring-white' : ''}`}
+            style={{
+              top: `${zone.box.ymin}%`,
+              left: `${zone.box.xmin}%`,
+              width: `${zone.box.xmax - zone.box.xmin}%`,
+              height: `${zone.box.ymax - zone.box.ymin}%`
+            }}
+          >
+            <div className={`absolute -top-6 left-1/2 -translate-x-1/2 ${RISK_STYLES[zone.riskLevel].label} text-white text-[9px] font-black px-2 py-0.5 rounded whitespace-nowrap pointer-events-none`}>
+              {zone.name} ({zone.riskLevel})
+            </div>
+            {selected && HANDLES.map(handle => (
+              <div
+                key={handle.id}
+                onPointerDown={(e) => handleResizePointerDown(e, idx, handle.id)}
+                className={`absolute w-3 h-3 bg-white border border-slate-900 rounded-sm ${handle.className}`}
+              ></div>
+            ))}
+          </div>
+        );
+      })}
+    </FittedImageLayer>
+  );
+};
+
+export default memo(DangerZoneOverlay);
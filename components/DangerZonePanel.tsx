@@ -0,0 +1,188 @@
+import React, { memo, useMemo, useRef } from 'react';
+import { DangerZone } from '../types';
+import { AnnotatedImage, AnnotationHistory, toAnnotationJson, toCocoDataset } from '../services/annotations';
+
+interface DangerZonePanelProps {
+  history: AnnotationHistory;
+  original: DangerZone[];
+  editing: boolean;
+  onEditingChange: (editing: boolean) => void;
+  selectedIdx: number | null;
+  onSelect: (idx: number | null) => void;
+  onPreview: (zones: DangerZone[]) => void;
+  onCommit: (zones: DangerZone[], previous?: DangerZone[]) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  // Exported image (PNG rendering for DICOM/TIFF) and its natural size
+  imageUrl: string;
+  imageSize: { width: number; height: number } | null;
+}
+
+const RISK_LEVELS: DangerZone['riskLevel'][] = ['HIGH', 'MODERATE', 'LOW'];
+
+const RISK_COLORS: Record<DangerZone['riskLevel'], string> = {
+  HIGH: 'text-red-400',
+  MODERATE: 'text-amber-400',
+  LOW: 'text-emerald-400',
+};
+
+const download = (href: string, fileName: string) => {
+  const link = document.createElement('a');
+  link.href = href;
+  link.download = fileName;
+  link.click();
+};
+
+const downloadJson = (data: unknown, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }));
+  download(url, fileName);
+  URL.revokeObjectURL(url);
+};
+
+const DangerZonePanel: React.FC<DangerZonePanelProps> = ({
+  history, original, editing, onEditingChange, selectedIdx, onSelect, onPreview, onCommit, onUndo, onRedo, imageUrl, imageSize
+}) => {
+  const zones = history.present;
+  // Text fields update live and become one undo step on blur
+  const textEditStart = useRef<DangerZone[] | null>(null);
+
+  // Same base name for the image and its annotation files
+  const baseName = useMemo(() => `dentalbrain-${new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-')}`, [imageUrl]);
+  const imageExtension = /^data:image\/(jpeg|png|webp)/.exec(imageUrl)?.[1]?.replace('jpeg', 'jpg') || 'png';
+
+  const updateZone = (idx: number, patch: Partial<DangerZone>) => zones.map((zone, i) => (i === idx ? { ...zone, ...patch } : zone));
+
+  const handleTextChange = (idx: number, patch: Partial<DangerZone>) => {
+    if (!textEditStart.current) textEditStart.current = zones;
+    onPreview(updateZone(idx, patch));
+  };
+
+  const handleTextBlur = () => {
+    const previous = textEditStart.current;
+    textEditStart.current = null;
+    if (previous && previous !== zones) onCommit(zones, previous);
+  };
+
+  const handleDelete = (idx: number) => {
+    onCommit(zones.filter((_, i) => i !== idx));
+    onSelect(null);
+  };
+
+  // 1. Export
+  const annotatedImage = (): AnnotatedImage | null =>
+    imageSize ? { fileName: `${baseName}.${imageExtension}`, width: imageSize.width, height: imageSize.height, zones } : null;
+
+  const handleExportCoco = () => {
+    const image = annotatedImage();
+    if (image) downloadJson(toCocoDataset([image]), `${baseName}.coco.json`);
+  };
+
+  const handleExportJson = () => {
+    const image = annotatedImage();
+    if (image) downloadJson(toAnnotationJson(image), `${baseName}.zones.json`);
+  };
+
+  const isModified = JSON.stringify(zones) !== JSON.stringify(original);
+
+  return (
+    <div className="bg-slate-900/60 border border-white/10 rounded-2xl overflow-hidden" dir="rtl">
+      <div className="flex flex-wrap items-center justify-between gap-3 px-5 py-3 border-b border-white/10">
+        <div className="flex items-center gap-3">
+          <h4 className="text-sm font-black text-white">مناطق الخطر <span className="text-slate-500 font-bold">({zones.length})</span></h4>
+          {isModified && <span className="text-[9px] font-black text-blue-400 bg-blue-500/10 border border-blue-500/30 px-2 py-0.5 rounded">معدّلة</span>}
+        </div>
+        <div className="flex flex-wrap items-center gap-2 text-[10px] font-black">
+          <button
+            onClick={() => onEditingChange(!editing)}
+            className={`px-3 py-1.5 rounded-lg border transition-all ${editing ? 'bg-blue-600 border-white text-white' : 'bg-white/5 border-white/10 text-slate-300 hover:border-blue-500/40'}`}
+          >
+            {editing ? 'إنهاء التعديل' : 'تعديل المناطق'}
+          </button>
+          <button onClick={onUndo} disabled={history.past.length === 0} className="px-3 py-1.5 rounded-lg border border-white/10 bg-white/5 text-slate-300 disabled:opacity-30" title="Ctrl+Z">تراجع</button>
+          <button onClick={onRedo} disabled={history.future.length === 0} className="px-3 py-1.5 rounded-lg border border-white/10 bg-white/5 text-slate-300 disabled:opacity-30" title="Ctrl+Shift+Z">إعادة</button>
+          <button onClick={() => { onCommit(original); onSelect(null); }} disabled={!isModified} className="px-3 py-1.5 rounded-lg border border-white/10 bg-white/5 text-slate-300 disabled:opacity-30">استعادة نتيجة النموذج</button>
+          <div className="w-px h-5 bg-white/10"></div>
+          <button onClick={handleExportCoco} disabled={!imageSize} className="px-3 py-1.5 rounded-lg border border-white/10 bg-white/5 text-slate-300 hover:border-blue-500/40 disabled:opacity-30">COCO</button>
+          <button onClick={handleExportJson} disabled={!imageSize} className="px-3 py-1.5 rounded-lg border border-white/10 bg-white/5 text-slate-300 hover:border-blue-500/40 disabled:opacity-30">JSON</button>
+          <button onClick={() => download(imageUrl, `${baseName}.${imageExtension}`)} className="px-3 py-1.5 rounded-lg border border-white/10 bg-white/5 text-slate-300 hover:border-blue-500/40">الصورة</button>
+        </div>
+      </div>
+
+      {editing && (
+        <p className="text-[11px] font-bold text-slate-500 px-5 pt-3">
+          اسحب المنطقة لتحريكها، واسحب زواياها لتغيير حجمها، واسحب على جزء فارغ من الصورة لإضافة منطقة. Delete يحذف المنطقة المحددة.
+        </p>
+      )}
+
+      {zones.length === 0 ? (
+        <p className="text-xs text-slate-500 font-bold px-5 py-4">لا توجد مناطق خطر.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <tbody>
+              {zones.map((zone, idx) => (
+                <tr
+                  key={idx}
+                  onClick={() => onSelect(idx)}
+                  className={`border-t border-white/5 align-top cursor-pointer transition-colors ${editing && selectedIdx === idx ? 'bg-blue-600/20' : 'hover:bg-white/5'}`}
+                >
+                  <td className="px-4 py-2 w-48">
+                    {editing ? (
+                      <input
+                        value={zone.name}
+                        onChange={(e) => handleTextChange(idx, { name: e.target.value })}
+                        onBlur={handleTextBlur}
+                        className="w-full bg-slate-900 border border-white/10 rounded-lg px-2 py-1 text-white outline-none focus:border-blue-600"
+                      />
+                    ) : (
+                      <span className="font-bold text-white">{zone.name}</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 w-28">
+                    {editing ? (
+                      <select
+                        value={zone.riskLevel}
+                        onChange={(e) => onCommit(updateZone(idx, { riskLevel: e.target.value as DangerZone['riskLevel'] }))}
+                        className="bg-slate-900 border border-white/10 rounded-lg px-2 py-1 text-white outline-none focus:border-blue-600"
+                      >
+                        {RISK_LEVELS.map(level => <option key={level} value={level}>{level}</option>)}
+                      </select>
+                    ) : (
+                      <span className={`text-[10px] font-black ${RISK_COLORS[zone.riskLevel]}`}>{zone.riskLevel}</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-2">
+                    {editing ? (
+                      <input
+                        value={zone.description}
+                        onChange={(e) => handleTextChange(idx, { description: e.target.value })}
+                        onBlur={handleTextBlur}
+                        placeholder="الوصف"
+                        className="w-full bg-slate-900 border border-white/10 rounded-lg px-2 py-1 text-slate-300 outline-none focus:border-blue-600"
+                      />
+                    ) : (
+                      <span className="text-slate-300 leading-relaxed">{zone.description}</span>
+                    )}
+                  </td>
+                  {editing && (
+                    <td className="px-4 py-2 w-12">
+                      <button
+                        onClick={(e) => { e.stopPropagation(); handleDelete(idx); }}
+                        className="text-red-400 hover:text-red-300 font-black"
+                        title="حذف"
+                      >
+                        ✕
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default memo(DangerZonePanel);
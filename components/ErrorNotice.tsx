@@ -0,0 +1,125 @@
+import React, { memo, useEffect, useState } from 'react';
+import { AIErrorCode, AIServiceError } from '../services/aiErrors';
+
+interface ErrorNoticeProps {
+  error: AIServiceError;
+  onRetry: () => void;
+  onOpenSettings: () => void;
+  onOpenUsage: () => void;
+  onDismiss: () => void;
+}
+
+type RecoveryAction = 'retry' | 'wait' | 'settings' | 'usage' | 'none';
+
+// Arabic message and the recovery action offered for each error class
+const ERROR_COPY: Record<AIErrorCode, { title: string; hint: string; action: RecoveryAction }> = {
+  quota: {
+    title: 'تم تجاوز حد الاستخدام المسموح',
+    hint: 'الخادم يطلب الانتظار قليلاً قبل إرسال طلب جديد.',
+    action: 'wait',
+  },
+  auth: {
+    title: 'مفتاح API مفقود أو غير صالح',
+    hint: 'راجع إعدادات الاتصال أو فعّل وضع العرض دون اتصال.',
+    action: 'settings',
+  },
+  network: {
+    title: 'تعذر الاتصال بالخادم',
+    hint: 'تحقق من اتصال الإنترنت ثم أعد المحاولة.',
+    action: 'retry',
+  },
+  safety: {
+    title: 'تم حظر الطلب بواسطة فلاتر الأمان',
+    hint: 'أعد صياغة الموضوع بمصطلحات سريرية أكاديمية.',
+    action: 'none',
+  },
+  parse: {
+    title: 'استجابة النموذج غير مكتملة أو غير صالحة',
+    hint: 'غالباً ما تنجح إعادة المحاولة، ويمكن تفعيل الإصلاح التلقائي.',
+    action: 'retry',
+  },
+  no_image: {
+    title: 'لم يُرجع النموذج أي صورة',
+    hint: 'أعد المحاولة أو عدّل وصف الصورة.',
+    action: 'retry',
+  },
+  budget: {
+    title: 'تم بلوغ الحد اليومي للاستهلاك',
+    hint: 'الطلبات موقوفة حتى الغد، أو ارفع الحد أو بدّل إلى وضع التخفيض من لوحة الاستهلاك.',
+    action: 'usage',
+  },
+  unknown: {
+    title: 'حدث خطأ غير متوقع',
+    hint: 'أعد المحاولة، وإن تكرر الخطأ راجع سجل المتصفح.',
+    action: 'retry',
+  },
+};
+
+const DEFAULT_WAIT_MS = 15000;
+
+const waitSecondsFor = (error: AIServiceError) =>
+  ERROR_COPY[error.code].action === 'wait' ? Math.ceil((error.retryAfterMs ?? DEFAULT_WAIT_MS) / 1000) : 0;
+
+const ErrorNotice: React.FC<ErrorNoticeProps> = ({ error, onRetry, onOpenSettings, onOpenUsage, onDismiss }) => {
+  const copy = ERROR_COPY[error.code];
+  const [secondsLeft, setSecondsLeft] = useState(() => waitSecondsFor(error));
+
+  useEffect(() => {
+    setSecondsLeft(waitSecondsFor(error));
+  }, [error]);
+
+  useEffect(() => {
+    if (secondsLeft <= 0) return;
+    const timer = setTimeout(() => setSecondsLeft(s => s - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [secondsLeft]);
+
+  const attempts = error.attempts.length;
+
+  return (
+    <div className="bg-rose-600/10 border border-rose-500/20 p-4 rounded-2xl mt-4 animate-in fade-in duration-300" role="alert">
+      <div className="flex items-start justify-between gap-4">
+        <div className="text-right">
+          <p className="text-rose-300 text-xs font-black">{copy.title}</p>
+          <p className="text-rose-400/80 text-[10px] font-bold mt-1">{copy.hint}</p>
+          {attempts > 1 && (
+            <p className="text-slate-500 text-[9px] font-bold mt-1">عدد المحاولات: {attempts}</p>
+          )}
+        </div>
+        <button onClick={onDismiss} className="text-slate-500 hover:text-white transition-colors" title="إخفاء">
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path d="M6 18L18 6M6 6l12 12" strokeWidth={2}/></svg>
+        </button>
+      </div>
+
+      <div className="flex flex-wrap justify-end gap-2 mt-3">
+        {copy.action === 'settings' && (
+          <button
+            onClick={onOpenSettings}
+            className="text-[10px] font-black px-4 py-1.5 rounded-xl bg-white/10 text-white hover:bg-white/20 transition-all"
+          >
+            فتح الإعدادات
+          </button>
+        )}
+        {copy.action === 'usage' && (
+          <button
+            onClick={onOpenUsage}
+            className="text-[10px] font-black px-4 py-1.5 rounded-xl bg-white/10 text-white hover:bg-white/20 transition-all"
+          >
+            فتح لوحة الاستهلاك
+          </button>
+        )}
+        {(copy.action === 'retry' || copy.action === 'wait') && (
+          <button
+            onClick={onRetry}
+            disabled={secondsLeft > 0}
+            className="text-[10px] font-black px-4 py-1.5 rounded-xl bg-rose-600 text-white hover:bg-rose-500 disabled:bg-white/5 disabled:text-slate-500 transition-all"
+          >
+            {secondsLeft > 0 ? `انتظر ${secondsLeft} ثانية` : 'إعادة المحاولة الآن'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default memo(ErrorNotice);
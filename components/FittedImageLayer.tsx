@@ -0,0 +1,62 @@
+import React, { forwardRef, memo, useEffect, useRef, useState } from 'react';
+import { IDENTITY_VIEW, ViewTransform } from '../services/viewTransform';
+
+interface FittedImageLayerProps {
+  // Natural size of the displayed image; the layer is fitted to it like `object-contain`
+  imageSize: { width: number; height: number };
+  // Pointer events reach the children only when interactive
+  interactive: boolean;
+  // Microscope zoom/pan applied to the image; children keep their screen size
+  view?: ViewTransform;
+  className?: string;
+  children?: React.ReactNode;
+  onPointerDown?: (e: React.PointerEvent) => void;
+  onPointerMove?: (e: React.PointerEvent) => void;
+  onPointerUp?: (e: React.PointerEvent) => void;
+  onDoubleClick?: (e: React.MouseEvent) => void;
+}
+
+// Absolute layer covering exactly the letterboxed image, so children can be positioned in percent of the image
+const FittedImageLayer = forwardRef<HTMLDivElement, FittedImageLayerProps>(({
+  imageSize, interactive, view = IDENTITY_VIEW, className = '', children, onPointerDown, onPointerMove, onPointerUp, onDoubleClick
+}, ref) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [containerSize, setContainerSize] = useState({ width: 0, height: 0 });
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(([entry]) => setContainerSize({ width: entry.contentRect.width, height: entry.contentRect.height }));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  const scale = Math.min(containerSize.width / imageSize.width, containerSize.height / imageSize.height) || 0;
+  const fittedLeft = (containerSize.width - imageSize.width * scale) / 2;
+  const fittedTop = (containerSize.height - imageSize.height * scale) / 2;
+
+  return (
+    <div ref={containerRef} className={`absolute inset-0 z-20 ${interactive ? '' : 'pointer-events-none'}`}>
+      <div
+        ref={ref}
+        className={`absolute ${className}`}
+        style={{
+          left: view.x * containerSize.width + fittedLeft * view.zoom,
+          top: view.y * containerSize.height + fittedTop * view.zoom,
+          width: imageSize.width * scale * view.zoom,
+          height: imageSize.height * scale * view.zoom,
+          touchAction: 'none'
+        }}
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={onPointerUp}
+        onPointerCancel={onPointerUp}
+        onDoubleClick={onDoubleClick}
+      >
+        {children}
+      </div>
+    </div>
+  );
+});
+
+export default memo(FittedImageLayer);
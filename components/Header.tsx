@@ -1,6 +1,16 @@
 import React, { memo } from 'react';
+import { AIProviderId, listProviders } from '../services/aiProvider';
+
+interface HeaderProps {
+  providerId: AIProviderId;
+  onProviderChange: (id: AIProviderId) => void;
+  onOpenSettings: () => void;
+  onOpenUsage: () => void;
+}
+
+const Header: React.FC<HeaderProps> = ({ providerId, onProviderChange, onOpenSettings, onOpenUsage }) => {
+  const isOffline = providerId === 'mock';
 
-const Header: React.FC = () => {
   return (
     <header className="bg-[#020617]/80 border-b border-white/5 sticky top-0 z-50 px-6 backdrop-blur-xl supports-[backdrop-filter]:bg-[#020617]/60">
       <div className="max-w-[1800px] mx-auto h-20 flex items-center justify-between flex-row-reverse">
@@ -26,11 +36,42 @@ const Header: React.FC = () => {
             <button className="px-6 py-2 rounded-full text-xs font-bold text-slate-400 hover:text-white hover:bg-white/5 transition-all">اتصل بنا</button>
         </nav>
 
-        {/* Status Only */}
+        {/* Status & AI Provider */}
         <div className="flex items-center gap-6">
-          <div className="hidden md:flex items-center gap-3 bg-emerald-950/30 px-3 py-1.5 rounded-full border border-emerald-500/20">
-            <span className="w-2 h-2 bg-emerald-500 rounded-full animate-pulse shadow-[0_0_10px_rgba(16,185,129,0.5)]"></span>
-            <span className="text-[10px] font-black text-emerald-400 uppercase tracking-widest">Web System Online</span>
+          <button
+            onClick={onOpenUsage}
+            className="p-2 rounded-full bg-white/5 border border-white/5 text-slate-400 hover:text-white transition-all"
+            title="الاستهلاك والتكلفة"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+            </svg>
+          </button>
+          <button
+            onClick={onOpenSettings}
+            className="p-2 rounded-full bg-white/5 border border-white/5 text-slate-400 hover:text-white transition-all"
+            title="الإعدادات"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+            </svg>
+          </button>
+          <div className="flex items-center gap-1 bg-white/5 p-1 rounded-full border border-white/5">
+            {listProviders().map((provider) => (
+              <button
+                key={provider.id}
+                onClick={() => onProviderChange(provider.id)}
+                className={`px-4 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest transition-all ${providerId === provider.id ? 'bg-white/10 text-white' : 'text-slate-500 hover:text-white'}`}
+                title="مزود الذكاء الاصطناعي"
+              >
+                {provider.label}
+              </button>
+            ))}
+          </div>
+          <div className={`hidden md:flex items-center gap-3 px-3 py-1.5 rounded-full border ${isOffline ? 'bg-amber-950/30 border-amber-500/20' : 'bg-emerald-950/30 border-emerald-500/20'}`}>
+            <span className={`w-2 h-2 rounded-full animate-pulse ${isOffline ? 'bg-amber-500 shadow-[0_0_10px_rgba(245,158,11,0.5)]' : 'bg-emerald-500 shadow-[0_0_10px_rgba(16,185,129,0.5)]'}`}></span>
+            <span className={`text-[10px] font-black uppercase tracking-widest ${isOffline ? 'text-amber-400' : 'text-emerald-400'}`}>{isOffline ? 'Offline Demo Mode' : 'Web System Online'}</span>
           </div>
         </div>
       </div>
@@ -0,0 +1,109 @@
+import React, { memo, useEffect } from 'react';
+import { Hotspot } from '../types';
+
+interface HotspotDetailDrawerProps {
+  hotspots: Hotspot[];
+  selectedIdx: number;
+  onSelect: (idx: number) => void;
+  onClose: () => void;
+  // Personal notes; the pin button is hidden when the parent does not keep notes
+  pinned?: boolean;
+  onTogglePin?: () => void;
+}
+
+const SECTIONS: { key: keyof Hotspot; title: string; className: string }[] = [
+  { key: 'diagnosis', title: 'التشخيص', className: 'text-blue-300' },
+  { key: 'classification', title: 'التصنيف', className: 'text-violet-300' },
+  { key: 'indications', title: 'الاستطبابات', className: 'text-slate-200' },
+  { key: 'treatmentPlan', title: 'خطة العلاج', className: 'text-emerald-300' },
+];
+
+// Details of the selected hotspot under the viewport. Arrow keys step through the hotspots
+// (left = next, as the page reads right to left), P pins, Escape closes.
+const HotspotDetailDrawer: React.FC<HotspotDetailDrawerProps> = ({ hotspots, selectedIdx, onSelect, onClose, pinned = false, onTogglePin }) => {
+  const spot = hotspots[selectedIdx];
+  const step = (delta: number) => onSelect((selectedIdx + delta + hotspots.length) % hotspots.length);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      // Typing, and sliders that use the arrow keys themselves, keep their keys
+      if (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.getAttribute('role') === 'slider' || e.ctrlKey || e.metaKey || e.altKey) return;
+      if (e.key === 'ArrowLeft' || e.key === 'ArrowDown') {
+        e.preventDefault();
+        step(1);
+      } else if (e.key === 'ArrowRight' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        step(-1);
+      } else if (e.key === 'Escape') {
+        onClose();
+      } else if (e.key.toLowerCase() === 'p' && onTogglePin) {
+        onTogglePin();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  if (!spot) return null;
+
+  return (
+    <div className="bg-slate-900/80 border border-blue-500/20 rounded-[2rem] p-6 space-y-4 animate-in fade-in slide-in-from-top-2 duration-300" dir="rtl" role="region" aria-label="تفاصيل النقطة">
+      {/* Header */}
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <span className="w-9 h-9 shrink-0 rounded-full bg-blue-600 border-2 border-white flex items-center justify-center text-xs font-black text-white">{selectedIdx + 1}</span>
+          <div>
+            <h3 className="text-lg font-black text-white">{spot.label}</h3>
+            <span className="text-[10px] font-bold text-slate-500">{selectedIdx + 1} / {hotspots.length}</span>
+          </div>
+        </div>
+        <div className="flex items-center gap-2 text-[10px] font-black">
+          <button onClick={() => step(-1)} className="px-3 py-1.5 rounded-lg border bg-white/5 border-white/10 text-slate-400 hover:text-white" title="السابق (→)">→</button>
+          <button onClick={() => step(1)} className="px-3 py-1.5 rounded-lg border bg-white/5 border-white/10 text-slate-400 hover:text-white" title="التالي (←)">←</button>
+          {onTogglePin && (
+            <button
+              onClick={onTogglePin}
+              className={`px-3 py-1.5 rounded-lg border transition-all ${pinned ? 'bg-amber-600 border-white text-white' : 'bg-white/5 border-white/10 text-slate-400 hover:text-white'}`}
+              title="تثبيت في ملاحظاتي (P)"
+            >
+              📌 {pinned ? 'مثبتة' : 'تثبيت'}
+            </button>
+          )}
+          <button onClick={onClose} className="px-3 py-1.5 rounded-lg border bg-white/5 border-white/10 text-slate-400 hover:text-white" title="إغلاق (Esc)">✕</button>
+        </div>
+      </div>
+
+      {spot.description && <p className="text-sm text-slate-300 leading-relaxed">{spot.description}</p>}
+
+      {/* Clinical content */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {SECTIONS.filter(section => spot[section.key]).map(section => (
+          <div key={section.key} className="bg-black/30 border border-white/5 rounded-xl p-4">
+            <span className="block text-[9px] font-black uppercase tracking-widest text-slate-500 mb-1">{section.title}</span>
+            <p className={`text-sm font-bold leading-relaxed ${section.className}`}>{spot[section.key]}</p>
+          </div>
+        ))}
+      </div>
+
+      {(spot.clinicalPearl || spot.commonMistake) && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {spot.clinicalPearl && (
+            <div className="bg-amber-500/5 border border-amber-500/20 rounded-xl p-4">
+              <span className="block text-[9px] font-black text-amber-400 mb-1">💡 لؤلؤة سريرية</span>
+              <p className="text-sm text-amber-100/90 leading-relaxed">{spot.clinicalPearl}</p>
+            </div>
+          )}
+          {spot.commonMistake && (
+            <div className="bg-red-500/5 border border-red-500/20 rounded-xl p-4">
+              <span className="block text-[9px] font-black text-red-400 mb-1">⚠️ خطأ شائع</span>
+              <p className="text-sm text-red-100/90 leading-relaxed">{spot.commonMistake}</p>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default memo(HotspotDetailDrawer);
@@ -0,0 +1,264 @@
+import React, { memo, useEffect, useRef, useState } from 'react';
+import { Hotspot, HotspotExamAnswer, HotspotExamAnswerMode, HotspotExamField, HotspotExamQuestion } from '../types';
+import { EXAM_FIELDS, MAX_POINTS_PER_QUESTION, buildHotspotExam, scoreAnswer, summarizeExam } from '../services/hotspotExam';
+
+interface HotspotExamProps {
+  hotspots: Hotspot[];
+  // Hotspot being asked about, highlighted on the image (null outside a question)
+  onActiveHotspotChange: (idx: number | null) => void;
+  onExit: () => void;
+}
+
+type ExamPhase = 'SETUP' | 'QUESTION' | 'RESULTS';
+
+const ACCURACY_STYLES = (accuracy: number) =>
+  accuracy === 1 ? 'text-emerald-400 bg-emerald-500/10 border-emerald-500/30'
+  : accuracy > 0 ? 'text-amber-400 bg-amber-500/10 border-amber-500/30'
+  : 'text-red-400 bg-red-500/10 border-red-500/30';
+
+const accuracyLabel = (accuracy: number) => (accuracy === 1 ? 'صحيح' : accuracy > 0 ? 'جزئي' : 'خطأ');
+const seconds = (ms: number) => `${(ms / 1000).toFixed(1)} ث`;
+
+const HotspotExam: React.FC<HotspotExamProps> = ({ hotspots, onActiveHotspotChange, onExit }) => {
+  const [phase, setPhase] = useState<ExamPhase>('SETUP');
+  const [field, setField] = useState<HotspotExamField>('label');
+  const [answerMode, setAnswerMode] = useState<HotspotExamAnswerMode>('MULTIPLE_CHOICE');
+  const [questions, setQuestions] = useState<HotspotExamQuestion[]>([]);
+  const [answers, setAnswers] = useState<HotspotExamAnswer[]>([]);
+  const [response, setResponse] = useState('');
+  const [feedback, setFeedback] = useState<HotspotExamAnswer | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const questionStart = useRef(0);
+
+  const current = questions[answers.length];
+  const elapsed = phase === 'QUESTION' && !feedback ? now - questionStart.current : 0;
+  const remaining = current ? Math.max(0, current.timeLimitMs - elapsed) : 0;
+
+  // 1. Highlight the hotspot of the current question
+  useEffect(() => {
+    onActiveHotspotChange(phase === 'QUESTION' && current ? current.hotspotIdx : null);
+  }, [phase, current, onActiveHotspotChange]);
+
+  useEffect(() => () => onActiveHotspotChange(null), [onActiveHotspotChange]);
+
+  // 2. Countdown; an expired question is submitted empty
+  useEffect(() => {
+    if (phase !== 'QUESTION' || feedback) return;
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, [phase, feedback]);
+
+  useEffect(() => {
+    if (phase === 'QUESTION' && !feedback && current && remaining === 0) submit('');
+  });
+
+  const startQuestion = () => {
+    questionStart.current = Date.now();
+    setNow(questionStart.current);
+    setResponse('');
+    setFeedback(null);
+  };
+
+  const start = () => {
+    const built = buildHotspotExam(hotspots, field, answerMode);
+    if (built.length === 0) return;
+    setQuestions(built);
+    setAnswers([]);
+    setPhase('QUESTION');
+    startQuestion();
+  };
+
+  const submit = (value: string) => {
+    if (!current || feedback) return;
+    const answer = scoreAnswer(current, value, Math.min(Date.now() - questionStart.current, current.timeLimitMs));
+    setFeedback(answer);
+  };
+
+  const next = () => {
+    if (!feedback) return;
+    const recorded = [...answers, feedback];
+    setAnswers(recorded);
+    if (recorded.length === questions.length) {
+      setFeedback(null);
+      setPhase('RESULTS');
+    } else {
+      startQuestion();
+    }
+  };
+
+  const availableCount = hotspots.filter(spot => spot[field]?.trim()).length;
+  const fieldInfo = EXAM_FIELDS.find(f => f.id === field)!;
+
+  return (
+    <div className="bg-slate-900/60 border border-amber-500/20 rounded-[2rem] p-6 space-y-5" dir="rtl">
+      <div className="flex items-center justify-between gap-3">
+        <h3 className="text-lg font-black text-white">اختبار النقاط</h3>
+        <button onClick={onExit} className="text-[10px] font-black text-slate-500 hover:text-white">إنهاء الاختبار</button>
+      </div>
+
+      {/* Setup */}
+      {phase === 'SETUP' && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2 text-[10px] font-black">
+            <span className="text-slate-500 w-24">السؤال عن</span>
+            {EXAM_FIELDS.map(option => (
+              <button
+                key={option.id}
+                onClick={() => setField(option.id)}
+                className={`px-3 py-1.5 rounded-lg border transition-all ${field === option.id ? 'bg-amber-600 border-white text-white' : 'bg-white/5 border-white/10 text-slate-400'}`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-2 text-[10px] font-black">
+            <span className="text-slate-500 w-24">نوع الإجابة</span>
+            {([['MULTIPLE_CHOICE', 'اختيار من متعدد'], ['FREE_TEXT', 'إجابة حرة']] as [HotspotExamAnswerMode, string][]).map(([mode, label]) => (
+              <button
+                key={mode}
+                onClick={() => setAnswerMode(mode)}
+                className={`px-3 py-1.5 rounded-lg border transition-all ${answerMode === mode ? 'bg-amber-600 border-white text-white' : 'bg-white/5 border-white/10 text-slate-400'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <p className="text-[11px] font-bold text-slate-500">
+            {availableCount} سؤال. كل إجابة صحيحة = 100 نقطة + حتى 50 نقطة للسرعة. الإجابات الحرة تُصحح بمطابقة تقريبية (الأخطاء الإملائية البسيطة مقبولة).
+          </p>
+          <button
+            onClick={start}
+            disabled={availableCount === 0}
+            className="px-6 py-2.5 rounded-xl bg-amber-600 text-white text-xs font-black hover:bg-amber-500 disabled:opacity-30"
+          >
+            ابدأ
+          </button>
+        </div>
+      )}
+
+      {/* Question */}
+      {phase === 'QUESTION' && current && (
+        <div className="space-y-4">
+          <div className="flex items-center justify-between text-[10px] font-black text-slate-400">
+            <span>السؤال {answers.length + 1} / {questions.length} · النقطة المضيئة على الصورة</span>
+            <span className={`font-mono text-sm ${remaining < 5000 && !feedback ? 'text-red-400 animate-pulse' : 'text-amber-400'}`} dir="ltr">
+              {feedback ? seconds(feedback.elapsedMs) : seconds(remaining)}
+            </span>
+          </div>
+          <div className="h-1 bg-white/10 rounded-full overflow-hidden">
+            <div className="h-full bg-amber-500 transition-all" style={{ width: `${(remaining / current.timeLimitMs) * 100}%` }}></div>
+          </div>
+          <p className="text-base font-black text-white">{fieldInfo.prompt}</p>
+
+          {current.choices ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              {current.choices.map(choice => {
+                const chosen = feedback?.response === choice;
+                const isExpected = feedback && choice === current.expected;
+                return (
+                  <button
+                    key={choice}
+                    onClick={() => submit(choice)}
+                    disabled={!!feedback}
+                    className={`text-right px-4 py-3 rounded-xl border text-sm font-bold transition-all ${isExpected ? 'bg-emerald-600/30 border-emerald-500 text-white' : chosen ? 'bg-red-600/30 border-red-500 text-white' : 'bg-white/5 border-white/10 text-slate-300 hover:border-amber-500/40'}`}
+                  >
+                    {choice}
+                  </button>
+                );
+              })}
+            </div>
+          ) : (
+            <form onSubmit={(e) => { e.preventDefault(); submit(response); }} className="flex gap-2">
+              <input
+                autoFocus
+                value={response}
+                onChange={(e) => setResponse(e.target.value)}
+                disabled={!!feedback}
+                placeholder="اكتب إجابتك..."
+                className="flex-1 bg-slate-900 border border-white/10 rounded-xl px-4 py-2.5 text-sm text-white outline-none focus:border-amber-500"
+              />
+              <button type="submit" disabled={!!feedback || !response.trim()} className="px-5 rounded-xl bg-amber-600 text-white text-xs font-black disabled:opacity-30">إرسال</button>
+            </form>
+          )}
+
+          {feedback && (
+            <div className="flex flex-wrap items-center justify-between gap-3 bg-black/30 border border-white/10 rounded-xl px-4 py-3">
+              <div className="flex items-center gap-3 text-xs">
+                <span className={`text-[10px] font-black px-2 py-0.5 rounded border ${ACCURACY_STYLES(feedback.accuracy)}`}>
+                  {feedback.response ? accuracyLabel(feedback.accuracy) : 'انتهى الوقت'}
+                </span>
+                {feedback.accuracy < 1 && <span className="text-slate-300">الإجابة: <span className="font-bold text-white">{current.expected}</span></span>}
+                <span className="font-mono text-amber-400" dir="ltr">+{feedback.points}</span>
+              </div>
+              <button onClick={next} autoFocus className="px-5 py-2 rounded-xl bg-amber-600 text-white text-xs font-black">
+                {answers.length + 1 === questions.length ? 'النتيجة' : 'التالي'}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Results */}
+      {phase === 'RESULTS' && (() => {
+        const summary = summarizeExam(questions, answers);
+        return (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {[
+                { label: 'النقاط', value: `${summary.points} / ${summary.maxPoints}` },
+                { label: 'النسبة', value: `${Math.round((summary.points / Math.max(1, summary.maxPoints)) * 100)}%` },
+                { label: 'صحيح / جزئي', value: `${summary.correct} / ${summary.partial}` },
+                { label: 'الوقت', value: seconds(summary.totalMs) },
+              ].map(item => (
+                <div key={item.label} className="bg-black/30 border border-white/5 rounded-xl p-4 text-center">
+                  <p className="text-[10px] font-black text-slate-500 mb-1">{item.label}</p>
+                  <p className="text-lg font-black text-white font-mono" dir="ltr">{item.value}</p>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              {questions.map((question, idx) => {
+                const answer = answers[idx];
+                const spot = hotspots[question.hotspotIdx];
+                return (
+                  <div key={idx} className="bg-black/30 border border-white/5 rounded-xl p-4 space-y-2">
+                    <div className="flex flex-wrap items-center justify-between gap-2 text-xs">
+                      <div className="flex items-center gap-3">
+                        <span className="w-7 h-7 rounded-full border-2 border-blue-400 text-blue-400 flex items-center justify-center font-black">{question.hotspotIdx + 1}</span>
+                        <span className="font-bold text-white">{question.expected}</span>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <span className="text-slate-400">{answer.response || '—'}</span>
+                        <span className={`text-[10px] font-black px-2 py-0.5 rounded border ${ACCURACY_STYLES(answer.accuracy)}`}>{accuracyLabel(answer.accuracy)}</span>
+                        <span className="font-mono text-amber-400 w-20 text-left" dir="ltr">{answer.points}/{MAX_POINTS_PER_QUESTION} · {seconds(answer.elapsedMs)}</span>
+                      </div>
+                    </div>
+                    {/* Missed items reveal the teaching notes */}
+                    {answer.accuracy < 1 && (spot.clinicalPearl || spot.commonMistake) && (
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                        {spot.clinicalPearl && (
+                          <p className="text-[11px] leading-relaxed text-emerald-300 bg-emerald-500/5 border border-emerald-500/20 rounded-lg px-3 py-2">💎 {spot.clinicalPearl}</p>
+                        )}
+                        {spot.commonMistake && (
+                          <p className="text-[11px] leading-relaxed text-red-300 bg-red-500/5 border border-red-500/20 rounded-lg px-3 py-2">⚠️ {spot.commonMistake}</p>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="flex gap-2">
+              <button onClick={start} className="px-5 py-2 rounded-xl bg-amber-600 text-white text-xs font-black">إعادة الاختبار</button>
+              <button onClick={() => setPhase('SETUP')} className="px-5 py-2 rounded-xl border border-white/10 bg-white/5 text-slate-300 text-xs font-black">تغيير الإعدادات</button>
+            </div>
+          </div>
+        );
+      })()}
+    </div>
+  );
+};
+
+export default memo(HotspotExam);
@@ -0,0 +1,70 @@
+import React, { memo, useState } from 'react';
+import { PinnedHotspot } from '../types';
+import { exportPinnedHotspots } from '../services/hotspotNotes';
+
+interface HotspotNotesProps {
+  pinned: PinnedHotspot[];
+  onNoteChange: (id: string, note: string) => void;
+  onRemove: (id: string) => void;
+}
+
+// Personal notes list: pinned hotspots from every simulation, with the student's own note
+const HotspotNotes: React.FC<HotspotNotesProps> = ({ pinned, onNoteChange, onRemove }) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const handleExport = () => {
+    const blob = new Blob([exportPinnedHotspots(pinned)], { type: 'text/markdown' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `dentalbrain-notes-${new Date().toISOString().slice(0, 10)}.md`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="bg-slate-900/40 border border-white/10 rounded-[2rem] p-6 space-y-4" dir="rtl">
+      <div className="flex items-center justify-between gap-3">
+        <h3 className="text-lg font-black text-white">📌 ملاحظاتي <span className="text-sm text-slate-500">({pinned.length})</span></h3>
+        <button onClick={handleExport} className="text-[10px] font-black px-3 py-1.5 rounded-lg border bg-white/5 border-white/10 text-slate-400 hover:text-white">
+          تصدير Markdown
+        </button>
+      </div>
+
+      <ul className="space-y-2">
+        {pinned.map(item => {
+          const expanded = expandedId === item.id;
+          return (
+            <li key={item.id} className="bg-black/30 border border-white/5 rounded-xl p-4 space-y-2">
+              <div className="flex items-start justify-between gap-3">
+                <button onClick={() => setExpandedId(expanded ? null : item.id)} className="text-right flex-1">
+                  <span className="block text-sm font-black text-white">{item.hotspot.label}</span>
+                  <span className="block text-[10px] font-bold text-slate-500">{item.topic}</span>
+                  {!expanded && item.hotspot.diagnosis && <span className="block text-xs text-blue-300 mt-1">{item.hotspot.diagnosis}</span>}
+                </button>
+                <button onClick={() => onRemove(item.id)} className="text-[10px] font-black text-slate-500 hover:text-red-400" title="إزالة التثبيت">✕</button>
+              </div>
+              {expanded && (
+                <div className="text-xs text-slate-300 leading-relaxed space-y-1">
+                  {item.hotspot.diagnosis && <p><span className="text-slate-500 font-black">التشخيص: </span>{item.hotspot.diagnosis}</p>}
+                  {item.hotspot.classification && <p><span className="text-slate-500 font-black">التصنيف: </span>{item.hotspot.classification}</p>}
+                  {item.hotspot.treatmentPlan && <p><span className="text-slate-500 font-black">خطة العلاج: </span>{item.hotspot.treatmentPlan}</p>}
+                  {item.hotspot.clinicalPearl && <p className="text-amber-200/90">💡 {item.hotspot.clinicalPearl}</p>}
+                </div>
+              )}
+              <textarea
+                value={item.note}
+                onChange={(e) => onNoteChange(item.id, e.target.value)}
+                placeholder="ملاحظتك..."
+                rows={expanded ? 3 : 1}
+                className="w-full bg-slate-950/60 border border-white/10 rounded-lg px-3 py-2 text-xs text-white outline-none focus:border-blue-600 resize-y"
+              />
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default memo(HotspotNotes);
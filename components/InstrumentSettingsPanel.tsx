@@ -0,0 +1,120 @@
+import React, { memo } from 'react';
+import { InstrumentSpec } from '../types';
+import {
+  HANDPIECE_KINDS, formatRpm, formatTorque, procedureSteps, settingLimits, settingStatus, settingWarning
+} from '../services/instrumentSettings';
+
+export type InstrumentSetting = 'rpm' | 'torqueNcm';
+export type InstrumentOverrides = Record<number, Partial<Record<InstrumentSetting, number>>>;
+
+interface InstrumentSettingsPanelProps {
+  instruments: InstrumentSpec[];
+  activeIdx: number | null;
+  onActiveChange: (idx: number) => void;
+  overrides: InstrumentOverrides;
+  onOverride: (idx: number, setting: InstrumentSetting, value: number | undefined) => void;
+  onClose: () => void;
+}
+
+const SETTING_LABELS: Record<InstrumentSetting, string> = { rpm: 'السرعة (rpm)', torqueNcm: 'العزم (Ncm)' };
+const format = (setting: InstrumentSetting, value: number) => (setting === 'rpm' ? formatRpm(value) : formatTorque(value));
+
+// Instruments of the simulation by procedure step; the active powered instrument drives the HUD and
+// can be adjusted, with a warning whenever the value leaves the procedure's safe range.
+const InstrumentSettingsPanel: React.FC<InstrumentSettingsPanelProps> = ({ instruments, activeIdx, onActiveChange, overrides, onOverride, onClose }) => {
+  const renderSlider = (idx: number, setting: InstrumentSetting) => {
+    const settings = instruments[idx].settings!;
+    const range = settings[setting];
+    const limits = settingLimits(settings.kind, setting);
+    if (!range || !limits) return null;
+    const value = overrides[idx]?.[setting] ?? range.value;
+    const status = settingStatus(value, range);
+    const warning = settingWarning(settings.kind, setting, status);
+    const step = setting === 'torqueNcm' ? (limits[1] <= 10 ? 0.1 : 1) : Math.max(1, Math.round((limits[1] - limits[0]) / 400));
+    // Safe range drawn over the track, in percent of the slider limits
+    const left = ((range.min - limits[0]) / (limits[1] - limits[0])) * 100;
+    const width = Math.max(1, ((range.max - range.min) / (limits[1] - limits[0])) * 100);
+
+    return (
+      <div key={setting} className="space-y-1">
+        <div className="flex items-center justify-between text-[10px] font-black">
+          <span className="text-slate-400">{SETTING_LABELS[setting]}</span>
+          <span className={`font-mono ${warning ? 'text-red-400' : 'text-emerald-400'}`} dir="ltr">
+            {format(setting, value)} <span className="text-slate-500">(آمن {format(setting, range.min)}–{format(setting, range.max)})</span>
+          </span>
+        </div>
+        <div className="relative" dir="ltr">
+          <div className="absolute top-1/2 -translate-y-1/2 h-2 bg-emerald-500/30 rounded pointer-events-none" style={{ left: `${left}%`, width: `${width}%` }}></div>
+          <input
+            type="range"
+            min={limits[0]}
+            max={limits[1]}
+            step={step}
+            value={value}
+            onChange={(e) => onOverride(idx, setting, Number(e.target.value))}
+            className={`relative w-full ${warning ? 'accent-red-500' : 'accent-emerald-500'}`}
+            aria-label={SETTING_LABELS[setting]}
+          />
+        </div>
+        {warning && <p className="text-[11px] font-bold text-red-400" role="alert">⚠️ {warning}</p>}
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-slate-900/60 border border-white/10 rounded-[2rem] p-6 space-y-4" dir="rtl">
+      <div className="flex items-center justify-between gap-3">
+        <h3 className="text-lg font-black text-white">الأدوات وإعدادات القبضة</h3>
+        <button onClick={onClose} className="text-[10px] font-black text-slate-500 hover:text-white">إغلاق</button>
+      </div>
+
+      {procedureSteps(instruments).map(({ step, indices }, stepIdx) => (
+        <div key={step} className="space-y-2">
+          <h4 className="text-[10px] font-black uppercase tracking-widest text-blue-400">{stepIdx + 1}. {step}</h4>
+          {indices.map(idx => {
+            const instrument = instruments[idx];
+            const settings = instrument.settings;
+            const powered = !!settings && settings.kind !== 'HAND';
+            const active = idx === activeIdx;
+            const adjusted = !!overrides[idx] && Object.values(overrides[idx]).some(v => v !== undefined);
+            return (
+              <div
+                key={idx}
+                className={`rounded-xl border p-4 space-y-3 transition-all ${active ? 'border-blue-500/60 bg-blue-500/5' : 'border-white/5 bg-black/30'} ${powered ? 'cursor-pointer' : ''}`}
+                onClick={() => powered && !active && onActiveChange(idx)}
+              >
+                <div className="flex flex-wrap items-start justify-between gap-2">
+                  <div>
+                    <span className="block text-sm font-black text-white">{instrument.name}</span>
+                    <span className="block text-[11px] text-slate-400">{instrument.useCase}</span>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-1 text-[10px] font-black">
+                    {instrument.isoNumber && <span className="font-mono text-slate-500 bg-white/5 px-2 py-0.5 rounded" dir="ltr">{instrument.isoNumber}</span>}
+                    <span className="text-slate-300 bg-white/5 border border-white/10 px-2 py-0.5 rounded">{HANDPIECE_KINDS[settings?.kind || 'HAND'].label}</span>
+                    {settings?.fileSystem && <span className="text-violet-300 bg-violet-500/10 px-2 py-0.5 rounded">{settings.fileSystem}</span>}
+                    {settings?.program && <span className="font-mono text-amber-300 bg-amber-500/10 px-2 py-0.5 rounded">{settings.program}</span>}
+                  </div>
+                </div>
+                {powered && active && (
+                  <div className="space-y-3" onClick={(e) => e.stopPropagation()}>
+                    {(['rpm', 'torqueNcm'] as const).map(setting => renderSlider(idx, setting))}
+                    {adjusted && (
+                      <button
+                        onClick={() => { onOverride(idx, 'rpm', undefined); onOverride(idx, 'torqueNcm', undefined); }}
+                        className="text-[10px] font-black text-slate-400 hover:text-white"
+                      >
+                        استعادة القيم الموصى بها
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default memo(InstrumentSettingsPanel);
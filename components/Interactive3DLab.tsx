@@ -1,13 +1,82 @@
 
 import React, { useEffect, useRef, useState, useCallback } from 'react';
 import * as THREE from 'three';
-import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls';
-import { TechnicalBlueprint } from '../types';
+import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+import { TechnicalBlueprint, ToothType } from '../types';
+import { TOOTH_MODELS, TOOTH_TYPES, blueprintTissueColors, blueprintToothType, buildToothModel } from '../services/toothModels';
+import { ImportedModel, LabLayer, MESH_FILE_ACCEPT, MeshFormatError, disposeObject, loadMeshFiles } from '../services/meshImport';
 
 interface Interactive3DLabProps {
   blueprint: TechnicalBlueprint;
 }
 
+// Anatomical tooth from the bundled library, the blueprint's own components, or imported scan/segmentation files
+type ModelSource = 'ANATOMY' | 'BLUEPRINT' | 'FILE';
+
+const SOURCE_LABELS: Record<ModelSource, string> = { ANATOMY: 'تشريحي', BLUEPRINT: 'المخطط', FILE: 'ملف' };
+
+// Blueprint components as keyword primitives, for topics that are not a single tooth
+const buildBlueprintModel = (blueprint: TechnicalBlueprint, clippingPlanes: THREE.Plane[]): THREE.Group => {
+  const model = new THREE.Group();
+  const safeVisualParams = blueprint.visualParameters || [];
+  const safeComponents = blueprint.structuralComponents || [];
+  
+  const visualMap = new Map(safeVisualParams.map(p => [p.componentId, p]));
+
+  if (safeComponents.length === 0) {
+    // Fallback object if no components
+    const geometry = new THREE.SphereGeometry(1, 32, 32);
+    const material = new THREE.MeshStandardMaterial({ color: 0x3b82f6 });
+    model.add(new THREE.Mesh(geometry, material));
+  }
+
+  safeComponents.forEach((component, index) => {
+    const visual = visualMap.get(component.partName) || safeVisualParams[index] || safeVisualParams[0];
+    let geometry: THREE.BufferGeometry;
+    
+    const name = (component.partName || "").toLowerCase();
+    if (name.includes('root') || name.includes('جذر')) {
+      geometry = new THREE.CylinderGeometry(0.6, 0.2, 4, 32);
+    } else if (name.includes('crown') || name.includes('تاج')) {
+      geometry = new THREE.CapsuleGeometry(1, 1.2, 8, 32);
+    } else if (name.includes('pulp') || name.includes('لب')) {
+      geometry = new THREE.IcosahedronGeometry(0.5, 2);
+    } else {
+      geometry = new THREE.SphereGeometry(0.8, 32, 32);
+    }
+
+    const color = visual?.colorHex || '#f8fafc';
+    const material = new THREE.MeshStandardMaterial({
+      color: new THREE.Color(color),
+      metalness: 0.1,
+      roughness: 0.3,
+      clippingPlanes, // Attach the shared plane
+      clipShadows: true,
+      side: THREE.DoubleSide
+    });
+
+    const mesh = new THREE.Mesh(geometry, material);
+    mesh.name = `${index}:${component.partName}`;
+    mesh.userData = { label: component.partName, color };
+    
+    // Calculate position based on blueprint metadata
+    if (visual?.spatialPosition) {
+      mesh.position.set(
+        (visual.spatialPosition.x / 100) * 8 - 4,
+        (visual.spatialPosition.y / 100) * 8 - 4,
+        (visual.spatialPosition.z / 100) * 8 - 4
+      );
+    } else {
+      mesh.position.y = index * 1.5 - 2;
+    }
+
+    mesh.castShadow = true;
+    mesh.receiveShadow = true;
+    model.add(mesh);
+  });
+  return model;
+};
+
 const Interactive3DLab: React.FC<Interactive3DLabProps> = ({ blueprint }) => {
   const mountRef = useRef<HTMLDivElement>(null);
   const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
@@ -16,13 +85,23 @@ const Interactive3DLab: React.FC<Interactive3DLabProps> = ({ blueprint }) => {
   const sceneRef = useRef<THREE.Scene | null>(null);
   const frameIdRef = useRef<number | null>(null);
   const resizeObserverRef = useRef<ResizeObserver | null>(null);
+  const modelRootRef = useRef<THREE.Group>(new THREE.Group());
+  const fileInputRef = useRef<HTMLInputElement>(null);
   
-  // Create a persistent clipping plane object
-  const clippingPlaneRef = useRef<THREE.Plane>(new THREE.Plane(new THREE.Vector3(-1, 0, 0), 100));
+  // Create a persistent clipping plane object (mesiodistal section: keeps the lingual half)
+  const clippingPlaneRef = useRef<THREE.Plane>(new THREE.Plane(new THREE.Vector3(0, 0, -1), 100));
 
   const [activeView, setActiveView] = useState<'free' | 'buccal' | 'lingual' | 'occlusal' | 'cross'>('free');
   const [isAnimating, setIsAnimating] = useState(false);
 
+  const [source, setSource] = useState<ModelSource>(() => (blueprintToothType(blueprint) ? 'ANATOMY' : 'BLUEPRINT'));
+  const [toothType, setToothType] = useState<ToothType>(() => blueprintToothType(blueprint) || 'MOLAR');
+  const [imported, setImported] = useState<ImportedModel | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [layers, setLayers] = useState<LabLayer[]>([]);
+  const [hiddenLayers, setHiddenLayers] = useState<string[]>([]);
+
   // Camera Animation Helper
   const animateCamera = useCallback((targetPos: THREE.Vector3, targetLookAt: THREE.Vector3 = new THREE.Vector3(0, 0, 0)) => {
     if (!cameraRef.current || !controlsRef.current) return;
@@ -74,7 +153,7 @@ const Interactive3DLab: React.FC<Interactive3DLabProps> = ({ blueprint }) => {
         // Enable clipping for cross-section
         clippingPlaneRef.current.constant = 0;
         if (rendererRef.current) rendererRef.current.localClippingEnabled = true;
-        animateCamera(new THREE.Vector3(8, 2, 0));
+        animateCamera(new THREE.Vector3(0, 2, 10));
         break;
     }
   };
@@ -119,63 +198,8 @@ const Interactive3DLab: React.FC<Interactive3DLabProps> = ({ blueprint }) => {
     backLight.position.set(-5, -5, -5);
     scene.add(backLight);
 
-    const mainGroup = new THREE.Group();
-    scene.add(mainGroup);
-
-    // Dynamic Component Generation
-    const safeVisualParams = blueprint.visualParameters || [];
-    const safeComponents = blueprint.structuralComponents || [];
-    
-    const visualMap = new Map(safeVisualParams.map(p => [p.componentId, p]));
-
-    if (safeComponents.length === 0) {
-      // Fallback object if no components
-      const geometry = new THREE.SphereGeometry(1, 32, 32);
-      const material = new THREE.MeshStandardMaterial({ color: 0x3b82f6 });
-      mainGroup.add(new THREE.Mesh(geometry, material));
-    }
-
-    safeComponents.forEach((component, index) => {
-      const visual = visualMap.get(component.partName) || safeVisualParams[index] || safeVisualParams[0];
-      let geometry: THREE.BufferGeometry;
-      
-      const name = (component.partName || "").toLowerCase();
-      if (name.includes('root') || name.includes('جذر')) {
-        geometry = new THREE.CylinderGeometry(0.6, 0.2, 4, 32);
-      } else if (name.includes('crown') || name.includes('تاج')) {
-        geometry = new THREE.CapsuleGeometry(1, 1.2, 8, 32);
-      } else if (name.includes('pulp') || name.includes('لب')) {
-        geometry = new THREE.IcosahedronGeometry(0.5, 2);
-      } else {
-        geometry = new THREE.SphereGeometry(0.8, 32, 32);
-      }
-
-      const material = new THREE.MeshStandardMaterial({
-        color: new THREE.Color(visual?.colorHex || '#f8fafc'),
-        metalness: 0.1,
-        roughness: 0.3,
-        clippingPlanes: [clippingPlaneRef.current], // Attach the shared plane
-        clipShadows: true,
-        side: THREE.DoubleSide
-      });
-
-      const mesh = new THREE.Mesh(geometry, material);
-      
-      // Calculate position based on blueprint metadata
-      if (visual?.spatialPosition) {
-        mesh.position.set(
-          (visual.spatialPosition.x / 100) * 8 - 4,
-          (visual.spatialPosition.y / 100) * 8 - 4,
-          (visual.spatialPosition.z / 100) * 8 - 4
-        );
-      } else {
-        mesh.position.y = index * 1.5 - 2;
-      }
-
-      mesh.castShadow = true;
-      mesh.receiveShadow = true;
-      mainGroup.add(mesh);
-    });
+    const modelRoot = modelRootRef.current;
+    scene.add(modelRoot);
 
     // Simple Render Loop
     const render = () => {
@@ -217,20 +241,74 @@ const Interactive3DLab: React.FC<Interactive3DLabProps> = ({ blueprint }) => {
         mountRef.current.removeChild(rendererRef.current.domElement);
       }
       renderer.dispose();
-      // Dispose geometries and materials
-      mainGroup.traverse((object) => {
-        if (object instanceof THREE.Mesh) {
-          object.geometry.dispose();
-          if (Array.isArray(object.material)) {
-            object.material.forEach(m => m.dispose());
-          } else {
-            object.material.dispose();
-          }
-        }
-      });
+      controls.dispose();
+      scene.remove(modelRoot);
     };
+  }, []);
+
+  // A new blueprint (another simulation) brings its own tooth, unless a file is open
+  useEffect(() => {
+    const type = blueprintToothType(blueprint);
+    if (type) setToothType(type);
+    setSource(current => (current === 'FILE' ? current : type ? 'ANATOMY' : 'BLUEPRINT'));
   }, [blueprint]);
 
+  // Model of the current source; built models are disposed on change, the imported one when it is replaced
+  useEffect(() => {
+    const root = modelRootRef.current;
+    const clippingPlanes = [clippingPlaneRef.current];
+    const model = source === 'FILE' && imported
+      ? imported.model
+      : source === 'ANATOMY'
+        ? buildToothModel(toothType, { colors: blueprintTissueColors(blueprint), clippingPlanes })
+        : buildBlueprintModel(blueprint, clippingPlanes);
+    root.add(model);
+    setLayers(model === imported?.model
+      ? imported.layers
+      : model.children.filter(child => child.userData.label).map(child => ({ id: child.name, label: child.userData.label, color: child.userData.color })));
+    setHiddenLayers([]);
+
+    return () => {
+      root.remove(model);
+      if (model !== imported?.model) disposeObject(model);
+    };
+  }, [source, toothType, blueprint, imported]);
+
+  useEffect(() => () => {
+    if (imported) disposeObject(imported.model);
+  }, [imported]);
+
+  useEffect(() => {
+    layers.forEach(layer => {
+      const object = modelRootRef.current.getObjectByName(layer.id);
+      if (object) object.visible = !hiddenLayers.includes(layer.id);
+    });
+  }, [layers, hiddenLayers]);
+
+  const toggleLayer = (id: string) =>
+    setHiddenLayers(current => (current.includes(id) ? current.filter(hidden => hidden !== id) : [...current, id]));
+
+  const handleMeshImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+    setImporting(true);
+    setImportError(null);
+    try {
+      setImported(await loadMeshFiles(files, [clippingPlaneRef.current]));
+      setSource('FILE');
+    } catch (err) {
+      setImportError(err instanceof MeshFormatError ? err.message : 'تعذر قراءة الملف.');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  // CBCT and many scanners export with Z up; the lab's views expect Y up
+  const rotateImported = () => {
+    if (imported) imported.model.rotation.x -= Math.PI / 2;
+  };
+
   return (
     <div className="w-full h-full relative group bg-slate-950 overflow-hidden rounded-[3rem]">
       <div ref={mountRef} className="w-full h-full cursor-grab active:cursor-grabbing" />
@@ -241,6 +319,12 @@ const Interactive3DLab: React.FC<Interactive3DLabProps> = ({ blueprint }) => {
           <p className="text-[10px] text-blue-400 font-black uppercase tracking-[0.2em] mb-1">المحاكي السريري 3D</p>
           <h3 className="text-xl font-black text-white">{blueprint?.modelMetadata?.entityName || 'نموذج ثلاثي الأبعاد'}</h3>
           <p className="text-[10px] text-slate-500 font-mono italic mt-1">{blueprint?.modelMetadata?.scientificClassification}</p>
+          {source === 'ANATOMY' && <p className="text-[10px] text-emerald-400 font-bold mt-1">نموذج تشريحي: {TOOTH_MODELS[toothType].label}</p>}
+          {source === 'FILE' && imported && (
+            <p className="text-[10px] text-amber-300 font-bold mt-1" dir="ltr">
+              {imported.sizeMm.map(size => size.toFixed(1)).join(' × ')} mm · {imported.triangles.toLocaleString()} △
+            </p>
+          )}
         </div>
       </div>
 
@@ -278,11 +362,66 @@ const Interactive3DLab: React.FC<Interactive3DLabProps> = ({ blueprint }) => {
         </button>
       </div>
 
-      {/* Navigation Help */}
-      <div className="absolute top-8 left-8 pointer-events-none">
-        <div className="bg-black/40 backdrop-blur-sm px-4 py-2 rounded-xl border border-white/5">
-          <p className="text-[9px] text-slate-500 font-bold uppercase tracking-tighter">التحكم الحر متاح</p>
+      {/* Model Source & Layers Panel */}
+      <div className="absolute top-8 left-8 z-30 w-56 max-h-[60%] overflow-y-auto no-scrollbar space-y-2" dir="rtl">
+        <div className="bg-slate-900/80 backdrop-blur-md border border-white/10 rounded-2xl p-3 space-y-2">
+          <div className="flex gap-1">
+            {(['ANATOMY', 'BLUEPRINT', 'FILE'] as ModelSource[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setSource(option)}
+                disabled={option === 'FILE' && !imported}
+                className={`flex-1 px-2 py-1.5 rounded-lg text-[10px] font-black transition-all disabled:opacity-30 ${source === option ? 'bg-blue-600 text-white' : 'text-slate-400 hover:bg-white/5 hover:text-white'}`}
+              >
+                {SOURCE_LABELS[option]}
+              </button>
+            ))}
+          </div>
+
+          {source === 'ANATOMY' && (
+            <select
+              value={toothType}
+              onChange={(e) => setToothType(e.target.value as ToothType)}
+              className="w-full bg-black/40 border border-white/10 rounded-lg px-2 py-1.5 text-[11px] font-bold text-white"
+              aria-label="نوع السن"
+            >
+              {TOOTH_TYPES.map(type => <option key={type} value={type}>{TOOTH_MODELS[type].label}</option>)}
+            </select>
+          )}
+
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={importing}
+            className="w-full px-2 py-1.5 rounded-lg border border-white/10 bg-white/5 text-[10px] font-black text-slate-300 hover:text-white disabled:opacity-50"
+          >
+            {importing ? 'جاري قراءة الملف...' : 'استيراد مسح أو تجزئة CBCT'}
+          </button>
+          <input ref={fileInputRef} type="file" accept={MESH_FILE_ACCEPT} multiple className="hidden" onChange={handleMeshImport} />
+          <p className="text-[9px] text-slate-500 font-bold" dir="ltr">STL · PLY · OBJ · glTF/GLB</p>
+
+          {source === 'FILE' && imported && (
+            <button onClick={rotateImported} className="w-full px-2 py-1.5 rounded-lg text-[10px] font-black text-amber-300 hover:bg-amber-500/10">
+              تدوير 90° (ملفات Z للأعلى)
+            </button>
+          )}
+
+          {importError && <p className="text-[10px] font-bold text-red-400" role="alert">{importError}</p>}
         </div>
+
+        {layers.length > 0 && (
+          <div className="bg-slate-900/80 backdrop-blur-md border border-white/10 rounded-2xl p-3 space-y-1">
+            <p className="text-[9px] text-slate-500 font-black uppercase tracking-widest mb-1">الطبقات</p>
+            {layers.map(layer => (
+              <label key={layer.id} className="flex items-center gap-2 text-[11px] font-bold text-slate-300 cursor-pointer">
+                <input type="checkbox" checked={!hiddenLayers.includes(layer.id)} onChange={() => toggleLayer(layer.id)} className="accent-blue-500" />
+                <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: layer.color }}></span>
+                <span className="truncate">{layer.label}</span>
+              </label>
+            ))}
+          </div>
+        )}
+
+        <p className="text-[9px] text-slate-500 font-bold uppercase tracking-tighter px-1">التحكم الحر متاح</p>
       </div>
 
       {isAnimating && (
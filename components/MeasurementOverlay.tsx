@@ -0,0 +1,195 @@
+import React, { memo, useEffect, useRef, useState } from 'react';
+import { Calibration, Measurement, MeasurementPoint, MeasurementTool } from '../types';
+import { ImageSize, MEASUREMENT_TOOLS, formatMeasurement, measure, nextMeasurementLabel } from '../services/measurements';
+import { ViewTransform } from '../services/viewTransform';
+import FittedImageLayer from './FittedImageLayer';
+
+export type MeasurementMode = MeasurementTool | 'CALIBRATE';
+
+interface MeasurementOverlayProps {
+  measurements: Measurement[];
+  calibration?: Calibration;
+  imageSize: ImageSize;
+  view?: ViewTransform;
+  // Active tool; null leaves the overlay display-only
+  mode: MeasurementMode | null;
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+  onAdd: (measurement: Measurement) => void;
+  onUpdate: (measurement: Measurement) => void;
+  // Reference line for calibration; the length is entered in the panel
+  calibrationLine: MeasurementPoint[] | null;
+  onCalibrationLine: (points: MeasurementPoint[]) => void;
+  showGrid: boolean;
+}
+
+const GRID_STEP_MM = 5;
+// Clicking this close (percent) to the first vertex closes an area polygon
+const CLOSE_DISTANCE = 1.5;
+
+const COLORS: Record<MeasurementMode, string> = { RULER: '#facc15', ANGLE: '#22d3ee', AREA: '#a78bfa', CALIBRATE: '#f472b6' };
+
+const pointsAttr = (points: MeasurementPoint[]) => points.map(p => `${p.x},${p.y}`).join(' ');
+const distance = (a: MeasurementPoint, b: MeasurementPoint) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Area is measured from the closed polygon; angle/ruler from their fixed number of points
+const requiredPoints = (mode: MeasurementMode) => (mode === 'CALIBRATE' ? 2 : MEASUREMENT_TOOLS.find(t => t.id === mode)!.points);
+
+const MeasurementOverlay: React.FC<MeasurementOverlayProps> = ({
+  measurements, calibration, imageSize, view, mode, selectedId, onSelect, onAdd, onUpdate, calibrationLine, onCalibrationLine, showGrid
+}) => {
+  const layerRef = useRef<HTMLDivElement>(null);
+  const [draft, setDraft] = useState<MeasurementPoint[]>([]);
+  const [cursor, setCursor] = useState<MeasurementPoint | null>(null);
+  const dragRef = useRef<{ measurement: Measurement; index: number } | null>(null);
+
+  // A tool change drops the unfinished shape
+  useEffect(() => { setDraft([]); }, [mode]);
+
+  useEffect(() => {
+    if (!mode) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setDraft([]);
+      if (e.key === 'Enter' && mode === 'AREA') finishArea(draft);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const toPercent = (e: React.PointerEvent | React.MouseEvent): MeasurementPoint => {
+    const rect = layerRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(100, Math.max(0, ((e.clientX - rect.left) / rect.width) * 100)),
+      y: Math.min(100, Math.max(0, ((e.clientY - rect.top) / rect.height) * 100)),
+    };
+  };
+
+  // 1. Drawing
+  const finish = (tool: MeasurementMode, points: MeasurementPoint[]) => {
+    setDraft([]);
+    if (tool === 'CALIBRATE') return onCalibrationLine(points);
+    const measurement: Measurement = { id: `m-${Date.now()}`, tool, points, label: nextMeasurementLabel(tool, measurements) };
+    onAdd(measurement);
+    onSelect(measurement.id);
+  };
+
+  const finishArea = (points: MeasurementPoint[]) => {
+    // Double-click adds the same vertex twice
+    const vertices = points.filter((point, i) => i === 0 || distance(point, points[i - 1]) > 0.2);
+    if (vertices.length >= 3) finish('AREA', vertices);
+    else setDraft([]);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (!mode || e.button !== 0) return;
+    const point = toPercent(e);
+    if (mode === 'AREA' && draft.length >= 3 && distance(point, draft[0]) < CLOSE_DISTANCE) return finishArea(draft);
+    const next = [...draft, point];
+    if (mode !== 'AREA' && next.length === requiredPoints(mode)) finish(mode, next);
+    else setDraft(next);
+  };
+
+  // 2. Moving the vertices of the selected measurement
+  const handleVertexPointerDown = (e: React.PointerEvent, measurement: Measurement, index: number) => {
+    if (!mode || e.button !== 0) return;
+    e.stopPropagation();
+    dragRef.current = { measurement, index };
+    layerRef.current?.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const point = toPercent(e);
+    setCursor(point);
+    const drag = dragRef.current;
+    if (drag) {
+      const points = drag.measurement.points.map((p, i) => (i === drag.index ? point : p));
+      onUpdate({ ...drag.measurement, points });
+    }
+  };
+
+  const handlePointerUp = () => { dragRef.current = null; };
+
+  // 3. Calibrated grid: one line every GRID_STEP_MM (doubled until lines are at least 1% apart)
+  const gridLines = (axis: 'x' | 'y') => {
+    if (!calibration) return [];
+    const size = axis === 'x' ? imageSize.width * calibration.mmPerPixelX : imageSize.height * calibration.mmPerPixelY;
+    let step = (GRID_STEP_MM / size) * 100;
+    while (step < 1) step *= 2;
+    return Array.from({ length: Math.floor(100 / step) }, (_, i) => (i + 1) * step);
+  };
+
+  const renderShape = (tool: MeasurementMode, points: MeasurementPoint[], closed: boolean, highlighted: boolean, key: string) => {
+    const common = { stroke: COLORS[tool], strokeWidth: highlighted ? 3 : 2, vectorEffect: 'non-scaling-stroke' as const, fill: 'none' };
+    if (tool === 'AREA' && closed) return <polygon key={key} points={pointsAttr(points)} {...common} fill={`${COLORS.AREA}33`} />;
+    return <polyline key={key} points={pointsAttr(points)} {...common} strokeDasharray={tool === 'CALIBRATE' ? '6 4' : undefined} />;
+  };
+
+  const labelPosition = (measurement: Measurement) => {
+    if (measurement.tool === 'ANGLE') return measurement.points[1];
+    const n = measurement.points.length;
+    return { x: measurement.points.reduce((s, p) => s + p.x, 0) / n, y: measurement.points.reduce((s, p) => s + p.y, 0) / n };
+  };
+
+  const draftPoints = mode && draft.length > 0 && cursor ? [...draft, cursor] : draft;
+  const selected = measurements.find(m => m.id === selectedId);
+
+  return (
+    <FittedImageLayer
+      ref={layerRef}
+      imageSize={imageSize}
+      view={view}
+      interactive={!!mode}
+      className={mode ? 'cursor-crosshair' : ''}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onDoubleClick={() => mode === 'AREA' && finishArea(draft)}
+    >
+      <svg className="absolute inset-0 w-full h-full overflow-visible pointer-events-none" viewBox="0 0 100 100" preserveAspectRatio="none">
+        {showGrid && (
+          <g stroke="#38bdf8" strokeOpacity={0.25} strokeWidth={1} vectorEffect="non-scaling-stroke">
+            {gridLines('x').map(x => <line key={`x${x}`} x1={x} y1={0} x2={x} y2={100} vectorEffect="non-scaling-stroke" />)}
+            {gridLines('y').map(y => <line key={`y${y}`} x1={0} y1={y} x2={100} y2={y} vectorEffect="non-scaling-stroke" />)}
+          </g>
+        )}
+        {measurements.map(m => renderShape(m.tool, m.points, true, m.id === selectedId, m.id))}
+        {calibrationLine && renderShape('CALIBRATE', calibrationLine, false, true, 'calibration')}
+        {mode && draftPoints.length > 1 && renderShape(mode, draftPoints, false, true, 'draft')}
+      </svg>
+
+      {measurements.map(m => {
+        const position = labelPosition(m);
+        return (
+          <button
+            key={m.id}
+            onPointerDown={(e) => { e.stopPropagation(); onSelect(m.id); }}
+            className={`absolute -translate-x-1/2 -translate-y-full mt-[-6px] text-[10px] font-black font-mono px-1.5 py-0.5 rounded whitespace-nowrap bg-black/80 border ${m.id === selectedId ? 'border-white text-white' : 'border-white/20 text-slate-200'} ${mode ? '' : 'pointer-events-none'}`}
+            style={{ left: `${position.x}%`, top: `${position.y}%` }}
+            dir="ltr"
+          >
+            {m.label}: {formatMeasurement(measure(m, imageSize, calibration))}
+          </button>
+        );
+      })}
+
+      {mode && selected?.points.map((point, index) => (
+        <div
+          key={index}
+          onPointerDown={(e) => handleVertexPointerDown(e, selected, index)}
+          className="absolute w-3 h-3 -translate-x-1/2 -translate-y-1/2 rounded-full bg-white border-2 border-slate-900 cursor-move"
+          style={{ left: `${point.x}%`, top: `${point.y}%` }}
+        ></div>
+      ))}
+
+      {mode && draft.map((point, index) => (
+        <div
+          key={`draft-${index}`}
+          className="absolute w-2 h-2 -translate-x-1/2 -translate-y-1/2 rounded-full pointer-events-none"
+          style={{ left: `${point.x}%`, top: `${point.y}%`, background: COLORS[mode] }}
+        ></div>
+      ))}
+    </FittedImageLayer>
+  );
+};
+
+export default memo(MeasurementOverlay);
@@ -0,0 +1,163 @@
+import React, { memo, useState } from 'react';
+import { Calibration, Measurement, MeasurementPoint, MeasurementSet } from '../types';
+import { ImageSize, MEASUREMENT_TOOLS, describeCalibration, exportMeasurements, formatMeasurement, measure } from '../services/measurements';
+import { MeasurementMode } from './MeasurementOverlay';
+
+interface MeasurementPanelProps {
+  set: MeasurementSet;
+  // Effective calibration (reference, or the file's pixel spacing)
+  calibration?: Calibration;
+  imageSize: ImageSize;
+  mode: MeasurementMode | null;
+  onModeChange: (mode: MeasurementMode | null) => void;
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+  onUpdate: (measurement: Measurement) => void;
+  onDelete: (id: string) => void;
+  onClear: () => void;
+  calibrationLine: MeasurementPoint[] | null;
+  onCalibrate: (referenceMm: number) => void;
+  onResetCalibration: () => void;
+}
+
+// Common reference lengths in mm: implant lengths and the 25 mm endodontic file
+const REFERENCE_PRESETS = [8, 10, 11.5, 13, 25];
+
+const TOOL_LABELS: Record<Measurement['tool'], string> = { RULER: 'طول', ANGLE: 'زاوية', AREA: 'مساحة' };
+
+const MeasurementPanel: React.FC<MeasurementPanelProps> = ({
+  set, calibration, imageSize, mode, onModeChange, selectedId, onSelect, onUpdate, onDelete, onClear, calibrationLine, onCalibrate, onResetCalibration
+}) => {
+  const [referenceMm, setReferenceMm] = useState('');
+
+  const handleExport = () => {
+    const blob = new Blob([JSON.stringify(exportMeasurements({ ...set, calibration }, imageSize), null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `dentalbrain-measurements-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const applyReference = (value: number) => {
+    if (!(value > 0)) return;
+    onCalibrate(value);
+    setReferenceMm('');
+  };
+
+  return (
+    <div className="bg-slate-900/60 border border-white/10 rounded-2xl overflow-hidden" dir="rtl">
+      <div className="flex flex-wrap items-center justify-between gap-3 px-5 py-3 border-b border-white/10">
+        <div className="flex items-center gap-3">
+          <h4 className="text-sm font-black text-white">القياسات <span className="text-slate-500 font-bold">({set.measurements.length})</span></h4>
+          <span className={`text-[9px] font-black px-2 py-0.5 rounded border ${calibration ? 'text-emerald-400 bg-emerald-500/10 border-emerald-500/30' : 'text-amber-400 bg-amber-500/10 border-amber-500/30'}`}>
+            {describeCalibration(calibration)}
+          </span>
+        </div>
+        <div className="flex flex-wrap items-center gap-2 text-[10px] font-black" data-html2canvas-ignore>
+          {[...MEASUREMENT_TOOLS.map(tool => ({ id: tool.id as MeasurementMode, label: tool.label })), { id: 'CALIBRATE' as MeasurementMode, label: 'معايرة' }].map(tool => (
+            <button
+              key={tool.id}
+              onClick={() => onModeChange(mode === tool.id ? null : tool.id)}
+              className={`px-3 py-1.5 rounded-lg border transition-all ${mode === tool.id ? 'bg-blue-600 border-white text-white' : 'bg-white/5 border-white/10 text-slate-300 hover:border-blue-500/40'}`}
+            >
+              {tool.label}
+            </button>
+          ))}
+          <div className="w-px h-5 bg-white/10"></div>
+          <button onClick={handleExport} disabled={set.measurements.length === 0} className="px-3 py-1.5 rounded-lg border border-white/10 bg-white/5 text-slate-300 hover:border-blue-500/40 disabled:opacity-30">JSON</button>
+          <button onClick={onClear} disabled={set.measurements.length === 0} className="px-3 py-1.5 rounded-lg border border-red-500/20 bg-red-500/5 text-red-400 hover:bg-red-500/10 disabled:opacity-30">مسح</button>
+        </div>
+      </div>
+
+      {mode && (
+        <p className="text-[11px] font-bold text-slate-500 px-5 pt-3" data-html2canvas-ignore>
+          {mode === 'RULER' && 'انقر على نقطتي البداية والنهاية.'}
+          {mode === 'ANGLE' && 'انقر على ثلاث نقاط؛ النقطة الثانية هي رأس الزاوية.'}
+          {mode === 'AREA' && 'انقر على رؤوس المضلع، ثم انقر نقراً مزدوجاً أو على النقطة الأولى لإغلاقه. Esc يلغي.'}
+          {mode === 'CALIBRATE' && 'ارسم خطاً على جسم معروف الطول (زرعة، مبرد، مسطرة) ثم أدخل طوله.'}
+        </p>
+      )}
+
+      {mode === 'CALIBRATE' && (
+        <div className="flex flex-wrap items-center gap-2 px-5 py-3 text-[10px] font-black" data-html2canvas-ignore>
+          <span className="text-slate-400">الطول المعروف (مم):</span>
+          <input
+            type="number"
+            min={0}
+            step={0.1}
+            value={referenceMm}
+            onChange={(e) => setReferenceMm(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && applyReference(Number(referenceMm))}
+            disabled={!calibrationLine}
+            className="w-20 bg-slate-900 border border-white/10 rounded-lg px-2 py-1 text-white outline-none focus:border-blue-600 disabled:opacity-30"
+            dir="ltr"
+          />
+          {REFERENCE_PRESETS.map(value => (
+            <button
+              key={value}
+              onClick={() => applyReference(value)}
+              disabled={!calibrationLine}
+              className="px-2.5 py-1 rounded-lg border border-white/10 bg-white/5 text-slate-300 hover:border-blue-500/40 disabled:opacity-30"
+            >
+              {value}
+            </button>
+          ))}
+          <button
+            onClick={() => applyReference(Number(referenceMm))}
+            disabled={!calibrationLine || !(Number(referenceMm) > 0)}
+            className="px-3 py-1 rounded-lg bg-blue-600 text-white disabled:opacity-30"
+          >
+            تطبيق
+          </button>
+          {set.calibration && (
+            <button onClick={onResetCalibration} className="px-3 py-1 rounded-lg border border-white/10 bg-white/5 text-slate-300">
+              إلغاء المعايرة المرجعية
+            </button>
+          )}
+        </div>
+      )}
+
+      {set.measurements.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <tbody>
+              {set.measurements.map(measurement => {
+                const value = measure(measurement, imageSize, calibration);
+                return (
+                  <tr
+                    key={measurement.id}
+                    onClick={() => onSelect(measurement.id)}
+                    className={`border-t border-white/5 cursor-pointer transition-colors ${selectedId === measurement.id ? 'bg-blue-600/20' : 'hover:bg-white/5'}`}
+                  >
+                    <td className="px-4 py-2 w-56">
+                      <input
+                        value={measurement.label}
+                        onChange={(e) => onUpdate({ ...measurement, label: e.target.value })}
+                        placeholder="مثال: طول العمل"
+                        className="w-full bg-transparent border border-transparent hover:border-white/10 focus:border-blue-600 rounded-lg px-2 py-1 font-bold text-white outline-none"
+                      />
+                    </td>
+                    <td className="px-4 py-2 text-slate-400 font-bold">{TOOL_LABELS[measurement.tool]}</td>
+                    <td className="px-4 py-2 font-mono font-black text-white" dir="ltr">
+                      {formatMeasurement(value)}
+                      {value?.perimeter !== undefined && (
+                        <span className="text-slate-500 font-bold"> · P {value.perimeter.toFixed(calibration ? 1 : 0)} {calibration ? 'mm' : 'px'}</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-2 w-12" data-html2canvas-ignore>
+                      <button onClick={(e) => { e.stopPropagation(); onDelete(measurement.id); }} className="text-red-400 hover:text-red-300 font-black" title="حذف">✕</button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default memo(MeasurementPanel);
@@ -0,0 +1,54 @@
+import React, { memo } from 'react';
+import { Calibration, MeasurementSet } from '../types';
+import { ImageSize, MEASUREMENT_TOOLS, describeCalibration, formatMeasurement, measure } from '../services/measurements';
+
+interface MeasurementReportProps {
+  set: MeasurementSet;
+  // Effective calibration (reference, or the file's pixel spacing)
+  calibration?: Calibration;
+  imageSize: ImageSize;
+}
+
+// Rendered off-screen and captured by the full PDF report as its own page
+export const MEASUREMENT_REPORT_ELEMENT_ID = 'measurement-report';
+
+const MeasurementReport: React.FC<MeasurementReportProps> = ({ set, calibration, imageSize }) => (
+  <div className="fixed top-0 -left-[10000px] w-[900px] pointer-events-none" aria-hidden="true">
+    <div id={MEASUREMENT_REPORT_ELEMENT_ID} className="bg-slate-950 p-8 space-y-4 text-right" dir="rtl">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-black text-white">القياسات ({set.measurements.length})</h3>
+        <p className="text-xs font-bold text-slate-400">
+          المعايرة: <span className={calibration ? 'text-emerald-400' : 'text-amber-400'}>{describeCalibration(calibration)}</span>
+          <span className="font-mono mr-3" dir="ltr">{imageSize.width}×{imageSize.height} px</span>
+        </p>
+      </div>
+      <table className="w-full text-sm border border-white/10">
+        <thead>
+          <tr className="bg-white/5 text-slate-400 text-xs">
+            <th className="px-4 py-2 text-right">التسمية</th>
+            <th className="px-4 py-2 text-right">الأداة</th>
+            <th className="px-4 py-2 text-right">القيمة</th>
+            <th className="px-4 py-2 text-right">المحيط</th>
+          </tr>
+        </thead>
+        <tbody>
+          {set.measurements.map(measurement => {
+            const value = measure(measurement, imageSize, calibration);
+            return (
+              <tr key={measurement.id} className="border-t border-white/10">
+                <td className="px-4 py-2 font-bold text-white">{measurement.label || '—'}</td>
+                <td className="px-4 py-2 text-slate-400">{MEASUREMENT_TOOLS.find(tool => tool.id === measurement.tool)?.label}</td>
+                <td className="px-4 py-2 font-mono font-black text-white" dir="ltr">{formatMeasurement(value)}</td>
+                <td className="px-4 py-2 font-mono text-slate-400" dir="ltr">
+                  {value?.perimeter !== undefined ? `${value.perimeter.toFixed(calibration ? 1 : 0)} ${calibration ? 'mm' : 'px'}` : '—'}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  </div>
+);
+
+export default memo(MeasurementReport);
@@ -0,0 +1,55 @@
+import React, { memo, useRef } from 'react';
+import { MAGNIFICATION_STEPS, ViewTransform, centerOn, magnificationOf, setMagnification, visibleRegion } from '../services/viewTransform';
+
+interface MicroscopeControlsProps {
+  view: ViewTransform;
+  onViewChange: (update: (view: ViewTransform) => ViewTransform) => void;
+  // Minimap thumbnail, fitted like the main image
+  imageUrl: string;
+  imageFit: 'object-cover' | 'object-contain';
+}
+
+// Magnification steps and a minimap of the whole field; clicking or dragging the minimap moves the view
+const MicroscopeControls: React.FC<MicroscopeControlsProps> = ({ view, onViewChange, imageUrl, imageFit }) => {
+  const minimapRef = useRef<HTMLDivElement>(null);
+  const region = visibleRegion(view);
+  const magnification = magnificationOf(view);
+
+  const moveTo = (e: React.PointerEvent) => {
+    const rect = minimapRef.current!.getBoundingClientRect();
+    onViewChange(current => centerOn(current, (e.clientX - rect.left) / rect.width, (e.clientY - rect.top) / rect.height));
+  };
+
+  return (
+    // Presses here must not start a pan of the field underneath
+    <div className="absolute top-6 right-6 z-40 flex flex-col items-end gap-2" dir="ltr" onPointerDown={(e) => e.stopPropagation()}>
+      <div className="flex bg-black/70 backdrop-blur-md border border-white/10 rounded-xl p-1">
+        {MAGNIFICATION_STEPS.map(step => (
+          <button
+            key={step}
+            onClick={() => onViewChange(current => setMagnification(current, step))}
+            className={`text-[10px] font-black font-mono px-2.5 py-1 rounded-lg transition-all ${Math.abs(magnification - step) < 0.05 ? 'bg-amber-600 text-white' : 'text-slate-400 hover:text-white'}`}
+          >
+            {step}x
+          </button>
+        ))}
+      </div>
+      <div
+        ref={minimapRef}
+        onPointerDown={(e) => { e.currentTarget.setPointerCapture(e.pointerId); moveTo(e); }}
+        onPointerMove={(e) => e.buttons === 1 && moveTo(e)}
+        className="relative w-40 aspect-video bg-black rounded-lg overflow-hidden border border-white/20 cursor-pointer shadow-2xl"
+        style={{ touchAction: 'none' }}
+      >
+        <img src={imageUrl} className={`w-full h-full ${imageFit} opacity-70 pointer-events-none`} alt="" />
+        <div
+          className="absolute border-2 border-amber-400 bg-amber-400/10 pointer-events-none"
+          style={{ left: `${region.left}%`, top: `${region.top}%`, width: `${region.width}%`, height: `${region.height}%` }}
+        ></div>
+      </div>
+      <span className="text-[10px] font-black font-mono text-amber-400 bg-black/70 px-2 py-0.5 rounded">{magnification.toFixed(1)}x</span>
+    </div>
+  );
+};
+
+export default memo(MicroscopeControls);
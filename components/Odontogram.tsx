@@ -0,0 +1,326 @@
+import React, { memo, useMemo, useState } from 'react';
+import {
+  Hotspot, Odontogram as OdontogramChart, PlannedTreatment, SurfaceMark, ToothChartEntry, ToothFinding, ToothNotation, ToothSurface
+} from '../types';
+import {
+  CHART_CONDITIONS, CONDITION_CODES, PLANNED_TREATMENT_LABELS, chartRows, createOdontogram, emptyEntry,
+  entriesFromFindings, entriesFromHotspots, exportOdontogram, mergeIntoOdontogram, updateTooth
+} from '../services/odontogram';
+import { CONDITION_LABELS, SURFACE_LABELS, chartOrder, formatTooth } from '../services/toothNumbering';
+import { NotationSwitcher } from './ToothFindings';
+
+interface OdontogramProps {
+  chart: OdontogramChart;
+  onChange: (chart: OdontogramChart) => void;
+  notation: ToothNotation;
+  onNotationChange: (notation: ToothNotation) => void;
+  // Sources the chart can be populated from
+  findings?: ToothFinding[];
+  hotspots?: Hotspot[];
+  onExportImage: () => void;
+  exportingImage?: boolean;
+}
+
+// Element captured for the image export and the PDF report
+export const ODONTOGRAM_ELEMENT_ID = 'odontogram-chart';
+
+const TOOTH_SIZE = 36;
+const MARK_COLORS: Record<SurfaceMark, string> = { CARIES: '#ef4444', RESTORATION: '#3b82f6' };
+const SURFACE_CYCLE: (SurfaceMark | undefined)[] = [undefined, 'CARIES', 'RESTORATION'];
+
+// Five-surface glyph: outer trapezoids + centre square
+const POLYGONS = {
+  top: '0,0 36,0 26,10 10,10',
+  bottom: '0,36 36,36 26,26 10,26',
+  left: '0,0 10,10 10,26 0,36',
+  right: '36,0 26,10 26,26 36,36',
+  center: '10,10 26,10 26,26 10,26',
+};
+
+// Buccal faces outwards (top for the upper arch), mesial faces the midline
+const surfaceLayout = (tooth: string): Record<keyof typeof POLYGONS, ToothSurface> => {
+  const quadrant = Number(tooth[0]);
+  const upper = [1, 2, 5, 6].includes(quadrant);
+  const patientRight = [1, 4, 5, 8].includes(quadrant);
+  return {
+    top: upper ? 'B' : 'L',
+    bottom: upper ? 'L' : 'B',
+    left: patientRight ? 'D' : 'M',
+    right: patientRight ? 'M' : 'D',
+    center: Number(tooth[1]) <= 3 ? 'I' : 'O',
+  };
+};
+
+const ToothGlyph: React.FC<{
+  tooth: string;
+  entry?: ToothChartEntry;
+  selected: boolean;
+  label: string;
+  upper: boolean;
+  onSurfaceClick: (surface: ToothSurface) => void;
+}> = ({ tooth, entry, selected, label, upper, onSurfaceClick }) => {
+  const layout = surfaceLayout(tooth);
+  const codes = (entry?.conditions || []).map(condition => CONDITION_CODES[condition]).filter(Boolean).join(' ');
+  const numberLabel = <span className={`text-[9px] font-mono font-black ${selected ? 'text-blue-400' : 'text-slate-400'}`}>{label}</span>;
+  const codeLabel = <span className="text-[8px] font-black text-amber-400 h-3 leading-3">{codes}</span>;
+
+  return (
+    <div className="flex flex-col items-center gap-0.5 w-10">
+      {upper ? numberLabel : codeLabel}
+      <svg
+        width={TOOTH_SIZE}
+        height={TOOTH_SIZE}
+        viewBox={`-2 -2 ${TOOTH_SIZE + 4} ${TOOTH_SIZE + 4}`}
+        className={`cursor-pointer ${entry?.missing ? 'opacity-40' : ''}`}
+      >
+        {(Object.keys(POLYGONS) as (keyof typeof POLYGONS)[]).map(key => {
+          const mark = entry?.surfaces[layout[key]];
+          return (
+            <polygon
+              key={key}
+              points={POLYGONS[key]}
+              fill={mark ? MARK_COLORS[mark] : '#1e293b'}
+              stroke="#475569"
+              strokeWidth={1}
+              onClick={() => onSurfaceClick(layout[key])}
+            >
+              <title>{SURFACE_LABELS[layout[key]]}</title>
+            </polygon>
+          );
+        })}
+        {entry?.missing && (
+          <g stroke="#f8fafc" strokeWidth={2} pointerEvents="none">
+            <line x1={2} y1={2} x2={34} y2={34} />
+            <line x1={34} y1={2} x2={2} y2={34} />
+          </g>
+        )}
+        {(entry?.planned.length || 0) > 0 && (
+          <rect x={-1.5} y={-1.5} width={39} height={39} fill="none" stroke="#10b981" strokeWidth={2} strokeDasharray="4 2" pointerEvents="none" />
+        )}
+        {selected && <rect x={-1.5} y={-1.5} width={39} height={39} fill="none" stroke="#60a5fa" strokeWidth={2.5} pointerEvents="none" />}
+      </svg>
+      {upper ? codeLabel : numberLabel}
+    </div>
+  );
+};
+
+const Odontogram: React.FC<OdontogramProps> = ({
+  chart, onChange, notation, onNotationChange, findings = [], hotspots = [], onExportImage, exportingImage = false
+}) => {
+  const [selectedTooth, setSelectedTooth] = useState<string | null>(null);
+  const selectedEntry = selectedTooth ? chart.teeth[selectedTooth] || emptyEntry(selectedTooth) : null;
+  const hotspotEntries = useMemo(() => entriesFromHotspots(hotspots), [hotspots]);
+  const charted = useMemo(() => Object.values(chart.teeth).sort((a, b) => chartOrder(a.tooth) - chartOrder(b.tooth)), [chart]);
+
+  // 1. Editing
+  const edit = (patch: (entry: ToothChartEntry) => ToothChartEntry) => {
+    if (!selectedEntry) return;
+    onChange(updateTooth(chart, patch(selectedEntry)));
+  };
+
+  const cycleSurface = (entry: ToothChartEntry, surface: ToothSurface): ToothChartEntry => {
+    const next = SURFACE_CYCLE[(SURFACE_CYCLE.indexOf(entry.surfaces[surface]) + 1) % SURFACE_CYCLE.length];
+    const surfaces = { ...entry.surfaces };
+    if (next) surfaces[surface] = next;
+    else delete surfaces[surface];
+    return { ...entry, surfaces };
+  };
+
+  // Clicking a surface of the selected tooth cycles its mark; any other click selects the tooth
+  const handleSurfaceClick = (tooth: string, surface: ToothSurface) => {
+    if (selectedTooth !== tooth) {
+      setSelectedTooth(tooth);
+      return;
+    }
+    onChange(updateTooth(chart, cycleSurface(chart.teeth[tooth] || emptyEntry(tooth), surface)));
+  };
+
+  const toggle = <T,>(list: T[], item: T) => (list.includes(item) ? list.filter(i => i !== item) : [...list, item]);
+
+  // 2. Export
+  const handleExportJson = () => {
+    const blob = new Blob([exportOdontogram(chart)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `dentalbrain-odontogram-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="bg-slate-900/40 border border-white/10 rounded-[2rem] p-6 space-y-5" dir="rtl">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <h3 className="text-lg font-black text-white">مخطط الأسنان</h3>
+          <div className="flex bg-black/30 border border-white/10 rounded-lg p-0.5">
+            {(['ADULT', 'MIXED'] as const).map(dentition => (
+              <button
+                key={dentition}
+                onClick={() => onChange({ ...chart, dentition, updatedAt: Date.now() })}
+                className={`text-[9px] font-black px-3 py-1 rounded-md transition-all ${chart.dentition === dentition ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}
+              >
+                {dentition === 'ADULT' ? 'دائم' : 'مختلط'}
+              </button>
+            ))}
+          </div>
+          <NotationSwitcher notation={notation} onChange={onNotationChange} />
+        </div>
+        <div className="flex flex-wrap gap-2 text-[10px] font-black">
+          <button
+            onClick={() => onChange(mergeIntoOdontogram(chart, entriesFromFindings(findings)))}
+            disabled={findings.length === 0}
+            className="px-3 py-1.5 rounded-lg border border-white/10 bg-white/5 text-slate-300 hover:border-blue-500/40 disabled:opacity-30"
+            title="إضافة نتائج تحليل الصورة إلى المخطط"
+          >
+            من تحليل الصورة ({findings.length})
+          </button>
+          <button
+            onClick={() => onChange(mergeIntoOdontogram(chart, hotspotEntries))}
+            disabled={hotspotEntries.length === 0}
+            className="px-3 py-1.5 rounded-lg border border-white/10 bg-white/5 text-slate-300 hover:border-blue-500/40 disabled:opacity-30"
+            title="الأسنان المذكورة في نقاط المحاكاة"
+          >
+            من المحاكاة ({hotspotEntries.length})
+          </button>
+          <button onClick={handleExportJson} className="px-3 py-1.5 rounded-lg border border-white/10 bg-white/5 text-slate-300 hover:border-blue-500/40">
+            تصدير JSON
+          </button>
+          <button onClick={onExportImage} disabled={exportingImage} className="px-3 py-1.5 rounded-lg border border-white/10 bg-white/5 text-slate-300 hover:border-blue-500/40 disabled:opacity-30">
+            {exportingImage ? 'جاري التصدير...' : 'تصدير صورة'}
+          </button>
+          <button
+            onClick={() => { onChange(createOdontogram(chart.dentition)); setSelectedTooth(null); }}
+            disabled={charted.length === 0}
+            className="px-3 py-1.5 rounded-lg border border-red-500/20 bg-red-500/5 text-red-400 hover:bg-red-500/10 disabled:opacity-30"
+          >
+            مسح
+          </button>
+        </div>
+      </div>
+
+      {/* Chart (exported) */}
+      <div id={ODONTOGRAM_ELEMENT_ID} className="bg-slate-950 rounded-2xl p-5 space-y-4">
+        <div className="flex flex-col items-center gap-3 overflow-x-auto" dir="ltr">
+          {chartRows(chart.dentition).map(row => (
+            <div key={row.id} className={`flex items-end gap-0.5 ${row.id === 'lower-primary' || (row.id === 'lower' && chart.dentition === 'ADULT') ? 'pt-3 border-t border-white/10' : ''}`}>
+              {row.teeth.map((tooth, idx) => (
+                <React.Fragment key={tooth}>
+                  {idx === row.teeth.length / 2 && <div className="w-px self-stretch bg-white/20 mx-1.5"></div>}
+                  <ToothGlyph
+                    tooth={tooth}
+                    entry={chart.teeth[tooth]}
+                    selected={selectedTooth === tooth}
+                    label={formatTooth(tooth, notation)}
+                    upper={row.upper}
+                    onSurfaceClick={surface => handleSurfaceClick(tooth, surface)}
+                  />
+                </React.Fragment>
+              ))}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap justify-center gap-4 text-[9px] font-bold text-slate-400">
+          <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm" style={{ background: MARK_COLORS.CARIES }}></span>نخر</span>
+          <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm" style={{ background: MARK_COLORS.RESTORATION }}></span>حشوة</span>
+          <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm border-2 border-dashed border-emerald-500"></span>علاج مخطط</span>
+          <span className="flex items-center gap-1"><span className="font-black text-white">✕</span>مفقود</span>
+          <span dir="ltr">{Object.entries(CONDITION_CODES).map(([condition, code]) => `${code} = ${CONDITION_LABELS[condition as keyof typeof CONDITION_LABELS]}`).join(' · ')}</span>
+        </div>
+
+        {charted.length > 0 && (
+          <table className="w-full text-[10px]">
+            <tbody>
+              {charted.map(entry => (
+                <tr key={entry.tooth} className="border-t border-white/5">
+                  <td className="py-1.5 px-2 font-mono font-black text-white whitespace-nowrap" dir="ltr">{formatTooth(entry.tooth, notation)}</td>
+                  <td className="py-1.5 px-2 text-slate-300">
+                    {[
+                      entry.missing ? 'مفقود' : '',
+                      ...Object.entries(entry.surfaces).map(([surface, mark]) => `${mark === 'CARIES' ? 'نخر' : 'حشوة'} ${surface}`),
+                      ...entry.conditions.map(condition => CONDITION_LABELS[condition]),
+                    ].filter(Boolean).join('، ')}
+                  </td>
+                  <td className="py-1.5 px-2 text-emerald-400">{entry.planned.map(p => PLANNED_TREATMENT_LABELS[p]).join('، ')}</td>
+                  <td className="py-1.5 px-2 text-slate-500">{entry.note}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Selected tooth editor */}
+      {selectedEntry ? (
+        <div className="bg-black/30 border border-white/10 rounded-2xl p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-black text-white">
+              السن <span className="font-mono" dir="ltr">{formatTooth(selectedEntry.tooth, notation)}</span>
+            </h4>
+            <button onClick={() => setSelectedTooth(null)} className="text-[10px] font-black text-slate-500 hover:text-white">إغلاق</button>
+          </div>
+          <div className="flex flex-wrap items-center gap-2 text-[10px] font-black">
+            <span className="text-slate-500 w-20">السطوح</span>
+            {(['M', 'O', 'D', 'B', 'L', 'I'] as ToothSurface[]).map(surface => {
+              const mark = selectedEntry.surfaces[surface];
+              return (
+                <button
+                  key={surface}
+                  onClick={() => edit(entry => cycleSurface(entry, surface))}
+                  className="px-2.5 py-1 rounded-lg border border-white/10 text-white"
+                  style={mark ? { background: MARK_COLORS[mark] } : undefined}
+                  title={`${SURFACE_LABELS[surface]}: بدون ← نخر ← حشوة`}
+                >
+                  {surface}
+                </button>
+              );
+            })}
+            <button
+              onClick={() => edit(entry => ({ ...entry, missing: !entry.missing }))}
+              className={`px-3 py-1 rounded-lg border transition-all ${selectedEntry.missing ? 'bg-slate-200 text-slate-900 border-white' : 'border-white/10 text-slate-400'}`}
+            >
+              مفقود
+            </button>
+          </div>
+          <div className="flex flex-wrap items-center gap-2 text-[10px] font-black">
+            <span className="text-slate-500 w-20">الحالة</span>
+            {CHART_CONDITIONS.map(condition => (
+              <button
+                key={condition}
+                onClick={() => edit(entry => ({ ...entry, conditions: toggle(entry.conditions, condition) }))}
+                className={`px-3 py-1 rounded-lg border transition-all ${selectedEntry.conditions.includes(condition) ? 'bg-amber-600 border-white text-white' : 'border-white/10 text-slate-400'}`}
+              >
+                {CONDITION_LABELS[condition]}
+              </button>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-2 text-[10px] font-black">
+            <span className="text-slate-500 w-20">العلاج المخطط</span>
+            {(Object.keys(PLANNED_TREATMENT_LABELS) as PlannedTreatment[]).map(treatment => (
+              <button
+                key={treatment}
+                onClick={() => edit(entry => ({ ...entry, planned: toggle(entry.planned, treatment) }))}
+                className={`px-3 py-1 rounded-lg border transition-all ${selectedEntry.planned.includes(treatment) ? 'bg-emerald-600 border-white text-white' : 'border-white/10 text-slate-400'}`}
+              >
+                {PLANNED_TREATMENT_LABELS[treatment]}
+              </button>
+            ))}
+          </div>
+          <input
+            type="text"
+            value={selectedEntry.note || ''}
+            onChange={(e) => edit(entry => ({ ...entry, note: e.target.value || undefined }))}
+            placeholder="ملاحظة..."
+            className="w-full bg-slate-900 border border-white/10 rounded-xl px-4 py-2 text-xs text-white outline-none focus:border-blue-600"
+          />
+        </div>
+      ) : (
+        <p className="text-[11px] font-bold text-slate-500 text-center">اضغط على سن لتحديده، ثم اضغط على سطوحه لتبديل العلامة (نخر ← حشوة ← بدون).</p>
+      )}
+    </div>
+  );
+};
+
+export default memo(Odontogram);
@@ -0,0 +1,316 @@
+import React, { memo, useEffect, useRef, useState } from 'react';
+import { PhysiologyEventId, Vitals, VitalSigns } from '../types';
+import {
+  EMERGENCY_ACTIONS, EmergencyScore, EventRecord, MonitorState, PHYSIOLOGY_EVENTS, activeEmergency, advanceMonitor, applyAction,
+  consciousnessOf, createMonitor, currentVitals, endEmergency, scoreEmergency, triggerEvent, vitalAlarms
+} from '../services/physiology';
+
+interface PatientMonitorProps {
+  vitals?: Vitals;
+  riskLevel?: string;
+}
+
+const TICK_MS = 500;
+const SPEEDS = [1, 5, 10];
+const DRUG_EVENTS: PhysiologyEventId[] = ['LA_EPINEPHRINE', 'LA_PLAIN'];
+const EMERGENCY_EVENTS: PhysiologyEventId[] = ['VASOVAGAL', 'HYPOGLYCAEMIA', 'ANAPHYLAXIS'];
+
+const RISK_STYLES: Record<string, string> = {
+  HIGH: 'text-red-400 border-red-500/40 bg-red-500/10',
+  MODERATE: 'text-amber-400 border-amber-500/40 bg-amber-500/10',
+  LOW: 'text-emerald-400 border-emerald-500/40 bg-emerald-500/10',
+};
+
+const TILES: { key: keyof VitalSigns; label: string; unit: string; color: string }[] = [
+  { key: 'heartRate', label: 'HR', unit: 'bpm', color: '#22c55e' },
+  { key: 'oxygenSaturation', label: 'SpO₂', unit: '%', color: '#22d3ee' },
+  { key: 'respiratoryRate', label: 'RR', unit: '/min', color: '#facc15' },
+];
+
+const CONSCIOUSNESS_LABELS = { ALERT: 'واعٍ', DROWSY: 'مشوّش', UNCONSCIOUS: 'فاقد الوعي' };
+
+const clock = (seconds: number) => `${String(Math.floor(seconds / 60)).padStart(2, '0')}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+const actionLabel = (id: string) => EMERGENCY_ACTIONS.find(a => a.id === id)?.label || id;
+
+// Short alarm tone; browsers without Web Audio stay silent
+const beep = (context: AudioContext, critical: boolean) => {
+  const oscillator = context.createOscillator();
+  const gain = context.createGain();
+  oscillator.frequency.value = critical ? 960 : 660;
+  gain.gain.value = 0.05;
+  oscillator.connect(gain).connect(context.destination);
+  oscillator.start();
+  oscillator.stop(context.currentTime + (critical ? 0.25 : 0.12));
+};
+
+// Live patient monitor: starts from the generated vitals and evolves in simulated time.
+// Emergencies can be started by name or at random (name hidden until the case ends); the response is scored.
+const PatientMonitor: React.FC<PatientMonitorProps> = ({ vitals, riskLevel }) => {
+  const [monitor, setMonitor] = useState<MonitorState>(() => createMonitor(vitals, riskLevel));
+  const [running, setRunning] = useState(true);
+  const [speed, setSpeed] = useState(1);
+  const [sound, setSound] = useState(false);
+  // Start time of a random emergency whose name stays hidden until it ends
+  const [blindEvent, setBlindEvent] = useState<number | null>(null);
+  const [results, setResults] = useState<{ event: EventRecord; score: EmergencyScore }[]>([]);
+  const audioRef = useRef<AudioContext | null>(null);
+
+  // 1. A new case restarts the monitor
+  useEffect(() => {
+    setMonitor(createMonitor(vitals, riskLevel));
+    setResults([]);
+    setBlindEvent(null);
+    setRunning(true);
+  }, [vitals, riskLevel]);
+
+  useEffect(() => {
+    if (!running) return;
+    const timer = setInterval(() => setMonitor(state => advanceMonitor(state, (TICK_MS / 1000) * speed)), TICK_MS);
+    return () => clearInterval(timer);
+  }, [running, speed]);
+
+  const current = currentVitals(monitor);
+  const consciousness = consciousnessOf(monitor);
+  const alarms = vitalAlarms(current, consciousness);
+  const alarming = alarms.length > 0;
+  const critical = alarms.some(a => a.level === 'CRITICAL');
+  const emergency = activeEmergency(monitor);
+
+  // 2. Alarm tone while alarms are active
+  useEffect(() => {
+    if (!sound || !running || !alarming) return;
+    try {
+      audioRef.current = audioRef.current || new AudioContext();
+    } catch (e) {
+      return;
+    }
+    const context = audioRef.current;
+    beep(context, critical);
+    const timer = setInterval(() => beep(context, critical), critical ? 1000 : 2500);
+    return () => clearInterval(timer);
+  }, [sound, running, alarming, critical]);
+
+  useEffect(() => () => { audioRef.current?.close(); }, []);
+
+  // 3. Emergencies end when resolved by treatment or when the student hands over; both are scored
+  const recordResult = (event: EventRecord, state: MonitorState) => {
+    setResults(prev => (prev.some(r => r.event.startS === event.startS) ? prev : [{ event, score: scoreEmergency(event, state.timeS) }, ...prev]));
+    if (blindEvent === event.startS) setBlindEvent(null);
+  };
+
+  useEffect(() => {
+    monitor.events
+      .filter(event => PHYSIOLOGY_EVENTS[event.id].emergency && event.resolvedAtS !== undefined)
+      .forEach(event => recordResult(event, monitor));
+  }, [monitor.events]);
+
+  const handleEnd = () => {
+    const ended = endEmergency(monitor);
+    const event = ended.events.find(e => e.startS === emergency?.startS && e.id === emergency?.id);
+    setMonitor(ended);
+    if (event) recordResult(event, ended);
+  };
+
+  const startEvent = (id: PhysiologyEventId, blind = false) => {
+    if (PHYSIOLOGY_EVENTS[id].emergency && emergency) return;
+    setMonitor(state => triggerEvent(state, id));
+    if (blind) setBlindEvent(monitor.timeS);
+    setRunning(true);
+  };
+
+  const startRandomEmergency = () => startEvent(EMERGENCY_EVENTS[Math.floor(Math.random() * EMERGENCY_EVENTS.length)], true);
+
+  const alarmFor = (key: string) => alarms.find(a => a.vital === key);
+  const tileClass = (key: string) => {
+    const alarm = alarmFor(key);
+    return alarm?.level === 'CRITICAL' ? 'border-red-500 bg-red-500/10 animate-pulse' : alarm ? 'border-amber-500/60 bg-amber-500/5' : 'border-white/10 bg-black/40';
+  };
+
+  // 4. Trend (last HISTORY_LENGTH samples)
+  const trend = (key: keyof VitalSigns, min: number, max: number) => monitor.history
+    .map((sample, i) => `${(i / Math.max(1, monitor.history.length - 1)) * 100},${40 - ((Math.min(max, Math.max(min, sample.vitals[key])) - min) / (max - min)) * 40}`)
+    .join(' ');
+
+  const emergencyHidden = emergency && blindEvent === emergency.startS;
+  const latest = results[0];
+
+  return (
+    <div className="bg-slate-950 border border-white/10 rounded-[2rem] p-6 space-y-5" dir="rtl">
+      {/* Header */}
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <h3 className="text-lg font-black text-white">مراقبة المريض</h3>
+          {riskLevel && (
+            <span className={`text-[10px] font-black px-2 py-0.5 rounded border ${RISK_STYLES[riskLevel.toUpperCase()] || 'text-slate-400 border-white/10'}`}>
+              خطورة: {riskLevel}
+            </span>
+          )}
+          <span className="text-xs font-mono font-black text-slate-400" dir="ltr">T+{clock(monitor.timeS)}</span>
+        </div>
+        <div className="flex items-center gap-2 text-[10px] font-black">
+          <button onClick={() => setRunning(r => !r)} className="px-3 py-1.5 rounded-lg border bg-white/5 border-white/10 text-slate-300 hover:text-white">
+            {running ? '⏸ إيقاف مؤقت' : '▶ تشغيل'}
+          </button>
+          <div className="flex bg-black/30 border border-white/10 rounded-lg p-0.5">
+            {SPEEDS.map(option => (
+              <button
+                key={option}
+                onClick={() => setSpeed(option)}
+                className={`px-2 py-1 rounded-md font-mono ${speed === option ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}
+              >
+                {option}x
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={() => setSound(s => !s)}
+            className={`px-3 py-1.5 rounded-lg border ${sound ? 'bg-blue-600 border-white text-white' : 'bg-white/5 border-white/10 text-slate-400'}`}
+            title="صوت الإنذار"
+          >
+            {sound ? '🔔' : '🔕'}
+          </button>
+          <button
+            onClick={() => { setMonitor(createMonitor(vitals, riskLevel)); setResults([]); setBlindEvent(null); }}
+            className="px-3 py-1.5 rounded-lg border bg-white/5 border-white/10 text-slate-400 hover:text-white"
+          >
+            إعادة
+          </button>
+        </div>
+      </div>
+
+      {/* Vitals */}
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3" dir="ltr">
+        {TILES.map(tile => (
+          <div key={tile.key} className={`rounded-xl border p-3 transition-colors ${tileClass(tile.key)}`}>
+            <span className="block text-[10px] font-black" style={{ color: tile.color }}>{tile.label}</span>
+            <span className="text-3xl font-black font-mono" style={{ color: tile.color }}>{Math.round(current[tile.key])}</span>
+            <span className="text-[10px] text-slate-500 font-mono ml-1">{tile.unit}</span>
+          </div>
+        ))}
+        <div className={`rounded-xl border p-3 transition-colors ${tileClass('systolic')}`}>
+          <span className="block text-[10px] font-black text-red-400">NIBP</span>
+          <span className="text-3xl font-black font-mono text-red-400">{Math.round(current.systolic)}/{Math.round(current.diastolic)}</span>
+          <span className="text-[10px] text-slate-500 font-mono ml-1">mmHg</span>
+        </div>
+        <div className={`rounded-xl border p-3 transition-colors ${tileClass('consciousness')}`} dir="rtl">
+          <span className="block text-[10px] font-black text-slate-400">الوعي</span>
+          <span className={`text-lg font-black ${consciousness === 'ALERT' ? 'text-emerald-400' : consciousness === 'DROWSY' ? 'text-amber-400' : 'text-red-400'}`}>
+            {CONSCIOUSNESS_LABELS[consciousness]}
+          </span>
+        </div>
+      </div>
+
+      <svg viewBox="0 0 100 40" preserveAspectRatio="none" className="w-full h-20 bg-black/40 rounded-xl border border-white/5">
+        <polyline points={trend('heartRate', 30, 180)} fill="none" stroke="#22c55e" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+        <polyline points={trend('systolic', 50, 220)} fill="none" stroke="#f87171" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+        <polyline points={trend('oxygenSaturation', 70, 100)} fill="none" stroke="#22d3ee" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+      </svg>
+
+      {/* Alarms */}
+      {alarms.length > 0 && (
+        <div className="flex flex-wrap gap-2" role="alert">
+          {alarms.map(alarm => (
+            <span
+              key={alarm.vital}
+              className={`text-[11px] font-black px-3 py-1 rounded-lg border ${alarm.level === 'CRITICAL' ? 'bg-red-600 border-red-300 text-white animate-pulse' : 'bg-amber-500/10 border-amber-500/40 text-amber-300'}`}
+            >
+              {alarm.level === 'CRITICAL' ? '🚨' : '⚠️'} {alarm.message}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {/* Events */}
+      <div className="flex flex-wrap items-center gap-2 text-[10px] font-black">
+        <span className="text-slate-500">أحداث:</span>
+        {DRUG_EVENTS.map(id => (
+          <button key={id} onClick={() => startEvent(id)} title={PHYSIOLOGY_EVENTS[id].description} className="px-3 py-1.5 rounded-lg border bg-white/5 border-white/10 text-slate-300 hover:text-white">
+            💉 {PHYSIOLOGY_EVENTS[id].label}
+          </button>
+        ))}
+        {EMERGENCY_EVENTS.map(id => (
+          <button
+            key={id}
+            onClick={() => startEvent(id)}
+            disabled={!!emergency}
+            title={PHYSIOLOGY_EVENTS[id].description}
+            className="px-3 py-1.5 rounded-lg border bg-red-500/5 border-red-500/20 text-red-300 hover:bg-red-500/10 disabled:opacity-40"
+          >
+            {PHYSIOLOGY_EVENTS[id].label}
+          </button>
+        ))}
+        <button
+          onClick={startRandomEmergency}
+          disabled={!!emergency}
+          className="px-3 py-1.5 rounded-lg border bg-red-600/20 border-red-500/40 text-red-200 hover:bg-red-600/30 disabled:opacity-40"
+        >
+          🎲 حالة طارئة مفاجئة
+        </button>
+      </div>
+
+      {/* Emergency response */}
+      {emergency && (
+        <div className="bg-red-950/30 border border-red-500/30 rounded-2xl p-5 space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div>
+              <h4 className="text-sm font-black text-red-300">
+                🚨 حالة طارئة: {emergencyHidden ? 'شخّص الحالة من العلامات' : PHYSIOLOGY_EVENTS[emergency.id].label}
+              </h4>
+              <p className="text-xs text-red-100/80 mt-1">{PHYSIOLOGY_EVENTS[emergency.id].description}</p>
+            </div>
+            <span className="text-xs font-mono font-black text-red-300" dir="ltr">+{clock(monitor.timeS - emergency.startS)}</span>
+          </div>
+          <div className="flex flex-wrap gap-2 text-[10px] font-black">
+            {EMERGENCY_ACTIONS.map(action => {
+              const taken = emergency.actions.find(a => a.id === action.id);
+              return (
+                <button
+                  key={action.id}
+                  onClick={() => setMonitor(state => applyAction(state, action.id))}
+                  disabled={!!taken}
+                  className={`px-3 py-1.5 rounded-lg border transition-all ${taken ? (taken.harmful ? 'bg-red-600 border-red-300 text-white' : 'bg-emerald-600 border-emerald-300 text-white') : 'bg-white/5 border-white/10 text-slate-200 hover:bg-white/10'}`}
+                >
+                  {action.label}
+                </button>
+              );
+            })}
+          </div>
+          <button onClick={handleEnd} className="text-[10px] font-black text-slate-400 hover:text-white">إنهاء الحالة وتسليم المريض</button>
+        </div>
+      )}
+
+      {/* Score of the last emergency */}
+      {latest && !emergency && (
+        <div className="bg-black/30 border border-white/10 rounded-2xl p-5 space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <h4 className="text-sm font-black text-white">
+              {PHYSIOLOGY_EVENTS[latest.event.id].label} — {latest.score.resolved ? 'تمت السيطرة' : 'لم تُحل'} خلال {clock(latest.score.durationS)}
+            </h4>
+            <span className="text-2xl font-black font-mono text-blue-400" dir="ltr">{latest.score.points}/{latest.score.maxPoints}</span>
+          </div>
+          <ul className="space-y-1 text-xs">
+            {latest.score.steps.map((step, i) => (
+              <li key={i} className="flex items-center justify-between gap-3">
+                <span className={step.points === step.maxPoints ? 'text-emerald-400' : step.points > 0 ? 'text-amber-400' : 'text-red-400'}>
+                  {step.points === step.maxPoints ? '✓' : step.points > 0 ? '◐' : '✗'} {step.actions.map(actionLabel).join(' أو ')}
+                  <span className="text-slate-500"> (خلال {step.withinS} ث{step.doneAfterS !== undefined ? ` — نُفذ بعد ${Math.round(step.doneAfterS)} ث` : ''})</span>
+                </span>
+                <span className="font-mono text-slate-400">{step.points}/{step.maxPoints}</span>
+              </li>
+            ))}
+            {latest.score.harmful.map(item => (
+              <li key={item.action} className="text-red-400">⚠️ {actionLabel(item.action)}: {item.reason}</li>
+            ))}
+          </ul>
+          {results.length > 1 && (
+            <p className="text-[10px] font-bold text-slate-500">
+              الحالات السابقة: {results.slice(1).map(r => `${PHYSIOLOGY_EVENTS[r.event.id].label} ${r.score.points}/${r.score.maxPoints}`).join(' • ')}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default memo(PatientMonitor);
@@ -0,0 +1,439 @@
+import React, { memo, useEffect, useMemo, useRef, useState } from 'react';
+import { AIProviderId, listProviders } from '../services/aiProvider';
+import {
+  PROMPT_TEMPLATE_IDS,
+  PromptTemplate,
+  PromptTemplateId,
+  REQUEST_VARIABLES,
+  RenderedPrompt,
+  TemplateVariable,
+  builtInTemplate,
+  validateTemplate
+} from '../services/promptTemplates';
+import {
+  exportPromptPack,
+  getActiveTemplate,
+  getInstructorToken,
+  importPromptPack,
+  listTemplateVersions,
+  resetTemplate,
+  saveTemplateVersion,
+  setActiveTemplateVersion,
+  setInstructorToken,
+  setTemplateSignature
+} from '../services/promptRegistry';
+import { previewPromptTemplate } from '../services/geminiService';
+import { signPromptTemplate } from '../services/serverProvider';
+import { isAbortError } from '../services/abort';
+import { toAIServiceError } from '../services/aiErrors';
+
+interface PromptEditorProps {
+  onClose: () => void;
+}
+
+const TEMPLATE_LABEL: Record<PromptTemplateId, string> = {
+  simulation: 'المحاكاة السريرية',
+  practical: 'المعلم الأسطوري',
+  quiz: 'أستاذ الامتحانات',
+  research: 'البحث البصري',
+};
+
+type PreviewState =
+  | { status: 'idle' }
+  | { status: 'running' }
+  | { status: 'done'; rendered: RenderedPrompt; output: unknown }
+  | { status: 'error'; message: string };
+
+const formatDate = (timestamp: number) =>
+  timestamp ? new Date(timestamp).toLocaleString('ar') : 'مدمج';
+
+const PromptEditor: React.FC<PromptEditorProps> = ({ onClose }) => {
+  const [templateId, setTemplateId] = useState<PromptTemplateId>('practical');
+  // Bumped after every registry write so the version list re-reads it
+  const [revision, setRevision] = useState(0);
+  const [draft, setDraft] = useState<PromptTemplate>(() => getActiveTemplate('practical'));
+  const [note, setNote] = useState('');
+  const [notice, setNotice] = useState<string | null>(null);
+  const [token, setToken] = useState(getInstructorToken);
+  const [previewProvider, setPreviewProvider] = useState<AIProviderId>('mock');
+  const [preview, setPreview] = useState<PreviewState>({ status: 'idle' });
+  const previewController = useRef<AbortController | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const versions = useMemo(() => listTemplateVersions(templateId), [templateId, revision]);
+  const activeVersion = useMemo(() => getActiveTemplate(templateId).version, [templateId, revision]);
+  const problems = useMemo(() => validateTemplate(draft), [draft]);
+
+  const cancelPreview = () => {
+    previewController.current?.abort();
+    previewController.current = null;
+  };
+
+  useEffect(() => cancelPreview, []);
+
+  const openVersion = (template: PromptTemplate) => {
+    cancelPreview();
+    setDraft(template);
+    setNote('');
+    setPreview({ status: 'idle' });
+  };
+
+  const selectTemplate = (id: PromptTemplateId) => {
+    setTemplateId(id);
+    setNotice(null);
+    openVersion(getActiveTemplate(id));
+  };
+
+  // 1. Draft editing
+  const updateDraft = (changes: Partial<PromptTemplate>) => setDraft(current => ({ ...current, ...changes }));
+
+  const updateVariable = (index: number, changes: Partial<TemplateVariable>) =>
+    updateDraft({ variables: draft.variables.map((v, i) => i === index ? { ...v, ...changes } : v) });
+
+  const addVariable = () =>
+    updateDraft({ variables: [...draft.variables, { name: `var${draft.variables.length + 1}`, description: '', value: '' }] });
+
+  const removeVariable = (index: number) =>
+    updateDraft({ variables: draft.variables.filter((_, i) => i !== index) });
+
+  // 2. Registry actions
+  const updateToken = (value: string) => {
+    setToken(value);
+    setInstructorToken(value);
+  };
+
+  // The API runs a custom version for students only once it is signed with the instructor token
+  const signVersion = async (template: PromptTemplate): Promise<PromptTemplate> => {
+    const signature = await signPromptTemplate(template, token.trim());
+    setTemplateSignature(template.id, template.version, signature);
+    setRevision(r => r + 1);
+    return { ...template, signature };
+  };
+
+  const handleSave = async () => {
+    let saved: PromptTemplate;
+    try {
+      saved = saveTemplateVersion(draft, note);
+    } catch (e: any) {
+      setNotice(e.message);
+      return;
+    }
+    setRevision(r => r + 1);
+    openVersion(saved);
+    if (!token.trim()) {
+      setNotice(`تم حفظ الإصدار v${saved.version} وتفعيله. لن يعمل عبر الخادم قبل توقيعه برمز المدرّس.`);
+      return;
+    }
+    try {
+      openVersion(await signVersion(saved));
+      setNotice(`تم حفظ الإصدار v${saved.version} وتوقيعه وتفعيله.`);
+    } catch (e) {
+      setNotice(`تم حفظ الإصدار v${saved.version} وتفعيله، لكن تعذر توقيعه: ${toAIServiceError(e).message}`);
+    }
+  };
+
+  const handleSign = async (template: PromptTemplate) => {
+    try {
+      openVersion(await signVersion(template));
+      setNotice(`تم توقيع الإصدار v${template.version}.`);
+    } catch (e) {
+      setNotice(`تعذر توقيع الإصدار v${template.version}: ${toAIServiceError(e).message}`);
+    }
+  };
+
+  const handleActivate = (version: number) => {
+    setActiveTemplateVersion(templateId, version);
+    setRevision(r => r + 1);
+    setNotice(`الإصدار النشط الآن: v${version}`);
+  };
+
+  const handleReset = () => {
+    resetTemplate(templateId);
+    setRevision(r => r + 1);
+    openVersion(getActiveTemplate(templateId));
+    setNotice('تمت العودة إلى القالب الافتراضي.');
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([JSON.stringify(exportPromptPack(), null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `dentalbrain-prompts-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    file.text().then(text => {
+      try {
+        const { imported, rejected } = importPromptPack(text);
+        setRevision(r => r + 1);
+        openVersion(getActiveTemplate(templateId));
+        setNotice(`تم استيراد ${imported.length} قالب${rejected > 0 ? `، ورُفض ${rejected} لعدم صلاحيته` : ''}.`);
+      } catch (error: any) {
+        setNotice(error.message);
+      }
+    });
+  };
+
+  // 3. Preview (the draft as it is now, saved or not)
+  const handlePreview = async () => {
+    cancelPreview();
+    const controller = new AbortController();
+    previewController.current = controller;
+    setPreview({ status: 'running' });
+    try {
+      const result = await previewPromptTemplate(draft, previewProvider, controller.signal);
+      if (previewController.current !== controller) return;
+      setPreview({ status: 'done', ...result });
+    } catch (e) {
+      if (isAbortError(e) || previewController.current !== controller) return;
+      setPreview({ status: 'error', message: toAIServiceError(e).message });
+    }
+  };
+
+  const isSavedVersion = versions.some(v => v === draft);
+  const isCustomVersion = (template: PromptTemplate) => !builtInTemplate(template.id, template.version);
+
+  return (
+    <div className="fixed inset-0 z-[110] bg-black/70 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div
+        className="w-full max-w-6xl max-h-[90vh] overflow-hidden flex flex-col bg-slate-900 border border-white/10 rounded-[2rem] shadow-2xl text-right"
+        dir="rtl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-8 py-5 border-b border-white/5">
+          <h3 className="text-lg font-black text-white">محرر قوالب الموجّهات</h3>
+          <div className="flex items-center gap-2">
+            <button onClick={handleExport} className="text-[10px] font-black px-3 py-1.5 rounded-lg bg-white/10 text-white hover:bg-white/20 transition-all">تصدير حزمة JSON</button>
+            <button onClick={() => importInputRef.current?.click()} className="text-[10px] font-black px-3 py-1.5 rounded-lg bg-white/10 text-white hover:bg-white/20 transition-all">استيراد حزمة</button>
+            <input ref={importInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+            <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors mr-2" title="إغلاق">
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path d="M6 18L18 6M6 6l12 12" strokeWidth={2}/></svg>
+            </button>
+          </div>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          {/* Templates & versions */}
+          <aside className="w-64 shrink-0 border-l border-white/5 p-5 overflow-y-auto custom-scrollbar space-y-6">
+            <div className="space-y-1">
+              {PROMPT_TEMPLATE_IDS.map(id => (
+                <button
+                  key={id}
+                  onClick={() => selectTemplate(id)}
+                  className={`w-full text-right px-4 py-2.5 rounded-xl text-xs font-black transition-all ${templateId === id ? 'bg-blue-600/20 text-blue-300 border border-blue-500/30' : 'text-slate-400 hover:text-white hover:bg-white/5 border border-transparent'}`}
+                >
+                  {TEMPLATE_LABEL[id]}
+                </button>
+              ))}
+            </div>
+
+            <div>
+              <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-2">الإصدارات</p>
+              <div className="space-y-1">
+                {[...versions].reverse().map(version => (
+                  <div
+                    key={version.version}
+                    className={`rounded-xl border p-3 cursor-pointer transition-all ${draft.version === version.version ? 'border-white/20 bg-white/5' : 'border-white/5 hover:bg-white/5'}`}
+                    onClick={() => openVersion(version)}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="text-xs font-black text-white font-mono">v{version.version}</span>
+                      {version.version === activeVersion ? (
+                        <span className="text-[9px] font-black text-emerald-400">● نشط</span>
+                      ) : (
+                        <button
+                          onClick={(e) => { e.stopPropagation(); handleActivate(version.version); }}
+                          className="text-[9px] font-black text-slate-400 hover:text-white"
+                        >
+                          تفعيل
+                        </button>
+                      )}
+                    </div>
+                    <p className="text-[9px] text-slate-500 mt-1">
+                      {formatDate(version.createdAt)}
+                      {isCustomVersion(version) && (version.signature
+                        ? <span className="text-emerald-400 mr-2">موقّع</span>
+                        : <span className="text-amber-400 mr-2">غير موقّع</span>)}
+                    </p>
+                    {version.note && <p className="text-[10px] text-slate-400 mt-1 line-clamp-2">{version.note}</p>}
+                  </div>
+                ))}
+              </div>
+              <button onClick={handleReset} className="w-full mt-3 text-[10px] font-black py-2 rounded-xl border border-white/10 text-slate-400 hover:text-white transition-all">
+                العودة إلى الافتراضي
+              </button>
+            </div>
+
+            <label className="block">
+              <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">رمز المدرّس</span>
+              <input
+                type="password"
+                value={token}
+                onChange={(e) => updateToken(e.target.value)}
+                placeholder="لتشغيل القوالب المخصصة وتوقيعها"
+                dir="ltr"
+                className="mt-2 w-full bg-black/40 border border-white/10 rounded-xl px-3 py-2 text-xs text-white focus:outline-none focus:border-blue-500/50"
+              />
+              <span className="block text-[9px] text-slate-500 mt-1">يُحفظ لهذه الجلسة فقط.</span>
+            </label>
+          </aside>
+
+          {/* Draft */}
+          <div className="flex-1 min-w-0 p-6 overflow-y-auto custom-scrollbar space-y-5">
+            <div className="flex items-center justify-between">
+              <p className="text-xs text-slate-400">
+                تحرير انطلاقاً من <span className="font-mono text-white">v{draft.version}</span>
+                {!isSavedVersion && <span className="text-amber-400"> (تعديلات غير محفوظة)</span>}
+              </p>
+              <p className="text-[10px] text-slate-500">
+                متغيرات الطلب: {REQUEST_VARIABLES[templateId].map(name => <code key={name} className="text-blue-300 mx-1" dir="ltr">{`{{${name}}}`}</code>)}
+              </p>
+            </div>
+
+            <label className="block">
+              <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">تعليمات النظام</span>
+              <textarea
+                value={draft.systemInstruction}
+                onChange={(e) => updateDraft({ systemInstruction: e.target.value })}
+                rows={2}
+                dir="ltr"
+                className="mt-2 w-full bg-black/40 border border-white/10 rounded-xl p-3 text-xs font-mono text-slate-200 focus:outline-none focus:border-blue-500/50"
+              />
+            </label>
+
+            <label className="block">
+              <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">نص الطلب</span>
+              <textarea
+                value={draft.userPrompt}
+                onChange={(e) => updateDraft({ userPrompt: e.target.value })}
+                rows={12}
+                dir="ltr"
+                className="mt-2 w-full bg-black/40 border border-white/10 rounded-xl p-3 text-xs font-mono text-slate-200 focus:outline-none focus:border-blue-500/50"
+              />
+            </label>
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">متغيرات القالب</span>
+                <button onClick={addVariable} className="text-[10px] font-black text-blue-400 hover:text-blue-300">+ إضافة متغير</button>
+              </div>
+              <div className="space-y-2">
+                {draft.variables.map((variable, i) => (
+                  <div key={i} className="grid grid-cols-[10rem_1fr_auto] gap-2 items-start bg-black/20 border border-white/5 rounded-xl p-3">
+                    <div>
+                      <input
+                        value={variable.name}
+                        onChange={(e) => updateVariable(i, { name: e.target.value })}
+                        dir="ltr"
+                        className="w-full bg-black/40 border border-white/10 rounded-lg px-2 py-1.5 text-xs font-mono text-blue-300 focus:outline-none"
+                      />
+                      <input
+                        value={variable.description}
+                        onChange={(e) => updateVariable(i, { description: e.target.value })}
+                        placeholder="الوصف"
+                        className="w-full mt-1 bg-transparent border-none px-2 py-1 text-[10px] text-slate-500 focus:outline-none"
+                      />
+                    </div>
+                    <textarea
+                      value={variable.value}
+                      onChange={(e) => updateVariable(i, { value: e.target.value })}
+                      rows={2}
+                      dir="ltr"
+                      className="w-full bg-black/40 border border-white/10 rounded-lg p-2 text-xs text-slate-200 focus:outline-none"
+                    />
+                    <button onClick={() => removeVariable(i)} className="text-slate-600 hover:text-rose-400 p-1" title="حذف">
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path d="M6 18L18 6M6 6l12 12" strokeWidth={2}/></svg>
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {problems.length > 0 && (
+              <ul className="bg-rose-600/10 border border-rose-500/20 rounded-xl p-3 space-y-1">
+                {problems.map(problem => <li key={problem} className="text-[11px] font-bold text-rose-300">• {problem}</li>)}
+              </ul>
+            )}
+
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="ملاحظة الإصدار (مثلاً: شرح أقصر)"
+                className="flex-1 min-w-[12rem] bg-black/40 border border-white/10 rounded-xl px-3 py-2 text-xs text-white focus:outline-none focus:border-blue-500/50"
+              />
+              <button
+                onClick={handleSave}
+                disabled={problems.length > 0}
+                className="text-xs font-black px-5 py-2 rounded-xl bg-blue-600 text-white hover:bg-blue-500 disabled:bg-white/5 disabled:text-slate-500 transition-all"
+              >
+                حفظ كإصدار جديد
+              </button>
+              {isSavedVersion && isCustomVersion(draft) && !draft.signature && (
+                <button
+                  onClick={() => handleSign(draft)}
+                  disabled={!token.trim()}
+                  className="text-xs font-black px-5 py-2 rounded-xl bg-white/10 text-white hover:bg-white/20 disabled:bg-white/5 disabled:text-slate-500 transition-all"
+                >
+                  توقيع
+                </button>
+              )}
+            </div>
+            {notice && <p className="text-[11px] font-bold text-amber-300 whitespace-pre-line">{notice}</p>}
+
+            {/* Preview */}
+            <div className="border-t border-white/5 pt-5">
+              <div className="flex items-center gap-2 mb-3">
+                <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest ml-auto">معاينة بقيم تجريبية</span>
+                {listProviders().map(provider => (
+                  <button
+                    key={provider.id}
+                    onClick={() => setPreviewProvider(provider.id)}
+                    className={`text-[10px] font-black px-3 py-1 rounded-lg border transition-all ${previewProvider === provider.id ? 'bg-white/10 border-white/20 text-white' : 'border-white/5 text-slate-500'}`}
+                  >
+                    {provider.label}
+                  </button>
+                ))}
+                {preview.status === 'running' ? (
+                  <button onClick={() => { cancelPreview(); setPreview({ status: 'idle' }); }} className="text-[10px] font-black px-4 py-1.5 rounded-lg bg-rose-600 text-white">إلغاء</button>
+                ) : (
+                  <button
+                    onClick={handlePreview}
+                    disabled={problems.length > 0}
+                    className="text-[10px] font-black px-4 py-1.5 rounded-lg bg-emerald-600 text-white hover:bg-emerald-500 disabled:bg-white/5 disabled:text-slate-500 transition-all"
+                  >
+                    تشغيل المعاينة
+                  </button>
+                )}
+              </div>
+              {previewProvider !== 'mock' && (
+                <p className="text-[10px] text-amber-400 mb-2">المعاينة الحية تستهلك من حصة الاستخدام.</p>
+              )}
+              {preview.status === 'running' && <p className="text-xs text-slate-400 animate-pulse">جاري توليد المعاينة...</p>}
+              {preview.status === 'error' && <p className="text-xs text-rose-300">{preview.message}</p>}
+              {preview.status === 'done' && (
+                <div className="grid grid-cols-2 gap-3" dir="ltr">
+                  <pre className="bg-black/40 border border-white/5 rounded-xl p-3 text-[10px] text-slate-300 whitespace-pre-wrap max-h-80 overflow-y-auto custom-scrollbar">
+                    {preview.rendered.systemInstruction && `[system]\n${preview.rendered.systemInstruction}\n\n`}
+                    {`[user]\n${preview.rendered.userPrompt}`}
+                  </pre>
+                  <pre className="bg-black/40 border border-white/5 rounded-xl p-3 text-[10px] text-emerald-200 whitespace-pre-wrap max-h-80 overflow-y-auto custom-scrollbar">
+                    {JSON.stringify(preview.output, null, 2)}
+                  </pre>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default memo(PromptEditor);
@@ -0,0 +1,85 @@
+import React, { memo } from 'react';
+import { AIProviderId, listProviders } from '../services/aiProvider';
+
+export type ConnectionStatus = 'checking' | 'connected' | 'missing';
+
+interface SettingsPanelProps {
+  providerId: AIProviderId;
+  connectionStatus: ConnectionStatus;
+  onProviderChange: (id: AIProviderId) => void;
+  onRecheck: () => void;
+  onOpenPromptEditor: () => void;
+  onClose: () => void;
+}
+
+const STATUS_LABEL: Record<ConnectionStatus, { text: string; className: string }> = {
+  checking: { text: 'جاري فحص الاتصال...', className: 'text-slate-400' },
+  connected: { text: 'متصل ✓', className: 'text-emerald-400' },
+  missing: { text: 'غير متصل: مفتاح API غير مضبوط على الخادم أو الخادم متوقف', className: 'text-rose-400' },
+};
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ providerId, connectionStatus, onProviderChange, onRecheck, onOpenPromptEditor, onClose }) => {
+  const status = STATUS_LABEL[connectionStatus];
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/70 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div
+        className="w-full max-w-lg bg-slate-900 border border-white/10 rounded-[2rem] p-8 shadow-2xl text-right"
+        dir="rtl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-lg font-black text-white">إعدادات الاتصال</h3>
+          <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors" title="إغلاق">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path d="M6 18L18 6M6 6l12 12" strokeWidth={2}/></svg>
+          </button>
+        </div>
+
+        {/* 1. Provider */}
+        <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-2">مزود الذكاء الاصطناعي</p>
+        <div className="grid grid-cols-2 gap-2 mb-6">
+          {listProviders().map(provider => (
+            <button
+              key={provider.id}
+              onClick={() => onProviderChange(provider.id)}
+              className={`py-3 rounded-xl text-xs font-black border transition-all ${providerId === provider.id ? 'bg-blue-600/20 border-blue-500/40 text-blue-300' : 'bg-white/5 border-white/10 text-slate-400 hover:text-white'}`}
+            >
+              {provider.label}
+            </button>
+          ))}
+        </div>
+
+        {/* 2. Connection */}
+        <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-2">حالة الاتصال</p>
+        <div className="flex items-center justify-between bg-black/30 border border-white/5 rounded-xl p-4 mb-4">
+          <span className={`text-xs font-bold ${status.className}`}>{status.text}</span>
+          <button
+            onClick={onRecheck}
+            disabled={connectionStatus === 'checking'}
+            className="text-[10px] font-black px-3 py-1 rounded-lg bg-white/10 text-white hover:bg-white/20 disabled:opacity-40 transition-all"
+          >
+            إعادة الفحص
+          </button>
+        </div>
+
+        {providerId !== 'mock' && (
+          <p className="text-[11px] text-slate-400 leading-relaxed">
+            يُحفظ مفتاح Gemini على الخادم فقط: أضف <code className="text-blue-300">GEMINI_API_KEY</code> إلى متغيرات بيئة Netlify/Vercel،
+            أو إلى ملف <code className="text-blue-300">.env.local</code> ثم شغّل <code className="text-blue-300">npm run server</code> محلياً.
+          </p>
+        )}
+
+        {/* 3. Prompt templates */}
+        <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest mt-6 mb-2">قوالب الموجّهات</p>
+        <button
+          onClick={onOpenPromptEditor}
+          className="w-full py-3 rounded-xl text-xs font-black border bg-white/5 border-white/10 text-slate-300 hover:text-white transition-all"
+        >
+          فتح محرر القوالب (الأسلوب، طول الشرح، الوسائل التذكيرية...)
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default memo(SettingsPanel);
@@ -0,0 +1,96 @@
+import React, { memo, useMemo } from 'react';
+import { ToothCondition, ToothFinding, ToothNotation } from '../types';
+import { CONDITION_LABELS, SURFACE_LABELS, TOOTH_NOTATIONS, chartOrder, formatTooth } from '../services/toothNumbering';
+
+interface ToothFindingsProps {
+  findings: ToothFinding[];
+  notation: ToothNotation;
+  onNotationChange: (notation: ToothNotation) => void;
+}
+
+const CONDITION_COLORS: Partial<Record<ToothCondition, string>> = {
+  CARIES: 'text-red-400 bg-red-500/10 border-red-500/30',
+  PERIAPICAL_LESION: 'text-red-400 bg-red-500/10 border-red-500/30',
+  FRACTURE: 'text-red-400 bg-red-500/10 border-red-500/30',
+  BONE_LOSS: 'text-amber-400 bg-amber-500/10 border-amber-500/30',
+  CALCULUS: 'text-amber-400 bg-amber-500/10 border-amber-500/30',
+  IMPACTED: 'text-amber-400 bg-amber-500/10 border-amber-500/30',
+  RESTORATION: 'text-blue-400 bg-blue-500/10 border-blue-500/30',
+  CROWN: 'text-blue-400 bg-blue-500/10 border-blue-500/30',
+  ROOT_CANAL: 'text-blue-400 bg-blue-500/10 border-blue-500/30',
+  IMPLANT: 'text-blue-400 bg-blue-500/10 border-blue-500/30',
+};
+
+const DEFAULT_CONDITION_COLOR = 'text-slate-400 bg-white/5 border-white/10';
+
+export const NotationSwitcher: React.FC<{ notation: ToothNotation; onChange: (notation: ToothNotation) => void }> = ({ notation, onChange }) => (
+  <div className="flex bg-black/30 border border-white/10 rounded-lg p-0.5" dir="ltr">
+    {TOOTH_NOTATIONS.map(option => (
+      <button
+        key={option.id}
+        onClick={() => onChange(option.id)}
+        className={`text-[9px] font-black px-3 py-1 rounded-md transition-all ${notation === option.id ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}
+      >
+        {option.label}
+      </button>
+    ))}
+  </div>
+);
+
+const ToothFindings: React.FC<ToothFindingsProps> = ({ findings, notation, onNotationChange }) => {
+  const sorted = useMemo(() => [...findings].sort((a, b) => chartOrder(a.tooth) - chartOrder(b.tooth)), [findings]);
+
+  return (
+    <div className="bg-slate-900/60 border border-white/10 rounded-2xl overflow-hidden" dir="rtl">
+      <div className="flex items-center justify-between gap-3 px-5 py-3 border-b border-white/10">
+        <h4 className="text-sm font-black text-white">نتائج الأسنان <span className="text-slate-500 font-bold">({findings.length})</span></h4>
+        <NotationSwitcher notation={notation} onChange={onNotationChange} />
+      </div>
+      {sorted.length === 0 ? (
+        <p className="text-xs text-slate-500 font-bold px-5 py-4">لم يحدد التحليل نتائج خاصة بسن معيّن.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-slate-500 text-[10px] font-black">
+                <th className="text-right px-4 py-2">السن</th>
+                <th className="text-right px-4 py-2">الحالة</th>
+                <th className="text-right px-4 py-2">السطوح</th>
+                <th className="text-right px-4 py-2">الثقة</th>
+                <th className="text-right px-4 py-2">الوصف</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sorted.map((finding, idx) => (
+                <tr key={`${finding.tooth}-${idx}`} className="border-t border-white/5 align-top">
+                  <td className="px-4 py-2 font-mono font-black text-white text-sm whitespace-nowrap" dir="ltr" title={`FDI ${finding.tooth}`}>
+                    {formatTooth(finding.tooth, notation)}
+                  </td>
+                  <td className="px-4 py-2">
+                    <span className={`text-[10px] font-black px-2 py-0.5 rounded border whitespace-nowrap ${CONDITION_COLORS[finding.condition] || DEFAULT_CONDITION_COLOR}`}>
+                      {CONDITION_LABELS[finding.condition]}
+                    </span>
+                  </td>
+                  <td className="px-4 py-2 font-mono text-slate-300" title={finding.surfaces.map(s => SURFACE_LABELS[s]).join('، ')}>
+                    {finding.surfaces.join('') || '—'}
+                  </td>
+                  <td className="px-4 py-2">
+                    <div className="flex items-center gap-2">
+                      <div className="w-14 h-1.5 bg-white/10 rounded-full overflow-hidden">
+                        <div className="h-full bg-blue-500" style={{ width: `${Math.round(finding.confidence * 100)}%` }}></div>
+                      </div>
+                      <span className="text-[10px] font-mono text-slate-400">{Math.round(finding.confidence * 100)}%</span>
+                    </div>
+                  </td>
+                  <td className="px-4 py-2 text-slate-300 leading-relaxed">{finding.description}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default memo(ToothFindings);
@@ -0,0 +1,341 @@
+import React, { memo, useEffect, useMemo, useState } from 'react';
+import {
+  BudgetMode,
+  BudgetSettings,
+  UsageEntry,
+  UsageFunction,
+  UsageTotals,
+  clearUsageLog,
+  dayKey,
+  entriesSince,
+  getBudgetSettings,
+  getBudgetStatus,
+  groupUsage,
+  setBudgetSettings,
+  subscribeUsage,
+  totalUsage
+} from '../services/usageLog';
+
+interface UsageDashboardProps {
+  onClose: () => void;
+}
+
+const RANGES = [
+  { days: 1, label: 'اليوم' },
+  { days: 7, label: '7 أيام' },
+  { days: 30, label: '30 يوماً' },
+];
+
+const TAB_LABEL: Record<string, string> = {
+  simulation: 'عرض الحالة',
+  practical: 'المعلم الأسطوري',
+  gallery: 'المعرض',
+  quiz: 'الأسئلة',
+  editor: 'محرر القوالب',
+};
+
+const FN_LABEL: Record<UsageFunction, string> = {
+  simulation: 'محاكاة',
+  practical: 'بروتوكول',
+  quiz: 'أسئلة',
+  research: 'بحث',
+  case: 'حالة متفرعة',
+  blueprint: 'نموذج 3D',
+  analyze: 'تحليل صورة',
+  image: 'صورة',
+  preview: 'معاينة قالب',
+};
+
+const STATUS_CLASS: Record<UsageEntry['status'], string> = {
+  ok: 'text-emerald-400',
+  error: 'text-rose-400',
+  cancelled: 'text-slate-500',
+};
+
+const formatTokens = (value: number) => value >= 1e6 ? `${(value / 1e6).toFixed(2)}M` : value >= 1e3 ? `${(value / 1e3).toFixed(1)}k` : String(value);
+const formatCost = (value: number) => `$${value < 0.01 && value > 0 ? value.toFixed(4) : value.toFixed(2)}`;
+
+const TotalsCells: React.FC<{ totals: UsageTotals }> = ({ totals }) => (
+  <>
+    <td className="py-2 px-3 font-mono">{totals.requests}</td>
+    <td className="py-2 px-3 font-mono">{formatTokens(totals.promptTokens)} / {formatTokens(totals.responseTokens)}</td>
+    <td className="py-2 px-3 font-mono">{totals.images}</td>
+    <td className="py-2 px-3 font-mono text-amber-300">{formatCost(totals.costUsd)}</td>
+  </>
+);
+
+const TotalsTable: React.FC<{ title: string; rows: { key: string; label: string; totals: UsageTotals }[] }> = ({ title, rows }) => (
+  <div className="bg-black/20 border border-white/5 rounded-2xl p-4">
+    <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-2">{title}</p>
+    {rows.length === 0 ? (
+      <p className="text-[11px] text-slate-600">لا توجد بيانات.</p>
+    ) : (
+      <table className="w-full text-[11px] text-slate-300">
+        <thead>
+          <tr className="text-slate-500 text-[9px] uppercase">
+            <th className="text-right py-1 px-3 font-black"></th>
+            <th className="text-right py-1 px-3 font-black">طلبات</th>
+            <th className="text-right py-1 px-3 font-black">رموز (داخل/خارج)</th>
+            <th className="text-right py-1 px-3 font-black">صور</th>
+            <th className="text-right py-1 px-3 font-black">التكلفة</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => (
+            <tr key={row.key} className="border-t border-white/5">
+              <td className="py-2 px-3 font-bold text-white truncate max-w-[14rem]" title={row.label}>{row.label}</td>
+              <TotalsCells totals={row.totals} />
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )}
+  </div>
+);
+
+const LimitBar: React.FC<{ label: string; used: string; limit: string; ratio?: number; warnAt: number }> = ({ label, used, limit, ratio, warnAt }) => (
+  <div>
+    <div className="flex justify-between text-[10px] font-bold mb-1">
+      <span className="text-slate-400">{label}</span>
+      <span className="text-slate-300 font-mono">{used}{ratio !== undefined && ` / ${limit}`}</span>
+    </div>
+    <div className="h-2 bg-white/5 rounded-full overflow-hidden">
+      {ratio !== undefined && (
+        <div
+          className={`h-full rounded-full ${ratio >= 1 ? 'bg-rose-500' : ratio >= warnAt ? 'bg-amber-500' : 'bg-emerald-500'}`}
+          style={{ width: `${Math.min(100, ratio * 100)}%` }}
+        />
+      )}
+    </div>
+  </div>
+);
+
+const parseLimit = (value: string): number | null => {
+  const number = Number(value);
+  return value.trim() && number > 0 ? number : null;
+};
+
+const UsageDashboard: React.FC<UsageDashboardProps> = ({ onClose }) => {
+  const [revision, setRevision] = useState(0);
+  const [days, setDays] = useState(7);
+  const [draft, setDraft] = useState(() => {
+    const settings = getBudgetSettings();
+    return {
+      dailyTokens: settings.dailyTokens?.toString() ?? '',
+      dailyCostUsd: settings.dailyCostUsd?.toString() ?? '',
+      dailyImages: settings.dailyImages?.toString() ?? '',
+      warnAtPercent: String(settings.warnAtPercent),
+      onLimit: settings.onLimit,
+    };
+  });
+
+  useEffect(() => subscribeUsage(() => setRevision(r => r + 1)), []);
+
+  const entries = useMemo(() => entriesSince(days), [days, revision]);
+  const status = useMemo(() => getBudgetStatus(), [revision]);
+  const totals = useMemo(() => totalUsage(entries), [entries]);
+  const byTab = useMemo(() => groupUsage(entries, e => e.tab ?? 'editor'), [entries]);
+  const byTopic = useMemo(() => groupUsage(entries, e => e.topic).slice(0, 10), [entries]);
+  const byDay = useMemo(() => groupUsage(entries, e => dayKey(e.timestamp)).sort((a, b) => b.key.localeCompare(a.key)), [entries]);
+  const maxDayCost = Math.max(0, ...byDay.map(d => d.totals.costUsd));
+  const recent = entries.slice(-25).reverse();
+  const settings = getBudgetSettings();
+
+  const handleSaveBudget = () => {
+    const budget: BudgetSettings = {
+      dailyTokens: parseLimit(draft.dailyTokens),
+      dailyCostUsd: parseLimit(draft.dailyCostUsd),
+      dailyImages: parseLimit(draft.dailyImages),
+      warnAtPercent: Math.min(100, Math.max(1, Number(draft.warnAtPercent) || 80)),
+      onLimit: draft.onLimit,
+    };
+    setBudgetSettings(budget);
+  };
+
+  const handleClear = () => {
+    if (window.confirm('مسح سجل الاستهلاك بالكامل؟')) clearUsageLog();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] bg-black/70 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div
+        className="w-full max-w-6xl max-h-[90vh] overflow-y-auto custom-scrollbar bg-slate-900 border border-white/10 rounded-[2rem] shadow-2xl text-right p-8 space-y-6"
+        dir="rtl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-black text-white">لوحة الاستهلاك والتكلفة</h3>
+          <div className="flex items-center gap-2">
+            {RANGES.map(range => (
+              <button
+                key={range.days}
+                onClick={() => setDays(range.days)}
+                className={`text-[10px] font-black px-3 py-1.5 rounded-lg border transition-all ${days === range.days ? 'bg-white/10 border-white/20 text-white' : 'border-white/5 text-slate-500 hover:text-white'}`}
+              >
+                {range.label}
+              </button>
+            ))}
+            <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors mr-2" title="إغلاق">
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path d="M6 18L18 6M6 6l12 12" strokeWidth={2}/></svg>
+            </button>
+          </div>
+        </div>
+
+        {/* 1. Summary */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {[
+            { label: 'الطلبات', value: String(totals.requests) },
+            { label: 'الرموز (داخل / خارج)', value: `${formatTokens(totals.promptTokens)} / ${formatTokens(totals.responseTokens)}` },
+            { label: 'الصور المولدة', value: String(totals.images) },
+            { label: 'التكلفة التقديرية', value: formatCost(totals.costUsd) },
+          ].map(card => (
+            <div key={card.label} className="bg-black/30 border border-white/5 rounded-2xl p-4">
+              <p className="text-[9px] font-black text-slate-500 uppercase tracking-widest">{card.label}</p>
+              <p className="text-xl font-black text-white font-mono mt-1">{card.value}</p>
+            </div>
+          ))}
+        </div>
+
+        {/* 2. Today against the budget */}
+        <div className="grid md:grid-cols-2 gap-4">
+          <div className="bg-black/20 border border-white/5 rounded-2xl p-4 space-y-3">
+            <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest">استهلاك اليوم مقابل الحدود</p>
+            <LimitBar
+              label="الرموز"
+              used={formatTokens(status.today.promptTokens + status.today.responseTokens)}
+              limit={formatTokens(settings.dailyTokens || 0)}
+              ratio={status.ratios.tokens}
+              warnAt={settings.warnAtPercent / 100}
+            />
+            <LimitBar label="التكلفة" used={formatCost(status.today.costUsd)} limit={formatCost(settings.dailyCostUsd || 0)} ratio={status.ratios.cost} warnAt={settings.warnAtPercent / 100} />
+            <LimitBar label="الصور" used={String(status.today.images)} limit={String(settings.dailyImages || 0)} ratio={status.ratios.images} warnAt={settings.warnAtPercent / 100} />
+            {status.level !== 'ok' && (
+              <p className={`text-[11px] font-bold ${status.level === 'exceeded' ? 'text-rose-300' : 'text-amber-300'}`}>
+                {status.level === 'exceeded'
+                  ? (status.onLimit === 'block' ? 'تم بلوغ الحد: الطلبات الجديدة موقوفة.' : 'تم بلوغ الحد: وضع التخفيض مفعّل (نص فقط، دون صور أو إصلاح).')
+                  : 'اقترب الاستهلاك من الحد اليومي.'}
+              </p>
+            )}
+          </div>
+
+          <div className="bg-black/20 border border-white/5 rounded-2xl p-4 space-y-3">
+            <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest">الميزانية اليومية</p>
+            <div className="grid grid-cols-3 gap-2">
+              {([
+                ['dailyTokens', 'حد الرموز'],
+                ['dailyCostUsd', 'حد التكلفة ($)'],
+                ['dailyImages', 'حد الصور'],
+              ] as const).map(([field, label]) => (
+                <label key={field} className="block">
+                  <span className="text-[9px] font-bold text-slate-500">{label}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={draft[field]}
+                    onChange={(e) => setDraft(d => ({ ...d, [field]: e.target.value }))}
+                    placeholder="بلا حد"
+                    className="mt-1 w-full bg-black/40 border border-white/10 rounded-lg px-2 py-1.5 text-xs font-mono text-white focus:outline-none"
+                  />
+                </label>
+              ))}
+            </div>
+            <div className="flex items-center gap-3 flex-wrap">
+              <label className="flex items-center gap-2 text-[10px] font-bold text-slate-400">
+                تنبيه عند
+                <input
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={draft.warnAtPercent}
+                  onChange={(e) => setDraft(d => ({ ...d, warnAtPercent: e.target.value }))}
+                  className="w-16 bg-black/40 border border-white/10 rounded-lg px-2 py-1 text-xs font-mono text-white focus:outline-none"
+                />
+                %
+              </label>
+              <div className="flex gap-1 mr-auto">
+                {([['downgrade', 'تخفيض'], ['block', 'إيقاف']] as [BudgetMode, string][]).map(([mode, label]) => (
+                  <button
+                    key={mode}
+                    onClick={() => setDraft(d => ({ ...d, onLimit: mode }))}
+                    className={`text-[10px] font-black px-3 py-1 rounded-lg border transition-all ${draft.onLimit === mode ? 'bg-white/10 border-white/20 text-white' : 'border-white/5 text-slate-500'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              <button onClick={handleSaveBudget} className="text-[10px] font-black px-4 py-1.5 rounded-lg bg-blue-600 text-white hover:bg-blue-500 transition-all">
+                حفظ
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {/* 3. Breakdown */}
+        <div className="grid md:grid-cols-2 gap-4">
+          <TotalsTable title="حسب التبويب" rows={byTab.map(row => ({ ...row, label: TAB_LABEL[row.key] || row.key }))} />
+          <TotalsTable title="أعلى المواضيع تكلفة" rows={byTopic.map(row => ({ ...row, label: row.key }))} />
+        </div>
+
+        <div className="bg-black/20 border border-white/5 rounded-2xl p-4">
+          <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-3">حسب اليوم</p>
+          {byDay.length === 0 && <p className="text-[11px] text-slate-600">لا توجد بيانات.</p>}
+          <div className="space-y-1.5">
+            {byDay.map(day => (
+              <div key={day.key} className="flex items-center gap-3 text-[10px]">
+                <span className="w-24 font-mono text-slate-400" dir="ltr">{day.key}</span>
+                <div className="flex-1 h-3 bg-white/5 rounded-full overflow-hidden">
+                  <div className="h-full bg-blue-500/70 rounded-full" style={{ width: `${maxDayCost > 0 ? (day.totals.costUsd / maxDayCost) * 100 : 0}%` }} />
+                </div>
+                <span className="w-40 font-mono text-slate-300 text-left" dir="ltr">
+                  {formatCost(day.totals.costUsd)} · {formatTokens(day.totals.promptTokens + day.totals.responseTokens)} tok · {day.totals.requests} req
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* 4. Recent requests */}
+        <div className="bg-black/20 border border-white/5 rounded-2xl p-4">
+          <div className="flex items-center justify-between mb-2">
+            <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest">آخر الطلبات</p>
+            <button onClick={handleClear} className="text-[10px] font-black text-slate-500 hover:text-rose-400 transition-colors">مسح السجل</button>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-[10px] text-slate-300 whitespace-nowrap">
+              <thead>
+                <tr className="text-slate-500 text-[9px]">
+                  {['الوقت', 'النوع', 'الموضوع', 'النموذج', 'رموز', 'صور', 'إعادات', 'بدائل', 'الزمن', 'التكلفة', 'الحالة'].map(h => (
+                    <th key={h} className="text-right py-1 px-2 font-black">{h}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {recent.map(entry => (
+                  <tr key={entry.id} className="border-t border-white/5">
+                    <td className="py-1.5 px-2 font-mono">{new Date(entry.timestamp).toLocaleTimeString('ar')}</td>
+                    <td className="py-1.5 px-2">{FN_LABEL[entry.fn]}{entry.downgraded && <span className="text-amber-400"> ↓</span>}</td>
+                    <td className="py-1.5 px-2 max-w-[12rem] truncate" title={entry.topic}>{entry.topic}</td>
+                    <td className="py-1.5 px-2 font-mono">{entry.models.join(', ') || entry.provider}</td>
+                    <td className="py-1.5 px-2 font-mono">{formatTokens(entry.promptTokens)}/{formatTokens(entry.responseTokens)}</td>
+                    <td className="py-1.5 px-2 font-mono">{entry.images}</td>
+                    <td className="py-1.5 px-2 font-mono">{entry.retries}</td>
+                    <td className="py-1.5 px-2 font-mono">{entry.fallbacks}</td>
+                    <td className="py-1.5 px-2 font-mono">{(entry.latencyMs / 1000).toFixed(1)}s</td>
+                    <td className="py-1.5 px-2 font-mono text-amber-300">{formatCost(entry.costUsd)}</td>
+                    <td className={`py-1.5 px-2 font-black ${STATUS_CLASS[entry.status]}`}>{entry.status}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <p className="text-[10px] text-slate-600">
+          التكلفة تقديرية بحسب أسعار القائمة لكل نموذج. السجل محفوظ في هذا المتصفح فقط، والنتائج المستعادة من الذاكرة المؤقتة لا تُحتسب.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default memo(UsageDashboard);
@@ -0,0 +1,182 @@
+import React, { memo, useRef, useState } from 'react';
+import { Hotspot } from '../types';
+
+export interface ComparableView {
+  id: 'CLINICAL' | 'RADIOGRAPHIC' | 'EXPLODED';
+  label: string;
+  url: string;
+  // Same filter as the single view of that mode
+  className?: string;
+}
+
+interface ViewComparisonProps {
+  views: ComparableView[];
+  hotspots: Hotspot[];
+  selectedHotspotIdx: number | null;
+  onHotspotSelect: (idx: number) => void;
+  examMode: boolean;
+  onClose: () => void;
+}
+
+type ComparisonLayout = 'SWIPE' | 'BLEND' | 'GRID';
+
+const LAYOUTS: { id: ComparisonLayout; label: string }[] = [
+  { id: 'SWIPE', label: 'سحب' },
+  { id: 'BLEND', label: 'دمج' },
+  { id: 'GRID', label: 'شبكة' },
+];
+
+// All views are generated for the same scene and shown with the same frame (aspect-video, object-cover),
+// so hotspot coordinates apply unchanged to every pane.
+const ViewComparison: React.FC<ViewComparisonProps> = ({ views, hotspots, selectedHotspotIdx, onHotspotSelect, examMode, onClose }) => {
+  const [layout, setLayout] = useState<ComparisonLayout>('SWIPE');
+  const [baseId, setBaseId] = useState(views[0].id);
+  const [overlayId, setOverlayId] = useState(views[1].id);
+  const [swipePosition, setSwipePosition] = useState(50);
+  const [blendOpacity, setBlendOpacity] = useState(50);
+  const [hoveredHotspot, setHoveredHotspot] = useState<number | null>(null);
+  const frameRef = useRef<HTMLDivElement>(null);
+  const draggingDivider = useRef(false);
+
+  const base = views.find(v => v.id === baseId) || views[0];
+  const overlay = views.find(v => v.id === overlayId) || views[1];
+
+  // 1. Swipe divider
+  const moveDivider = (clientX: number) => {
+    const rect = frameRef.current!.getBoundingClientRect();
+    setSwipePosition(Math.min(100, Math.max(0, ((clientX - rect.left) / rect.width) * 100)));
+  };
+
+  const handleDividerKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowLeft') setSwipePosition(p => Math.max(0, p - 2));
+    if (e.key === 'ArrowRight') setSwipePosition(p => Math.min(100, p + 2));
+  };
+
+  // 2. Hotspots, mirrored in every pane; hovering one highlights it everywhere
+  const renderHotspots = (compact: boolean) => hotspots.map((spot, idx) => {
+    const active = selectedHotspotIdx === idx || hoveredHotspot === idx;
+    return (
+      <button
+        key={idx}
+        onClick={() => onHotspotSelect(idx)}
+        onPointerDown={(e) => e.stopPropagation()}
+        onMouseEnter={() => setHoveredHotspot(idx)}
+        onMouseLeave={() => setHoveredHotspot(null)}
+        className={`absolute z-30 -translate-x-1/2 -translate-y-1/2 ${compact ? 'w-7 h-7' : 'w-10 h-10'} rounded-full border-2 transition-all flex items-center justify-center shadow-lg ${active ? 'bg-blue-500 border-white scale-125 ring-8 ring-blue-500/20 text-white' : 'bg-black/60 border-blue-400 text-blue-400 hover:scale-110'}`}
+        style={{ right: `${spot.x}%`, top: `${spot.y}%` }}
+        title={examMode ? undefined : spot.label}
+      >
+        <span className="font-black text-xs">{examMode ? '?' : (idx + 1)}</span>
+      </button>
+    );
+  });
+
+  const viewSelect = (value: ComparableView['id'], onChange: (id: ComparableView['id']) => void, exclude: ComparableView['id']) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as ComparableView['id'])}
+      className="bg-slate-900 border border-white/10 rounded-lg px-2 py-1 text-[10px] font-black text-white outline-none focus:border-blue-600"
+    >
+      {views.filter(v => v.id !== exclude).map(v => <option key={v.id} value={v.id}>{v.label}</option>)}
+    </select>
+  );
+
+  return (
+    <div className="flex flex-col gap-4 w-full" dir="rtl">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center justify-between gap-3 bg-slate-900/60 border border-white/10 rounded-2xl px-5 py-3">
+        <div className="flex items-center gap-2">
+          {LAYOUTS.map(option => (
+            <button
+              key={option.id}
+              onClick={() => setLayout(option.id)}
+              className={`text-[9px] font-black uppercase tracking-widest px-3 py-1.5 rounded-lg border transition-all ${layout === option.id ? 'bg-blue-600 border-white text-white' : 'bg-white/5 border-white/10 text-slate-400'}`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        {layout !== 'GRID' && (
+          <div className="flex items-center gap-2 text-[10px] font-black text-slate-400">
+            {viewSelect(base.id, setBaseId, overlay.id)}
+            <span>{layout === 'SWIPE' ? '|' : '+'}</span>
+            {viewSelect(overlay.id, setOverlayId, base.id)}
+            {layout === 'BLEND' && (
+              <input
+                type="range"
+                min={0}
+                max={100}
+                value={blendOpacity}
+                onChange={(e) => setBlendOpacity(Number(e.target.value))}
+                className="w-28 accent-blue-500"
+                aria-label="شفافية الصورة العلوية"
+              />
+            )}
+          </div>
+        )}
+        <button onClick={onClose} className="text-[9px] font-black uppercase tracking-widest px-4 py-1.5 rounded-lg border bg-white/5 border-white/10 text-slate-400 hover:text-white">
+          إغلاق المقارنة
+        </button>
+      </div>
+
+      {/* 3. Layouts */}
+      {layout === 'GRID' ? (
+        <div className={`grid grid-cols-1 ${views.length === 3 ? 'lg:grid-cols-3' : 'md:grid-cols-2'} gap-4`}>
+          {views.map(view => (
+            <div key={view.id} className="relative w-full aspect-video rounded-[2rem] overflow-hidden border-4 border-slate-800 bg-black shadow-2xl">
+              <img src={view.url} className={`w-full h-full object-cover ${view.className || ''}`} alt={view.label} />
+              <span className="absolute top-3 right-3 z-20 text-[10px] font-black text-white bg-black/70 px-2 py-0.5 rounded">{view.label}</span>
+              {renderHotspots(true)}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div
+          ref={frameRef}
+          className="relative w-full aspect-video rounded-[3rem] overflow-hidden border-4 border-slate-800 bg-black shadow-2xl select-none"
+          dir="ltr"
+          onPointerMove={(e) => draggingDivider.current && moveDivider(e.clientX)}
+          onPointerUp={() => { draggingDivider.current = false; }}
+          onPointerCancel={() => { draggingDivider.current = false; }}
+        >
+          <img src={base.url} className={`absolute inset-0 w-full h-full object-cover ${base.className || ''}`} alt={base.label} draggable={false} />
+          <img
+            src={overlay.url}
+            className={`absolute inset-0 w-full h-full object-cover ${overlay.className || ''}`}
+            style={layout === 'SWIPE' ? { clipPath: `inset(0 0 0 ${swipePosition}%)` } : { opacity: blendOpacity / 100 }}
+            alt={overlay.label}
+            draggable={false}
+          />
+          <span className="absolute top-4 left-6 z-20 text-[10px] font-black text-white bg-black/70 px-2 py-0.5 rounded">{base.label}</span>
+          <span className="absolute top-4 right-6 z-20 text-[10px] font-black text-white bg-black/70 px-2 py-0.5 rounded">{overlay.label}</span>
+
+          {layout === 'SWIPE' && (
+            <div
+              role="slider"
+              tabIndex={0}
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={Math.round(swipePosition)}
+              aria-label="فاصل المقارنة"
+              onKeyDown={handleDividerKeyDown}
+              onPointerDown={(e) => {
+                draggingDivider.current = true;
+                frameRef.current?.setPointerCapture(e.pointerId);
+                moveDivider(e.clientX);
+              }}
+              className="absolute top-0 bottom-0 z-20 w-8 -translate-x-1/2 cursor-ew-resize flex items-center justify-center outline-none group"
+              style={{ left: `${swipePosition}%`, touchAction: 'none' }}
+            >
+              <div className="w-0.5 h-full bg-white/80 shadow-[0_0_10px_rgba(0,0,0,0.8)]"></div>
+              <div className="absolute w-8 h-8 rounded-full bg-white text-slate-900 flex items-center justify-center text-xs font-black shadow-lg group-focus:ring-4 ring-blue-500/50">⇔</div>
+            </div>
+          )}
+
+          {renderHotspots(false)}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default memo(ViewComparison);
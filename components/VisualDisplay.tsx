@@ -1,6 +1,25 @@
 
-import React, { memo, useState, useMemo, useEffect } from 'react';
-import { Hotspot, Vitals, LabMode, ImageAnalysisResult } from '../types';
+import React, { memo, useState, useMemo, useEffect, useRef } from 'react';
+import { Hotspot, Vitals, InstrumentSpec, LabMode, ImageAnalysisResult, LabeledImage, ComparativeAnalysisResult, Radiograph, WindowLevel, ToothNotation, DangerZone, Measurement, MeasurementPoint, MeasurementSet, TechnicalBlueprint } from '../types';
+import { describeRadiograph, drawRadiograph, fullRangeWindow, highContrastWindow } from '../services/radiograph';
+import { commitZones, createHistory, previewZones, redoZones, undoZones } from '../services/annotations';
+import { IDENTITY_VIEW, ViewTransform, setMagnification, toScreenPercent, transformStyle } from '../services/viewTransform';
+import { formatRpm, formatTorque, poweredInstrumentIndices, settingStatus, settingWarning } from '../services/instrumentSettings';
+import { calibrationFromMetadata, calibrationFromReference, loadMeasurements, measurementCaseKey, saveMeasurements } from '../services/measurements';
+import ComparisonView from './ComparisonView';
+import ToothFindings from './ToothFindings';
+import DangerZoneOverlay from './DangerZoneOverlay';
+import DangerZonePanel from './DangerZonePanel';
+import MeasurementOverlay, { MeasurementMode } from './MeasurementOverlay';
+import MeasurementPanel from './MeasurementPanel';
+import MeasurementReport from './MeasurementReport';
+import ZoomPanSurface from './ZoomPanSurface';
+import MicroscopeControls from './MicroscopeControls';
+import ViewComparison, { ComparableView } from './ViewComparison';
+import HotspotDetailDrawer from './HotspotDetailDrawer';
+import PatientMonitor from './PatientMonitor';
+import InstrumentSettingsPanel, { InstrumentOverrides, InstrumentSetting } from './InstrumentSettingsPanel';
+import Interactive3DLab from './Interactive3DLab';
 
 interface VisualDisplayProps {
   url: string | null;
@@ -10,12 +29,34 @@ interface VisualDisplayProps {
   hotspots?: Hotspot[];
   vitals?: Vitals;
   riskLevel?: string;
+  // Procedure instruments; powered ones drive the handpiece HUD
+  instruments?: InstrumentSpec[];
   onHotspotSelected?: (spot: Hotspot) => void;
+  // Personal notes: pin state and toggle for the hotspot shown in the detail drawer
+  isHotspotPinned?: (spot: Hotspot) => boolean;
+  onHotspotPinToggle?: (spot: Hotspot) => void;
   examMode?: boolean;
+  // Exam: the hotspot being asked about; the others are dimmed and selection is locked
+  examHotspotIdx?: number | null;
   analysisResult?: ImageAnalysisResult;
   activeModeOverride?: LabMode;
+  // Multi-image analysis: the images are shown side by side instead of the single view
+  comparisonImages?: LabeledImage[];
+  comparativeAnalysis?: ComparativeAnalysisResult;
+  // DICOM/TIFF source of `url`: drawn from the raw values with adjustable window/level
+  radiograph?: Radiograph;
+  // Numbering system for per-tooth findings
+  toothNotation?: ToothNotation;
+  onToothNotationChange?: (notation: ToothNotation) => void;
+  // 3D lab under the viewport; the blueprint is requested the first time it is opened (no button without a handler)
+  blueprint?: TechnicalBlueprint;
+  blueprintLoading?: boolean;
+  onRequestBlueprint?: () => void;
 }
 
+// Stable default, so the instrument state is not reset on every render
+const NO_INSTRUMENTS: InstrumentSpec[] = [];
+
 const VisualDisplay: React.FC<VisualDisplayProps> = ({ 
   url, 
   radiologyUrl, 
@@ -24,14 +65,139 @@ const VisualDisplay: React.FC<VisualDisplayProps> = ({
   hotspots = [], 
   vitals, 
   riskLevel, 
+  instruments = NO_INSTRUMENTS,
   onHotspotSelected,
+  isHotspotPinned,
+  onHotspotPinToggle,
   examMode = false,
+  examHotspotIdx = null,
   analysisResult,
-  activeModeOverride
+  activeModeOverride,
+  comparisonImages,
+  comparativeAnalysis,
+  radiograph,
+  toothNotation = 'FDI',
+  onToothNotationChange = () => {},
+  blueprint,
+  blueprintLoading = false,
+  onRequestBlueprint
 }) => {
   const [selectedHotspotIdx, setSelectedHotspotIdx] = useState<number | null>(null);
+  // A new simulation closes the detail drawer
+  useEffect(() => { setSelectedHotspotIdx(null); }, [hotspots]);
+
   const [activeLabMode, setActiveLabMode] = useState<LabMode>(LabMode.SURGERY);
   const [showGrid, setShowGrid] = useState(false);
+  const [windowLevel, setWindowLevel] = useState<WindowLevel | null>(null);
+  const [invertRadiograph, setInvertRadiograph] = useState(false);
+  const radiographCanvasRef = useRef<HTMLCanvasElement>(null);
+  const [loadedImageSize, setLoadedImageSize] = useState<{ width: number; height: number } | null>(null);
+  const [zoneHistory, setZoneHistory] = useState(() => createHistory(analysisResult?.dangerZones || []));
+  const [editingZones, setEditingZones] = useState(false);
+  const [selectedZoneIdx, setSelectedZoneIdx] = useState<number | null>(null);
+
+  // Corrections belong to one analysis; a new result starts from the model's zones
+  useEffect(() => {
+    setZoneHistory(createHistory(analysisResult?.dangerZones || []));
+    setEditingZones(false);
+    setSelectedZoneIdx(null);
+  }, [analysisResult]);
+
+  // Measurements are stored per image, so they come back when the same radiograph is opened again
+  const measurementKey = useMemo(() => (url ? measurementCaseKey(url) : null), [url]);
+  const [measurementSet, setMeasurementSet] = useState<MeasurementSet>({ measurements: [], updatedAt: 0 });
+  const [measurementMode, setMeasurementMode] = useState<MeasurementMode | null>(null);
+  const [selectedMeasurementId, setSelectedMeasurementId] = useState<string | null>(null);
+  const [calibrationLine, setCalibrationLine] = useState<MeasurementPoint[] | null>(null);
+
+  useEffect(() => {
+    setMeasurementSet((measurementKey && loadMeasurements(measurementKey)) || { measurements: [], updatedAt: 0 });
+    setMeasurementMode(null);
+    setSelectedMeasurementId(null);
+    setCalibrationLine(null);
+  }, [measurementKey]);
+
+  useEffect(() => {
+    if (measurementKey && measurementSet.updatedAt > 0) saveMeasurements(measurementKey, measurementSet);
+  }, [measurementKey, measurementSet]);
+
+  // A reference calibration overrides the pixel spacing from the file
+  const calibration = measurementSet.calibration ?? calibrationFromMetadata(radiograph?.metadata);
+
+  const updateMeasurementSet = (update: (set: MeasurementSet) => Partial<MeasurementSet>) =>
+    setMeasurementSet(prev => ({ ...prev, ...update(prev), updatedAt: Date.now() }));
+  const addMeasurement = (measurement: Measurement) => updateMeasurementSet(set => ({ measurements: [...set.measurements, measurement] }));
+  const updateMeasurement = (measurement: Measurement) =>
+    updateMeasurementSet(set => ({ measurements: set.measurements.map(m => (m.id === measurement.id ? measurement : m)) }));
+  const deleteMeasurement = (id: string) => {
+    updateMeasurementSet(set => ({ measurements: set.measurements.filter(m => m.id !== id) }));
+    setSelectedMeasurementId(null);
+  };
+
+  // Measuring and zone editing both use the pointer on the image; only one is active at a time
+  const changeMeasurementMode = (mode: MeasurementMode | null) => {
+    setMeasurementMode(mode);
+    setCalibrationLine(null);
+    if (mode) setEditingZones(false);
+  };
+
+  const applyReferenceCalibration = (referenceMm: number) => {
+    if (!calibrationLine || !imageSize) return;
+    const reference = calibrationFromReference(calibrationLine[0], calibrationLine[1], imageSize, referenceMm);
+    if (!reference) return;
+    updateMeasurementSet(() => ({ calibration: reference }));
+    changeMeasurementMode(null);
+  };
+
+  // Microscope field of view; opens at 4x and resets when leaving the mode or changing the image
+  const [microscopeView, setMicroscopeView] = useState<ViewTransform>(IDENTITY_VIEW);
+  const isMicroscope = activeLabMode === LabMode.MICROSCOPE;
+
+  useEffect(() => {
+    setMicroscopeView(isMicroscope ? setMagnification(IDENTITY_VIEW, 4) : IDENTITY_VIEW);
+  }, [isMicroscope, url]);
+
+  const previewZoneEdit = (zones: DangerZone[]) => setZoneHistory(h => previewZones(h, zones));
+  const commitZoneEdit = (zones: DangerZone[], previous?: DangerZone[]) => setZoneHistory(h => commitZones(h, zones, previous));
+  const undoZoneEdit = () => { setZoneHistory(undoZones); setSelectedZoneIdx(null); };
+  const redoZoneEdit = () => { setZoneHistory(redoZones); setSelectedZoneIdx(null); };
+
+  // Annotation shortcuts: undo/redo and Delete for the selected zone (ignored while typing in a field)
+  useEffect(() => {
+    if (!editingZones) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT') return;
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) redoZoneEdit();
+        else undoZoneEdit();
+      } else if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'y') {
+        e.preventDefault();
+        redoZoneEdit();
+      } else if ((e.key === 'Delete' || e.key === 'Backspace') && selectedZoneIdx !== null) {
+        e.preventDefault();
+        setZoneHistory(h => commitZones(h, h.present.filter((_, i) => i !== selectedZoneIdx)));
+        setSelectedZoneIdx(null);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [editingZones, selectedZoneIdx]);
+
+  // A new radiograph starts from its own default window
+  useEffect(() => {
+    setWindowLevel(radiograph ? radiograph.defaultWindow : null);
+    setInvertRadiograph(radiograph ? radiograph.invert : false);
+  }, [radiograph]);
+
+  const showRadiograph = !!radiograph && !!windowLevel && (activeLabMode === LabMode.ANALYSIS || activeLabMode === LabMode.SURGERY || activeLabMode === LabMode.MICROSCOPE);
+
+  useEffect(() => {
+    if (showRadiograph && radiographCanvasRef.current) {
+      drawRadiograph(radiographCanvasRef.current, radiograph!, windowLevel!, invertRadiograph);
+    }
+  }, [showRadiograph, radiograph, windowLevel, invertRadiograph]);
 
   useEffect(() => {
     if (activeModeOverride) {
@@ -48,8 +214,88 @@ const VisualDisplay: React.FC<VisualDisplayProps> = ({
     }
   };
 
-  const torqueValue = useMemo(() => Math.floor(Math.random() * 20) + 15, [url]);
-  const burSpeed = useMemo(() => Math.floor(Math.random() * 200000) + 150000, [url]);
+  // Natural size for annotation geometry: decoded radiographs know theirs, other images report it on load
+  const imageSize = radiograph ? { width: radiograph.metadata.width, height: radiograph.metadata.height } : loadedImageSize;
+  const isAnalysisView = activeLabMode === LabMode.ANALYSIS && !!analysisResult;
+  // Analysed images stay letterboxed under the microscope so zones and measurements keep their geometry
+  const showsAnalysisOverlays = !!analysisResult && (activeLabMode === LabMode.ANALYSIS || isMicroscope);
+  const imageFit = showsAnalysisOverlays ? 'object-contain' : 'object-cover';
+  const view = isMicroscope ? microscopeView : IDENTITY_VIEW;
+  const mediaStyle = isMicroscope ? { ...transformStyle(view), transition: 'none' } : undefined;
+
+  // Clinical / radiographic / exploded views of a simulation, compared side by side
+  const [comparingViews, setComparingViews] = useState(false);
+  const comparableViews: ComparableView[] = [
+    ...(url ? [{ id: 'CLINICAL' as const, label: 'سريري', url }] : []),
+    ...(radiologyUrl ? [{ id: 'RADIOGRAPHIC' as const, label: 'شعاعي', url: radiologyUrl, className: 'brightness-[1.1] contrast-[1.4] grayscale' }] : []),
+    ...(explodedUrl ? [{ id: 'EXPLODED' as const, label: 'مفكك', url: explodedUrl }] : []),
+  ];
+  const canCompareViews = comparableViews.length >= 2 && !analysisResult;
+
+  const examQuestionActive = examMode && examHotspotIdx !== null;
+  const highlightedHotspotIdx = examQuestionActive ? examHotspotIdx : selectedHotspotIdx;
+
+  const selectHotspot = (idx: number) => {
+    if (examQuestionActive) return;
+    setSelectedHotspotIdx(idx);
+    if (onHotspotSelected) onHotspotSelected(hotspots[idx]);
+  };
+
+  // Details of the selected hotspot; hidden during an exam so answers are not given away
+  const detailSpot = selectedHotspotIdx !== null && !examMode && activeLabMode !== LabMode.ANALYSIS ? hotspots[selectedHotspotIdx] : undefined;
+  const hotspotDrawer = detailSpot && (
+    <HotspotDetailDrawer
+      hotspots={hotspots}
+      selectedIdx={selectedHotspotIdx!}
+      onSelect={selectHotspot}
+      onClose={() => setSelectedHotspotIdx(null)}
+      pinned={isHotspotPinned?.(detailSpot)}
+      onTogglePin={onHotspotPinToggle && (() => onHotspotPinToggle(detailSpot))}
+    />
+  );
+
+  // Keyed so the running monitor keeps its state when switching to the view comparison and back
+  const patientMonitor = vitals && !analysisResult && (
+    <PatientMonitor key="patient-monitor" vitals={vitals} riskLevel={riskLevel} />
+  );
+
+  // Handpiece HUD: settings of the active powered instrument, stepped through in procedure order.
+  // Adjusted values are kept per instrument and flagged when they leave the safe range.
+  const poweredIndices = useMemo(() => poweredInstrumentIndices(instruments), [instruments]);
+  const [activeInstrumentIdx, setActiveInstrumentIdx] = useState<number | null>(null);
+  const [instrumentOverrides, setInstrumentOverrides] = useState<InstrumentOverrides>({});
+  const [showInstrumentPanel, setShowInstrumentPanel] = useState(false);
+
+  useEffect(() => {
+    setActiveInstrumentIdx(poweredIndices[0] ?? null);
+    setInstrumentOverrides({});
+  }, [poweredIndices]);
+
+  const overrideInstrument = (idx: number, setting: InstrumentSetting, value: number | undefined) =>
+    setInstrumentOverrides(prev => ({ ...prev, [idx]: { ...prev[idx], [setting]: value } }));
+
+  const stepInstrument = (delta: number) => {
+    const position = poweredIndices.indexOf(activeInstrumentIdx ?? -1);
+    setActiveInstrumentIdx(poweredIndices[(position + delta + poweredIndices.length) % poweredIndices.length]);
+  };
+
+  const activeInstrument = activeInstrumentIdx !== null ? instruments[activeInstrumentIdx] : undefined;
+  const hudSettings = (['rpm', 'torqueNcm'] as const).flatMap(setting => {
+    const settings = activeInstrument?.settings;
+    const range = settings?.[setting];
+    if (!settings || !range) return [];
+    const value = instrumentOverrides[activeInstrumentIdx!]?.[setting] ?? range.value;
+    return [{ setting, value, warning: settingWarning(settings.kind, setting, settingStatus(value, range)) }];
+  });
+
+  // 3D lab, shown alongside the 2D views; closed when the simulation is replaced
+  const [show3D, setShow3D] = useState(false);
+  useEffect(() => { if (!url) setShow3D(false); }, [url]);
+
+  const toggle3D = () => {
+    if (!show3D && !blueprint && !blueprintLoading) onRequestBlueprint?.();
+    setShow3D(!show3D);
+  };
 
   if (loading) {
     return (
@@ -63,6 +309,10 @@ const VisualDisplay: React.FC<VisualDisplayProps> = ({
     );
   }
 
+  if (comparisonImages && comparativeAnalysis) {
+    return <ComparisonView images={comparisonImages} result={comparativeAnalysis} toothNotation={toothNotation} onToothNotationChange={onToothNotationChange} />;
+  }
+
   if (!url) return (
     <div className="w-full aspect-video bg-slate-900/10 rounded-[3rem] border-2 border-dashed border-slate-800 flex items-center justify-center group hover:border-blue-500/30 transition-all">
         <div className="text-center">
@@ -74,73 +324,140 @@ const VisualDisplay: React.FC<VisualDisplayProps> = ({
     </div>
   );
 
+  if (comparingViews && canCompareViews) {
+    return (
+      <div className="flex flex-col gap-6 w-full" dir="rtl">
+        <ViewComparison
+          views={comparableViews}
+          hotspots={hotspots}
+          selectedHotspotIdx={highlightedHotspotIdx}
+          onHotspotSelect={selectHotspot}
+          examMode={examMode}
+          onClose={() => setComparingViews(false)}
+        />
+        {hotspotDrawer}
+        {patientMonitor}
+      </div>
+    );
+  }
+
   return (
     <div className="flex flex-col gap-6 w-full" dir="rtl">
       <div className={`w-full aspect-video relative rounded-[3rem] overflow-hidden border-4 bg-black shadow-2xl transition-all duration-500 border-slate-800`}>
         
-          <div className="w-full h-full relative">
-            {activeLabMode === LabMode.MICROSCOPE && (
+          <ZoomPanSurface enabled={isMicroscope} view={view} onViewChange={setMicroscopeView} className="w-full h-full relative">
+            {isMicroscope && (
               <div className="absolute inset-0 z-10 pointer-events-none border-[60px] border-black/80 rounded-[3rem] shadow-[inset_0_0_100px_rgba(0,0,0,1)]"></div>
             )}
 
-            {showGrid && (
+            {/* Calibrated images get a millimetre grid in the measurement overlay instead */}
+            {showGrid && !(isAnalysisView && calibration) && (
               <div className="absolute inset-0 z-10 pointer-events-none opacity-30 bg-[linear-gradient(to_right,#1e293b_1px,transparent_1px),linear-gradient(to_bottom,#1e293b_1px,transparent_1px)] bg-[size:40px_40px]"></div>
             )}
 
-            {/* Analysis Mode - Danger Zones Overlay */}
-            {activeLabMode === LabMode.ANALYSIS && analysisResult && analysisResult.dangerZones.map((zone, idx) => (
-                <div 
-                    key={idx}
-                    className="absolute z-20 border-2 border-red-500/50 bg-red-500/20 shadow-[0_0_20px_rgba(239,68,68,0.3)] animate-pulse rounded-lg"
-                    style={{
-                        top: `${zone.box.ymin}%`,
-                        left: `${zone.box.xmin}%`,
-                        width: `${zone.box.xmax - zone.box.xmin}%`,
-                        height: `${zone.box.ymax - zone.box.ymin}%`
-                    }}
+            {showRadiograph ? (
+              <canvas
+                ref={radiographCanvasRef}
+                className={`w-full h-full ${imageFit}`}
+                style={mediaStyle}
+              />
+            ) : (
+              <img 
+                key={getActiveImage()} 
+                src={getActiveImage() || ''} 
+                onLoad={(e) => setLoadedImageSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+                className={`w-full h-full ${imageFit} transition-all duration-700 animate-in fade-in zoom-in-95 ${activeLabMode === LabMode.XRAY_VISION ? 'brightness-[1.1] contrast-[1.4] grayscale' : ''} ${isMicroscope ? 'saturate-[1.2] contrast-[1.1]' : ''}`} 
+                style={mediaStyle}
+                alt="العرض السريري" 
+              />
+            )}
+
+            {/* Analysis Mode - Danger Zones Overlay (image is letterboxed so boxes match image coordinates) */}
+            {showsAnalysisOverlays && imageSize && (
+              <DangerZoneOverlay
+                zones={zoneHistory.present}
+                imageSize={imageSize}
+                view={view}
+                editing={editingZones && isAnalysisView}
+                selectedIdx={selectedZoneIdx}
+                onSelect={setSelectedZoneIdx}
+                onPreview={previewZoneEdit}
+                onCommit={commitZoneEdit}
+              />
+            )}
+
+            {showsAnalysisOverlays && imageSize && (
+              <MeasurementOverlay
+                measurements={measurementSet.measurements}
+                calibration={calibration}
+                imageSize={imageSize}
+                view={view}
+                mode={isAnalysisView ? measurementMode : null}
+                selectedId={selectedMeasurementId}
+                onSelect={setSelectedMeasurementId}
+                onAdd={addMeasurement}
+                onUpdate={updateMeasurement}
+                calibrationLine={calibrationLine}
+                onCalibrationLine={setCalibrationLine}
+                showGrid={showGrid && !!calibration}
+              />
+            )}
+
+            {/* Hotspots - Only in simulation mode; positioned through the microscope view so they follow zoom and pan */}
+            {activeLabMode !== LabMode.ANALYSIS && hotspots.map((spot, idx) => {
+              const position = toScreenPercent(view, 100 - spot.x, spot.y);
+              return (
+                <button 
+                  key={idx}
+                  onClick={() => selectHotspot(idx)}
+                  className={`absolute z-30 -translate-x-1/2 -translate-y-1/2 w-10 h-10 rounded-full border-2 ${isMicroscope ? '' : 'transition-all'} flex items-center justify-center shadow-lg ${highlightedHotspotIdx === idx ? 'bg-blue-500 border-white scale-125 ring-8 ring-blue-500/20' : 'bg-black/60 border-blue-400 text-blue-400 hover:scale-110'} ${examQuestionActive && examHotspotIdx !== idx ? 'opacity-30' : ''}`}
+                  style={{ left: `${position.x}%`, top: `${position.y}%` }}
                 >
-                    <div className="absolute -top-6 left-1/2 -translate-x-1/2 bg-red-600 text-white text-[9px] font-black px-2 py-0.5 rounded whitespace-nowrap">
-                        {zone.name} ({zone.riskLevel})
-                    </div>
-                </div>
-            ))}
-
-            <img 
-              key={getActiveImage()} 
-              src={getActiveImage() || ''} 
-              className={`w-full h-full object-cover transition-all duration-700 animate-in fade-in zoom-in-95 ${activeLabMode === LabMode.XRAY_VISION ? 'brightness-[1.1] contrast-[1.4] grayscale' : ''} ${activeLabMode === LabMode.MICROSCOPE ? 'scale-150 saturate-[1.2] contrast-[1.1]' : ''}`} 
-              alt="العرض السريري" 
-            />
-
-            {/* Hotspots - Only in simulation mode */}
-            {activeLabMode !== LabMode.ANALYSIS && hotspots.map((spot, idx) => (
-              <button 
-                key={idx}
-                onClick={() => {
-                  setSelectedHotspotIdx(idx);
-                  if (onHotspotSelected) onHotspotSelected(spot);
-                }}
-                className={`absolute z-30 -translate-x-1/2 -translate-y-1/2 w-10 h-10 rounded-full border-2 transition-all flex items-center justify-center shadow-lg ${selectedHotspotIdx === idx ? 'bg-blue-500 border-white scale-125 ring-8 ring-blue-500/20' : 'bg-black/60 border-blue-400 text-blue-400 hover:scale-110'}`}
-                style={{ right: `${spot.x}%`, top: `${spot.y}%` }}
-              >
-                <span className="font-black text-xs">{examMode ? "?" : (idx + 1)}</span>
-              </button>
-            ))}
-          </div>
+                  <span className="font-black text-xs">{examMode ? "?" : (idx + 1)}</span>
+                </button>
+              );
+            })}
+
+            {isMicroscope && (
+              <MicroscopeControls view={view} onViewChange={setMicroscopeView} imageUrl={getActiveImage() || url} imageFit={imageFit} />
+            )}
+          </ZoomPanSurface>
 
         {/* HUD Status Bar */}
           <div className="absolute bottom-0 left-0 right-0 h-16 bg-black/80 backdrop-blur-xl border-t border-white/10 flex items-center justify-between px-10 z-20">
-             <div className="flex items-center gap-6">
-                <div className="flex flex-col">
-                  <span className="text-[8px] text-slate-500 font-black uppercase">عزم الدوران</span>
-                  <span className="text-[10px] text-amber-400 font-mono">{torqueValue} Ncm</span>
-                </div>
-                <div className="w-px h-6 bg-white/10"></div>
-                <div className="flex flex-col">
-                  <span className="text-[8px] text-slate-500 font-black uppercase">سرعة القبضة</span>
-                  <span className="text-[10px] text-emerald-400 font-mono">{burSpeed.toLocaleString()} دورة</span>
-                </div>
-             </div>
+             {activeInstrument ? (
+               <div className="flex items-center gap-6">
+                  {poweredIndices.length > 1 && (
+                    <div className="flex flex-col items-center">
+                      <span className="text-[8px] text-slate-500 font-black uppercase">الخطوة</span>
+                      <div className="flex items-center gap-1 text-[10px] font-black text-white">
+                        <button onClick={() => stepInstrument(-1)} className="text-slate-400 hover:text-white px-1" title="الأداة السابقة">›</button>
+                        <span className="max-w-[9rem] truncate" title={activeInstrument.step}>{activeInstrument.step || activeInstrument.name}</span>
+                        <button onClick={() => stepInstrument(1)} className="text-slate-400 hover:text-white px-1" title="الأداة التالية">‹</button>
+                      </div>
+                    </div>
+                  )}
+                  {activeInstrument.settings?.program && (
+                    <div className="flex flex-col">
+                      <span className="text-[8px] text-slate-500 font-black uppercase">برنامج المحرك</span>
+                      <span className="text-[10px] text-amber-400 font-mono">{activeInstrument.settings.program}</span>
+                    </div>
+                  )}
+                  {hudSettings.map(({ setting, value, warning }) => (
+                    <React.Fragment key={setting}>
+                      <div className="w-px h-6 bg-white/10"></div>
+                      <div className="flex flex-col" title={warning}>
+                        <span className="text-[8px] text-slate-500 font-black uppercase">{setting === 'rpm' ? 'سرعة القبضة' : 'عزم الدوران'}</span>
+                        <span className={`text-[10px] font-mono ${warning ? 'text-red-400 animate-pulse' : setting === 'rpm' ? 'text-emerald-400' : 'text-amber-400'}`}>
+                          {warning && '⚠️ '}{setting === 'rpm' ? `${formatRpm(value)} rpm` : formatTorque(value)}
+                        </span>
+                      </div>
+                    </React.Fragment>
+                  ))}
+               </div>
+             ) : (
+               <span className="text-[9px] text-slate-500 font-bold">لا توجد إعدادات قبضة لهذه المحاكاة</span>
+             )}
              <div className="flex gap-4">
                <button 
                 onClick={() => setShowGrid(!showGrid)}
@@ -149,11 +466,35 @@ const VisualDisplay: React.FC<VisualDisplayProps> = ({
                   الشبكة
                </button>
                <button 
-                onClick={() => setActiveLabMode(activeLabMode === LabMode.MICROSCOPE ? LabMode.SURGERY : LabMode.MICROSCOPE)}
-                className={`text-[9px] font-black uppercase tracking-widest px-4 py-1.5 rounded-lg border transition-all ${activeLabMode === LabMode.MICROSCOPE ? 'bg-amber-600 border-white text-white shadow-[0_0_15px_rgba(217,119,6,0.5)]' : 'bg-white/5 border-white/10 text-slate-400'}`}
+                onClick={() => setActiveLabMode(isMicroscope ? LabMode.SURGERY : LabMode.MICROSCOPE)}
+                className={`text-[9px] font-black uppercase tracking-widest px-4 py-1.5 rounded-lg border transition-all ${isMicroscope ? 'bg-amber-600 border-white text-white shadow-[0_0_15px_rgba(217,119,6,0.5)]' : 'bg-white/5 border-white/10 text-slate-400'}`}
                >
                   المجهر
                </button>
+               {instruments.length > 0 && (
+                 <button 
+                  onClick={() => setShowInstrumentPanel(!showInstrumentPanel)}
+                  className={`text-[9px] font-black uppercase tracking-widest px-4 py-1.5 rounded-lg border transition-all ${showInstrumentPanel ? 'bg-blue-600 border-white text-white' : 'bg-white/5 border-white/10 text-slate-400'}`}
+                 >
+                    الأدوات
+                 </button>
+               )}
+               {onRequestBlueprint && (
+                 <button 
+                  onClick={toggle3D}
+                  className={`text-[9px] font-black uppercase tracking-widest px-4 py-1.5 rounded-lg border transition-all ${show3D ? 'bg-indigo-600 border-white text-white' : 'bg-white/5 border-white/10 text-slate-400'}`}
+                 >
+                    3D
+                 </button>
+               )}
+               {canCompareViews && (
+                 <button 
+                  onClick={() => setComparingViews(true)}
+                  className="text-[9px] font-black uppercase tracking-widest px-4 py-1.5 rounded-lg border transition-all bg-white/5 border-white/10 text-slate-400 hover:text-white"
+                 >
+                    مقارنة
+                 </button>
+               )}
              </div>
           </div>
 
@@ -188,6 +529,147 @@ const VisualDisplay: React.FC<VisualDisplayProps> = ({
              )}
         </div>
       </div>
+
+      {hotspotDrawer}
+
+      {show3D && onRequestBlueprint && (
+        <div className="w-full aspect-video">
+          {blueprint ? (
+            <Interactive3DLab blueprint={blueprint} />
+          ) : (
+            <div className="w-full h-full bg-slate-950 rounded-[3rem] border-4 border-slate-800 flex items-center justify-center">
+              {blueprintLoading ? (
+                <div className="flex flex-col items-center">
+                  <div className="w-12 h-12 border-4 border-indigo-500 border-t-transparent rounded-full animate-spin mb-4"></div>
+                  <p className="text-indigo-400 font-black text-xs animate-pulse tracking-[0.2em]">جاري بناء النموذج ثلاثي الأبعاد...</p>
+                </div>
+              ) : (
+                <button onClick={onRequestBlueprint} className="text-xs font-black px-5 py-2.5 rounded-xl border bg-white/5 border-white/10 text-slate-300 hover:text-white">
+                  تعذر بناء النموذج — إعادة المحاولة
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {showInstrumentPanel && instruments.length > 0 && (
+        <InstrumentSettingsPanel
+          instruments={instruments}
+          activeIdx={activeInstrumentIdx}
+          onActiveChange={setActiveInstrumentIdx}
+          overrides={instrumentOverrides}
+          onOverride={overrideInstrument}
+          onClose={() => setShowInstrumentPanel(false)}
+        />
+      )}
+
+      {patientMonitor}
+
+      {isAnalysisView && (
+        <DangerZonePanel
+          history={zoneHistory}
+          original={analysisResult!.dangerZones}
+          editing={editingZones}
+          onEditingChange={(editing) => { setEditingZones(editing); setSelectedZoneIdx(null); if (editing) changeMeasurementMode(null); }}
+          selectedIdx={selectedZoneIdx}
+          onSelect={setSelectedZoneIdx}
+          onPreview={previewZoneEdit}
+          onCommit={commitZoneEdit}
+          onUndo={undoZoneEdit}
+          onRedo={redoZoneEdit}
+          imageUrl={url}
+          imageSize={imageSize}
+        />
+      )}
+
+      {isAnalysisView && imageSize && (
+        <MeasurementPanel
+          set={measurementSet}
+          calibration={calibration}
+          imageSize={imageSize}
+          mode={measurementMode}
+          onModeChange={changeMeasurementMode}
+          selectedId={selectedMeasurementId}
+          onSelect={setSelectedMeasurementId}
+          onUpdate={updateMeasurement}
+          onDelete={deleteMeasurement}
+          onClear={() => { updateMeasurementSet(() => ({ measurements: [] })); setSelectedMeasurementId(null); }}
+          calibrationLine={calibrationLine}
+          onCalibrate={applyReferenceCalibration}
+          onResetCalibration={() => updateMeasurementSet(() => ({ calibration: undefined }))}
+        />
+      )}
+
+      {analysisResult && imageSize && measurementSet.measurements.length > 0 && (
+        <MeasurementReport set={measurementSet} calibration={calibration} imageSize={imageSize} />
+      )}
+
+      {analysisResult && (
+        <ToothFindings findings={analysisResult.toothFindings} notation={toothNotation} onNotationChange={onToothNotationChange} />
+      )}
+
+      {/* Window / Level (DICOM & TIFF radiographs) */}
+      {radiograph && windowLevel && (
+        <div className="bg-slate-900/60 border border-white/10 rounded-2xl px-6 py-4 space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="flex flex-wrap items-center gap-2 text-[10px] font-bold text-slate-400">
+              {describeRadiograph(radiograph.metadata).map(item => (
+                <span key={item} className="bg-white/5 border border-white/10 px-2 py-0.5 rounded">{item}</span>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              {[
+                { label: 'افتراضي', window: radiograph.defaultWindow },
+                { label: 'النطاق الكامل', window: fullRangeWindow(radiograph) },
+                { label: 'تباين عالٍ', window: highContrastWindow(radiograph) },
+              ].map(preset => (
+                <button
+                  key={preset.label}
+                  onClick={() => setWindowLevel(preset.window)}
+                  className="text-[9px] font-black px-3 py-1.5 rounded-lg border bg-white/5 border-white/10 text-slate-400 hover:text-white"
+                >
+                  {preset.label}
+                </button>
+              ))}
+              <button
+                onClick={() => setInvertRadiograph(!invertRadiograph)}
+                className={`text-[9px] font-black px-3 py-1.5 rounded-lg border transition-all ${invertRadiograph ? 'bg-blue-600 border-white text-white' : 'bg-white/5 border-white/10 text-slate-400'}`}
+              >
+                عكس
+              </button>
+            </div>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <label className="flex items-center gap-3 text-[10px] font-black text-slate-500">
+              <span className="w-16">المستوى</span>
+              <input
+                type="range"
+                min={radiograph.minValue}
+                max={radiograph.maxValue}
+                step={(radiograph.maxValue - radiograph.minValue) / 500 || 1}
+                value={windowLevel.center}
+                onChange={(e) => setWindowLevel({ ...windowLevel, center: Number(e.target.value) })}
+                className="flex-1 accent-blue-500"
+              />
+              <span className="w-14 font-mono text-slate-300">{Math.round(windowLevel.center)}</span>
+            </label>
+            <label className="flex items-center gap-3 text-[10px] font-black text-slate-500">
+              <span className="w-16">العرض</span>
+              <input
+                type="range"
+                min={1}
+                max={Math.max(1, radiograph.maxValue - radiograph.minValue) * 2}
+                step={(radiograph.maxValue - radiograph.minValue) / 500 || 1}
+                value={windowLevel.width}
+                onChange={(e) => setWindowLevel({ ...windowLevel, width: Number(e.target.value) })}
+                className="flex-1 accent-blue-500"
+              />
+              <span className="w-14 font-mono text-slate-300">{Math.round(windowLevel.width)}</span>
+            </label>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
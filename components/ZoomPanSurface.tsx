@@ -0,0 +1,104 @@
+import React, { memo, useEffect, useRef } from 'react';
+import { ViewTransform, panBy, zoomAt } from '../services/viewTransform';
+
+interface ZoomPanSurfaceProps {
+  enabled: boolean;
+  view: ViewTransform;
+  onViewChange: (update: (view: ViewTransform) => ViewTransform) => void;
+  className?: string;
+  children?: React.ReactNode;
+}
+
+// Movement (px) before a press becomes a pan, so clicks on hotspots still work
+const DRAG_THRESHOLD = 4;
+const WHEEL_ZOOM_SPEED = 0.0015;
+
+// Wheel zoom, mouse/touch pan and two-finger pinch over the microscope field
+const ZoomPanSurface: React.FC<ZoomPanSurfaceProps> = ({ enabled, view, onViewChange, className = '', children }) => {
+  const surfaceRef = useRef<HTMLDivElement>(null);
+  const pointers = useRef(new Map<number, { x: number; y: number }>());
+  const panning = useRef(false);
+  const pressStart = useRef<{ x: number; y: number } | null>(null);
+
+  // React wheel listeners are passive; preventDefault is needed so the page does not scroll
+  useEffect(() => {
+    const element = surfaceRef.current;
+    if (!element || !enabled) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = element.getBoundingClientRect();
+      const anchorX = (e.clientX - rect.left) / rect.width;
+      const anchorY = (e.clientY - rect.top) / rect.height;
+      onViewChange(current => zoomAt(current, current.zoom * Math.exp(-e.deltaY * WHEEL_ZOOM_SPEED), anchorX, anchorY));
+    };
+    element.addEventListener('wheel', handleWheel, { passive: false });
+    return () => element.removeEventListener('wheel', handleWheel);
+  }, [enabled, onViewChange]);
+
+  const pinchState = () => {
+    const [a, b] = Array.from(pointers.current.values());
+    return { distance: Math.hypot(a.x - b.x, a.y - b.y), midX: (a.x + b.x) / 2, midY: (a.y + b.y) / 2 };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (!enabled) return;
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    if (pointers.current.size === 1) pressStart.current = { x: e.clientX, y: e.clientY };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const previous = pointers.current.get(e.pointerId);
+    if (!enabled || !previous) return;
+    const rect = surfaceRef.current!.getBoundingClientRect();
+
+    if (pointers.current.size >= 2) {
+      const before = pinchState();
+      pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      const after = pinchState();
+      if (before.distance > 0) {
+        const anchorX = (after.midX - rect.left) / rect.width;
+        const anchorY = (after.midY - rect.top) / rect.height;
+        onViewChange(current => panBy(
+          zoomAt(current, current.zoom * (after.distance / before.distance), anchorX, anchorY),
+          (after.midX - before.midX) / rect.width,
+          (after.midY - before.midY) / rect.height
+        ));
+      }
+      panning.current = true;
+      return;
+    }
+
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    if (!panning.current && pressStart.current && Math.hypot(e.clientX - pressStart.current.x, e.clientY - pressStart.current.y) > DRAG_THRESHOLD) {
+      panning.current = true;
+      surfaceRef.current?.setPointerCapture(e.pointerId);
+    }
+    if (panning.current) {
+      onViewChange(current => panBy(current, (e.clientX - previous.x) / rect.width, (e.clientY - previous.y) / rect.height));
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    pointers.current.delete(e.pointerId);
+    if (pointers.current.size === 0) {
+      panning.current = false;
+      pressStart.current = null;
+    }
+  };
+
+  return (
+    <div
+      ref={surfaceRef}
+      className={`${className} ${enabled ? (view.zoom > 1 ? 'cursor-grab active:cursor-grabbing' : '') : ''}`}
+      style={enabled ? { touchAction: 'none' } : undefined}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      {children}
+    </div>
+  );
+};
+
+export default memo(ZoomPanSurface);
@@ -0,0 +1,12 @@
+import { clientIdFromHeader, handleApiRequest } from "../../server/api";
+
+// Netlify Functions (v2) entry; netlify.toml routes /api/* here.
+// Set GEMINI_API_KEY in the site's environment variables, not in a VITE_ variable.
+
+interface NetlifyContext {
+  ip?: string;
+}
+
+// context.ip and x-nf-client-connection-ip are both set by Netlify's edge
+export default async (request: Request, context: NetlifyContext) =>
+  handleApiRequest(request, context?.ip || clientIdFromHeader(request.headers, 'x-nf-client-connection-ip'));
@@ -0,0 +1,328 @@
+import { DifficultyLevel, LabeledImage, MAX_COMPARISON_IMAGES } from "../types";
+import type { ImageKind, QuizLanguage, RequestContext } from "../services/aiProvider";
+import { isAbortError } from "../services/abort";
+import { AIErrorCode, AIServiceError, QuotaError, serializeAIError, toAIServiceError } from "../services/aiErrors";
+import { PromptTemplate, builtInTemplate, parseTemplate } from "../services/promptTemplates";
+import { ITEM_SCHEMAS, RepairableCollection } from "../services/responseValidation";
+import { USAGE_HEADER, createRequestUsage } from "../services/usage";
+import { geminiProvider } from "./geminiProvider";
+import { consumeRateLimit, RateLimitKind } from "./rateLimit";
+import { hasValidSignature, isInstructorRequest, signTemplate } from "./promptAuth";
+
+// HTTP API in front of the Gemini provider. Written against the Fetch API Request/Response
+// so the same handler runs in the Node server (server/node.ts), Netlify (netlify/functions/api.ts)
+// and Vercel (api/index.ts).
+//
+// POST /api/<route> with a JSON body; errors are { error: SerializedAIError } (see services/aiErrors.ts).
+// /api/practical/stream answers with NDJSON lines: { step, index } ... then { result, usage } or { error }.
+// Token usage of a JSON response (services/usage.ts) is sent in the X-DentalBrain-Usage header.
+// Text routes accept an optional `template` (services/promptTemplates.ts) that replaces the built-in prompt;
+// only built-in versions and instructor-sent or signed custom ones are run (server/promptAuth.ts).
+// POST /api/templates/sign (instructor only) returns { signature } for a custom template.
+// Cross-origin callers (VITE_API_BASE_URL on another origin) must be listed in ALLOWED_ORIGINS.
+
+const MAX_BODY_BYTES = 15 * 1024 * 1024; // base64 images
+const MAX_TOPIC_LENGTH = 500;
+const MAX_REPAIR_ITEMS = 30;
+const MAX_REPAIR_ITEM_LENGTH = 8000; // JSON of one item
+const MAX_REPAIR_REASONS = 10;
+const DIFFICULTIES: DifficultyLevel[] = ['Easy', 'Medium', 'Hard', 'Intellectual'];
+const IMAGE_KINDS: ImageKind[] = ['CLINICAL', 'RADIOLOGY', 'EXPLODED'];
+
+// Request problems (bad input, unknown route); AI failures use the shared error classes instead
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const HTTP_STATUS: Record<AIErrorCode, number> = {
+  quota: 429,
+  auth: 401,
+  network: 502,
+  safety: 422,
+  parse: 502,
+  no_image: 502,
+  budget: 429,
+  unknown: 500,
+};
+
+const json = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json; charset=utf-8', 'Cache-Control': 'no-store', ...headers },
+  });
+
+// 1. Input validation
+const readBody = async (request: Request): Promise<Record<string, unknown>> => {
+  const length = Number(request.headers.get('content-length') || 0);
+  if (length > MAX_BODY_BYTES) throw new HttpError(413, "حجم الطلب كبير جداً.");
+  const text = await request.text();
+  if (text.length > MAX_BODY_BYTES) throw new HttpError(413, "حجم الطلب كبير جداً.");
+  try {
+    const body = JSON.parse(text || '{}');
+    if (body && typeof body === 'object' && !Array.isArray(body)) return body;
+  } catch (e) {
+    // Falls through to the 400 below
+  }
+  throw new HttpError(400, "صيغة الطلب غير صالحة (JSON).");
+};
+
+const requireString = (body: Record<string, unknown>, field: string, maxLength = MAX_TOPIC_LENGTH): string => {
+  const value = body[field];
+  if (typeof value !== 'string' || !value.trim()) throw new HttpError(400, `الحقل "${field}" مطلوب.`);
+  if (value.length > maxLength) throw new HttpError(400, `الحقل "${field}" أطول من المسموح.`);
+  return value.trim();
+};
+
+const requireTemplate = (body: Record<string, unknown>): PromptTemplate => {
+  const template = parseTemplate(body.template);
+  if (!template) throw new HttpError(400, "قالب الموجّه غير صالح.");
+  return template;
+};
+
+// Templates are re-validated here: the browser registry is not trusted. A built-in version is replaced
+// by the server's own copy; a custom one must come from an instructor or carry a valid signature.
+const readTemplate = async (body: Record<string, unknown>, request: Request): Promise<PromptTemplate | undefined> => {
+  if (body.template === undefined) return undefined;
+  const template = requireTemplate(body);
+  const builtIn = builtInTemplate(template.id, template.version);
+  if (builtIn) return builtIn;
+  if (isInstructorRequest(request) || await hasValidSignature(template)) return template;
+  throw new HttpError(403, "قالب الموجّه المخصص غير موقّع. اطلب من المدرّس توقيعه، أو فعّل القالب المدمج.");
+};
+
+// Items of known collections only: the server adds the schema itself, so the route cannot run arbitrary prompts
+const readRepairItems = (body: Record<string, unknown>) => {
+  const items = body.items;
+  if (!Array.isArray(items) || items.length === 0 || items.length > MAX_REPAIR_ITEMS) {
+    throw new HttpError(400, `الحقل "items" يجب أن يحتوي من 1 إلى ${MAX_REPAIR_ITEMS} عنصراً.`);
+  }
+  return items.map((item, index) => {
+    const entry = (item && typeof item === 'object' ? item : {}) as Record<string, unknown>;
+    if (typeof entry.collection !== 'string' || !Object.prototype.hasOwnProperty.call(ITEM_SCHEMAS, entry.collection)) {
+      throw new HttpError(400, `العنصر رقم ${index + 1}: مجموعة غير معروفة.`);
+    }
+    if (JSON.stringify(entry.raw ?? null).length > MAX_REPAIR_ITEM_LENGTH) throw new HttpError(400, `العنصر رقم ${index + 1} أطول من المسموح.`);
+    const reasons = Array.isArray(entry.reasons) ? entry.reasons : [];
+    return {
+      collection: entry.collection as RepairableCollection,
+      raw: entry.raw,
+      reasons: reasons.filter((reason): reason is string => typeof reason === 'string').slice(0, MAX_REPAIR_REASONS).map(reason => reason.slice(0, 300)),
+    };
+  });
+};
+
+// 2-4 labeled data URLs; the body size limit already caps their total size
+const readImageSet = (body: Record<string, unknown>): LabeledImage[] => {
+  const images = body.images;
+  if (!Array.isArray(images) || images.length < 2 || images.length > MAX_COMPARISON_IMAGES) {
+    throw new HttpError(400, `الحقل "images" يجب أن يحتوي من 2 إلى ${MAX_COMPARISON_IMAGES} صور.`);
+  }
+  return images.map((item, index) => {
+    if (!item || typeof item !== 'object') throw new HttpError(400, `الصورة رقم ${index + 1} غير صالحة.`);
+    const entry = item as Record<string, unknown>;
+    return {
+      label: typeof entry.label === 'string' && entry.label.trim() ? entry.label.trim().slice(0, 60) : `صورة ${index + 1}`,
+      dataUrl: requireString(entry, 'dataUrl', MAX_BODY_BYTES),
+    };
+  });
+};
+
+const oneOf = <T extends string>(value: unknown, allowed: T[], fallback: T): T =>
+  allowed.includes(value as T) ? (value as T) : fallback;
+
+// 2. Routes
+type RouteHandler = (body: Record<string, unknown>, ctx: RequestContext) => Promise<unknown>;
+
+interface Route {
+  kind: RateLimitKind;
+  handle: RouteHandler;
+}
+
+const routes: Record<string, Route> = {
+  simulation: {
+    kind: 'text',
+    handle: (body, ctx) => geminiProvider.generateSimulation(requireString(body, 'topic'), ctx),
+  },
+  practical: {
+    kind: 'text',
+    handle: (body, ctx) => geminiProvider.generatePractical(requireString(body, 'topic'), ctx),
+  },
+  quiz: {
+    kind: 'text',
+    handle: (body, ctx) => {
+      const count = Math.min(20, Math.max(1, Math.round(Number(body.count) || 5)));
+      return geminiProvider.generateQuiz(
+        requireString(body, 'topic'),
+        oneOf<QuizLanguage>(body.language, ['ar', 'en'], 'ar'),
+        count,
+        oneOf(body.difficulty, DIFFICULTIES, 'Medium'),
+        ctx
+      );
+    },
+  },
+  research: {
+    kind: 'text',
+    handle: (body, ctx) => geminiProvider.generateResearch(requireString(body, 'topic'), ctx),
+  },
+  case: {
+    kind: 'text',
+    handle: (body, ctx) => geminiProvider.generateCase(requireString(body, 'topic'), ctx),
+  },
+  blueprint: {
+    kind: 'text',
+    handle: (body, ctx) => geminiProvider.generateBlueprint(requireString(body, 'topic'), ctx),
+  },
+  'analyze-image': {
+    kind: 'image',
+    handle: (body, ctx) => geminiProvider.analyzeImage(requireString(body, 'image', MAX_BODY_BYTES), ctx),
+  },
+  'analyze-images': {
+    kind: 'image',
+    handle: (body, ctx) => geminiProvider.analyzeImageSet(readImageSet(body), ctx),
+  },
+  image: {
+    kind: 'image',
+    handle: async (body, ctx) => ({
+      image: await geminiProvider.generateImage(
+        requireString(body, 'prompt', 2000),
+        oneOf(body.type, IMAGE_KINDS, 'CLINICAL'),
+        ctx
+      ),
+    }),
+  },
+  repair: {
+    kind: 'text',
+    handle: (body, ctx) => geminiProvider.repairItems!({ items: readRepairItems(body) }, ctx),
+  },
+};
+
+// 3. Error mapping: the typed error travels to the client; quota errors keep their retry hint
+// (also as Retry-After) so the client scheduler can pause
+const toErrorResponse = (error: any): Response => {
+  if (error instanceof HttpError) {
+    return json({ error: { code: 'unknown', message: error.message, status: error.status } }, error.status);
+  }
+  if (isAbortError(error)) {
+    return json({ error: { code: 'network', message: error.message, status: 499 } }, 499);
+  }
+
+  const aiError: AIServiceError = toAIServiceError(error);
+  const status = HTTP_STATUS[aiError.code];
+  const headers: Record<string, string> = aiError.retryAfterMs ? { 'Retry-After': String(Math.ceil(aiError.retryAfterMs / 1000)) } : {};
+  if (!(aiError instanceof QuotaError)) console.error("API request failed:", aiError, aiError.attempts);
+  return json({ error: serializeAIError(aiError) }, status, headers);
+};
+
+// Accepts /api/<route>, /.netlify/functions/api/<route> and rewrites that pass ?route=<route>
+const resolveRoute = (url: URL): string => {
+  const fromQuery = url.searchParams.get('route');
+  if (fromQuery) return fromQuery.replace(/^\/+|\/+$/g, '');
+  const match = url.pathname.match(/\/(?:\.netlify\/functions\/)?api\/(.+?)\/?$/);
+  return match ? match[1] : '';
+};
+
+const checkRateLimit = (clientId: string, kind: RateLimitKind) => {
+  const retryAfterMs = consumeRateLimit(clientId, kind);
+  if (retryAfterMs > 0) {
+    throw new QuotaError(`تم تجاوز حد الطلبات المسموح. حاول مجدداً بعد ${Math.ceil(retryAfterMs / 1000)} ثانية.`, { status: 429, retryAfterMs });
+  }
+};
+
+const streamPractical = (topic: string, ctx: RequestContext): Response => {
+  const encoder = new TextEncoder();
+  let open = true;
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (line: unknown) => {
+        if (open) controller.enqueue(encoder.encode(`${JSON.stringify(line)}\n`));
+      };
+      try {
+        const result = await geminiProvider.streamPractical(topic, (step, index) => send({ step, index }), ctx);
+        send({ result, usage: ctx.usage });
+      } catch (error: any) {
+        // A cancelled request has no reader left to tell
+        if (!isAbortError(error)) {
+          console.error("Practical stream failed:", error);
+          send({ error: serializeAIError(toAIServiceError(error)) });
+        }
+      }
+      if (open) controller.close();
+    },
+    cancel() {
+      // The client went away; the upstream call itself is aborted through request.signal
+      open = false;
+    },
+  });
+  return new Response(body, {
+    headers: { 'Content-Type': 'application/x-ndjson; charset=utf-8', 'Cache-Control': 'no-store' },
+  });
+};
+
+const routeRequest = async (request: Request, clientId: string): Promise<Response> => {
+  const route = resolveRoute(new URL(request.url));
+
+  try {
+    if (route === 'health') {
+      return json({ configured: await geminiProvider.isConfigured() });
+    }
+    if (request.method !== 'POST') throw new HttpError(405, "Method Not Allowed");
+
+    const ctx: RequestContext = { signal: request.signal, usage: createRequestUsage() };
+
+    if (route === 'practical/stream') {
+      checkRateLimit(clientId, 'text');
+      const body = await readBody(request);
+      return streamPractical(requireString(body, 'topic'), { ...ctx, prompt: await readTemplate(body, request) });
+    }
+
+    if (route === 'templates/sign') {
+      if (!isInstructorRequest(request)) throw new HttpError(401, "رمز المدرّس غير صحيح أو غير مضبوط على الخادم.");
+      const body = await readBody(request);
+      return json({ signature: await signTemplate(requireTemplate(body)) });
+    }
+
+    const handler = routes[route];
+    if (!handler) throw new HttpError(404, `Unknown endpoint: ${route}`);
+    checkRateLimit(clientId, handler.kind);
+    const body = await readBody(request);
+    const result = await handler.handle(body, { ...ctx, prompt: await readTemplate(body, request) });
+    return json(result, 200, { [USAGE_HEADER]: JSON.stringify(ctx.usage) });
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+};
+
+// 4. CORS: only origins listed in ALLOWED_ORIGINS (comma-separated, e.g. https://app.example.com).
+// Read per request, because server/node.ts loads .env files after this module is imported.
+const allowedOrigins = () => (process.env.ALLOWED_ORIGINS || '').split(',').map(origin => origin.trim().replace(/\/+$/, '')).filter(Boolean);
+
+const corsHeaders = (request: Request): Record<string, string> => {
+  const origin = request.headers.get('origin');
+  if (!origin || !allowedOrigins().includes(origin)) return {};
+  // The usage header must be exposed, or the browser hides it and nothing is logged (services/usage.ts)
+  return { 'Access-Control-Allow-Origin': origin, 'Access-Control-Expose-Headers': USAGE_HEADER, 'Vary': 'Origin' };
+};
+
+const PREFLIGHT_HEADERS = {
+  'Access-Control-Allow-Methods': 'GET, POST',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Max-Age': '86400',
+};
+
+export const handleApiRequest = async (request: Request, clientId: string): Promise<Response> => {
+  const cors = corsHeaders(request);
+  if (request.method === 'OPTIONS') {
+    // Preflight from an origin that is not allowed: no CORS headers, so the browser blocks the call
+    return new Response(null, { status: 204, headers: Object.keys(cors).length > 0 ? { ...cors, ...PREFLIGHT_HEADERS } : {} });
+  }
+  const response = await routeRequest(request, clientId);
+  Object.entries(cors).forEach(([name, value]) => response.headers.set(name, value));
+  return response;
+};
+
+// Client identity for rate limiting. Each entry point names the one header its platform sets (and
+// overwrites) itself; any other forwarding header is caller-controlled and would give every request a fresh bucket.
+export const clientIdFromHeader = (headers: Headers, header: string, fallback = 'anonymous'): string =>
+  headers.get(header)?.split(',')[0].trim() || fallback;
@@ -0,0 +1,613 @@
+import { GoogleGenAI, GenerateContentParameters, GenerateContentResponse, FinishReason, Type } from "@google/genai";
+import { ImageAnalysisResult, ClinicalData, QuizData, DifficultyLevel, GroundingChunk, LabeledImage, ComparativeAnalysisResult, ClinicalCase, TechnicalBlueprint } from "../types";
+import type { AIProvider, ImageKind, QuizLanguage, ResearchResult, RepairRequest, RequestContext } from "../services/aiProvider";
+import { createJsonArrayStreamParser } from "../services/jsonStream";
+import { RequestKind, scheduleRequest } from "../services/requestScheduler";
+import { abortableDelay, isAbortError, throwIfAborted } from "../services/abort";
+import { DEFAULT_TEMPLATES, PromptTemplateId, RenderedPrompt, renderTemplate } from "../services/promptTemplates";
+import { RequestUsage } from "../services/usage";
+import { ITEM_SCHEMAS } from "../services/responseValidation";
+import {
+  AIServiceError,
+  AttemptRecord,
+  AuthError,
+  NoImageError,
+  ParseError,
+  QuotaError,
+  SafetyBlockedError,
+  UnknownAIError,
+  toAIServiceError
+} from "../services/aiErrors";
+
+// Server-side only: the key is read from the server environment and never reaches the browser bundle.
+// The frontend talks to this provider through the /api proxy (see server/api.ts and services/serverProvider.ts).
+
+// Helper to safely get the API key from process.env
+const getApiKey = (): string | undefined => {
+    return process.env.GEMINI_API_KEY || process.env.API_KEY || process.env.GOOGLE_API_KEY;
+};
+
+// Helper for trying multiple models; attempt records from every model are kept on the final error
+async function withModelFallback<T>(
+    operation: (model: string, apiKey: string) => Promise<T>, 
+    ctx: RequestContext,
+    models: string[] = ['gemini-1.5-flash-latest']
+): Promise<T> {
+    const apiKey = getApiKey();
+    
+    if (!apiKey || apiKey === "undefined" || apiKey.trim() === "") {
+        console.error("API Key Check Failed.");
+        throw new AuthError("مفتاح API مفقود! تأكد من إعدادات البيئة (Environment Variables).");
+    }
+
+    let lastError: AIServiceError | undefined;
+    const attempts: AttemptRecord[] = [];
+    for (const model of models) {
+        try {
+            return await operation(model, apiKey);
+        } catch (error: any) {
+            // A cancelled request must not fall through to the next model
+            if (isAbortError(error)) throw error;
+            lastError = toAIServiceError(error);
+            attempts.push(...lastError.attempts.map(record => ({ ...record, model })));
+            lastError.attempts = [...attempts];
+            console.warn(`Model ${model} failed (${lastError.code}):`, lastError.message);
+            
+            // No sleep needed: the next model has its own rate-limit bucket in the scheduler
+            if (models.indexOf(model) < models.length - 1) {
+                if (ctx.usage) ctx.usage.fallbacks++;
+                console.log(`Falling back to ${models[models.indexOf(model) + 1]}...`);
+                continue;
+            }
+        }
+    }
+    throw lastError;
+}
+
+// EXPONENTIAL BACKOFF RETRY LOGIC
+async function withRetry<T>(
+    fn: (attempt: number) => Promise<T>, 
+    retries = 3, 
+    retryOnQuota = true,
+    ctx: RequestContext = {}
+): Promise<T> {
+  const { signal, usage } = ctx;
+  const attempts: AttemptRecord[] = [];
+  for (let i = 0; i < retries; i++) {
+    throwIfAborted(signal);
+    try {
+      return await fn(i);
+    } catch (rawError: any) {
+      if (isAbortError(rawError)) throw rawError;
+
+      const error = toAIServiceError(rawError);
+      attempts.push({ attempt: i + 1, code: error.code, message: error.message });
+      error.attempts = [...attempts];
+
+      const isQuota = error instanceof QuotaError;
+      if (!error.retryable || (isQuota && !retryOnQuota) || i === retries - 1) {
+        throw error;
+      }
+
+      console.warn(`Attempt ${i + 1} failed (${error.code}). Retrying...`);
+      if (usage) usage.retries++;
+
+      // Quota: retry right away, the scheduler holds the request until the model's retry-after window ends
+      // Network: exponential backoff 2s, 4s, 8s
+      if (!isQuota) {
+        const waitTime = 2000 * Math.pow(2, i) + (Math.random() * 1000);
+        console.log(`⏳ Waiting ${Math.floor(waitTime / 1000)}s before retry...`);
+        await abortableDelay(waitTime, signal); 
+      }
+    }
+  }
+  throw new UnknownAIError("No attempts were made.");
+}
+
+// Token counts of every answered call (including ones later rejected as blocked or unparsable)
+const recordUsage = (usage: RequestUsage | undefined, model: string, response: GenerateContentResponse | undefined) => {
+  if (!usage) return;
+  const metadata = response?.usageMetadata;
+  usage.calls.push({
+    model,
+    promptTokens: metadata?.promptTokenCount || 0,
+    responseTokens: metadata?.candidatesTokenCount || 0,
+    images: (response?.candidates?.[0]?.content?.parts || []).filter(part => part.inlineData).length,
+  });
+};
+
+// Every API call goes through the central scheduler (rate limits, priority, 429 pauses).
+// Raw SDK errors are classified here, before the scheduler and retry logic see them.
+const callModel = (ai: GoogleGenAI, ctx: RequestContext, kind: RequestKind, request: GenerateContentParameters) =>
+  scheduleRequest({ model: request.model, kind, tab: ctx.tab, signal: ctx.signal }, async () => {
+    const response = await ai.models.generateContent(request).catch(error => { throw toAIServiceError(error); });
+    recordUsage(ctx.usage, request.model, response);
+    return response;
+  });
+
+// Blocked prompts / candidates come back as a normal response without text
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || finishReason === FinishReason.SAFETY || finishReason === FinishReason.PROHIBITED_CONTENT || finishReason === FinishReason.BLOCKLIST) {
+    throw new SafetyBlockedError(`Blocked by safety filters (${blockReason || finishReason}).`);
+  }
+};
+
+const responseText = (response: GenerateContentResponse): string | undefined => {
+  assertNotBlocked(response);
+  return response.text;
+};
+
+const parseAIResponse = (text: string | undefined): any => {
+    if (!text) throw new ParseError("استجابة فارغة من المحرك.");
+    let cleanText = text.replace(/```json\n?|```/g, '').trim();
+    const firstBracket = cleanText.indexOf('{');
+    const lastBracket = cleanText.lastIndexOf('}');
+    if (firstBracket !== -1 && lastBracket !== -1) {
+        cleanText = cleanText.substring(firstBracket, lastBracket + 1);
+    }
+    try {
+        return JSON.parse(cleanText);
+    } catch (e) {
+        console.error("Failed to parse JSON", cleanText);
+        throw new ParseError("فشل في قراءة بيانات JSON من الاستجابة.");
+    }
+};
+
+// Prompt text comes from the request's template (validated in server/api.ts) or the built-in default
+const renderPrompt = (id: PromptTemplateId, ctx: RequestContext, values: Record<string, string | number>): RenderedPrompt =>
+  renderTemplate(ctx.prompt?.id === id ? ctx.prompt : DEFAULT_TEMPLATES[id], values);
+
+// Empty system instructions are left out of the request
+const promptConfig = (prompt: RenderedPrompt) =>
+  prompt.systemInstruction ? { systemInstruction: prompt.systemInstruction } : {};
+
+// 1. Simulation Content
+const generateSimulation = async (topic: string, ctx: RequestContext): Promise<ClinicalData> => {
+  return await withModelFallback(async (modelName, apiKey) => {
+    return await withRetry(async (attempt) => {
+      const ai = new GoogleGenAI({ apiKey: apiKey });
+      const prompt = renderPrompt('simulation', ctx, { topic });
+
+      const response = await callModel(ai, ctx, 'text', {
+        model: modelName,
+        contents: [{ parts: [{ text: prompt.userPrompt }] }],
+        config: { 
+          ...promptConfig(prompt),
+          responseMimeType: "application/json"
+        }
+      });
+
+      return parseAIResponse(responseText(response));
+    }, 3, true, ctx);
+  }, ctx);
+};
+
+// 2. Practical Protocol
+const buildPracticalRequest = (modelName: string, topic: string, ctx: RequestContext) => {
+  const prompt = renderPrompt('practical', ctx, { topic });
+  return {
+    model: modelName,
+    contents: [{ parts: [{ text: prompt.userPrompt }] }],
+    config: { 
+      ...promptConfig(prompt),
+      responseMimeType: "application/json"
+    }
+  };
+};
+
+const generatePractical = async (topic: string, ctx: RequestContext): Promise<ClinicalData> => {
+  return await withModelFallback(async (modelName, apiKey) => {
+    return await withRetry(async (attempt) => {
+      const ai = new GoogleGenAI({ apiKey: apiKey });
+      const response = await callModel(ai, ctx, 'text', buildPracticalRequest(modelName, topic, ctx));
+      return parseAIResponse(responseText(response));
+    }, 3, true, ctx);
+  }, ctx);
+};
+
+// 2b. Practical Protocol, streamed: each step is handed to onStep as soon as its object closes
+const streamPractical = async (
+  topic: string,
+  onStep: (rawStep: unknown, index: number) => void,
+  ctx: RequestContext
+): Promise<ClinicalData> => {
+  // Steps already delivered survive a retry/fallback; the new stream only fills in what is missing
+  let delivered = 0;
+
+  return await withModelFallback(async (modelName, apiKey) => {
+    return await withRetry(async (attempt) => {
+      const ai = new GoogleGenAI({ apiKey: apiKey });
+      const parser = createJsonArrayStreamParser('practicalProtocol', (item, index) => {
+        if (index < delivered) return;
+        delivered = index + 1;
+        onStep(item, index);
+      });
+
+      // The scheduler slot is held until the whole stream has been consumed
+      const fullText = await scheduleRequest({ model: modelName, kind: 'text', tab: ctx.tab, signal: ctx.signal }, async () => {
+        let text = '';
+        // Token counts arrive with the final chunk
+        let lastChunk: GenerateContentResponse | undefined;
+        try {
+          const stream = await ai.models.generateContentStream(buildPracticalRequest(modelName, topic, ctx));
+          for await (const chunk of stream) {
+            // Stop reading (and stop emitting steps) once the request is cancelled
+            throwIfAborted(ctx.signal);
+            lastChunk = chunk;
+            const piece = responseText(chunk) || '';
+            text += piece;
+            parser.push(piece);
+          }
+        } catch (error) {
+          throw isAbortError(error) ? error : toAIServiceError(error);
+        } finally {
+          if (lastChunk) recordUsage(ctx.usage, modelName, lastChunk);
+        }
+        return text;
+      });
+
+      return parseAIResponse(fullText);
+    }, 3, true, ctx);
+  }, ctx);
+};
+
+// 3. Quiz Generation
+const generateQuiz = async (
+    topic: string, 
+    language: QuizLanguage, 
+    count: number,
+    difficulty: DifficultyLevel,
+    ctx: RequestContext
+): Promise<QuizData> => {
+  return await withModelFallback(async (modelName, apiKey) => {
+    return await withRetry(async (attempt) => {
+      const ai = new GoogleGenAI({ apiKey: apiKey });
+      
+      const prompt = renderPrompt('quiz', ctx, {
+        topic,
+        count,
+        difficulty,
+        language: language === 'ar' ? "ARABIC" : "ENGLISH",
+      });
+
+      const response = await callModel(ai, ctx, 'text', {
+        model: modelName,
+        contents: [{ parts: [{ text: prompt.userPrompt }] }],
+        config: { 
+          ...promptConfig(prompt),
+          responseMimeType: "application/json"
+        }
+      });
+
+      return parseAIResponse(responseText(response));
+    }, 3, true, ctx);
+  }, ctx);
+};
+
+// 4. Research Content
+const generateResearch = async (topic: string, ctx: RequestContext): Promise<ResearchResult> => {
+  return await withModelFallback(async (modelName, apiKey) => {
+    return await withRetry(async (attempt) => {
+      const ai = new GoogleGenAI({ apiKey: apiKey });
+      
+      const prompt = renderPrompt('research', ctx, { topic });
+
+      const response = await callModel(ai, ctx, 'text', {
+        model: modelName,
+        contents: [{ parts: [{ text: prompt.userPrompt }] }],
+        config: { 
+          ...promptConfig(prompt),
+          tools: [{ googleSearch: {} }],
+        }
+      });
+
+      const sources = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+      let prompts: string[] = [];
+      try {
+          const json = parseAIResponse(responseText(response));
+          if (json.imagePrompts && Array.isArray(json.imagePrompts)) prompts = json.imagePrompts;
+      } catch (e) {
+          prompts = [`Dental clinical view of ${topic}`, `Anatomical diagram of ${topic}`, `X-ray of ${topic}`];
+      }
+      while (prompts.length < 3) prompts.push(`Dental clinical view of ${topic}`);
+      return { sources: sources as GroundingChunk[], prompts: prompts.slice(0, 3) };
+    }, 3, true, ctx);
+  }, ctx);
+};
+
+// 5. Branching Clinical Case: a decision tree of clinical states, validated and pruned client-side
+const generateCase = async (topic: string, ctx: RequestContext): Promise<ClinicalCase> => {
+  return await withModelFallback(async (modelName, apiKey) => {
+    return await withRetry(async (attempt) => {
+      const ai = new GoogleGenAI({ apiKey: apiKey });
+
+      const response = await callModel(ai, ctx, 'text', {
+        model: modelName,
+        contents: [{ parts: [{ text: `Topic: "${topic}". Create a branching dental clinical case for students.
+
+      OUTPUT: JSON Object.
+      LANGUAGE: ARABIC (Scientific Medical Arabic) for every student-facing text; image prompts in English.
+      Structure: {
+        "title": "string", "summary": "string (presenting complaint and history)", "startNodeId": "string",
+        "nodes": [{
+          "id": "string", "title": "string", "narrative": "string (what the student sees and is told at this stage)",
+          "imagePrompt": "string (English, photorealistic clinical view of this stage)",
+          "vitals": { "heartRate": number, "bloodPressure": "string", "oxygenSaturation": number },
+          "hotspots": [{ "x": number, "y": number, "label": "string", "description": "string", "diagnosis": "string", "indications": "string", "classification": "string", "treatmentPlan": "string" }],
+          "choices": [{ "id": "string", "label": "string", "nextNodeId": "string", "feedback": "string (why this decision is right or wrong)", "quality": "OPTIMAL|ACCEPTABLE|POOR|HARMFUL" }],
+          "outcome": "GOOD|FAIR|POOR (end stages only)"
+        }]
+      }
+      Use 6-12 nodes. Every non-final node offers 2-4 choices, exactly one OPTIMAL; wrong decisions lead to their real consequences (complications, worse vitals) and may allow recovery.
+      Choices only lead forward (no loops). Final nodes have no choices and an outcome.` }] }],
+        config: {
+          systemInstruction: "You are a Clinical Dental Case Designer. Return valid JSON.",
+          responseMimeType: "application/json"
+        }
+      });
+
+      return parseAIResponse(responseText(response));
+    }, 3, true, ctx);
+  }, ctx);
+};
+
+// 6. 3D Blueprint: positions are in a 0-100 lab space (y up, z towards the buccal side)
+const generateBlueprint = async (topic: string, ctx: RequestContext): Promise<TechnicalBlueprint> => {
+  return await withModelFallback(async (modelName, apiKey) => {
+    return await withRetry(async (attempt) => {
+      const ai = new GoogleGenAI({ apiKey: apiKey });
+
+      const response = await callModel(ai, ctx, 'text', {
+        model: modelName,
+        contents: [{ parts: [{ text: `Topic: "${topic}". Describe the anatomical structures of this topic as a 3D model for a dental teaching viewer.
+            List 4-10 structural components (e.g. enamel crown, dentin, pulp chamber, each root, PDL, alveolar bone, restorations or lesions relevant to the topic); name each part in English followed by the Arabic name in parentheses.
+            For each component give one visual parameter: componentId equal to its partName, a realistic colour, and its centre in a 0-100 space (x mesiodistal, y apical→occlusal, z lingual→buccal) so the parts assemble into the real structure.
+            modelMetadata: entityName in Arabic, scientificClassification in English. Return strict JSON.` }] }],
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              structuralComponents: {
+                type: Type.ARRAY,
+                items: { type: Type.OBJECT, properties: { partName: { type: Type.STRING } }, required: ["partName"] }
+              },
+              visualParameters: {
+                type: Type.ARRAY,
+                items: {
+                  type: Type.OBJECT,
+                  properties: {
+                    componentId: { type: Type.STRING },
+                    colorHex: { type: Type.STRING, description: "#rrggbb" },
+                    spatialPosition: { type: Type.OBJECT, properties: { x: { type: Type.NUMBER }, y: { type: Type.NUMBER }, z: { type: Type.NUMBER } } }
+                  },
+                  required: ["componentId", "colorHex", "spatialPosition"]
+                }
+              },
+              modelMetadata: {
+                type: Type.OBJECT,
+                properties: { entityName: { type: Type.STRING }, scientificClassification: { type: Type.STRING } }
+              }
+            },
+            required: ["structuralComponents", "visualParameters", "modelMetadata"]
+          }
+        }
+      });
+
+      return parseAIResponse(responseText(response)) as TechnicalBlueprint;
+    }, 3, true, ctx);
+  }, ctx);
+};
+
+// Image Analysis
+const DANGER_ZONE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    name: { type: Type.STRING },
+    riskLevel: { type: Type.STRING, enum: ["HIGH", "MODERATE", "LOW"] },
+    description: { type: Type.STRING },
+    box: { type: Type.OBJECT, properties: { ymin: { type: Type.NUMBER }, xmin: { type: Type.NUMBER }, ymax: { type: Type.NUMBER }, xmax: { type: Type.NUMBER } } }
+  }
+};
+
+// Tooth numbers in FDI; the client converts to Universal/Palmer for display
+const TOOTH_FINDING_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    tooth: { type: Type.STRING, description: "FDI two-digit tooth number, e.g. 36 or 75" },
+    surfaces: { type: Type.ARRAY, items: { type: Type.STRING, enum: ["M", "O", "D", "B", "L", "I"] } },
+    condition: {
+      type: Type.STRING,
+      enum: ["CARIES", "RESTORATION", "CROWN", "ROOT_CANAL", "PERIAPICAL_LESION", "BONE_LOSS", "FRACTURE", "IMPLANT", "MISSING", "IMPACTED", "CALCULUS", "OTHER"]
+    },
+    confidence: { type: Type.NUMBER, description: "0-1" },
+    description: { type: Type.STRING }
+  },
+  required: ["tooth", "condition"]
+};
+
+const IMAGE_ANALYSIS_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    isHighQuality: { type: Type.BOOLEAN },
+    rejectionReason: { type: Type.STRING },
+    detailedClinicalAnalysis: { type: Type.STRING },
+    landmarks: { type: Type.ARRAY, items: { type: Type.STRING } },
+    dangerZones: { type: Type.ARRAY, items: DANGER_ZONE_SCHEMA },
+    toothFindings: { type: Type.ARRAY, items: TOOTH_FINDING_SCHEMA },
+    adaCompliance: {
+      type: Type.OBJECT,
+      properties: { compliant: { type: Type.BOOLEAN }, notes: { type: Type.STRING } }
+    }
+  },
+  required: ["isHighQuality", "detailedClinicalAnalysis", "dangerZones"]
+};
+
+// Data URL -> inline part; bare base64 is assumed to be PNG
+const toInlineData = (image: string) => {
+  const match = image.match(/^data:([^;,]+);base64,/);
+  return { inlineData: { mimeType: match ? match[1] : 'image/png', data: image.split(',')[1] || image } };
+};
+
+const analyzeImage = async (base64Image: string, ctx: RequestContext): Promise<ImageAnalysisResult> => {
+  return await withModelFallback(async (modelName, apiKey) => {
+    return await withRetry(async (attempt) => {
+      const ai = new GoogleGenAI({ apiKey: apiKey });
+
+      const response = await callModel(ai, ctx, 'text', {
+        model: modelName, 
+        contents: {
+          parts: [
+            toInlineData(base64Image),
+            { text: `Perform high-precision dental analysis. List every finding per tooth in toothFindings (FDI numbering, affected surfaces, condition, confidence 0-1). Return strict JSON.` }
+          ]
+        },
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: IMAGE_ANALYSIS_SCHEMA
+        }
+      });
+
+      return parseAIResponse(responseText(response)) as ImageAnalysisResult;
+    }, 3, true, ctx);
+  }, ctx);
+};
+
+// Comparative analysis: every image is preceded by its label so findings can be matched back,
+// boxes stay relative to their own image
+const analyzeImageSet = async (images: LabeledImage[], ctx: RequestContext): Promise<ComparativeAnalysisResult> => {
+  return await withModelFallback(async (modelName, apiKey) => {
+    return await withRetry(async (attempt) => {
+      const ai = new GoogleGenAI({ apiKey: apiKey });
+      const labels = images.map(image => `"${image.label}"`).join(', ');
+
+      const response = await callModel(ai, ctx, 'text', {
+        model: modelName,
+        contents: {
+          parts: [
+            ...images.flatMap(image => [{ text: `Image "${image.label}":` }, toInlineData(image.dataUrl)]),
+            { text: `Perform high-precision comparative dental analysis of the ${images.length} images above (in order: ${labels}).
+            For each image return its own findings, per-tooth findings (FDI numbering) and danger zones (box coordinates relative to that image, percent 0-100); use the same zone name for the same structure across images.
+            Then compare them: lesion changes, restoration outcome, bone level change, and an overall trend (IMPROVED, STABLE, WORSENED or NOT_APPLICABLE when the images are not a time series, e.g. left/right bitewings).
+            Write the narrative fields in Arabic. Return strict JSON.` }
+          ]
+        },
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              images: {
+                type: Type.ARRAY,
+                items: {
+                  type: Type.OBJECT,
+                  properties: { label: { type: Type.STRING }, analysis: IMAGE_ANALYSIS_SCHEMA },
+                  required: ["label", "analysis"]
+                }
+              },
+              comparison: {
+                type: Type.OBJECT,
+                properties: {
+                  summary: { type: Type.STRING },
+                  lesionChanges: { type: Type.STRING },
+                  restorationOutcome: { type: Type.STRING },
+                  boneLevelChange: { type: Type.STRING },
+                  trend: { type: Type.STRING, enum: ["IMPROVED", "STABLE", "WORSENED", "NOT_APPLICABLE"] }
+                }
+              }
+            },
+            required: ["images", "comparison"]
+          }
+        }
+      });
+
+      return parseAIResponse(responseText(response)) as ComparativeAnalysisResult;
+    }, 3, true, ctx);
+  }, ctx);
+};
+
+// Targeted repair: only the invalid items are sent back, each with its schema and the reasons it failed
+const repairItems = async (request: RepairRequest, ctx: RequestContext): Promise<unknown[]> => {
+  return await withModelFallback(async (modelName, apiKey) => {
+    return await withRetry(async (attempt) => {
+      const ai = new GoogleGenAI({ apiKey: apiKey });
+
+      const payload = request.items.map((item, i) => ({
+        index: i,
+        schema: ITEM_SCHEMAS[item.collection],
+        problems: item.reasons,
+        item: item.raw
+      }));
+
+      const response = await callModel(ai, ctx, 'text', {
+        model: modelName,
+        contents: [{ parts: [{ text: `Fix ONLY the listed problems in each item so it matches its schema. Keep all other content (and its language) unchanged.\n\nItems: ${JSON.stringify(payload)}\n\nOUTPUT: JSON Object. Structure: { "items": [ /* repaired items, same order and count as input */ ] }` }] }],
+        config: {
+          systemInstruction: "You repair malformed JSON records. Return valid JSON.",
+          responseMimeType: "application/json"
+        }
+      });
+
+      const json = parseAIResponse(responseText(response));
+      return Array.isArray(json.items) ? json.items : [];
+    }, 2, true, ctx);
+  }, ctx);
+};
+
+// Image Generation
+const generateImage = async (prompt: string, type: ImageKind, ctx: RequestContext): Promise<string | null> => {
+  const modelsToTry = ['gemini-1.5-flash-latest'];
+  
+  try {
+    return await withModelFallback(async (modelName, apiKey) => {
+      return await withRetry(async (attempt) => {
+        const ai = new GoogleGenAI({ apiKey: apiKey });
+        
+        let finalPrompt = type === 'EXPLODED' 
+          ? `Clean 3D medical illustration, exploded view, dental anatomy: ${prompt}. White background` 
+          : type === 'RADIOLOGY' 
+          ? `Digital Dental X-Ray: ${prompt}. Diagnostic grayscale` 
+          : `Dental education visual aid: ${prompt}. High quality, photorealistic, clinical standard.`;
+
+        // The installed SDK has no image options in GenerateContentConfig, so the format is asked for in the prompt
+        const response = await callModel(ai, ctx, 'image', {
+          model: modelName, 
+          contents: { parts: [{ text: `${finalPrompt} Wide 16:9 landscape format.` }] },
+        });
+        
+        assertNotBlocked(response);
+        for (const part of response.candidates?.[0]?.content?.parts || []) {
+          if (part.inlineData) {
+            return `data:image/png;base64,${part.inlineData.data}`;
+          }
+        }
+        throw new NoImageError("No image data found in response");
+      }, 2, true, ctx);
+    }, ctx, modelsToTry);
+  } catch (e) {
+    if (isAbortError(e)) throw e;
+    // The UI shows a per-image "failed" state instead of an error banner
+    console.warn("All image generation attempts failed:", e);
+    return null;
+  }
+};
+
+export const geminiProvider: AIProvider = {
+    id: 'gemini',
+    label: 'Gemini',
+    promptVersion: 'v2',
+    isConfigured: async () => !!getApiKey(),
+    generateSimulation,
+    generatePractical,
+    streamPractical,
+    generateQuiz,
+    generateResearch,
+    generateCase,
+    generateBlueprint,
+    analyzeImage,
+    analyzeImageSet,
+    generateImage,
+    repairItems,
+};
@@ -0,0 +1,77 @@
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { existsSync, readFileSync } from "node:fs";
+import { Readable } from "node:stream";
+import { handleApiRequest } from "./api";
+
+// Standalone API server for local development and self-hosting:
+//   npm run server   (Vite's dev server proxies /api to it, see vite.config.ts)
+
+// Minimal .env loader so GEMINI_API_KEY can live in .env.local like before; real env vars win
+const loadEnvFile = (file: string) => {
+  if (!existsSync(file)) return;
+  for (const line of readFileSync(file, 'utf8').split(/\r?\n/)) {
+    const match = line.match(/^\s*([\w.]+)\s*=\s*(.*?)\s*$/);
+    if (!match || line.trim().startsWith('#')) continue;
+    const value = match[2].replace(/^(['"])(.*)\1$/, '$2');
+    if (process.env[match[1]] === undefined) process.env[match[1]] = value;
+  }
+};
+
+loadEnvFile('.env.local');
+loadEnvFile('.env');
+
+const PORT = Number(process.env.API_PORT) || 8787;
+
+// Rate limits key on the socket address. Only behind a reverse proxy you run (TRUST_PROXY=1) is the
+// last X-Forwarded-For entry used: that one is appended by the proxy, earlier ones come from the caller.
+const TRUST_PROXY = /^(1|true|yes)$/i.test(process.env.TRUST_PROXY || '');
+
+const clientId = (req: IncomingMessage): string => {
+  const forwarded = TRUST_PROXY ? [req.headers['x-forwarded-for']].flat().join(',').split(',').pop()?.trim() : undefined;
+  return forwarded || req.socket.remoteAddress || 'anonymous';
+};
+
+const toRequest = (req: IncomingMessage, signal: AbortSignal): Request => {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (Array.isArray(value)) value.forEach(v => headers.append(name, v));
+    else if (value !== undefined) headers.set(name, value);
+  }
+  const hasBody = req.method !== 'GET' && req.method !== 'HEAD';
+  return new Request(`http://${req.headers.host || 'localhost'}${req.url}`, {
+    method: req.method,
+    headers,
+    body: hasBody ? (Readable.toWeb(req) as any) : undefined,
+    signal,
+    // Required by Node's fetch implementation for streamed request bodies
+    duplex: 'half',
+  } as RequestInit);
+};
+
+const server = createServer(async (req: IncomingMessage, res: ServerResponse) => {
+  // Client disconnects abort the upstream model call (and its queued retries)
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  try {
+    const request = toRequest(req, controller.signal);
+    const response = await handleApiRequest(request, clientId(req));
+    res.writeHead(response.status, Object.fromEntries(response.headers));
+    if (response.body) {
+      Readable.fromWeb(response.body as any).pipe(res);
+    } else {
+      res.end();
+    }
+  } catch (e) {
+    console.error("Unhandled API error:", e);
+    if (!res.headersSent) res.writeHead(500, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: { message: "Internal Server Error", status: 500 } }));
+  }
+});
+
+server.listen(PORT, () => {
+  const keyStatus = process.env.GEMINI_API_KEY || process.env.API_KEY || process.env.GOOGLE_API_KEY ? 'key loaded' : 'NO API KEY SET';
+  console.log(`🦷 DentalBrain API listening on http://localhost:${PORT}/api (${keyStatus})`);
+});
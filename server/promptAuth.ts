@@ -0,0 +1,42 @@
+import { PromptTemplate } from "../services/promptTemplates";
+
+// Who may run which prompt on the server's key. Built-in template versions are always allowed (the
+// API renders its own copy of them); any other text runs only when the request comes from an instructor
+// (Authorization: Bearer <INSTRUCTOR_TOKEN>) or the template carries a signature the API issued earlier
+// to an instructor. Signed templates can then be shared with students in prompt packs.
+// Without INSTRUCTOR_TOKEN the proxy runs built-in prompts only.
+
+const instructorToken = () => process.env.INSTRUCTOR_TOKEN || '';
+
+// Same duration whatever the position of the first differing character
+const timingSafeEqual = (a: string, b: string) => {
+  let difference = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    difference |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  }
+  return difference === 0;
+};
+
+export const isInstructorRequest = (request: Request): boolean => {
+  const token = instructorToken();
+  const header = request.headers.get('authorization') || '';
+  return !!token && header.startsWith('Bearer ') && timingSafeEqual(header.slice(7).trim(), token);
+};
+
+// 1. Signatures: HMAC-SHA256 of the text that reaches the model. The version number is left out so a
+// signed template stays valid when a pack import gives it the next free local version.
+const signingPayload = (template: PromptTemplate) =>
+  JSON.stringify([template.id, template.systemInstruction, template.userPrompt, template.variables.map(v => [v.name, v.value])]);
+
+const hmac = async (payload: string, secret: string): Promise<string> => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(payload));
+  return Array.from(new Uint8Array(signature), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const signTemplate = (template: PromptTemplate): Promise<string> => hmac(signingPayload(template), instructorToken());
+
+export const hasValidSignature = async (template: PromptTemplate): Promise<boolean> => {
+  if (!instructorToken() || !template.signature) return false;
+  return timingSafeEqual(template.signature, await signTemplate(template));
+};
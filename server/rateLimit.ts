@@ -0,0 +1,46 @@
+// Per-client request limits for the API proxy (fixed one-minute windows, in memory).
+// Serverless instances each keep their own counters, which is acceptable for abuse protection;
+// the model quota itself is protected by the shared request scheduler.
+
+export type RateLimitKind = 'text' | 'image';
+
+const WINDOW_MS = 60000;
+
+const readLimit = (name: string, fallback: number) => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+const LIMITS: Record<RateLimitKind, number> = {
+  text: readLimit('RATE_LIMIT_TEXT_PER_MIN', 30),
+  image: readLimit('RATE_LIMIT_IMAGE_PER_MIN', 12),
+};
+
+interface Window {
+  start: number;
+  count: number;
+}
+
+const windows = new Map<string, Window>();
+
+const pruneExpired = (now: number) => {
+  for (const [key, window] of windows) {
+    if (now - window.start >= WINDOW_MS) windows.delete(key);
+  }
+};
+
+// Returns 0 when the request may proceed, otherwise the milliseconds until the client's window resets
+export const consumeRateLimit = (clientId: string, kind: RateLimitKind): number => {
+  const now = Date.now();
+  if (windows.size > 5000) pruneExpired(now);
+
+  const key = `${kind}:${clientId}`;
+  let window = windows.get(key);
+  if (!window || now - window.start >= WINDOW_MS) {
+    window = { start: now, count: 0 };
+    windows.set(key, window);
+  }
+  if (window.count >= LIMITS[kind]) return window.start + WINDOW_MS - now;
+  window.count++;
+  return 0;
+};
@@ -0,0 +1,29 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AuthError, NetworkError, QuotaError, UnknownAIError, toAIServiceError } from './aiErrors';
+
+const sdkError = (status: string, body: object) => new Error(`got status: ${status}. ${JSON.stringify(body)}`);
+
+test('classifies SDK HTTP failures by status and RPC body', () => {
+  const quota = toAIServiceError(sdkError('429 Too Many Requests', {
+    error: { status: 'RESOURCE_EXHAUSTED', message: 'Quota exceeded', details: [{ retryDelay: '27s' }] },
+  }));
+  assert.ok(quota instanceof QuotaError);
+  assert.equal(quota.message, 'Quota exceeded');
+  assert.equal(quota.retryAfterMs, 27_000);
+
+  const invalidKey = toAIServiceError(sdkError('400 Bad Request', { error: { message: 'API key not valid', details: [{ reason: 'API_KEY_INVALID' }] } }));
+  assert.ok(invalidKey instanceof AuthError);
+  assert.ok(toAIServiceError(sdkError('503 Service Unavailable', {})) instanceof NetworkError);
+});
+
+test('classifies fetch failures, response-like objects and plain values', () => {
+  assert.ok(toAIServiceError(new TypeError('Failed to fetch')) instanceof NetworkError);
+  const limited = toAIServiceError({ status: 429, message: 'slow down', headers: new Headers({ 'retry-after': '5' }) });
+  assert.ok(limited instanceof QuotaError);
+  assert.equal(limited.retryAfterMs, 5_000);
+  const unknown = toAIServiceError('boom');
+  assert.ok(unknown instanceof UnknownAIError);
+  assert.equal(unknown.message, 'boom');
+  assert.equal(toAIServiceError(null).message, 'Unknown Error');
+});
@@ -0,0 +1,195 @@
+// Typed errors for every AI call. Raw SDK / fetch errors are classified once, where the
+// request is made (server/geminiProvider.ts, services/serverProvider.ts); everything above
+// that boundary (retries, scheduler, UI) works with these classes instead of message text.
+// Cancellation is not part of the taxonomy: it stays an AbortError (see abort.ts).
+
+export type AIErrorCode = 'quota' | 'auth' | 'network' | 'safety' | 'parse' | 'no_image' | 'budget' | 'unknown';
+
+export interface AttemptRecord {
+  attempt: number; // 1-based, per model
+  model?: string;
+  code: AIErrorCode;
+  message: string;
+}
+
+interface AIErrorOptions {
+  status?: number;
+  retryAfterMs?: number;
+  attempts?: AttemptRecord[];
+}
+
+export abstract class AIServiceError extends Error {
+  abstract readonly code: AIErrorCode;
+  // Whether the same request may succeed if simply sent again
+  abstract readonly retryable: boolean;
+  status?: number;
+  retryAfterMs?: number;
+  attempts: AttemptRecord[];
+
+  constructor(message: string, options: AIErrorOptions = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+    this.attempts = options.attempts || [];
+  }
+}
+
+export class QuotaError extends AIServiceError {
+  readonly code = 'quota';
+  readonly retryable = true;
+}
+
+export class AuthError extends AIServiceError {
+  readonly code = 'auth';
+  readonly retryable = false;
+}
+
+export class NetworkError extends AIServiceError {
+  readonly code = 'network';
+  readonly retryable = true;
+}
+
+export class SafetyBlockedError extends AIServiceError {
+  readonly code = 'safety';
+  readonly retryable = false;
+}
+
+export class ParseError extends AIServiceError {
+  readonly code = 'parse';
+  readonly retryable = false;
+}
+
+export class NoImageError extends AIServiceError {
+  readonly code = 'no_image';
+  readonly retryable = false;
+}
+
+// Raised in the browser before a request is sent, when the local daily budget blocks it (usageLog.ts)
+export class BudgetExceededError extends AIServiceError {
+  readonly code = 'budget';
+  readonly retryable = false;
+}
+
+export class UnknownAIError extends AIServiceError {
+  readonly code = 'unknown';
+  readonly retryable = false;
+}
+
+const ERROR_CLASSES: Record<AIErrorCode, new (message: string, options?: AIErrorOptions) => AIServiceError> = {
+  quota: QuotaError,
+  auth: AuthError,
+  network: NetworkError,
+  safety: SafetyBlockedError,
+  parse: ParseError,
+  no_image: NoImageError,
+  budget: BudgetExceededError,
+  unknown: UnknownAIError,
+};
+
+// Raw errors come from the SDK, fetch or a JSON body: narrowed field by field, never cast
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const stringField = (value: unknown, field: string): string | undefined => {
+  const fieldValue = isRecord(value) ? value[field] : undefined;
+  return typeof fieldValue === 'string' ? fieldValue : undefined;
+};
+
+// The `error` object of a Google RPC JSON body ({ error: { status, message, details } })
+const rpcError = (body: unknown): Record<string, unknown> | undefined =>
+  isRecord(body) && isRecord(body.error) ? body.error : undefined;
+
+// Header of a Fetch API Response-like object ({ headers: Headers })
+const headerOf = (value: unknown, name: string): string | undefined => {
+  const headers = isRecord(value) ? value.headers : undefined;
+  if (!isRecord(headers) || typeof headers.get !== 'function') return undefined;
+  const header: unknown = headers.get(name);
+  return typeof header === 'string' ? header : undefined;
+};
+
+// Extracts the server's retry hint from a 429: RetryInfo "retryDelay": "27s", "retry in 27.5s", or a Retry-After header
+const parseRetryAfterMs = (error: unknown): number | undefined => {
+  const header = headerOf(error, 'retry-after') ?? headerOf(isRecord(error) ? error.response : undefined, 'retry-after');
+  if (header && !isNaN(Number(header))) return Number(header) * 1000;
+
+  const details = rpcError(error)?.details || (isRecord(error) ? error.details : undefined);
+  const text = [stringField(error, 'message'), typeof error === 'string' ? error : '', JSON.stringify(details || '')].join(' ');
+  const match = text.match(/retryDelay"?\s*:\s*"?(\d+(?:\.\d+)?)s/i) || text.match(/retry in (\d+(?:\.\d+)?)\s*s/i);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+};
+
+// @google/genai 0.2.0 reports HTTP failures only as "got status: 429 Too Many Requests. {json body}"
+const parseSdkHttpError = (message: string): { status: number; body: unknown } | null => {
+  const match = message.match(/^got status: (\d{3})[^.]*\.\s*([\s\S]*)$/);
+  if (!match) return null;
+  let body: unknown = null;
+  try {
+    body = JSON.parse(match[2]);
+  } catch (e) {
+    // Body was not JSON; the status code is enough
+  }
+  return { status: Number(match[1]), body };
+};
+
+// Google RPC status names (error.status in the JSON body) for the cases we care about
+const AUTH_RPC_STATUSES = ['UNAUTHENTICATED', 'PERMISSION_DENIED'];
+
+const isInvalidKey = (body: unknown): boolean => {
+  const details = rpcError(body)?.details;
+  return Array.isArray(details) && details.some(detail => stringField(detail, 'reason') === 'API_KEY_INVALID');
+};
+
+// The single classification point for raw errors from the SDK or fetch
+export const toAIServiceError = (error: unknown): AIServiceError => {
+  if (error instanceof AIServiceError) return error;
+  const message = stringField(error, 'message') || (typeof error === 'string' ? error : "Unknown Error");
+
+  // fetch() rejects with a TypeError when the network is unreachable
+  if (error instanceof TypeError) return new NetworkError(message);
+
+  const http = parseSdkHttpError(message);
+  const rawStatus = isRecord(error) ? error.status : undefined;
+  const status = http?.status ?? (typeof rawStatus === 'number' ? rawStatus : undefined);
+  const upstream = rpcError(http?.body);
+  const rpcStatus = stringField(upstream, 'status');
+  const upstreamMessage = stringField(upstream, 'message') || message;
+  const options: AIErrorOptions = { status };
+
+  if (status === 429 || rpcStatus === 'RESOURCE_EXHAUSTED') {
+    return new QuotaError(upstreamMessage, { ...options, retryAfterMs: parseRetryAfterMs(upstream ? http?.body : error) });
+  }
+  if (status === 401 || status === 403 || AUTH_RPC_STATUSES.includes(rpcStatus || '') || isInvalidKey(http?.body)) {
+    return new AuthError(upstreamMessage, options);
+  }
+  if (status !== undefined && status >= 500) return new NetworkError(upstreamMessage, options);
+  if (stringField(error, 'name') === 'ServerError') return new NetworkError(upstreamMessage, options);
+  return new UnknownAIError(upstreamMessage, options);
+};
+
+// --- Transport over the /api proxy ---
+
+export interface SerializedAIError {
+  code: AIErrorCode;
+  message: string;
+  status?: number;
+  retryAfterMs?: number;
+  attempts?: AttemptRecord[];
+}
+
+export const serializeAIError = (error: AIServiceError): SerializedAIError => ({
+  code: error.code,
+  message: error.message,
+  status: error.status,
+  retryAfterMs: error.retryAfterMs,
+  attempts: error.attempts,
+});
+
+export const deserializeAIError = (payload: Partial<SerializedAIError>, fallbackStatus?: number): AIServiceError => {
+  const ErrorClass = ERROR_CLASSES[payload.code as AIErrorCode] || UnknownAIError;
+  return new ErrorClass(payload.message || `HTTP ${fallbackStatus}`, {
+    status: payload.status ?? fallbackStatus,
+    retryAfterMs: payload.retryAfterMs,
+    attempts: payload.attempts,
+  });
+};
@@ -0,0 +1,101 @@
+import { ClinicalData, QuizData, ImageAnalysisResult, GroundingChunk, DifficultyLevel, PromptStamp, LabeledImage, ComparativeAnalysisResult, ClinicalCase, TechnicalBlueprint } from "../types";
+import { serverProvider } from "./serverProvider";
+import { mockProvider } from "./mockProvider";
+import { SchedulerTab } from "./requestScheduler";
+import type { PromptTemplate } from "./promptTemplates";
+import type { RequestUsage } from "./usage";
+import type { RepairableCollection } from "./responseValidation";
+
+export type AIProviderId = 'gemini' | 'mock';
+export type QuizLanguage = 'ar' | 'en';
+export type ImageKind = 'CLINICAL' | 'RADIOLOGY' | 'EXPLODED';
+
+export interface ResearchResult {
+    sources: GroundingChunk[];
+    prompts: string[];
+    promptTemplate?: PromptStamp;
+}
+
+// The provider looks up the schema of each collection itself (ITEM_SCHEMAS in responseValidation.ts)
+export interface RepairRequest {
+    items: { collection: RepairableCollection; raw: unknown; reasons: string[] }[];
+}
+
+// Per-request information the service layer hands down to providers
+export interface RequestContext {
+    // Tab the result is shown in; requests for the visible tab are scheduled first
+    tab?: SchedulerTab;
+    // Cancels the request, including queued scheduling and retry backoff
+    signal?: AbortSignal;
+    // Prompt template for text generators; providers fall back to their built-in default
+    prompt?: PromptTemplate;
+    // Providers that call a model add their token counts, retries and fallbacks here
+    usage?: RequestUsage;
+}
+
+// Every generator in geminiService goes through one of these.
+// A provider only has to return raw content; the service layer owns the public API.
+export interface AIProvider {
+    id: AIProviderId;
+    label: string;
+    // Bump when prompts/schemas change so cached responses from older prompts are not reused
+    promptVersion: string;
+    isConfigured: () => Promise<boolean>;
+    generateSimulation: (topic: string, ctx: RequestContext) => Promise<ClinicalData>;
+    generatePractical: (topic: string, ctx: RequestContext) => Promise<ClinicalData>;
+    // Same content as generatePractical, but each raw step is reported as soon as it is complete
+    streamPractical: (topic: string, onStep: (rawStep: unknown, index: number) => void, ctx: RequestContext) => Promise<ClinicalData>;
+    generateQuiz: (topic: string, language: QuizLanguage, count: number, difficulty: DifficultyLevel, ctx: RequestContext) => Promise<QuizData>;
+    generateResearch: (topic: string, ctx: RequestContext) => Promise<ResearchResult>;
+    // Branching case: a decision tree of clinical states (see services/caseEngine.ts)
+    generateCase: (topic: string, ctx: RequestContext) => Promise<ClinicalCase>;
+    // Structural components, colours and positions for the 3D lab (components/Interactive3DLab.tsx)
+    generateBlueprint: (topic: string, ctx: RequestContext) => Promise<TechnicalBlueprint>;
+    analyzeImage: (base64Image: string, ctx: RequestContext) => Promise<ImageAnalysisResult>;
+    // Ordered, labeled images (before/after, left/right) analysed together in one request
+    analyzeImageSet: (images: LabeledImage[], ctx: RequestContext) => Promise<ComparativeAnalysisResult>;
+    generateImage: (prompt: string, type: ImageKind, ctx: RequestContext) => Promise<string | null>;
+    // Optional: targeted fix of invalid items only; must answer in the same order as `items`
+    repairItems?: (request: RepairRequest, ctx: RequestContext) => Promise<unknown[]>;
+}
+
+const PROVIDER_STORAGE_KEY = 'dentalbrain.aiProvider';
+
+const providers: Record<AIProviderId, AIProvider> = {
+    gemini: serverProvider,
+    mock: mockProvider,
+};
+
+const isProviderId = (value: unknown): value is AIProviderId =>
+    typeof value === 'string' && value in providers;
+
+// Priority: user choice (localStorage) > VITE_AI_PROVIDER > gemini
+const readInitialProviderId = (): AIProviderId => {
+    try {
+        const stored = localStorage.getItem(PROVIDER_STORAGE_KEY);
+        if (isProviderId(stored)) return stored;
+    } catch (e) {
+        // localStorage is unavailable (private mode / SSR)
+    }
+    const fromEnv = import.meta.env.VITE_AI_PROVIDER;
+    return isProviderId(fromEnv) ? fromEnv : 'gemini';
+};
+
+let activeProviderId: AIProviderId = readInitialProviderId();
+
+export const listProviders = (): AIProvider[] => Object.values(providers);
+
+export const getActiveProviderId = (): AIProviderId => activeProviderId;
+
+export const getProvider = (id: AIProviderId): AIProvider => providers[id];
+
+export const getActiveProvider = (): AIProvider => providers[activeProviderId];
+
+export const setActiveProviderId = (id: AIProviderId) => {
+    activeProviderId = id;
+    try {
+        localStorage.setItem(PROVIDER_STORAGE_KEY, id);
+    } catch (e) {
+        // Selection simply won't survive a reload
+    }
+};
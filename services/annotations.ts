@@ -0,0 +1,145 @@
+import { DangerZone } from "../types";
+
+// Danger-zone annotation editing: box geometry, undo history and dataset export.
+// Boxes stay in percentages of the image (as returned by the model); pixels are only used for COCO.
+
+export type ZoneBox = DangerZone['box'];
+export type ResizeHandle = 'nw' | 'ne' | 'sw' | 'se';
+
+export interface AnnotatedImage {
+  fileName: string;
+  width: number;
+  height: number;
+  zones: DangerZone[];
+}
+
+// Smallest box the editor allows, in percent of the image
+const MIN_BOX_SIZE = 2;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// 1. Geometry
+export const normalizeBox = (box: ZoneBox): ZoneBox => {
+  const xmin = clamp(Math.min(box.xmin, box.xmax), 0, 100);
+  const xmax = clamp(Math.max(box.xmin, box.xmax), 0, 100);
+  const ymin = clamp(Math.min(box.ymin, box.ymax), 0, 100);
+  const ymax = clamp(Math.max(box.ymin, box.ymax), 0, 100);
+  return { xmin: round(xmin), ymin: round(ymin), xmax: round(xmax), ymax: round(ymax) };
+};
+
+export const isUsableBox = (box: ZoneBox) => box.xmax - box.xmin >= MIN_BOX_SIZE && box.ymax - box.ymin >= MIN_BOX_SIZE;
+
+// Moves the box by (dx, dy) percent without leaving the image
+export const moveBox = (box: ZoneBox, dx: number, dy: number): ZoneBox => {
+  const width = box.xmax - box.xmin;
+  const height = box.ymax - box.ymin;
+  const xmin = clamp(box.xmin + dx, 0, 100 - width);
+  const ymin = clamp(box.ymin + dy, 0, 100 - height);
+  return normalizeBox({ xmin, ymin, xmax: xmin + width, ymax: ymin + height });
+};
+
+// Drags one corner; the opposite corner stays fixed and the box keeps the minimum size
+export const resizeBox = (box: ZoneBox, handle: ResizeHandle, dx: number, dy: number): ZoneBox => {
+  const next = { ...box };
+  if (handle === 'nw' || handle === 'sw') next.xmin = clamp(box.xmin + dx, 0, box.xmax - MIN_BOX_SIZE);
+  else next.xmax = clamp(box.xmax + dx, box.xmin + MIN_BOX_SIZE, 100);
+  if (handle === 'nw' || handle === 'ne') next.ymin = clamp(box.ymin + dy, 0, box.ymax - MIN_BOX_SIZE);
+  else next.ymax = clamp(box.ymax + dy, box.ymin + MIN_BOX_SIZE, 100);
+  return normalizeBox(next);
+};
+
+// 2. Undo history (snapshots of the whole zone list; lists are small)
+export interface AnnotationHistory {
+  past: DangerZone[][];
+  present: DangerZone[];
+  future: DangerZone[][];
+}
+
+const HISTORY_LIMIT = 100;
+
+export const createHistory = (zones: DangerZone[]): AnnotationHistory => ({ past: [], present: zones, future: [] });
+
+// Records `zones` as a new step; `previous` overrides the state to return to (used after live drags)
+export const commitZones = (history: AnnotationHistory, zones: DangerZone[], previous: DangerZone[] = history.present): AnnotationHistory => ({
+  past: [...history.past, previous].slice(-HISTORY_LIMIT),
+  present: zones,
+  future: [],
+});
+
+// Replaces the present state without a history step (live preview while dragging)
+export const previewZones = (history: AnnotationHistory, zones: DangerZone[]): AnnotationHistory => ({ ...history, present: zones });
+
+export const undoZones = (history: AnnotationHistory): AnnotationHistory => {
+  if (history.past.length === 0) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+  };
+};
+
+export const redoZones = (history: AnnotationHistory): AnnotationHistory => {
+  if (history.future.length === 0) return history;
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1),
+  };
+};
+
+// 3. Export
+const toPixels = (box: ZoneBox, width: number, height: number) => {
+  const x = Math.round((box.xmin / 100) * width);
+  const y = Math.round((box.ymin / 100) * height);
+  const w = Math.round(((box.xmax - box.xmin) / 100) * width);
+  const h = Math.round(((box.ymax - box.ymin) / 100) * height);
+  return { x, y, w, h };
+};
+
+// COCO object detection format: one category per zone name, risk level and description as attributes
+export const toCocoDataset = (images: AnnotatedImage[]) => {
+  const categoryIds = new Map<string, number>();
+  images.forEach(image => image.zones.forEach(zone => {
+    const name = zone.name.trim();
+    if (!categoryIds.has(name)) categoryIds.set(name, categoryIds.size + 1);
+  }));
+
+  let annotationId = 0;
+  return {
+    info: {
+      description: 'DentalBrain danger-zone annotations',
+      version: '1.0',
+      year: new Date().getFullYear(),
+      date_created: new Date().toISOString(),
+    },
+    licenses: [],
+    images: images.map((image, idx) => ({ id: idx + 1, file_name: image.fileName, width: image.width, height: image.height })),
+    categories: Array.from(categoryIds, ([name, id]) => ({ id, name, supercategory: 'danger_zone' })),
+    annotations: images.flatMap((image, idx) => image.zones.map(zone => {
+      const { x, y, w, h } = toPixels(zone.box, image.width, image.height);
+      return {
+        id: ++annotationId,
+        image_id: idx + 1,
+        category_id: categoryIds.get(zone.name.trim())!,
+        bbox: [x, y, w, h],
+        area: w * h,
+        segmentation: [[x, y, x + w, y, x + w, y + h, x, y + h]],
+        iscrowd: 0,
+        attributes: { risk_level: zone.riskLevel, description: zone.description },
+      };
+    })),
+  };
+};
+
+// Plain JSON: the app's own zone format plus pixel boxes
+export const toAnnotationJson = (image: AnnotatedImage) => ({
+  format: 'dentalbrain.annotations',
+  formatVersion: 1,
+  exportedAt: new Date().toISOString(),
+  image: { fileName: image.fileName, width: image.width, height: image.height },
+  zones: image.zones.map(zone => {
+    const { x, y, w, h } = toPixels(zone.box, image.width, image.height);
+    return { ...zone, boxPx: { x, y, width: w, height: h } };
+  }),
+});
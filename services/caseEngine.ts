@@ -0,0 +1,211 @@
+import { CaseChoice, CaseChoiceQuality, CaseNode, CaseOutcome, CasePathStep, CaseRun, ClinicalCase } from "../types";
+
+// Branching clinical cases: a decision tree of clinical states, each with its own image prompt,
+// vitals, hotspots and choices. Cases come from the model (geminiService.generateClinicalCase) or
+// from an instructor-authored JSON file; both pass through validateClinicalCase, which uses the graph
+// helpers below so every node is reachable and no choice leads back to an earlier state.
+
+const STORAGE_KEY = 'dentalbrain.caseRuns';
+const MAX_RUNS = 100;
+export const CASE_FILE_FORMAT = 'dentalbrain.case';
+
+// 1. Scoring
+export const CHOICE_SCORES: Record<CaseChoiceQuality, number> = { OPTIMAL: 3, ACCEPTABLE: 1, POOR: -1, HARMFUL: -3 };
+
+export const CHOICE_QUALITY_LABELS: Record<CaseChoiceQuality, string> = {
+  OPTIMAL: 'القرار الأمثل',
+  ACCEPTABLE: 'قرار مقبول',
+  POOR: 'قرار ضعيف',
+  HARMFUL: 'قرار ضار',
+};
+
+export const CASE_OUTCOME_LABELS: Record<CaseOutcome, string> = {
+  GOOD: 'نتيجة جيدة',
+  FAIR: 'نتيجة مقبولة',
+  POOR: 'نتيجة سيئة',
+};
+
+// 2. Graph
+export const caseNode = (clinicalCase: ClinicalCase, id: string): CaseNode | undefined =>
+  clinicalCase.nodes.find(node => node.id === id);
+
+export const isEndNode = (node: CaseNode) => node.choices.length === 0;
+
+export const reachableNodeIds = (nodes: CaseNode[], startNodeId: string): Set<string> => {
+  const byId = new Map(nodes.map(node => [node.id, node]));
+  const seen = new Set<string>();
+  const queue = [startNodeId];
+  while (queue.length) {
+    const id = queue.shift()!;
+    if (seen.has(id) || !byId.has(id)) continue;
+    seen.add(id);
+    byId.get(id)!.choices.forEach(choice => queue.push(choice.nextNodeId));
+  }
+  return seen;
+};
+
+// Choices that lead back to a node already on the way from the start; without them the case is acyclic
+export const findBackEdges = (nodes: CaseNode[], startNodeId: string): { nodeId: string; choiceId: string }[] => {
+  const byId = new Map(nodes.map(node => [node.id, node]));
+  const backEdges: { nodeId: string; choiceId: string }[] = [];
+  const onRoute = new Set<string>();
+  const done = new Set<string>();
+  const visit = (id: string) => {
+    const node = byId.get(id);
+    if (!node || done.has(id)) return;
+    onRoute.add(id);
+    node.choices.forEach(choice => {
+      if (onRoute.has(choice.nextNodeId)) backEdges.push({ nodeId: id, choiceId: choice.id });
+      else visit(choice.nextNodeId);
+    });
+    onRoute.delete(id);
+    done.add(id);
+  };
+  visit(startNodeId);
+  return backEdges;
+};
+
+// Best achievable score from every node to an end state (ties go to the shorter route); needs an acyclic case
+interface BestRoute {
+  score: number;
+  steps: CasePathStep[];
+}
+
+const bestRoutes = (clinicalCase: ClinicalCase): Map<string, BestRoute> => {
+  const routes = new Map<string, BestRoute>();
+  const visit = (id: string): BestRoute => {
+    const known = routes.get(id);
+    if (known) return known;
+    const node = caseNode(clinicalCase, id);
+    let best: BestRoute = { score: 0, steps: [{ nodeId: id }] };
+    if (node && !isEndNode(node)) {
+      best = { score: -Infinity, steps: [] };
+      node.choices.forEach(choice => {
+        const rest = visit(choice.nextNodeId);
+        const score = CHOICE_SCORES[choice.quality] + rest.score;
+        if (score > best.score || (score === best.score && rest.steps.length + 1 < best.steps.length)) {
+          best = { score, steps: [{ nodeId: id, choiceId: choice.id }, ...rest.steps] };
+        }
+      });
+    }
+    routes.set(id, best);
+    return best;
+  };
+  visit(clinicalCase.startNodeId);
+  return routes;
+};
+
+export const optimalPath = (clinicalCase: ClinicalCase): CasePathStep[] =>
+  bestRoutes(clinicalCase).get(clinicalCase.startNodeId)?.steps || [];
+
+// 3. Playing: the path ends with the current node (no choiceId yet)
+export const startPath = (clinicalCase: ClinicalCase): CasePathStep[] => [{ nodeId: clinicalCase.startNodeId }];
+
+export const choiceOf = (clinicalCase: ClinicalCase, step: CasePathStep): CaseChoice | undefined =>
+  step.choiceId ? caseNode(clinicalCase, step.nodeId)?.choices.find(choice => choice.id === step.choiceId) : undefined;
+
+export const choose = (path: CasePathStep[], choice: CaseChoice): CasePathStep[] => [
+  ...path.slice(0, -1),
+  { ...path[path.length - 1], choiceId: choice.id },
+  { nodeId: choice.nextNodeId },
+];
+
+export const scorePath = (clinicalCase: ClinicalCase, path: CasePathStep[]) =>
+  path.reduce((sum, step) => {
+    const choice = choiceOf(clinicalCase, step);
+    return choice ? sum + CHOICE_SCORES[choice.quality] : sum;
+  }, 0);
+
+// 4. Comparison with the optimal route
+export interface ComparedStep {
+  node: CaseNode;
+  choice?: CaseChoice;
+  // The choice keeps the best achievable score from this node (an equally good alternative also counts)
+  best: boolean;
+}
+
+export interface PathComparison {
+  played: ComparedStep[];
+  optimal: ComparedStep[];
+  score: number;
+  maxScore: number;
+  // First played step that lost points, undefined when the student never left an optimal route
+  divergedAt?: number;
+  harmfulChoices: number;
+  outcome?: CaseOutcome;
+}
+
+export const comparePaths = (clinicalCase: ClinicalCase, path: CasePathStep[]): PathComparison => {
+  const routes = bestRoutes(clinicalCase);
+  const describe = (step: CasePathStep): ComparedStep | undefined => {
+    const node = caseNode(clinicalCase, step.nodeId);
+    if (!node) return undefined;
+    const choice = choiceOf(clinicalCase, step);
+    const best = !choice || CHOICE_SCORES[choice.quality] + (routes.get(choice.nextNodeId)?.score ?? 0) === routes.get(node.id)?.score;
+    return { node, choice, best };
+  };
+  const played = path.map(describe).filter((step): step is ComparedStep => !!step);
+  const optimal = (routes.get(clinicalCase.startNodeId)?.steps || []).map(describe).filter((step): step is ComparedStep => !!step);
+  const divergedAt = played.findIndex(step => !step.best);
+
+  return {
+    played,
+    optimal,
+    score: scorePath(clinicalCase, path),
+    maxScore: routes.get(clinicalCase.startNodeId)?.score ?? 0,
+    divergedAt: divergedAt === -1 ? undefined : divergedAt,
+    harmfulChoices: played.filter(step => step.choice?.quality === 'HARMFUL').length,
+    outcome: played[played.length - 1]?.node.outcome,
+  };
+};
+
+// 5. Case files (instructor-authored or exported for editing); validated by validateClinicalCase
+export const exportCaseFile = (clinicalCase: ClinicalCase): string => {
+  const { source, ...content } = clinicalCase;
+  return JSON.stringify({ format: CASE_FILE_FORMAT, formatVersion: 1, exportedAt: new Date().toISOString(), case: content }, null, 2);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Only the outline is checked here; the content is validated by validateClinicalCase
+const hasCaseNodes = (value: unknown): value is Record<string, unknown> & { nodes: unknown[] } =>
+  isRecord(value) && Array.isArray(value.nodes);
+
+// Accepts the exported wrapper or a bare case object
+export const readCaseFile = (text: string): unknown => {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch (e) {
+    throw new Error("الملف ليس JSON صالحاً.");
+  }
+  const raw = isRecord(file) && file.format === CASE_FILE_FORMAT ? file.case : file;
+  if (!hasCaseNodes(raw)) {
+    throw new Error("الملف ليس حالة سريرية DentalBrain (لا توجد عقد nodes).");
+  }
+  return raw;
+};
+
+// 6. Finished runs (newest first)
+export const loadCaseRuns = (): CaseRun[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch (e) {
+    // localStorage unavailable or corrupted
+    return [];
+  }
+};
+
+export const recordCaseRun = (clinicalCase: ClinicalCase, path: CasePathStep[]): CaseRun[] => {
+  const { score, maxScore } = comparePaths(clinicalCase, path);
+  const run: CaseRun = { caseId: clinicalCase.id, caseTitle: clinicalCase.title, path, score, maxScore, finishedAt: Date.now() };
+  const runs = [run, ...loadCaseRuns()].slice(0, MAX_RUNS);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(runs));
+  } catch (e) {
+    // Not persisted; the result is still shown for this attempt
+  }
+  return runs;
+};
@@ -0,0 +1,249 @@
+import { Radiograph, RadiographMetadata } from "../types";
+import { RadiographFormatError, createRadiograph } from "./radiograph";
+
+// Minimal DICOM Part 10 reader for the single-frame radiographs dental sensors export.
+// Supports uncompressed transfer syntaxes (implicit/explicit VR little endian, explicit big endian);
+// compressed pixel data (JPEG, JPEG 2000, RLE) is rejected with a clear message.
+//
+// De-identification is by construction: only the whitelisted technical tags below are copied out.
+// Identifying attributes are listed by name in `removedTags` and their values are never read.
+
+const IMPLICIT_LITTLE = '1.2.840.10008.1.2';
+const EXPLICIT_LITTLE = '1.2.840.10008.1.2.1';
+const EXPLICIT_BIG = '1.2.840.10008.1.2.2';
+
+const LONG_VRS = new Set(['OB', 'OD', 'OF', 'OL', 'OV', 'OW', 'SQ', 'SV', 'UC', 'UN', 'UR', 'UT', 'UV']);
+const UNDEFINED_LENGTH = 0xffffffff;
+
+const TAGS = {
+  transferSyntax: '00020010',
+  acquisitionDate: '00080022',
+  studyDate: '00080020',
+  modality: '00080060',
+  imagerPixelSpacing: '00181164',
+  samplesPerPixel: '00280002',
+  photometric: '00280004',
+  planarConfiguration: '00280006',
+  rows: '00280010',
+  columns: '00280011',
+  pixelSpacing: '00280030',
+  bitsAllocated: '00280100',
+  bitsStored: '00280101',
+  pixelRepresentation: '00280103',
+  burnedInAnnotation: '00280301',
+  windowCenter: '00281050',
+  windowWidth: '00281051',
+  rescaleIntercept: '00281052',
+  rescaleSlope: '00281053',
+  pixelData: '7FE00010',
+};
+
+// VRs of the tags we read, for implicit VR files
+const IMPLICIT_VRS: Record<string, string> = {
+  [TAGS.samplesPerPixel]: 'US', [TAGS.planarConfiguration]: 'US', [TAGS.rows]: 'US', [TAGS.columns]: 'US',
+  [TAGS.bitsAllocated]: 'US', [TAGS.bitsStored]: 'US', [TAGS.pixelRepresentation]: 'US',
+  [TAGS.pixelData]: 'OW',
+};
+
+const WANTED = new Set(Object.values(TAGS));
+
+// Subset of the DICOM basic application confidentiality profile; all of group 0010 (patient) counts too
+const IDENTIFYING_TAGS: Record<string, string> = {
+  '00080050': 'AccessionNumber',
+  '00080080': 'InstitutionName',
+  '00080081': 'InstitutionAddress',
+  '00080090': 'ReferringPhysicianName',
+  '00081010': 'StationName',
+  '00081040': 'InstitutionalDepartmentName',
+  '00081050': 'PerformingPhysicianName',
+  '00081070': 'OperatorsName',
+  '00080018': 'SOPInstanceUID',
+  '0020000D': 'StudyInstanceUID',
+  '0020000E': 'SeriesInstanceUID',
+  '00200010': 'StudyID',
+  '00181000': 'DeviceSerialNumber',
+  '00100010': 'PatientName',
+  '00100020': 'PatientID',
+  '00100030': 'PatientBirthDate',
+  '00100040': 'PatientSex',
+  '00101010': 'PatientAge',
+};
+
+interface Element {
+  tag: string;
+  vr: string;
+  offset: number; // start of the value
+  length: number;
+}
+
+// 1. File detection
+export const isDicom = (buffer: ArrayBuffer): boolean =>
+  buffer.byteLength > 132 && String.fromCharCode(...new Uint8Array(buffer, 128, 4)) === 'DICM';
+
+// 2. Element walker
+const createReader = (view: DataView) => {
+  let littleEndian = true;
+  let explicit = true;
+
+  const tagAt = (offset: number) => {
+    const group = view.getUint16(offset, littleEndian);
+    const element = view.getUint16(offset + 2, littleEndian);
+    return (group.toString(16).padStart(4, '0') + element.toString(16).padStart(4, '0')).toUpperCase();
+  };
+
+  const readElement = (offset: number): Element => {
+    const tag = tagAt(offset);
+    // Item and delimiter tags never carry a VR
+    if (tag.startsWith('FFFE')) return { tag, vr: '', offset: offset + 8, length: view.getUint32(offset + 4, littleEndian) };
+    if (!explicit) {
+      return { tag, vr: IMPLICIT_VRS[tag] || 'UN', offset: offset + 8, length: view.getUint32(offset + 4, littleEndian) };
+    }
+    const vr = String.fromCharCode(view.getUint8(offset + 4), view.getUint8(offset + 5));
+    if (LONG_VRS.has(vr)) return { tag, vr, offset: offset + 12, length: view.getUint32(offset + 8, littleEndian) };
+    return { tag, vr, offset: offset + 8, length: view.getUint16(offset + 6, littleEndian) };
+  };
+
+  // Skips a sequence of undefined length (items may nest further sequences); returns the offset after it
+  const skipUndefined = (offset: number): number => {
+    while (offset + 8 <= view.byteLength) {
+      const item = readElement(offset);
+      if (item.tag === 'FFFEE0DD') return item.offset;
+      if (item.tag !== 'FFFEE000') throw new RadiographFormatError("بنية تسلسل DICOM غير صالحة.");
+      if (item.length !== UNDEFINED_LENGTH) {
+        offset = item.offset + item.length;
+        continue;
+      }
+      offset = item.offset;
+      while (offset + 8 <= view.byteLength) {
+        const nested = readElement(offset);
+        if (nested.tag === 'FFFEE00D') {
+          offset = nested.offset;
+          break;
+        }
+        offset = nested.length === UNDEFINED_LENGTH ? skipUndefined(nested.offset) : nested.offset + nested.length;
+      }
+    }
+    throw new RadiographFormatError("ملف DICOM مقطوع.");
+  };
+
+  const setSyntax = (uid: string) => {
+    littleEndian = uid !== EXPLICIT_BIG;
+    explicit = uid !== IMPLICIT_LITTLE;
+  };
+
+  return { readElement, skipUndefined, setSyntax, isLittleEndian: () => littleEndian };
+};
+
+// 3. Parsing
+export const parseDicom = (buffer: ArrayBuffer): Radiograph => {
+  if (!isDicom(buffer)) throw new RadiographFormatError("الملف ليس بصيغة DICOM.");
+  const view = new DataView(buffer);
+  const reader = createReader(view);
+  const bytes = new Uint8Array(buffer);
+  const elements = new Map<string, Element>();
+  const removedTags = new Set<string>();
+
+  const text = (tag: string): string | undefined => {
+    const element = elements.get(tag);
+    if (!element) return undefined;
+    const value = String.fromCharCode(...bytes.subarray(element.offset, element.offset + element.length))
+      .replace(/\0/g, '').trim();
+    return value || undefined;
+  };
+  // Multi-valued strings (DS/IS) are separated by backslashes
+  const numbers = (tag: string): number[] =>
+    (text(tag) || '').split('\\').filter(part => part.trim()).map(Number).filter(n => Number.isFinite(n));
+  const uint16 = (tag: string, fallback: number): number => {
+    const element = elements.get(tag);
+    return element && element.length >= 2 ? view.getUint16(element.offset, reader.isLittleEndian()) : fallback;
+  };
+
+  // File meta group (0002) is always explicit VR little endian
+  let offset = 132;
+  let syntaxApplied = false;
+  while (offset + 8 <= buffer.byteLength) {
+    const element = reader.readElement(offset);
+    if (!syntaxApplied && !element.tag.startsWith('0002')) {
+      const syntax = text(TAGS.transferSyntax) || EXPLICIT_LITTLE;
+      if (![IMPLICIT_LITTLE, EXPLICIT_LITTLE, EXPLICIT_BIG].includes(syntax)) {
+        throw new RadiographFormatError("صيغة ضغط DICOM غير مدعومة (JPEG/JPEG 2000/RLE). صدّر الصورة من برنامج الحساس دون ضغط.");
+      }
+      reader.setSyntax(syntax);
+      syntaxApplied = true;
+      continue; // re-read this element with the dataset's syntax
+    }
+
+    if (element.tag in IDENTIFYING_TAGS) removedTags.add(IDENTIFYING_TAGS[element.tag]);
+    else if (element.tag.startsWith('0010') && !element.tag.endsWith('0000')) removedTags.add(`Patient(${element.tag})`);
+    else if (WANTED.has(element.tag)) elements.set(element.tag, element);
+
+    if (element.tag === TAGS.pixelData) {
+      if (element.length === UNDEFINED_LENGTH) throw new RadiographFormatError("بيانات البكسل مضغوطة وغير مدعومة.");
+      break;
+    }
+    offset = element.length === UNDEFINED_LENGTH ? reader.skipUndefined(element.offset) : element.offset + element.length;
+  }
+
+  const pixelData = elements.get(TAGS.pixelData);
+  if (!pixelData) throw new RadiographFormatError("لا توجد بيانات بكسل في ملف DICOM.");
+
+  const rows = uint16(TAGS.rows, 0);
+  const columns = uint16(TAGS.columns, 0);
+  const samples = uint16(TAGS.samplesPerPixel, 1);
+  const bitsAllocated = uint16(TAGS.bitsAllocated, 16);
+  const bitsStored = uint16(TAGS.bitsStored, bitsAllocated);
+  const signed = uint16(TAGS.pixelRepresentation, 0) === 1;
+  const planar = uint16(TAGS.planarConfiguration, 0) === 1;
+  if (!rows || !columns) throw new RadiographFormatError("أبعاد صورة DICOM مفقودة.");
+  if (bitsAllocated !== 8 && bitsAllocated !== 16) throw new RadiographFormatError(`عمق البت ${bitsAllocated} غير مدعوم.`);
+  if (samples !== 1 && samples !== 3) throw new RadiographFormatError("عدد القنوات اللونية غير مدعوم.");
+
+  // 4. Pixels (first frame only)
+  const count = rows * columns;
+  const bytesPerSample = bitsAllocated / 8;
+  if (pixelData.length < count * samples * bytesPerSample) throw new RadiographFormatError("بيانات البكسل أقصر من أبعاد الصورة.");
+  const slope = numbers(TAGS.rescaleSlope)[0] ?? 1;
+  const intercept = numbers(TAGS.rescaleIntercept)[0] ?? 0;
+  const mask = bitsStored >= 32 ? 0xffffffff : (1 << bitsStored) - 1;
+  const signBit = 1 << (bitsStored - 1);
+  const little = reader.isLittleEndian();
+
+  const sampleAt = (index: number): number => {
+    const at = pixelData.offset + index * bytesPerSample;
+    let raw = (bytesPerSample === 1 ? view.getUint8(at) : view.getUint16(at, little)) & mask;
+    if (signed && raw & signBit) raw -= signBit * 2;
+    return raw;
+  };
+
+  const pixels = new Float32Array(count);
+  for (let i = 0; i < count; i++) {
+    if (samples === 1) {
+      pixels[i] = sampleAt(i) * slope + intercept;
+    } else {
+      // Colour (intraoral camera) DICOMs are reduced to luminance
+      const [r, g, b] = planar ? [sampleAt(i), sampleAt(i + count), sampleAt(i + 2 * count)] : [sampleAt(i * 3), sampleAt(i * 3 + 1), sampleAt(i * 3 + 2)];
+      pixels[i] = 0.299 * r + 0.587 * g + 0.114 * b;
+    }
+  }
+
+  const spacing = numbers(TAGS.pixelSpacing).length >= 2 ? numbers(TAGS.pixelSpacing) : numbers(TAGS.imagerPixelSpacing);
+  const date = text(TAGS.acquisitionDate) || text(TAGS.studyDate);
+  const metadata: RadiographMetadata = {
+    format: 'dicom',
+    modality: text(TAGS.modality),
+    acquisitionDate: date && /^\d{8}$/.test(date) ? `${date.slice(0, 4)}-${date.slice(4, 6)}-${date.slice(6, 8)}` : undefined,
+    pixelSpacingMm: spacing.length >= 2 && spacing[0] > 0 && spacing[1] > 0 ? { row: spacing[0], column: spacing[1] } : undefined,
+    width: columns,
+    height: rows,
+    bitsStored,
+    removedTags: Array.from(removedTags),
+    burnedInAnnotation: text(TAGS.burnedInAnnotation)?.toUpperCase() === 'YES',
+  };
+
+  const center = numbers(TAGS.windowCenter)[0];
+  const width = numbers(TAGS.windowWidth)[0];
+  return createRadiograph(pixels, metadata, {
+    window: center !== undefined && width > 0 ? { center, width } : undefined,
+    invert: samples === 1 && text(TAGS.photometric) === 'MONOCHROME1',
+  });
+};
@@ -1,361 +1,342 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { ImageAnalysisResult, ClinicalData } from "../types";
+import { ImageAnalysisResult, DifficultyLevel, ClinicalData, PracticalStep, LabeledImage, ComparativeAnalysisResult, ClinicalCase, TechnicalBlueprint } from "../types";
+import { AIProvider, AIProviderId, getActiveProvider, getProvider, ImageKind, QuizLanguage, RequestContext } from "./aiProvider";
+import {
+  ValidationResult,
+  ValidationIssue,
+  InvalidItem,
+  mergeRepairedItems,
+  validateSimulationData,
+  validatePracticalData,
+  validateStreamedStep,
+  validateQuizData,
+  validateResearchResult,
+  validateImageAnalysis,
+  validateComparativeAnalysis,
+  validateClinicalCase,
+  validateTechnicalBlueprint
+} from "./responseValidation";
+import { CacheKeyParts, CacheStatus, withCache } from "./responseCache";
+import { SchedulerTab } from "./requestScheduler";
+import { isAbortError } from "./abort";
+import { PromptTemplate, PromptTemplateId, RenderedPrompt, SAMPLE_REQUEST_VALUES, renderTemplate, stampOf } from "./promptTemplates";
+import { getActiveTemplate } from "./promptRegistry";
+import { AIServiceError } from "./aiErrors";
+import { createRequestUsage } from "./usage";
+import { UsageFunction, UsageStatus, checkBudget, recordUsage } from "./usageLog";
 
-// Helper to safely get the API key from process.env
-const getApiKey = (): string | undefined => {
-    return import.meta.env.VITE_API_KEY;
-};
+// Public service API used by the UI. Each call is routed to the active AI provider
+// (Gemini or the offline mock), see aiProvider.ts, and its output is validated
+// against the shapes in types.ts before it reaches the UI. Validated results are
+// cached in IndexedDB (responseCache.ts) unless the caller forces a regeneration.
+// Text generators use the active prompt template (promptRegistry.ts) and stamp its
+// version on the result. Every request that reaches a provider is checked against the daily
+// budget and written to the usage log (usageLog.ts).
 
-// Helper to determine if we should retry based on the error
-const isRetryableError = (error: any, retryOnQuota: boolean): boolean => {
-  const msg = (
-    error?.message || 
-    error?.error?.message || 
-    (typeof error === 'string' ? error : JSON.stringify(error))
-  ).toLowerCase();
-  
-  const status = error?.status || error?.code || error?.error?.code;
+export interface GenerationOptions {
+  // Ask the model to fix items that failed validation instead of just dropping them
+  repair?: boolean;
+  // Skip the cache lookup (the fresh result still replaces the cached one)
+  forceRegenerate?: boolean;
+  // Tab that will display the result, used for scheduling priority
+  tab?: SchedulerTab;
+  // Aborting rejects with an AbortError (see abort.ts); cancelled results are never cached
+  signal?: AbortSignal;
+  // Overrides the active prompt template with the same id (used by previews)
+  prompt?: PromptTemplate;
+}
 
-  // STRICT CHECK: 429 Errors (Quota Exceeded / Too Many Requests)
-  if (status === 429 || msg.includes("429") || msg.includes("quota") || msg.includes("resource_exhausted")) {
-    return retryOnQuota;
-  }
-  
-  // Network / Server errors
-  if (
-      msg.includes("error code: 6") || 
-      msg.includes("failed to fetch") || 
-      msg.includes("networkerror") || 
-      status === 503 || 
-      status === 504
-  ) {
-    return true;
-  }
+const templateFor = (id: PromptTemplateId, options: GenerationOptions): PromptTemplate =>
+  options.prompt?.id === id ? options.prompt : getActiveTemplate(id);
 
-  return false;
+const requestContext = (options: GenerationOptions, defaultTab: SchedulerTab, prompt?: PromptTemplate): RequestContext => ({
+  tab: options.tab || defaultTab,
+  signal: options.signal,
+  prompt
+});
+
+// createdAt tells apart equal version numbers from a wiped and rebuilt registry
+const cacheKey = (parts: Omit<CacheKeyParts, 'provider' | 'promptVersion'>, prompt?: PromptTemplate): CacheKeyParts => {
+  const provider = getActiveProvider();
+  const promptVersion = prompt ? `${provider.promptVersion}/${prompt.id}@${prompt.version}.${prompt.createdAt}` : provider.promptVersion;
+  return { ...parts, provider: provider.id, promptVersion };
 };
 
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+// Budget check, then the provider call with its token usage, latency and outcome logged.
+// Cache hits never get here. Over budget in 'downgrade' mode, `downgraded` is true: callers skip
+// images and the repair round.
+const runTracked = async <T>(
+  fn: UsageFunction,
+  topic: string,
+  ctx: RequestContext,
+  run: (ctx: RequestContext, downgraded: boolean) => Promise<T>,
+  provider: AIProvider = getActiveProvider()
+): Promise<T> => {
+  // The offline provider costs nothing
+  const downgraded = provider.id !== 'mock' && checkBudget() === 'downgrade';
+  const usage = createRequestUsage();
+  const startedAt = Date.now();
+  let status: UsageStatus = 'ok';
+  try {
+    return await run({ ...ctx, usage }, downgraded);
+  } catch (error) {
+    status = isAbortError(error) ? 'cancelled' : 'error';
+    // Failed proxy requests report no usage; their retries are still on the error
+    if (error instanceof AIServiceError) usage.retries = Math.max(usage.retries, error.attempts.length - 1);
+    throw error;
+  } finally {
+    recordUsage({ fn, tab: ctx.tab, topic, provider: provider.id, latencyMs: Date.now() - startedAt, status, downgraded }, usage);
+  }
+};
 
-// Helper for trying multiple models
-async function withModelFallback<T>(
-    operation: (model: string, apiKey: string) => Promise<T>, 
-    models: string[] = ['gemini-1.5-flash-latest']
-): Promise<T> {
-    const apiKey = getApiKey();
-    
-    if (!apiKey || apiKey === "undefined" || apiKey.trim() === "") {
-        console.error("API Key Check Failed.");
-        throw new Error("مفتاح API مفقود! تأكد من إعدادات البيئة (Environment Variables).");
-    }
+const withoutRepair = (options: GenerationOptions, downgraded: boolean): GenerationOptions =>
+  downgraded ? { ...options, repair: false } : options;
 
-    let lastError;
-    for (const model of models) {
-        try {
-            return await operation(model, apiKey);
-        } catch (error: any) {
-            lastError = error;
-            console.warn(`Model ${model} failed:`, error.message);
-            
-            // If it's a 429 error, wait significantly before trying the next model
-            const isQuota = error?.message?.includes("429") || error?.message?.toLowerCase().includes("quota");
-            
-            if (models.indexOf(model) < models.length - 1) {
-                if (isQuota) {
-                    console.log(`⚠️ Quota hit on ${model}. Waiting 8 seconds before fallback...`);
-                    await delay(8000); 
-                } else {
-                    await delay(1000);
-                }
-                console.log(`Falling back to ${models[models.indexOf(model) + 1]}...`);
-                continue;
-            }
-        }
-    }
-    throw lastError;
-}
+// Runs the optional model repair round and reports whatever is still wrong
+const finalizeValidation = async <T extends object>(
+  result: ValidationResult<T>,
+  options: GenerationOptions,
+  ctx: RequestContext
+): Promise<ValidationResult<T>> => {
+  const provider = getActiveProvider();
+  let outcome = result;
 
-// EXPONENTIAL BACKOFF RETRY LOGIC
-async function withRetry<T>(
-    fn: (attempt: number) => Promise<T>, 
-    retries = 3, 
-    retryOnQuota = true
-): Promise<T> {
-  let lastError;
-  for (let i = 0; i < retries; i++) {
+  if (options.repair && result.invalidItems.length > 0 && provider.repairItems) {
     try {
-      return await fn(i);
-    } catch (error: any) {
-      lastError = error;
-      
-      if (!isRetryableError(error, retryOnQuota)) {
-        throw error;
-      }
-
-      // Check if it's specifically a Quota error
-      const msg = (error?.message || "").toLowerCase();
-      const isQuota = msg.includes("quota") || msg.includes("429") || msg.includes("resource_exhausted") || error?.status === 429;
-
-      console.warn(`Attempt ${i + 1} failed. Quota Error: ${isQuota}. Retrying...`);
-      
-      if (i < retries - 1) {
-        // Exponential Backoff Strategy
-        // If Quota: 8s, 16s, 32s (Give the API time to recover)
-        // If Network: 2s, 4s, 8s
-        const baseDelay = isQuota ? 8000 : 2000;
-        const waitTime = baseDelay * Math.pow(2, i) + (Math.random() * 1000);
-        
-        console.log(`⏳ Waiting ${Math.floor(waitTime / 1000)}s before retry...`);
-        await delay(waitTime); 
-        continue;
-      }
-      throw error;
+      const repaired = await provider.repairItems({
+        items: result.invalidItems.map(item => ({
+          collection: item.collection,
+          raw: item.raw,
+          reasons: item.reasons
+        }))
+      }, ctx);
+      outcome = mergeRepairedItems(result, repaired);
+    } catch (e) {
+      if (isAbortError(e)) throw e;
+      console.warn("Repair request failed, keeping validated items only:", e);
     }
   }
-  throw lastError;
-}
 
-const parseAIResponse = (text: string | undefined): any => {
-    if (!text) throw new Error("استجابة فارغة من المحرك.");
-    let cleanText = text.replace(/```json\n?|```/g, '').trim();
-    const firstBracket = cleanText.indexOf('{');
-    const lastBracket = cleanText.lastIndexOf('}');
-    if (firstBracket !== -1 && lastBracket !== -1) {
-        cleanText = cleanText.substring(firstBracket, lastBracket + 1);
-    }
-    try {
-        return JSON.parse(cleanText);
-    } catch (e) {
-        console.error("Failed to parse JSON", cleanText);
-        throw new Error("فشل في قراءة بيانات JSON من الاستجابة.");
-    }
+  if (outcome.issues.length > 0) {
+    console.warn("AI response validation issues:", outcome.issues);
+  }
+  return outcome;
 };
 
 // 1. Simulation Content
-export const generateSimulationContent = async (topic: string) => {
-  return await withModelFallback(async (modelName, apiKey) => {
-    return await withRetry(async (attempt) => {
-      const ai = new GoogleGenAI({ apiKey: apiKey });
-      
-      const schemaDescription = `
-      OUTPUT: JSON Object.
-      LANGUAGE: ARABIC (Scientific Medical Arabic).
-      Structure: {
-        "theorySummary": "string", "riskLevel": "string",
-        "hotspots": [{ "x": number, "y": number, "label": "string", "description": "string", "diagnosis": "string", "indications": "string", "classification": "string", "treatmentPlan": "string", "clinicalPearl": "string", "commonMistake": "string" }],
-        "vitals": { "heartRate": number, "bloodPressure": "string", "oxygenSaturation": number },
-        "imagePrompt": "string (English, Photorealistic clinical view)",
-        "radiologyPrompt": "string (English, X-Ray)",
-        "explodedPrompt": "string (English, 3D Diagram)"
-      }`;
-
-      const response = await ai.models.generateContent({
-        model: modelName,
-        contents: [{ parts: [{ text: `Topic: "${topic}". Create a dental clinical simulation scenario.\n\n${schemaDescription}` }] }],
-        config: { 
-          systemInstruction: "You are a Clinical Dental Simulation Architect. Return valid JSON.",
-          responseMimeType: "application/json"
-        }
-      });
-
-      return { data: parseAIResponse(response.text) };
-    }, 3, true); 
+export const generateSimulationContent = async (topic: string, options: GenerationOptions = {}) => {
+  let issues: ValidationIssue[] = [];
+  const prompt = templateFor('simulation', options);
+  const { value, cache } = await withCache(cacheKey({ fn: 'simulation', topic }, prompt), !!options.forceRegenerate, async () => {
+    return runTracked('simulation', topic, requestContext(options, 'simulation', prompt), async (ctx, downgraded) => {
+      const raw = await getActiveProvider().generateSimulation(topic, ctx);
+      const result = await finalizeValidation(validateSimulationData(raw), withoutRepair(options, downgraded), ctx);
+      issues = result.issues;
+      return { ...result.value, promptTemplate: stampOf(prompt) };
+    });
   });
+  return { data: value, issues, cache };
 };
 
 // 2. Practical Protocol
-export const generatePracticalContent = async (topic: string) => {
-  return await withModelFallback(async (modelName, apiKey) => {
-    return await withRetry(async (attempt) => {
-      const ai = new GoogleGenAI({ apiKey: apiKey });
-      
-      const schemaDescription = `
-      OUTPUT: JSON Object.
-      Structure: {
-        "practicalProtocol": [{
-            "id": "string", 
-            "title": "string (Section Title)", 
-            "originalText": "string (SECTION 1: The EXACT original English source text for this segment. Keep it raw and academic.)",
-            "medicalTranslation": "string (SECTION 2: Precise Medical Arabic Translation of the original text.)",
-            "professorComment": "string (SECTION 3: The Deep Explanation. Arabic. Medium length. Insightful, linking concepts together, beautiful language, but not overly long.)",
-            "memoryAid": "string (SECTION 4: The Funny Mnemonic. EXTREMELY FUNNY & CREATIVE. Use characters, scenarios, wordplay, puns, or local humor to help memorize the concept. E.g., 'Pharma -> A mouse (Far) didn't eat so he needed meds'. Make it memorable!)",
-            "visualPrompt": "string (SECTION 5: English. A description for a specific clinical image representing this exact step.)"
-        }]
-      }`;
+export const generatePracticalContent = async (topic: string, options: GenerationOptions = {}) => {
+  let issues: ValidationIssue[] = [];
+  const prompt = templateFor('practical', options);
+  const { value, cache } = await withCache(cacheKey({ fn: 'practical', topic }, prompt), !!options.forceRegenerate, async () => {
+    return runTracked('practical', topic, requestContext(options, 'practical', prompt), async (ctx, downgraded) => {
+      const raw = await getActiveProvider().generatePractical(topic, ctx);
+      const result = await finalizeValidation(validatePracticalData(raw), withoutRepair(options, downgraded), ctx);
+      issues = result.issues;
+      return { ...result.value, promptTemplate: stampOf(prompt) };
+    });
+  });
+  return { data: value, issues, cache };
+};
 
-      const response = await ai.models.generateContent({
-        model: modelName,
-        contents: [{ parts: [{ text: `Topic/Text to Explain: "${topic}". \n\n${schemaDescription}` }] }],
-        config: { 
-          systemInstruction: "You are the 'Legendary Dental Mentor'. Output strictly valid JSON.",
-          responseMimeType: "application/json"
-        }
-      });
+// 2b. Practical Protocol, streamed: onStep receives each validated step as soon as it is complete
+export const streamPracticalContent = async (
+  topic: string,
+  onStep: (step: PracticalStep) => void,
+  options: GenerationOptions = {}
+): Promise<{ data: ClinicalData; issues: ValidationIssue[]; cache: CacheStatus }> => {
+  // A cached protocol is replayed through onStep so the UI path is identical
+  let streamedIssues: ValidationIssue[] = [];
+  const prompt = templateFor('practical', options);
+  const { value, cache } = await withCache(cacheKey({ fn: 'practical', topic }, prompt), !!options.forceRegenerate, async () => {
+    const result = await runTracked('practical', topic, requestContext(options, 'practical', prompt), (ctx, downgraded) =>
+      streamFreshPractical(topic, onStep, withoutRepair(options, downgraded), ctx)
+    );
+    streamedIssues = result.issues;
+    return { ...result.data, promptTemplate: stampOf(prompt) };
+  }, data => (data.practicalProtocol || []).length > 0);
 
-      return { data: parseAIResponse(response.text) };
-    }, 3, true);
-  });
+  if (cache === 'hit') (value.practicalProtocol || []).forEach(onStep);
+  return { data: value, issues: streamedIssues, cache };
+};
+
+const streamFreshPractical = async (
+  topic: string,
+  onStep: (step: PracticalStep) => void,
+  options: GenerationOptions,
+  ctx: RequestContext
+) => {
+  const steps: PracticalStep[] = [];
+  const issues: ValidationIssue[] = [];
+  const invalidItems: InvalidItem[] = [];
+  const accept = (step: PracticalStep) => {
+    steps.push(step);
+    onStep(step);
+  };
+
+  const raw = await getActiveProvider().streamPractical(topic, (rawStep, index) => {
+    const result = validateStreamedStep(rawStep, index);
+    issues.push(...result.issues);
+    invalidItems.push(...result.invalidItems);
+    if (result.value) accept(result.value);
+  }, ctx);
+
+  // The stream parser found nothing (unexpected wrapping): fall back to the complete document
+  if (steps.length === 0 && invalidItems.length === 0) {
+    const full = validatePracticalData(raw);
+    issues.push(...full.issues);
+    invalidItems.push(...full.invalidItems);
+    (full.value.practicalProtocol || []).forEach(accept);
+  }
+
+  // Repaired steps (if any) are appended after the streamed ones
+  const { value, issues: finalIssues } = await finalizeValidation<ClinicalData>(
+    { value: { practicalProtocol: [] }, issues, invalidItems },
+    options,
+    ctx
+  );
+  (value.practicalProtocol || []).forEach(accept);
+
+  return { data: { practicalProtocol: steps } as ClinicalData, issues: finalIssues };
 };
 
 // 3. Quiz Generation
 export const generateQuizContent = async (
-    topic: string, 
-    language: 'ar' | 'en' = 'ar', 
+    topic: string,
+    language: QuizLanguage = 'ar',
     count: number = 5,
-    difficulty: 'Easy' | 'Medium' | 'Hard' | 'Intellectual' = 'Medium'
+    difficulty: DifficultyLevel = 'Medium',
+    options: GenerationOptions = {}
 ) => {
-  return await withModelFallback(async (modelName, apiKey) => {
-    return await withRetry(async (attempt) => {
-      const ai = new GoogleGenAI({ apiKey: apiKey });
-      
-      const langInstruction = language === 'ar' ? "ARABIC" : "ENGLISH";
-      const schemaDescription = `
-      OUTPUT: JSON Object.
-      LANGUAGE: ${langInstruction}.
-      Structure: {
-        "essayQuestions": [{ "id": "string", "question": "string", "answer": "string", "difficulty": "${difficulty}", "keyPoints": ["string"] }],
-        "shortAnswerQuestions": [{ "id": "string", "question": "string", "answer": "string", "difficulty": "${difficulty}" }],
-        "mcqQuestions": [{ "id": "string", "question": "string", "options": ["string"], "correctAnswer": "string", "explanation": "string", "difficulty": "${difficulty}" }]
-      }`;
-
-      const response = await ai.models.generateContent({
-        model: modelName,
-        contents: [{ parts: [{ text: `Topic: "${topic}". Create an exam with ${count} questions. Level: ${difficulty}\n\n${schemaDescription}` }] }],
-        config: { 
-          systemInstruction: `You are a Dental School Professor. Create exam. JSON only.`,
-          responseMimeType: "application/json"
-        }
-      });
-
-      return { data: parseAIResponse(response.text) };
-    }, 3, true);
-  });
+  let issues: ValidationIssue[] = [];
+  const prompt = templateFor('quiz', options);
+  const { value, cache } = await withCache(
+    cacheKey({ fn: 'quiz', topic, language, count, difficulty }, prompt),
+    !!options.forceRegenerate,
+    () =>
+      runTracked('quiz', topic, requestContext(options, 'quiz', prompt), async (ctx, downgraded) => {
+        const raw = await getActiveProvider().generateQuiz(topic, language, count, difficulty, ctx);
+        const result = await finalizeValidation(validateQuizData(raw, difficulty), withoutRepair(options, downgraded), ctx);
+        issues = result.issues;
+        return { ...result.value, promptTemplate: stampOf(prompt) };
+      })
+  );
+  return { data: value, issues, cache };
 };
 
 // 4. Research Content
-export const generateResearchContent = async (topic: string) => {
-  return await withModelFallback(async (modelName, apiKey) => {
-    return await withRetry(async (attempt) => {
-      const ai = new GoogleGenAI({ apiKey: apiKey });
-      
-      const schemaDescription = `
-      OUTPUT: JSON Object.
-      Structure: {
-        "imagePrompts": ["string", "string", "string"],
-        "searchQueries": ["string"]
-      }`;
+export const generateResearchContent = async (topic: string, options: GenerationOptions = {}) => {
+  const prompt = templateFor('research', options);
+  const { value, cache } = await withCache(cacheKey({ fn: 'research', topic }, prompt), !!options.forceRegenerate, async () => {
+    return runTracked('research', topic, requestContext(options, 'gallery', prompt), async ctx => {
+      const raw = await getActiveProvider().generateResearch(topic, ctx);
+      return { ...validateResearchResult(raw, topic).value, promptTemplate: stampOf(prompt) };
+    });
+  });
+  return { ...value, cache };
+};
 
-      const response = await ai.models.generateContent({
-        model: modelName,
-        contents: [{ parts: [{ text: `Topic: "${topic}". Create 3 distinct medical image prompts and use Google Search.\n\n${schemaDescription}` }] }],
-        config: { 
-          tools: [{ googleSearch: {} }],
-        }
-      });
+// 5. Branching Clinical Case (decision tree, see caseEngine.ts); node images are generated as they are reached
+export const generateClinicalCase = async (topic: string, options: GenerationOptions = {}) => {
+  let issues: ValidationIssue[] = [];
+  const { value, cache } = await withCache<ClinicalCase>(cacheKey({ fn: 'case', topic }), !!options.forceRegenerate, async () => {
+    return runTracked('case', topic, requestContext(options, 'simulation'), async ctx => {
+      const result = validateClinicalCase(await getActiveProvider().generateCase(topic, ctx), 'AI');
+      issues = result.issues;
+      if (issues.length > 0) console.warn("AI response validation issues:", issues);
+      return result.value;
+    });
+  });
+  return { data: value, issues, cache };
+};
 
-      const sources = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-      let prompts: string[] = [];
-      try {
-          const json = parseAIResponse(response.text);
-          if (json.imagePrompts && Array.isArray(json.imagePrompts)) prompts = json.imagePrompts;
-      } catch (e) {
-          prompts = [`Dental clinical view of ${topic}`, `Anatomical diagram of ${topic}`, `X-ray of ${topic}`];
-      }
-      while (prompts.length < 3) prompts.push(`Dental clinical view of ${topic}`);
-      return { sources: sources, prompts: prompts.slice(0, 3) };
-    }, 3, true);
+// 6. 3D Blueprint for the lab view of a simulation
+export const generateTechnicalBlueprint = async (topic: string, options: GenerationOptions = {}) => {
+  const { value, cache } = await withCache<TechnicalBlueprint>(cacheKey({ fn: 'blueprint', topic }), !!options.forceRegenerate, async () => {
+    return runTracked('blueprint', topic, requestContext(options, 'simulation'), async ctx => {
+      const result = validateTechnicalBlueprint(await getActiveProvider().generateBlueprint(topic, ctx), topic);
+      if (result.issues.length > 0) console.warn("AI response validation issues:", result.issues);
+      return result.value;
+    });
   });
+  return { data: value, cache };
 };
 
 // Image Analysis
-export const analyzeDentalImage = async (base64Image: string): Promise<ImageAnalysisResult> => {
-  return await withModelFallback(async (modelName, apiKey) => {
-    return await withRetry(async (attempt) => {
-      const ai = new GoogleGenAI({ apiKey: apiKey });
-      const base64Data = base64Image.split(',')[1] || base64Image;
-
-      const response = await ai.models.generateContent({
-        model: modelName, 
-        contents: {
-          parts: [
-            { inlineData: { mimeType: 'image/png', data: base64Data } },
-            { text: `Perform high-precision dental analysis. Return strict JSON.` }
-          ]
-        },
-        config: {
-          responseMimeType: "application/json",
-          responseSchema: {
-            type: Type.OBJECT,
-            properties: {
-              isHighQuality: { type: Type.BOOLEAN },
-              rejectionReason: { type: Type.STRING },
-              detailedClinicalAnalysis: { type: Type.STRING },
-              landmarks: { type: Type.ARRAY, items: { type: Type.STRING } },
-              dangerZones: {
-                type: Type.ARRAY,
-                items: {
-                  type: Type.OBJECT,
-                  properties: {
-                    name: { type: Type.STRING },
-                    riskLevel: { type: Type.STRING, enum: ["HIGH", "MODERATE", "LOW"] },
-                    description: { type: Type.STRING },
-                    box: { type: Type.OBJECT, properties: { ymin: { type: Type.NUMBER }, xmin: { type: Type.NUMBER }, ymax: { type: Type.NUMBER }, xmax: { type: Type.NUMBER } } }
-                  }
-                }
-              },
-              adaCompliance: {
-                type: Type.OBJECT,
-                properties: { compliant: { type: Type.BOOLEAN }, notes: { type: Type.STRING } }
-              }
-            },
-            required: ["isHighQuality", "detailedClinicalAnalysis", "dangerZones"]
-          }
-        }
-      });
+export const analyzeDentalImage = async (base64Image: string, options: GenerationOptions = {}): Promise<ImageAnalysisResult> => {
+  return runTracked('analyze', 'تحليل صورة', requestContext(options, 'simulation'), async (ctx, downgraded) => {
+    const raw = await getActiveProvider().analyzeImage(base64Image, ctx);
+    const { value } = await finalizeValidation(validateImageAnalysis(raw), withoutRepair(options, downgraded), ctx);
+    return value;
+  });
+};
 
-      return parseAIResponse(response.text) as ImageAnalysisResult;
-    }, 3, true);
+// Comparative analysis of 2+ labeled images (before/after, left/right); one request for the whole set
+export const analyzeDentalImageSet = async (images: LabeledImage[], options: GenerationOptions = {}): Promise<ComparativeAnalysisResult> => {
+  const topic = `مقارنة صور: ${images.map(image => image.label).join(' / ')}`;
+  return runTracked('analyze', topic, requestContext(options, 'simulation'), async (ctx, downgraded) => {
+    // Decoded radiographs stay in the browser; only the rendered images are sent
+    const raw = await getActiveProvider().analyzeImageSet(images.map(({ label, dataUrl }) => ({ label, dataUrl })), ctx);
+    const { value } = await finalizeValidation(validateComparativeAnalysis(raw, images.map(image => image.label)), withoutRepair(options, downgraded), ctx);
+    return value;
   });
 };
 
 // Image Generation
-export const generateRealisticDentalImage = async (prompt: string, type: 'CLINICAL' | 'RADIOLOGY' | 'EXPLODED' = 'CLINICAL') => {
-  const modelsToTry = [gemini-1.5-flash-latest];
-  
-  try {
-    return await withModelFallback(async (modelName, apiKey) => {
-      return await withRetry(async (attempt) => {
-        const ai = new GoogleGenAI({ apiKey: apiKey });
-        
-        let finalPrompt = type === 'EXPLODED' 
-          ? `Clean 3D medical illustration, exploded view, dental anatomy: ${prompt}. White background` 
-          : type === 'RADIOLOGY' 
-          ? `Digital Dental X-Ray: ${prompt}. Diagnostic grayscale` 
-          : `Dental education visual aid: ${prompt}. High quality, photorealistic, clinical standard.`;
-        
-        let imageConfig: any = { aspectRatio: "16:9" };
-        if (modelName.includes('pro-image')) imageConfig.imageSize = "1K";
-
-        const response = await ai.models.generateContent({
-          model: modelName, 
-          contents: { parts: [{ text: finalPrompt }] },
-          config: { imageConfig: imageConfig }
-        });
-        
-        for (const part of response.candidates?.[0]?.content?.parts || []) {
-          if (part.inlineData) {
-            return `data:image/png;base64,${part.inlineData.data}`;
-          }
-        }
-        throw new Error("No image data found in response");
-      }, 2, true); 
-    }, modelsToTry);
-  } catch (e) {
-    console.warn("All image generation attempts failed:", e);
-    return null;
-  }
+export const generateRealisticDentalImage = async (
+  prompt: string,
+  type: ImageKind = 'CLINICAL',
+  options: GenerationOptions = {}
+): Promise<string | null> => {
+  // Failed or skipped generations (null) are not cached so they are retried next time
+  const { value } = await withCache<string | null>(
+    cacheKey({ fn: 'image', topic: prompt, variant: type }),
+    !!options.forceRegenerate,
+    () => runTracked('image', prompt, requestContext(options, 'simulation'), (ctx, downgraded) =>
+      downgraded ? Promise.resolve(null) : getActiveProvider().generateImage(prompt, type, ctx)
+    ),
+    image => !!image
+  );
+  return value;
 };
 
 export const checkApiConnection = () => {
-    return !!getApiKey();
+    return getActiveProvider().isConfigured();
+};
+
+// Prompt editor preview: runs a (possibly unsaved) template once with sample values against the
+// chosen provider. Bypasses the cache; the rendered prompt is returned so the editor can show it.
+export const previewPromptTemplate = async (
+  template: PromptTemplate,
+  providerId: AIProviderId,
+  signal?: AbortSignal
+): Promise<{ rendered: RenderedPrompt; output: unknown }> => {
+  const provider = getProvider(providerId);
+  const topic = SAMPLE_REQUEST_VALUES.topic;
+  const rendered = renderTemplate(template, SAMPLE_REQUEST_VALUES);
+
+  const output = await runTracked('preview', `${template.id} v${template.version}`, { signal, prompt: template }, async ctx => {
+    if (template.id === 'simulation') return validateSimulationData(await provider.generateSimulation(topic, ctx)).value;
+    if (template.id === 'practical') return validatePracticalData(await provider.generatePractical(topic, ctx)).value;
+    if (template.id === 'quiz') {
+      const difficulty = SAMPLE_REQUEST_VALUES.difficulty as DifficultyLevel;
+      return validateQuizData(await provider.generateQuiz(topic, 'ar', Number(SAMPLE_REQUEST_VALUES.count), difficulty, ctx), difficulty).value;
+    }
+    return validateResearchResult(await provider.generateResearch(topic, ctx), topic).value;
+  }, provider);
+
+  return { rendered, output };
 };
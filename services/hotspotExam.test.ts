@@ -0,0 +1,32 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { answerSimilarity, gradeAnswer } from './hotspotExam';
+import { HotspotExamQuestion } from '../types';
+
+const question = (expected: string): HotspotExamQuestion => ({ hotspotIdx: 0, field: 'diagnosis', expected, timeLimitMs: 45_000 });
+
+test('accepts typos and reordered words', () => {
+  assert.equal(gradeAnswer(question('Irreversible pulpitis'), 'irreversable pulpitis'), 1);
+  assert.equal(gradeAnswer(question('Irreversible pulpitis'), 'pulpitis irreversible'), 1);
+  assert.equal(gradeAnswer(question('Class II'), 'class 2'), 1);
+});
+
+test('a missing or added negation is a wrong answer', () => {
+  assert.equal(answerSimilarity('reversible pulpitis', 'Irreversible pulpitis'), 0);
+  assert.equal(answerSimilarity('irreversible pulpitis', 'Reversible pulpitis'), 0);
+  assert.equal(answerSimilarity('not irreversible pulpitis', 'Irreversible pulpitis'), 0);
+  assert.equal(answerSimilarity('التهاب لب عكوس', 'التهاب لب غير عكوس'), 0);
+  assert.equal(answerSimilarity('التهاب لب غير عكوس', 'التهاب لب عكوس'), 0);
+  // A negation word and a negating prefix say the same thing
+  assert.equal(gradeAnswer(question('Irreversible pulpitis'), 'non reversible pulpitis'), 1);
+});
+
+test('listing every possible diagnosis does not earn full credit', () => {
+  const shotgun = 'irreversible pulpitis, pulp necrosis, apical periodontitis, cracked tooth, dentine hypersensitivity, periapical abscess, pericoronitis, sinusitis';
+  assert.ok(answerSimilarity(shotgun, 'Irreversible pulpitis') < 0.6);
+  assert.equal(gradeAnswer(question('Irreversible pulpitis'), shotgun), 0);
+});
+
+test('a partly correct answer earns half credit', () => {
+  assert.equal(gradeAnswer(question('Irreversible pulpitis'), 'pulpitis'), 0.5);
+});
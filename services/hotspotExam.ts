@@ -0,0 +1,166 @@
+import { Hotspot, HotspotExamAnswer, HotspotExamAnswerMode, HotspotExamField, HotspotExamQuestion } from "../types";
+
+// Hotspot exam: question generation, fuzzy answer matching and timed scoring.
+// Free-text answers are compared after Arabic/Latin normalization; multiple-choice distractors
+// are the same field of the other hotspots in the simulation.
+
+export const EXAM_FIELDS: { id: HotspotExamField; label: string; prompt: string }[] = [
+  { id: 'label', label: 'البنية', prompt: 'ما البنية أو المنطقة المشار إليها؟' },
+  { id: 'diagnosis', label: 'التشخيص', prompt: 'ما التشخيص عند هذه النقطة؟' },
+  { id: 'classification', label: 'التصنيف', prompt: 'ما التصنيف المناسب لهذه النقطة؟' },
+];
+
+const TIME_LIMITS: Record<HotspotExamAnswerMode, number> = { FREE_TEXT: 45_000, MULTIPLE_CHOICE: 25_000 };
+const CHOICE_COUNT = 4;
+
+// Points: 100 for a correct answer plus up to 50 for speed, scaled by accuracy
+const BASE_POINTS = 100;
+const SPEED_BONUS = 50;
+export const MAX_POINTS_PER_QUESTION = BASE_POINTS + SPEED_BONUS;
+
+// Fuzzy thresholds: at or above FULL is correct, at or above PARTIAL earns half credit
+const FULL_MATCH = 0.8;
+const PARTIAL_MATCH = 0.6;
+
+// 1. Normalization and matching
+// Roman numerals become digits so "Class II" matches "class 2" (and never "Class I")
+const ROMAN_NUMERALS: Record<string, string> = { i: '1', ii: '2', iii: '3', iv: '4', v: '5', vi: '6' };
+
+export const normalizeAnswer = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/[ً-ْـ]/g, '') // Arabic diacritics and tatweel
+    .replace(/[أإآ]/g, 'ا')
+    .replace(/ة/g, 'ه')
+    .replace(/ى/g, 'ي')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .split(' ')
+    .map(token => ROMAN_NUMERALS[token] ?? token)
+    .join(' ');
+
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const ratio = (a: string, b: string) => (a.length || b.length ? 1 - levenshtein(a, b) / Math.max(a.length, b.length) : 1);
+
+// The Arabic article is optional in answers ("التهاب" vs "الالتهاب")
+const stripArticle = (token: string) => (token.length > 4 && token.startsWith('ال') ? token.slice(2) : token);
+
+// Negation flips a diagnosis ("irreversible" / "reversible", "غير عكوس" / "عكوس"), so it must match exactly
+const NEGATION_WORDS = new Set(['non', 'not', 'no', 'غير', 'لا', 'عدم']);
+const NEGATION_PREFIXES = ['non', 'ir', 'in', 'im', 'il', 'un'];
+
+interface Keyword {
+  word: string;
+  negated: boolean; // preceded by a negation word
+}
+
+// Short words are skipped, but numbers carry the meaning of a classification
+const keywords = (text: string): Keyword[] => {
+  const result: Keyword[] = [];
+  let negateNext = false;
+  text.split(' ').map(stripArticle).forEach(token => {
+    if (NEGATION_WORDS.has(token)) {
+      negateNext = true;
+      return;
+    }
+    if (token.length > 2 || /\d/.test(token)) result.push({ word: token, negated: negateNext });
+    negateNext = false;
+  });
+  return result;
+};
+
+// One word is the other with a negating prefix, and is closer to it that way than as written
+const prefixNegates = (a: string, b: string) =>
+  NEGATION_PREFIXES.some(prefix =>
+    (a.startsWith(prefix) && ratio(a.slice(prefix.length), b) >= FULL_MATCH && ratio(a.slice(prefix.length), b) > ratio(a, b)) ||
+    (b.startsWith(prefix) && ratio(b.slice(prefix.length), a) >= FULL_MATCH && ratio(b.slice(prefix.length), a) > ratio(a, b)));
+
+// Same key word (with typos); `opposite` when exactly one side is negated ("non reversible" equals "irreversible")
+const compareKeywords = (a: Keyword, b: Keyword): 'SAME' | 'OPPOSITE' | 'UNRELATED' => {
+  if (/\d/.test(a.word) || /\d/.test(b.word)) return a.word === b.word ? 'SAME' : 'UNRELATED';
+  const prefixed = prefixNegates(a.word, b.word);
+  if (!prefixed && ratio(a.word, b.word) < FULL_MATCH) return 'UNRELATED';
+  return (a.negated !== b.negated) !== prefixed ? 'OPPOSITE' : 'SAME';
+};
+
+// F1 of the key words: missing words cost recall, extra ones (a list of every possible diagnosis) cost precision
+const keywordF1 = (response: Keyword[], expected: Keyword[]): number => {
+  if (response.length === 0 || expected.length === 0) return 0;
+  const recall = expected.filter(token => response.some(candidate => compareKeywords(candidate, token) === 'SAME')).length / expected.length;
+  const precision = response.filter(candidate => expected.some(token => compareKeywords(candidate, token) === 'SAME')).length / response.length;
+  return recall + precision ? (2 * recall * precision) / (recall + precision) : 0;
+};
+
+export const answerSimilarity = (response: string, expected: string): number => {
+  const a = normalizeAnswer(response);
+  const b = normalizeAnswer(expected);
+  if (!a || !b) return 0;
+  // A wrong class/grade number is wrong however close the rest of the text is
+  const responseTokens = a.split(' ');
+  if (b.split(' ').some(token => /\d/.test(token) && !responseTokens.includes(token))) return 0;
+  // So is a missing or added negation
+  const responseKeywords = keywords(a);
+  const expectedKeywords = keywords(b);
+  if (expectedKeywords.some(token => responseKeywords.some(candidate => compareKeywords(candidate, token) === 'OPPOSITE'))) return 0;
+  return Math.max(ratio(a, b), keywordF1(responseKeywords, expectedKeywords));
+};
+
+export const gradeAnswer = (question: HotspotExamQuestion, response: string): number => {
+  if (question.choices) return normalizeAnswer(response) === normalizeAnswer(question.expected) ? 1 : 0;
+  const similarity = answerSimilarity(response, question.expected);
+  return similarity >= FULL_MATCH ? 1 : similarity >= PARTIAL_MATCH ? 0.5 : 0;
+};
+
+export const scoreAnswer = (question: HotspotExamQuestion, response: string, elapsedMs: number): HotspotExamAnswer => {
+  const accuracy = response.trim() ? gradeAnswer(question, response) : 0;
+  const speed = Math.max(0, 1 - elapsedMs / question.timeLimitMs);
+  return { response, accuracy, points: Math.round(accuracy * (BASE_POINTS + SPEED_BONUS * speed)), elapsedMs };
+};
+
+// 2. Question generation
+const shuffle = <T>(items: T[]): T[] => {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+};
+
+// One question per hotspot (in random order); hotspots without a value for the field are skipped.
+// Multiple choice falls back to free text when the other hotspots offer no distinct distractor.
+export const buildHotspotExam = (hotspots: Hotspot[], field: HotspotExamField, mode: HotspotExamAnswerMode): HotspotExamQuestion[] =>
+  shuffle(hotspots.map((spot, hotspotIdx) => ({ spot, hotspotIdx })))
+    .filter(({ spot }) => spot[field]?.trim())
+    .map(({ spot, hotspotIdx }) => {
+      const expected = spot[field].trim();
+      const distractors = Array.from(new Set(
+        hotspots.map(other => other[field]?.trim()).filter(value => value && normalizeAnswer(value) !== normalizeAnswer(expected))
+      ));
+      if (mode === 'MULTIPLE_CHOICE' && distractors.length > 0) {
+        const choices = shuffle([expected, ...shuffle(distractors).slice(0, CHOICE_COUNT - 1)]);
+        return { hotspotIdx, field, expected, choices, timeLimitMs: TIME_LIMITS.MULTIPLE_CHOICE };
+      }
+      return { hotspotIdx, field, expected, timeLimitMs: TIME_LIMITS.FREE_TEXT };
+    });
+
+// 3. Results
+export const summarizeExam = (questions: HotspotExamQuestion[], answers: HotspotExamAnswer[]) => ({
+  points: answers.reduce((sum, answer) => sum + answer.points, 0),
+  maxPoints: questions.length * MAX_POINTS_PER_QUESTION,
+  correct: answers.filter(answer => answer.accuracy === 1).length,
+  partial: answers.filter(answer => answer.accuracy > 0 && answer.accuracy < 1).length,
+  totalMs: answers.reduce((sum, answer) => sum + answer.elapsedMs, 0),
+});
@@ -0,0 +1,61 @@
+import { Hotspot, PinnedHotspot } from "../types";
+
+// Personal notes: hotspots pinned from any simulation, with the student's own note.
+// Kept in localStorage so the list survives new simulations and reloads.
+
+const STORAGE_KEY = 'dentalbrain.hotspotNotes';
+const MAX_PINNED = 200;
+
+// 1. Identity: the same structure of the same topic is pinned once
+export const pinnedHotspotId = (topic: string, spot: Hotspot) =>
+  `${topic.trim().toLowerCase()}::${spot.label.trim().toLowerCase()}`;
+
+export const isHotspotPinned = (pinned: PinnedHotspot[], topic: string, spot: Hotspot) =>
+  pinned.some(item => item.id === pinnedHotspotId(topic, spot));
+
+// 2. Editing (newest first)
+export const togglePinnedHotspot = (pinned: PinnedHotspot[], topic: string, spot: Hotspot): PinnedHotspot[] => {
+  const id = pinnedHotspotId(topic, spot);
+  if (pinned.some(item => item.id === id)) return pinned.filter(item => item.id !== id);
+  return [{ id, topic, hotspot: spot, note: '', pinnedAt: Date.now() }, ...pinned].slice(0, MAX_PINNED);
+};
+
+export const updatePinnedNote = (pinned: PinnedHotspot[], id: string, note: string): PinnedHotspot[] =>
+  pinned.map(item => (item.id === id ? { ...item, note } : item));
+
+// 3. Persistence
+export const loadPinnedHotspots = (): PinnedHotspot[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch (e) {
+    // localStorage unavailable or corrupted
+    return [];
+  }
+};
+
+export const savePinnedHotspots = (pinned: PinnedHotspot[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(pinned));
+  } catch (e) {
+    // Not persisted; the list still applies to this session
+  }
+};
+
+// 4. Export as Markdown study notes, grouped by topic
+export const exportPinnedHotspots = (pinned: PinnedHotspot[]): string => {
+  const topics = Array.from(new Set(pinned.map(item => item.topic)));
+  return topics.map(topic => [
+    `# ${topic}`,
+    ...pinned.filter(item => item.topic === topic).map(({ hotspot, note }) => [
+      `## ${hotspot.label}`,
+      hotspot.diagnosis && `- **التشخيص:** ${hotspot.diagnosis}`,
+      hotspot.classification && `- **التصنيف:** ${hotspot.classification}`,
+      hotspot.indications && `- **الاستطبابات:** ${hotspot.indications}`,
+      hotspot.treatmentPlan && `- **خطة العلاج:** ${hotspot.treatmentPlan}`,
+      hotspot.clinicalPearl && `- **لؤلؤة سريرية:** ${hotspot.clinicalPearl}`,
+      hotspot.commonMistake && `- **خطأ شائع:** ${hotspot.commonMistake}`,
+      note.trim() && `\n> ${note.trim().replace(/\n/g, '\n> ')}`,
+    ].filter(Boolean).join('\n')),
+  ].join('\n\n')).join('\n\n');
+};
@@ -0,0 +1,31 @@
+import { LabeledImage } from "../types";
+import { isDicom, parseDicom } from "./dicom";
+import { isTiff, parseTiff } from "./tiff";
+import { RadiographFormatError, radiographToDataUrl } from "./radiograph";
+
+// Turns an uploaded file into what the app works with: a displayable data URL,
+// plus the decoded radiograph for DICOM and TIFF sensor exports.
+
+const RADIOGRAPH_EXTENSIONS = /\.(dcm|dicom|tif|tiff)$/i;
+
+export const IMAGE_FILE_ACCEPT = 'image/*,.dcm,.dicom,application/dicom,.tif,.tiff';
+
+// Files without a MIME type are let through and sniffed (sensor software often exports DICOM without an extension)
+export const isSupportedImageFile = (file: File) =>
+  file.type === '' || file.type.startsWith('image/') || file.type === 'application/dicom' || RADIOGRAPH_EXTENSIONS.test(file.name);
+
+const readAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => (reader.error ? reject(reader.error) : resolve(reader.result as string));
+    reader.readAsDataURL(file);
+  });
+
+// Detection is by content, not by extension or MIME type
+export const readImageFile = async (file: File): Promise<Omit<LabeledImage, 'label'>> => {
+  const buffer = await file.arrayBuffer();
+  const radiograph = isDicom(buffer) ? parseDicom(buffer) : isTiff(buffer) ? parseTiff(buffer) : undefined;
+  if (radiograph) return { dataUrl: radiographToDataUrl(radiograph), radiograph };
+  if (!file.type.startsWith('image/')) throw new RadiographFormatError(`نوع الملف "${file.name}" غير مدعوم.`);
+  return { dataUrl: await readAsDataUrl(file) };
+};
@@ -0,0 +1,147 @@
+import { HandpieceKind, InstrumentSettings, InstrumentSpec, SettingRange } from "../types";
+
+// Handpiece and motor settings for the simulation HUD.
+// The model proposes procedure-specific settings with each required instrument; the reference table
+// below fills missing values and bounds what the model may claim, so a typo such as 4000 rpm for a
+// high-speed turbine never reaches the student.
+
+interface KindReference {
+  label: string;
+  // Typical setting when the model gives none
+  rpm?: SettingRange;
+  torqueNcm?: SettingRange;
+  // Physically plausible limits; values outside are treated as errors and replaced by the reference
+  rpmLimits?: [number, number];
+  torqueLimits?: [number, number];
+}
+
+// 1. Reference values
+export const HANDPIECE_KINDS: Record<HandpieceKind, KindReference> = {
+  HIGH_SPEED: {
+    label: 'قبضة عالية السرعة',
+    rpm: { value: 300000, min: 250000, max: 400000 },
+    rpmLimits: [100000, 450000],
+  },
+  SLOW_SPEED: {
+    label: 'قبضة بطيئة السرعة',
+    rpm: { value: 1500, min: 500, max: 5000 },
+    rpmLimits: [100, 40000],
+  },
+  ENDO_MOTOR: {
+    label: 'محرك لبي',
+    rpm: { value: 300, min: 250, max: 350 },
+    torqueNcm: { value: 2, min: 1, max: 3 },
+    rpmLimits: [100, 1000],
+    torqueLimits: [0.3, 6],
+  },
+  IMPLANT_DRILL: {
+    label: 'محرك زرع — حفر',
+    rpm: { value: 800, min: 600, max: 1500 },
+    torqueNcm: { value: 35, min: 20, max: 50 },
+    rpmLimits: [50, 2500],
+    torqueLimits: [5, 80],
+  },
+  IMPLANT_INSERTION: {
+    label: 'محرك زرع — إدخال',
+    rpm: { value: 25, min: 15, max: 50 },
+    torqueNcm: { value: 35, min: 25, max: 45 },
+    rpmLimits: [5, 100],
+    torqueLimits: [5, 80],
+  },
+  SURGICAL: {
+    label: 'قبضة جراحية مستقيمة',
+    rpm: { value: 30000, min: 20000, max: 40000 },
+    rpmLimits: [1000, 50000],
+  },
+  HAND: { label: 'أداة يدوية' },
+};
+
+// Manufacturer settings for common NiTi systems, used when the model names the system but not the numbers
+const FILE_SYSTEM_PRESETS: { pattern: RegExp; settings: Partial<InstrumentSettings> }[] = [
+  { pattern: /protaper\s*next/i, settings: { rpm: { value: 300, min: 300, max: 300 }, torqueNcm: { value: 2, min: 2, max: 2 } } },
+  { pattern: /hyflex\s*cm/i, settings: { rpm: { value: 500, min: 500, max: 500 }, torqueNcm: { value: 2.5, min: 2.5, max: 2.5 } } },
+  { pattern: /wave\s*one/i, settings: { program: 'WAVEONE ALL' } },
+  { pattern: /reciproc/i, settings: { program: 'RECIPROC ALL' } },
+];
+
+// 2. Classification from the instrument text, for responses that omit `kind`
+const KIND_PATTERNS: [HandpieceKind, RegExp][] = [
+  ['IMPLANT_INSERTION', /(implant|زرع|غرس).*(insert|placement|إدخال|تثبيت)|(insert|placement|إدخال|تثبيت).*(implant|زرع|غرس)/i],
+  ['IMPLANT_DRILL', /(implant|osteotomy|زرع|غرس|pilot|twist drill)/i],
+  ['ENDO_MOTOR', /(endo|rotary|reciproc|protaper|wave\s*one|hyflex|mtwo|ni-?ti|لبي|قنو)/i],
+  ['SURGICAL', /(surgical|straight handpiece|bone|osteotomy|جراح|عظم)/i],
+  ['HIGH_SPEED', /(high[\s-]?speed|turbine|air rotor|توربين|عالية السرعة)/i],
+  ['SLOW_SPEED', /(slow[\s-]?speed|low[\s-]?speed|contra[\s-]?angle|latch|round bur|بطيئة)/i],
+];
+
+export const inferHandpieceKind = (text: string): HandpieceKind =>
+  KIND_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0] || 'HAND';
+
+export const fileSystemPreset = (fileSystem?: string): Partial<InstrumentSettings> | undefined =>
+  fileSystem ? FILE_SYSTEM_PRESETS.find(preset => preset.pattern.test(fileSystem))?.settings : undefined;
+
+// Ranges are ordered and the value sits inside them; anything outside the physical limits falls back
+export const sanitizeRange = (range: SettingRange | undefined, limits: [number, number] | undefined, fallback: SettingRange | undefined): SettingRange | undefined => {
+  if (!range || !limits) return fallback;
+  const inLimits = (v: number) => v >= limits[0] && v <= limits[1];
+  const [min, max] = range.min <= range.max ? [range.min, range.max] : [range.max, range.min];
+  if (![range.value, min, max].every(inLimits)) return fallback;
+  return { value: Math.min(max, Math.max(min, range.value)), min, max };
+};
+
+// 3. Procedure steps: instruments grouped by step, in the order the steps first appear
+export const procedureSteps = (instruments: InstrumentSpec[]): { step: string; indices: number[] }[] => {
+  const steps: { step: string; indices: number[] }[] = [];
+  instruments.forEach((instrument, idx) => {
+    const step = instrument.step || 'عام';
+    const existing = steps.find(s => s.step === step);
+    if (existing) existing.indices.push(idx);
+    else steps.push({ step, indices: [idx] });
+  });
+  return steps;
+};
+
+// Instruments with a motor setting to show on the HUD, in procedure order
+export const poweredInstrumentIndices = (instruments: InstrumentSpec[]): number[] =>
+  procedureSteps(instruments)
+    .flatMap(step => step.indices)
+    .filter(idx => {
+      const settings = instruments[idx].settings;
+      return !!settings && settings.kind !== 'HAND' && !!(settings.rpm || settings.torqueNcm || settings.program);
+    });
+
+// 4. Safety of a user-adjusted value
+export type SettingStatus = 'SAFE' | 'LOW' | 'HIGH';
+
+export const settingStatus = (value: number, range: SettingRange): SettingStatus =>
+  value < range.min ? 'LOW' : value > range.max ? 'HIGH' : 'SAFE';
+
+export const settingLimits = (kind: HandpieceKind, setting: 'rpm' | 'torqueNcm'): [number, number] | undefined =>
+  setting === 'rpm' ? HANDPIECE_KINDS[kind].rpmLimits : HANDPIECE_KINDS[kind].torqueLimits;
+
+export const formatRpm = (rpm: number) =>
+  rpm >= 10000 ? `${Math.round(rpm / 1000).toLocaleString()}k` : Math.round(rpm).toLocaleString();
+
+export const formatTorque = (torque: number) => `${Number(torque.toFixed(1))} Ncm`;
+
+// Why leaving the range matters, for the HUD and the settings panel
+const SETTING_WARNINGS: Record<string, string> = {
+  'HIGH_SPEED.rpm.LOW': 'سرعة منخفضة للتوربين: قطع غير فعال واهتزاز',
+  'HIGH_SPEED.rpm.HIGH': 'تتجاوز سرعة التوربين المصنعية',
+  'SLOW_SPEED.rpm.LOW': 'سرعة منخفضة جداً: قطع غير فعال',
+  'SLOW_SPEED.rpm.HIGH': 'سرعة عالية قرب اللب: حرارة وخطر انكشاف لبي',
+  'ENDO_MOTOR.rpm.HIGH': 'أعلى من توصية النظام: خطر كسر المبرد بالإجهاد الدوري',
+  'ENDO_MOTOR.rpm.LOW': 'أقل من توصية النظام: تشكيل بطيء وانحشار المبرد',
+  'ENDO_MOTOR.torqueNcm.HIGH': 'عزم أعلى من توصية النظام: خطر كسر المبرد بالالتواء',
+  'ENDO_MOTOR.torqueNcm.LOW': 'عزم منخفض: توقف المحرك المتكرر',
+  'IMPLANT_DRILL.rpm.HIGH': 'حرارة زائدة في العظم: خطر نخر العظم الحراري',
+  'IMPLANT_DRILL.rpm.LOW': 'سرعة منخفضة: حفر غير دقيق',
+  'IMPLANT_INSERTION.torqueNcm.HIGH': 'ضغط زائد على العظم القشري: خطر نخر العظم بالضغط',
+  'IMPLANT_INSERTION.torqueNcm.LOW': 'ثبات أولي غير كافٍ للتحميل',
+  'IMPLANT_INSERTION.rpm.HIGH': 'سرعة إدخال عالية: حرارة وفقدان التحكم',
+  'SURGICAL.rpm.HIGH': 'حرارة زائدة في العظم: خطر نخر العظم الحراري',
+  'SURGICAL.rpm.LOW': 'سرعة منخفضة: قطع غير فعال للعظم',
+};
+
+export const settingWarning = (kind: HandpieceKind, setting: 'rpm' | 'torqueNcm', status: SettingStatus): string | undefined =>
+  status === 'SAFE' ? undefined : SETTING_WARNINGS[`${kind}.${setting}.${status}`] || (status === 'HIGH' ? 'أعلى من النطاق الآمن' : 'أقل من النطاق الآمن');
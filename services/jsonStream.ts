@@ -0,0 +1,70 @@
+// Incremental extractor for streamed JSON: emits each object of one named array
+// as soon as its closing brace arrives, without waiting for the whole document.
+//
+// Feed raw text chunks in order with push(). Code fences and other non-JSON noise
+// around the document are ignored because only structural characters are tracked.
+
+export interface JsonArrayStreamParser {
+  push: (chunk: string) => void;
+  // Number of items emitted so far
+  count: () => number;
+}
+
+export const createJsonArrayStreamParser = (
+  arrayKey: string,
+  onItem: (item: unknown, index: number) => void
+): JsonArrayStreamParser => {
+  const keyToken = `"${arrayKey}"`;
+  let buffer = '';
+  let pos = 0;
+  let inString = false;
+  let escaped = false;
+  let depth = 0;
+  let arrayDepth = -1; // depth of the target array once its "[" is seen
+  let itemStart = -1;
+  let done = false;
+  let emitted = 0;
+
+  const push = (chunk: string) => {
+    if (done) return;
+    buffer += chunk;
+
+    for (; pos < buffer.length; pos++) {
+      const ch = buffer[pos];
+
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (ch === '\\') escaped = true;
+        else if (ch === '"') inString = false;
+        continue;
+      }
+
+      if (ch === '"') {
+        inString = true;
+      } else if (ch === '{' || ch === '[') {
+        depth++;
+        if (ch === '[' && arrayDepth === -1 && buffer.lastIndexOf(keyToken, pos) !== -1) {
+          arrayDepth = depth;
+        } else if (ch === '{' && arrayDepth !== -1 && depth === arrayDepth + 1) {
+          itemStart = pos;
+        }
+      } else if (ch === '}' || ch === ']') {
+        if (ch === '}' && itemStart !== -1 && depth === arrayDepth + 1) {
+          const text = buffer.slice(itemStart, pos + 1);
+          itemStart = -1;
+          try {
+            onItem(JSON.parse(text), emitted++);
+          } catch (e) {
+            console.warn("Skipping unparsable streamed item", text);
+          }
+        } else if (ch === ']' && depth === arrayDepth) {
+          done = true;
+          return;
+        }
+        depth--;
+      }
+    }
+  };
+
+  return { push, count: () => emitted };
+};
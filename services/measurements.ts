@@ -0,0 +1,146 @@
+import { Calibration, Measurement, MeasurementPoint, MeasurementSet, MeasurementTool, RadiographMetadata } from "../types";
+
+// Calibrated measurements over the displayed image. Points are stored in percent of the image;
+// lengths are computed in image pixels and converted to millimetres with the case calibration.
+// Measurement sets are kept per image in localStorage, so reopening the same radiograph restores them.
+
+export type ImageSize = { width: number; height: number };
+
+const STORAGE_KEY = 'dentalbrain.measurements';
+const MAX_STORED_CASES = 30;
+
+export const MEASUREMENT_TOOLS: { id: MeasurementTool; label: string; points: number }[] = [
+  { id: 'RULER', label: 'مسطرة', points: 2 },
+  { id: 'ANGLE', label: 'زاوية', points: 3 },
+  { id: 'AREA', label: 'مساحة', points: 0 }, // open polygon, closed by the user
+];
+
+const LABEL_PREFIXES: Record<MeasurementTool, string> = { RULER: 'L', ANGLE: '∠', AREA: 'A' };
+
+// 1. Calibration
+export const calibrationFromMetadata = (metadata?: RadiographMetadata): Calibration | undefined =>
+  metadata?.pixelSpacingMm
+    ? { mmPerPixelX: metadata.pixelSpacingMm.column, mmPerPixelY: metadata.pixelSpacingMm.row, source: 'METADATA' }
+    : undefined;
+
+// A line drawn over an object of known length (implant, file, ruler in the image)
+export const calibrationFromReference = (a: MeasurementPoint, b: MeasurementPoint, imageSize: ImageSize, referenceMm: number): Calibration | undefined => {
+  const pixels = Math.hypot(((b.x - a.x) / 100) * imageSize.width, ((b.y - a.y) / 100) * imageSize.height);
+  if (!(pixels > 0) || !(referenceMm > 0)) return undefined;
+  const mmPerPixel = referenceMm / pixels;
+  return { mmPerPixelX: mmPerPixel, mmPerPixelY: mmPerPixel, source: 'REFERENCE', referenceMm };
+};
+
+// 2. Geometry, in millimetres when calibrated and in pixels otherwise
+const toPhysical = (point: MeasurementPoint, imageSize: ImageSize, calibration?: Calibration) => ({
+  x: (point.x / 100) * imageSize.width * (calibration?.mmPerPixelX ?? 1),
+  y: (point.y / 100) * imageSize.height * (calibration?.mmPerPixelY ?? 1),
+});
+
+const polylineLength = (points: { x: number; y: number }[], closed: boolean) =>
+  points.reduce((sum, point, i) => {
+    const next = points[i + 1] ?? (closed ? points[0] : undefined);
+    return next ? sum + Math.hypot(next.x - point.x, next.y - point.y) : sum;
+  }, 0);
+
+export interface MeasurementValue {
+  value: number;
+  unit: 'mm' | 'px' | 'mm²' | 'px²' | '°';
+  perimeter?: number; // AREA only, same length unit as the area
+}
+
+export const measure = (measurement: Measurement, imageSize: ImageSize, calibration?: Calibration): MeasurementValue | null => {
+  const points = measurement.points.map(point => toPhysical(point, imageSize, calibration));
+  const lengthUnit = calibration ? 'mm' : 'px';
+
+  if (measurement.tool === 'RULER') {
+    if (points.length < 2) return null;
+    return { value: polylineLength(points.slice(0, 2), false), unit: lengthUnit };
+  }
+  if (measurement.tool === 'ANGLE') {
+    if (points.length < 3) return null;
+    const [a, vertex, b] = points;
+    const angle = Math.abs(Math.atan2(a.y - vertex.y, a.x - vertex.x) - Math.atan2(b.y - vertex.y, b.x - vertex.x)) * 180 / Math.PI;
+    return { value: angle > 180 ? 360 - angle : angle, unit: '°' };
+  }
+  if (points.length < 3) return null;
+  // Shoelace formula
+  const area = Math.abs(points.reduce((sum, point, i) => {
+    const next = points[(i + 1) % points.length];
+    return sum + point.x * next.y - next.x * point.y;
+  }, 0)) / 2;
+  return { value: area, unit: calibration ? 'mm²' : 'px²', perimeter: polylineLength(points, true) };
+};
+
+export const formatMeasurement = (value: MeasurementValue | null): string => {
+  if (!value) return '—';
+  if (value.unit === '°') return `${value.value.toFixed(1)}°`;
+  const digits = value.unit.startsWith('px') ? 0 : value.unit === 'mm²' ? 1 : 2;
+  return `${value.value.toFixed(digits)} ${value.unit}`;
+};
+
+// Calibration source as shown next to the measurements (panel and PDF report)
+export const describeCalibration = (calibration?: Calibration): string =>
+  calibration
+    ? `${calibration.source === 'METADATA' ? 'من بيانات الملف' : `مرجع ${calibration.referenceMm} مم`} · ${calibration.mmPerPixelX.toFixed(4)} مم/بكسل`
+    : 'غير معاير — القيم بالبكسل';
+
+export const nextMeasurementLabel = (tool: MeasurementTool, measurements: Measurement[]) =>
+  `${LABEL_PREFIXES[tool]}${measurements.filter(m => m.tool === tool).length + 1}`;
+
+// 3. Persistence per image
+// FNV-1a over the data URL: the same upload gets the same key without storing the image
+export const measurementCaseKey = (imageUrl: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < imageUrl.length; i++) {
+    hash ^= imageUrl.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${(hash >>> 0).toString(16)}-${imageUrl.length}`;
+};
+
+const readStore = (): Record<string, MeasurementSet> => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}') || {};
+  } catch (e) {
+    // localStorage unavailable or corrupted
+    return {};
+  }
+};
+
+export const loadMeasurements = (caseKey: string): MeasurementSet | undefined => readStore()[caseKey];
+
+// Empty sets are removed; only the most recent cases are kept
+export const saveMeasurements = (caseKey: string, set: MeasurementSet) => {
+  const store = readStore();
+  if (set.measurements.length === 0 && set.calibration?.source !== 'REFERENCE') delete store[caseKey];
+  else store[caseKey] = set;
+  const recent = Object.entries(store).sort(([, a], [, b]) => b.updatedAt - a.updatedAt).slice(0, MAX_STORED_CASES);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(recent)));
+  } catch (e) {
+    // Not persisted; the measurements still apply to this session
+  }
+};
+
+// 4. Export
+export const exportMeasurements = (set: MeasurementSet, imageSize: ImageSize) => ({
+  format: 'dentalbrain.measurements',
+  formatVersion: 1,
+  exportedAt: new Date().toISOString(),
+  image: imageSize,
+  calibration: set.calibration ?? null,
+  measurements: set.measurements.map(measurement => {
+    const value = measure(measurement, imageSize, set.calibration);
+    return {
+      ...measurement,
+      pointsPx: measurement.points.map(point => ({
+        x: Math.round((point.x / 100) * imageSize.width),
+        y: Math.round((point.y / 100) * imageSize.height),
+      })),
+      value: value?.value ?? null,
+      unit: value?.unit ?? null,
+      perimeter: value?.perimeter ?? null,
+    };
+  }),
+});
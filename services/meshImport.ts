@@ -0,0 +1,155 @@
+import * as THREE from 'three';
+import { STLLoader } from 'three/examples/jsm/loaders/STLLoader.js';
+import { PLYLoader } from 'three/examples/jsm/loaders/PLYLoader.js';
+import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader.js';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { TISSUE_COLORS, inferTissue } from "./toothModels";
+
+// Loads intraoral scans and CBCT segmentations into the 3D lab. Several files can be opened together
+// (segmentation software usually exports one STL per structure); they share a coordinate space, so
+// they are fitted to the lab as one model and each file becomes a layer that can be hidden.
+
+export const MESH_FILE_ACCEPT = '.stl,.ply,.obj,.glb,.gltf';
+const MAX_FILE_BYTES = 150 * 1024 * 1024;
+const LAB_MODEL_SIZE = 6; // scene units along the longest side
+const LAYER_PALETTE = ['#f1f5f9', '#fde68a', '#f87171', '#93c5fd', '#86efac', '#c4b5fd'];
+
+export class MeshFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MeshFormatError';
+  }
+}
+
+// Direct child of a lab model that can be shown or hidden on its own
+export interface LabLayer {
+  id: string;
+  label: string;
+  color: string;
+}
+
+export interface ImportedModel {
+  model: THREE.Group;
+  layers: LabLayer[];
+  sizeMm: [number, number, number]; // bounding box; scan and segmentation exports are in millimetres
+  triangles: number;
+}
+
+// 1. Parsing, by extension (STL, PLY and OBJ carry no reliable signature)
+const parseMesh = async (file: File, buffer: ArrayBuffer): Promise<{ object: THREE.Object3D; ownMaterial: boolean }> => {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  switch (extension) {
+    case 'stl':
+      return { object: new THREE.Mesh(new STLLoader().parse(buffer)), ownMaterial: false };
+    case 'ply': {
+      const geometry = new PLYLoader().parse(buffer);
+      // Faceless PLY files are point clouds from the scanner
+      const object = geometry.index
+        ? new THREE.Mesh(geometry)
+        : new THREE.Points(geometry, new THREE.PointsMaterial({ size: 2, sizeAttenuation: false, vertexColors: !!geometry.attributes.color }));
+      return { object, ownMaterial: object instanceof THREE.Points };
+    }
+    case 'obj':
+      // Materials live in a separate .mtl file, which is not loaded
+      return { object: new OBJLoader().parse(new TextDecoder().decode(buffer)), ownMaterial: false };
+    case 'glb':
+    case 'gltf': {
+      const gltf = await new GLTFLoader().parseAsync(buffer, '').catch((e: unknown) => {
+        throw new MeshFormatError(extension === 'gltf'
+          ? `تعذر قراءة "${file.name}". ملفات glTF ذات الموارد الخارجية غير مدعومة؛ صدّر النموذج بصيغة GLB.`
+          : `تعذر قراءة "${file.name}": ${e instanceof Error ? e.message : 'ملف GLB غير صالح'}.`);
+      });
+      return { object: gltf.scene, ownMaterial: true };
+    }
+    default:
+      throw new MeshFormatError(`نوع الملف "${file.name}" غير مدعوم. الصيغ المدعومة: STL وPLY وOBJ وglTF/GLB.`);
+  }
+};
+
+// Plain meshes get a tissue colour guessed from the file name (e.g. "pulp.stl"), or the scan's own vertex colours
+const applyLayerMaterial = (object: THREE.Object3D, color: string, clippingPlanes: THREE.Plane[], ownMaterial: boolean) => {
+  object.traverse(child => {
+    if (!(child instanceof THREE.Mesh) && !(child instanceof THREE.Points)) return;
+    if (!child.geometry.attributes.normal && child instanceof THREE.Mesh) child.geometry.computeVertexNormals();
+    if (!ownMaterial && child instanceof THREE.Mesh) {
+      child.material = new THREE.MeshStandardMaterial({
+        color: child.geometry.attributes.color ? 0xffffff : new THREE.Color(color),
+        vertexColors: !!child.geometry.attributes.color,
+        metalness: 0.05,
+        roughness: 0.45,
+      });
+      child.castShadow = true;
+      child.receiveShadow = true;
+    }
+    (Array.isArray(child.material) ? child.material : [child.material]).forEach((material: THREE.Material) => {
+      material.clippingPlanes = clippingPlanes;
+      material.side = THREE.DoubleSide;
+    });
+  });
+};
+
+const countTriangles = (object: THREE.Object3D) => {
+  let triangles = 0;
+  object.traverse(child => {
+    if (!(child instanceof THREE.Mesh)) return;
+    const geometry = child.geometry as THREE.BufferGeometry;
+    triangles += (geometry.index ? geometry.index.count : geometry.attributes.position.count) / 3;
+  });
+  return Math.round(triangles);
+};
+
+// 2. Import: the files in one group, centred on the origin and scaled to the lab
+export const loadMeshFiles = async (files: File[], clippingPlanes: THREE.Plane[] = []): Promise<ImportedModel> => {
+  if (files.length === 0) throw new MeshFormatError("لم يتم اختيار أي ملف.");
+  const tooLarge = files.find(file => file.size > MAX_FILE_BYTES);
+  if (tooLarge) throw new MeshFormatError(`الملف "${tooLarge.name}" أكبر من ${MAX_FILE_BYTES / 1024 / 1024} MB.`);
+
+  const content = new THREE.Group();
+  const layers: LabLayer[] = [];
+  try {
+    for (const [index, file] of files.entries()) {
+      const { object, ownMaterial } = await parseMesh(file, await file.arrayBuffer());
+      const tissue = inferTissue(file.name);
+      const color = tissue ? TISSUE_COLORS[tissue] : LAYER_PALETTE[index % LAYER_PALETTE.length];
+      applyLayerMaterial(object, color, clippingPlanes, ownMaterial);
+      const id = `${index}:${file.name}`;
+      object.name = id;
+      content.add(object);
+      layers.push({ id, label: file.name.replace(/\.[^.]+$/, ''), color });
+    }
+  } catch (e) {
+    disposeObject(content);
+    if (e instanceof MeshFormatError) throw e;
+    throw new MeshFormatError(`تعذر قراءة الملف: ${e instanceof Error ? e.message : 'بنية غير صالحة'}.`);
+  }
+
+  const box = new THREE.Box3().setFromObject(content);
+  if (box.isEmpty()) {
+    disposeObject(content);
+    throw new MeshFormatError("لا يحتوي الملف على أي أسطح أو نقاط.");
+  }
+  const size = box.getSize(new THREE.Vector3());
+  const center = box.getCenter(new THREE.Vector3());
+  const scale = LAB_MODEL_SIZE / Math.max(size.x, size.y, size.z);
+  content.scale.setScalar(scale);
+  content.position.copy(center).multiplyScalar(-scale);
+
+  // Outer group so the model can be turned upright (CBCT exports are usually Z-up) around its centre
+  const model = new THREE.Group();
+  model.add(content);
+  return { model, layers, sizeMm: [size.x, size.y, size.z], triangles: countTriangles(content) };
+};
+
+// 3. Cleanup: geometries, materials and their textures are GPU resources
+export const disposeObject = (object: THREE.Object3D) => {
+  object.traverse(child => {
+    if (!(child instanceof THREE.Mesh) && !(child instanceof THREE.Points)) return;
+    child.geometry.dispose();
+    (Array.isArray(child.material) ? child.material : [child.material]).forEach((material: THREE.Material) => {
+      Object.values(material).forEach(value => {
+        if (value instanceof THREE.Texture) value.dispose();
+      });
+      material.dispose();
+    });
+  });
+};
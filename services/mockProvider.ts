@@ -0,0 +1,380 @@
+import { ClinicalData, QuizData, ImageAnalysisResult, DifficultyLevel, QuizItem, MCQItem, PracticalStep, LabeledImage, ComparativeAnalysisResult, ClinicalCase, TechnicalBlueprint } from "../types";
+import { AIProvider, ImageKind, QuizLanguage, RequestContext, ResearchResult } from "./aiProvider";
+import { abortableDelay } from "./abort";
+
+// Offline provider: deterministic fixtures so the whole UI works without network or quota.
+// Same topic in -> same content out (no randomness), which also keeps class demos reproducible.
+
+const MOCK_LATENCY_MS = 350;
+
+
+const escapeXml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const truncate = (text: string, max: number) => text.length > max ? `${text.slice(0, max - 1)}…` : text;
+
+const IMAGE_PALETTE: Record<ImageKind, { background: string; accent: string; text: string; badge: string }> = {
+    CLINICAL: { background: '#0f172a', accent: '#2563eb', text: '#e2e8f0', badge: 'CLINICAL VIEW' },
+    RADIOLOGY: { background: '#020202', accent: '#94a3b8', text: '#f8fafc', badge: 'RADIOGRAPH' },
+    EXPLODED: { background: '#f1f5f9', accent: '#4f46e5', text: '#0f172a', badge: 'EXPLODED VIEW' },
+};
+
+// 16:9 SVG placeholder with a stylised molar, so layouts and exports behave like real images
+const placeholderImage = (prompt: string, type: ImageKind): string => {
+    const { background, accent, text, badge } = IMAGE_PALETTE[type];
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="1280" height="720" viewBox="0 0 1280 720">
+  <rect width="1280" height="720" fill="${background}"/>
+  <g fill="none" stroke="${accent}" stroke-width="10" stroke-linejoin="round" opacity="0.85">
+    <path d="M540 190c40-30 80-30 100 0 20-30 60-30 100 0 40 30 40 110 10 170-20 40-25 110-40 160-10 30-40 30-45 0l-25-120-25 120c-5 30-35 30-45 0-15-50-20-120-40-160-30-60-30-140 10-170z"/>
+  </g>
+  <text x="640" y="600" text-anchor="middle" font-family="sans-serif" font-size="28" fill="${text}">${escapeXml(truncate(prompt, 80))}</text>
+  <text x="640" y="650" text-anchor="middle" font-family="monospace" font-size="20" fill="${accent}">${badge} · OFFLINE DEMO</text>
+</svg>`;
+    return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+};
+
+const generateSimulation = async (topic: string, ctx?: RequestContext): Promise<ClinicalData> => {
+    await abortableDelay(MOCK_LATENCY_MS, ctx?.signal);
+    return {
+        theorySummary: `ملخص نظري (وضع العرض دون اتصال) حول "${topic}": يعتمد النجاح السريري على التشخيص الدقيق، واختيار الأدوات المناسبة، واحترام الحدود التشريحية للسن والأنسجة المحيطة.`,
+        riskLevel: 'MODERATE',
+        hotspots: [
+            {
+                x: 30, y: 40,
+                label: 'الحافة الإطباقية',
+                description: 'منطقة تماس السن المقابل وتوزيع القوى الإطباقية.',
+                diagnosis: 'تسوس ميناء أولي',
+                indications: 'ترميم محافظ عند تجاوز الآفة حدود الميناء.',
+                classification: 'Black Class I',
+                treatmentPlan: 'إزالة النسج المتسوسة ثم ترميم بالكومبوزيت.',
+                clinicalPearl: 'افحص التماس الإطباقي بورق العض قبل وبعد الترميم.',
+                commonMistake: 'المبالغة في التحضير وإضعاف الحواف الحفافية.'
+            },
+            {
+                x: 55, y: 60,
+                label: 'الملتقى المينائي العاجي',
+                description: 'الحد الفاصل الذي ينتشر عنده التسوس جانبياً.',
+                diagnosis: 'امتداد التسوس إلى العاج',
+                indications: 'تحضير تجويف مع حماية اللب عند الحاجة.',
+                classification: 'ICDAS 4',
+                treatmentPlan: 'تبطين بالإيونومر الزجاجي ثم الترميم النهائي.',
+                clinicalPearl: 'العاج المتأثر (affected) يُحفظ، والعاج المصاب (infected) يُزال.',
+                commonMistake: 'ترك تسوس عند الملتقى المينائي العاجي تحت الحواف.'
+            },
+            {
+                x: 70, y: 75,
+                label: 'القرن اللبي',
+                description: 'أقرب نقطة من حجرة اللب إلى سطح التحضير.',
+                diagnosis: 'خطر انكشاف لبي',
+                indications: 'تغطية لبية غير مباشرة عند قرب التحضير من اللب.',
+                classification: 'Deep Caries',
+                treatmentPlan: 'تغطية بماءات الكالسيوم أو MTA ومتابعة الحيوية.',
+                clinicalPearl: 'القرون اللبية أعلى في الأسنان الفتية.',
+                commonMistake: 'استخدام سنبلة عالية السرعة قرب اللب بدون تبريد كافٍ.'
+            }
+        ],
+        vitals: { heartRate: 78, bloodPressure: '122/80', oxygenSaturation: 98 },
+        requiredInstruments: [
+            {
+                name: 'سنبلة ماسية كروية على قبضة عالية السرعة',
+                isoNumber: '806 314 001',
+                useCase: 'فتح المدخل عبر الميناء مع تبريد مائي.',
+                step: 'فتح التجويف',
+                settings: { kind: 'HIGH_SPEED', rpm: { value: 300000, min: 250000, max: 400000 } }
+            },
+            {
+                name: 'سنبلة كروية فولاذية على قبضة بطيئة السرعة',
+                isoNumber: '310 204 001',
+                useCase: 'إزالة العاج المتسوس قرب اللب.',
+                step: 'إزالة التسوس',
+                settings: { kind: 'SLOW_SPEED', rpm: { value: 800, min: 500, max: 1500 } }
+            },
+            {
+                name: 'مجرفة عاج يدوية',
+                isoNumber: 'ISO 21672',
+                useCase: 'إزالة العاج الطري فوق القرن اللبي.',
+                step: 'إزالة التسوس',
+                settings: { kind: 'HAND' }
+            }
+        ],
+        imagePrompt: `Clinical intraoral view of ${topic}`,
+        radiologyPrompt: `Periapical radiograph of ${topic}`,
+        explodedPrompt: `Exploded 3D diagram of ${topic}`
+    };
+};
+
+const generatePractical = async (topic: string, ctx?: RequestContext): Promise<ClinicalData> => {
+    await abortableDelay(MOCK_LATENCY_MS, ctx?.signal);
+    const titles = ['التقييم والتشخيص', 'التخدير والعزل', 'التحضير', 'الترميم والإنهاء'];
+    const practicalProtocol: PracticalStep[] = titles.map((title, i) => ({
+        id: `mock-step-${i + 1}`,
+        title,
+        originalText: `Step ${i + 1} of "${topic}": follow the standard clinical protocol for this stage and verify each checkpoint before proceeding.`,
+        medicalTranslation: `الخطوة ${i + 1} من "${topic}": اتبع البروتوكول السريري القياسي لهذه المرحلة وتحقق من كل نقطة قبل المتابعة.`,
+        professorComment: `في مرحلة "${title}" نربط بين التشريح والهدف العلاجي؛ كل قرار هنا يحدد جودة ما بعده، فلا تستعجل.`,
+        memoryAid: `تخيّل السن يقول لك: "مرحلة ${title}؟ على مهلك يا دكتور، أنا مش مستعجل!"`,
+        visualPrompt: `Clinical photo: ${title} during ${topic}`
+    }));
+    return { practicalProtocol };
+};
+
+// Replays the fixture protocol one step at a time, like a slow network stream
+const streamPractical = async (
+    topic: string,
+    onStep: (rawStep: unknown, index: number) => void,
+    ctx?: RequestContext
+): Promise<ClinicalData> => {
+    const data = await generatePractical(topic, ctx);
+    const steps = data.practicalProtocol || [];
+    for (let i = 0; i < steps.length; i++) {
+        await abortableDelay(MOCK_LATENCY_MS, ctx?.signal);
+        onStep(steps[i], i);
+    }
+    return data;
+};
+
+const buildQuizItems = (
+    topic: string,
+    language: QuizLanguage,
+    count: number,
+    difficulty: DifficultyLevel,
+    prefix: string
+): QuizItem[] =>
+    Array.from({ length: count }, (_, i) => ({
+        id: `${prefix}-${i + 1}`,
+        question: language === 'ar'
+            ? `سؤال ${i + 1}: اشرح أهمية المرحلة ${i + 1} في "${topic}".`
+            : `Question ${i + 1}: Explain the significance of stage ${i + 1} in "${topic}".`,
+        answer: language === 'ar'
+            ? `إجابة نموذجية (وضع العرض دون اتصال) للمرحلة ${i + 1} من "${topic}".`
+            : `Model answer (offline demo) for stage ${i + 1} of "${topic}".`,
+        difficulty,
+        keyPoints: language === 'ar' ? ['التشخيص', 'الاستطباب', 'المضاعفات'] : ['Diagnosis', 'Indications', 'Complications']
+    }));
+
+const generateQuiz = async (
+    topic: string,
+    language: QuizLanguage,
+    count: number,
+    difficulty: DifficultyLevel,
+    ctx?: RequestContext
+): Promise<QuizData> => {
+    await abortableDelay(MOCK_LATENCY_MS, ctx?.signal);
+    const options = language === 'ar'
+        ? ['الخيار الصحيح', 'مشتت أول', 'مشتت ثانٍ', 'مشتت ثالث']
+        : ['Correct option', 'First distractor', 'Second distractor', 'Third distractor'];
+
+    const mcqQuestions: MCQItem[] = Array.from({ length: count }, (_, i) => {
+        // Rotate the correct option so it is not always "A"
+        const rotated = options.map((_, k) => options[(k + i) % options.length]);
+        return {
+            id: `mcq-${i + 1}`,
+            question: language === 'ar'
+                ? `سؤال ${i + 1}: ما الخيار الأنسب بخصوص "${topic}"؟`
+                : `Question ${i + 1}: Which option best applies to "${topic}"?`,
+            options: rotated,
+            correctAnswer: options[0],
+            explanation: language === 'ar' ? 'شرح نموذجي (وضع العرض دون اتصال).' : 'Sample explanation (offline demo).',
+            difficulty
+        };
+    });
+
+    return {
+        essayQuestions: buildQuizItems(topic, language, count, difficulty, 'essay'),
+        shortAnswerQuestions: buildQuizItems(topic, language, count, difficulty, 'sa').map(({ keyPoints, ...item }) => item),
+        mcqQuestions
+    };
+};
+
+const generateResearch = async (topic: string, ctx?: RequestContext): Promise<ResearchResult> => {
+    await abortableDelay(MOCK_LATENCY_MS, ctx?.signal);
+    // No web sources offline; the gallery shows "source unavailable"
+    return {
+        sources: [],
+        prompts: [`Dental clinical view of ${topic}`, `Anatomical diagram of ${topic}`, `X-ray of ${topic}`]
+    };
+};
+
+// Small deep-caries case: one optimal route, a recoverable mistake and a harmful branch
+const generateCase = async (topic: string, ctx?: RequestContext): Promise<ClinicalCase> => {
+    await abortableDelay(MOCK_LATENCY_MS, ctx?.signal);
+    const stable = { heartRate: 78, bloodPressure: '124/80', oxygenSaturation: 98 };
+    const pulpHorn = {
+        x: 58, y: 62,
+        label: 'القرن اللبي الإنسي',
+        description: 'أقرب نقطة من حجرة اللب إلى قاع التحضير.',
+        diagnosis: 'التهاب لب عكوس',
+        indications: 'إزالة انتقائية للتسوس وتغطية لبية غير مباشرة.',
+        classification: 'Deep Caries',
+        treatmentPlan: 'تبطين بالإيونومر الزجاجي ثم ترميم محكم.'
+    };
+    return {
+        id: `mock-case-${topic}`,
+        title: `حالة متفرعة (وضع العرض دون اتصال): ${topic}`,
+        summary: 'مريض 28 سنة يشكو من ألم حاد عند تناول البارد في الرحى السفلية اليسرى الأولى (36) يزول خلال ثوانٍ.',
+        startNodeId: 'exam',
+        source: 'AI',
+        nodes: [
+            {
+                id: 'exam',
+                title: 'الفحص الأولي',
+                narrative: 'يظهر تسوس إطباقي واسع على السن 36، الاختبار البارد إيجابي مع ألم يزول بعد إبعاد المنبه، القرع سلبي.',
+                imagePrompt: 'Intraoral photo of a lower first molar with a large occlusal carious lesion',
+                vitals: stable,
+                hotspots: [{ ...pulpHorn, x: 50, y: 45, label: 'الآفة الإطباقية', diagnosis: 'تسوس عاجي عميق', classification: 'ICDAS 5' }],
+                choices: [
+                    { id: 'xray', label: 'صورة ذروية قبل أي إجراء', nextNodeId: 'radiograph', feedback: 'صحيح: عمق الآفة وعلاقتها باللب والنسج حول الذروية تحدد الخطة.', quality: 'OPTIMAL' },
+                    { id: 'drill', label: 'البدء بالتحضير مباشرة', nextNodeId: 'exposure', feedback: 'التحضير دون صورة يغفل قرب اللب؛ حدث انكشاف لبي غير متوقع.', quality: 'POOR' },
+                    { id: 'antibiotic', label: 'وصف صاد حيوي وتأجيل العلاج', nextNodeId: 'abscess', feedback: 'الصادات لا تعالج التهاب اللب؛ تقدمت الإصابة إلى خراج.', quality: 'HARMFUL' }
+                ]
+            },
+            {
+                id: 'radiograph',
+                title: 'الصورة الذروية',
+                narrative: 'شفوفية تقترب من القرن اللبي الإنسي دون آفة ذروية. المريض قلق ونبضه يرتفع قليلاً.',
+                imagePrompt: 'Periapical radiograph of a lower first molar with deep caries approaching the mesial pulp horn',
+                vitals: { heartRate: 92, bloodPressure: '132/84', oxygenSaturation: 98 },
+                hotspots: [pulpHorn],
+                choices: [
+                    { id: 'dam', label: 'تخدير ناحي ثم عزل بالحاجز المطاطي', nextNodeId: 'excavation', feedback: 'صحيح: العزل يحمي اللب من التلوث إذا حدث انكشاف.', quality: 'OPTIMAL' },
+                    { id: 'rolls', label: 'تخدير ثم عزل بلفافات القطن', nextNodeId: 'excavation', feedback: 'مقبول لكن العزل النسبي يرفع خطر التلوث قرب اللب.', quality: 'ACCEPTABLE' }
+                ]
+            },
+            {
+                id: 'excavation',
+                title: 'إزالة التسوس قرب اللب',
+                narrative: 'أُزيل العاج المتسوس من الجدران، وبقيت طبقة عاج طري فوق القرن اللبي.',
+                imagePrompt: 'Deep cavity preparation in a lower molar with remaining soft dentin over the pulp',
+                vitals: stable,
+                hotspots: [pulpHorn],
+                choices: [
+                    { id: 'selective', label: 'إزالة انتقائية وترك العاج الطري فوق اللب', nextNodeId: 'end-good', feedback: 'صحيح: الإزالة الانتقائية تحافظ على حيوية اللب في الآفات العميقة.', quality: 'OPTIMAL' },
+                    { id: 'complete', label: 'إزالة كاملة بسنبلة عالية السرعة', nextNodeId: 'exposure', feedback: 'الإزالة الكاملة قرب اللب سببت انكشافاً لبياً.', quality: 'POOR' }
+                ]
+            },
+            {
+                id: 'exposure',
+                title: 'انكشاف لبي',
+                narrative: 'انكشاف نقطي مع نزف أحمر فاتح يتوقف بالضغط خلال دقيقتين.',
+                imagePrompt: 'Pinpoint pulp exposure with bright red bleeding in a deep molar cavity',
+                vitals: { heartRate: 98, bloodPressure: '136/86', oxygenSaturation: 98 },
+                hotspots: [{ ...pulpHorn, label: 'موضع الانكشاف', diagnosis: 'انكشاف لبي رضي', treatmentPlan: 'تغطية لبية مباشرة بـ MTA تحت العزل.' }],
+                choices: [
+                    { id: 'mta', label: 'تغطية لبية مباشرة بـ MTA تحت الحاجز المطاطي', nextNodeId: 'end-fair', feedback: 'مقبول: اللب الحي غير الملتهب بشكل لا عكوس يُحفظ بالتغطية المباشرة.', quality: 'ACCEPTABLE' },
+                    { id: 'composite', label: 'ترميم مباشر بالكومبوزيت فوق الانكشاف', nextNodeId: 'end-poor', feedback: 'ترك الانكشاف دون تغطية حيوية يؤدي إلى تموت اللب.', quality: 'HARMFUL' }
+                ]
+            },
+            {
+                id: 'abscess',
+                title: 'خراج حاد',
+                narrative: 'عاد المريض بعد أسبوع بتورم دهليزي وحرارة 38.4° وألم عند القرع.',
+                imagePrompt: 'Intraoral photo of a buccal vestibular swelling next to a lower first molar',
+                vitals: { heartRate: 104, bloodPressure: '128/82', oxygenSaturation: 97 },
+                hotspots: [],
+                choices: [
+                    { id: 'drain', label: 'تفجير الخراج وفتح الحجرة اللبية', nextNodeId: 'end-fair', feedback: 'مقبول: التصريف وإزالة المصدر هما العلاج، لكن السن يحتاج الآن معالجة لبية كاملة.', quality: 'ACCEPTABLE' },
+                    { id: 'more-antibiotic', label: 'تغيير الصاد الحيوي فقط', nextNodeId: 'end-poor', feedback: 'دون إزالة المصدر يستمر الانتشار؛ خطر التهاب خلوي.', quality: 'HARMFUL' }
+                ]
+            },
+            { id: 'end-good', title: 'ترميم محافظ', narrative: 'بعد ستة أشهر: السن حي، الاختبار البارد طبيعي، ولا تغيرات ذروية.', imagePrompt: 'Intact composite restoration on a lower first molar', vitals: stable, hotspots: [], choices: [], outcome: 'GOOD' },
+            { id: 'end-fair', title: 'حفظ السن مع علاج إضافي', narrative: 'حُفظ السن، لكن بإجراء أوسع أو متابعة لصيقة لحيوية اللب.', imagePrompt: 'Lower first molar after pulp capping or root canal treatment', vitals: stable, hotspots: [], choices: [], outcome: 'FAIR' },
+            { id: 'end-poor', title: 'تموت اللب', narrative: 'تطور التهاب لب لا عكوس ثم آفة ذروية؛ يحتاج السن معالجة لبية أو قلعاً.', imagePrompt: 'Periapical radiograph showing a periapical lesion on a lower first molar', vitals: stable, hotspots: [], choices: [], outcome: 'POOR' }
+        ]
+    };
+};
+
+// Lower molar assembled from crown to bone, so every primitive of the 3D lab shows up
+const generateBlueprint = async (topic: string, ctx?: RequestContext): Promise<TechnicalBlueprint> => {
+    await abortableDelay(MOCK_LATENCY_MS, ctx?.signal);
+    const parts: [string, string, number, number, number][] = [
+        ['Enamel Crown (تاج المينا)', '#f8fafc', 50, 78, 50],
+        ['Dentin (العاج)', '#fde68a', 50, 64, 50],
+        ['Pulp Chamber (حجرة اللب)', '#f87171', 50, 60, 50],
+        ['Mesial Root (الجذر الإنسي)', '#fef3c7', 40, 36, 50],
+        ['Distal Root (الجذر الوحشي)', '#fef3c7', 60, 36, 50],
+        ['Periodontal Ligament (الرباط حول السني)', '#fca5a5', 50, 30, 58],
+        ['Alveolar Bone (العظم السنخي)', '#94a3b8', 50, 18, 50]
+    ];
+    return {
+        structuralComponents: parts.map(([partName]) => ({ partName })),
+        visualParameters: parts.map(([componentId, colorHex, x, y, z]) => ({ componentId, colorHex, spatialPosition: { x, y, z } })),
+        modelMetadata: { entityName: `نموذج تجريبي: ${topic}`, scientificClassification: 'Mandibular first molar (offline demo)' }
+    };
+};
+
+const analyzeImage = async (base64Image: string, ctx?: RequestContext): Promise<ImageAnalysisResult> => {
+    await abortableDelay(MOCK_LATENCY_MS, ctx?.signal);
+    return {
+        isHighQuality: true,
+        detailedClinicalAnalysis: 'تحليل تجريبي (وضع العرض دون اتصال): تظهر الصورة بنية سنية سليمة نسبياً مع منطقة شفوفية مشتبهة تحتاج إلى تقييم سريري وشعاعي إضافي.',
+        landmarks: ['الملتقى المينائي العاجي', 'حجرة اللب', 'الصفيحة القاسية'],
+        dangerZones: [
+            {
+                name: 'Pulp Horn',
+                riskLevel: 'HIGH',
+                description: 'قرب التحضير من القرن اللبي.',
+                box: { ymin: 30, xmin: 40, ymax: 50, xmax: 60 }
+            },
+            {
+                name: 'Interproximal Contact',
+                riskLevel: 'MODERATE',
+                description: 'خطر إصابة السن المجاور أثناء التحضير.',
+                box: { ymin: 45, xmin: 15, ymax: 70, xmax: 30 }
+            }
+        ],
+        toothFindings: [
+            { tooth: '36', surfaces: ['O', 'D'], condition: 'CARIES', confidence: 0.82, description: 'نخر إطباقي وحشي يقترب من القرن اللبي.' },
+            { tooth: '37', surfaces: ['O'], condition: 'RESTORATION', confidence: 0.9, description: 'حشوة أملغم سليمة الحواف.' },
+            { tooth: '46', surfaces: [], condition: 'PERIAPICAL_LESION', confidence: 0.6, description: 'شفوفية ذروية مشتبهة على الجذر الإنسي.' }
+        ],
+        adaCompliance: { compliant: true, notes: 'بيانات تجريبية.' }
+    };
+};
+
+// Zones drift slightly between images so the synchronized overlays have something to show
+const analyzeImageSet = async (images: LabeledImage[], ctx?: RequestContext): Promise<ComparativeAnalysisResult> => {
+    const base = await analyzeImage(images[0]?.dataUrl || '', ctx);
+    return {
+        images: images.map((image, index) => ({
+            label: image.label,
+            analysis: {
+                ...base,
+                detailedClinicalAnalysis: `${base.detailedClinicalAnalysis} (الصورة: ${image.label})`,
+                dangerZones: base.dangerZones.map(zone => ({
+                    ...zone,
+                    riskLevel: index > 0 && zone.riskLevel === 'HIGH' ? 'MODERATE' : zone.riskLevel,
+                    box: { ...zone.box, ymin: zone.box.ymin + index * 3, ymax: zone.box.ymax + index * 3 }
+                }))
+            }
+        })),
+        comparison: {
+            summary: 'مقارنة تجريبية (وضع العرض دون اتصال): تحسن طفيف بين الصور مع استقرار البنى الداعمة.',
+            lesionChanges: 'تراجع حجم المنطقة الشفوفة المشتبهة قرب القرن اللبي.',
+            restorationOutcome: 'الترميم محكم الحواف دون فراغات ظاهرة.',
+            boneLevelChange: 'لا تغير ملحوظ في مستوى العظم السنخي.',
+            trend: images.length > 1 ? 'IMPROVED' : 'NOT_APPLICABLE'
+        }
+    };
+};
+
+const generateImage = async (prompt: string, type: ImageKind, ctx?: RequestContext): Promise<string | null> => {
+    await abortableDelay(MOCK_LATENCY_MS, ctx?.signal);
+    return placeholderImage(prompt, type);
+};
+
+export const mockProvider: AIProvider = {
+    id: 'mock',
+    label: 'Offline Demo',
+    promptVersion: 'v2',
+    isConfigured: async () => true,
+    generateSimulation,
+    generatePractical,
+    streamPractical,
+    generateQuiz,
+    generateResearch,
+    generateCase,
+    generateBlueprint,
+    analyzeImage,
+    analyzeImageSet,
+    generateImage,
+};
@@ -0,0 +1,144 @@
+import {
+  Dentition, Hotspot, Odontogram, PlannedTreatment, SurfaceMark, ToothChartEntry, ToothCondition, ToothFinding
+} from "../types";
+import { toFdi } from "./toothNumbering";
+
+// Odontogram model: building the chart from analysis findings or simulation hotspots,
+// per-tooth edits, and the JSON export. Rendering lives in components/Odontogram.tsx.
+
+export interface OdontogramExport {
+  format: 'dentalbrain.odontogram';
+  formatVersion: 1;
+  exportedAt: string;
+  notation: 'FDI';
+  chart: Odontogram;
+}
+
+export const PLANNED_TREATMENT_LABELS: Record<PlannedTreatment, string> = {
+  FILLING: 'حشوة',
+  CROWN: 'تاج',
+  ROOT_CANAL: 'معالجة لبية',
+  EXTRACTION: 'قلع',
+  IMPLANT: 'زرعة',
+  SCALING: 'تقليح',
+};
+
+// Short codes drawn under each tooth
+export const CONDITION_CODES: Partial<Record<ToothCondition, string>> = {
+  CARIES: 'C',
+  RESTORATION: 'R',
+  CROWN: 'CR',
+  ROOT_CANAL: 'RCT',
+  PERIAPICAL_LESION: 'PA',
+  BONE_LOSS: 'BL',
+  FRACTURE: 'FX',
+  IMPLANT: 'IMP',
+  IMPACTED: 'IMPX',
+  CALCULUS: 'CAL',
+};
+
+// Whole-tooth conditions the user can toggle in the chart (surface marks and "missing" are separate)
+export const CHART_CONDITIONS: ToothCondition[] = ['CROWN', 'ROOT_CANAL', 'PERIAPICAL_LESION', 'FRACTURE', 'IMPLANT', 'BONE_LOSS'];
+
+// 1. Layout: rows in chart order (patient's right on the viewer's left)
+const range = (quadrant: number, count: number, reverse: boolean) =>
+  Array.from({ length: count }, (_, i) => `${quadrant}${reverse ? count - i : i + 1}`);
+
+export const chartRows = (dentition: Dentition): { id: string; upper: boolean; primary: boolean; teeth: string[] }[] => [
+  { id: 'upper', upper: true, primary: false, teeth: [...range(1, 8, true), ...range(2, 8, false)] },
+  ...(dentition === 'MIXED' ? [
+    { id: 'upper-primary', upper: true, primary: true, teeth: [...range(5, 5, true), ...range(6, 5, false)] },
+    { id: 'lower-primary', upper: false, primary: true, teeth: [...range(8, 5, true), ...range(7, 5, false)] },
+  ] : []),
+  { id: 'lower', upper: false, primary: false, teeth: [...range(4, 8, true), ...range(3, 8, false)] },
+];
+
+export const createOdontogram = (dentition: Dentition = 'ADULT'): Odontogram => ({ dentition, teeth: {}, updatedAt: Date.now() });
+
+export const emptyEntry = (tooth: string): ToothChartEntry => ({ tooth, missing: false, surfaces: {}, conditions: [], planned: [] });
+
+export const isEntryEmpty = (entry: ToothChartEntry) =>
+  !entry.missing && Object.keys(entry.surfaces).length === 0 && entry.conditions.length === 0 && entry.planned.length === 0 && !entry.note;
+
+// Replaces one tooth; empty entries are removed so the JSON stays small
+export const updateTooth = (chart: Odontogram, entry: ToothChartEntry): Odontogram => {
+  const teeth = { ...chart.teeth };
+  if (isEntryEmpty(entry)) delete teeth[entry.tooth];
+  else teeth[entry.tooth] = entry;
+  return { ...chart, teeth, updatedAt: Date.now() };
+};
+
+const unique = <T>(list: T[]) => Array.from(new Set(list));
+
+const mergeEntry = (current: ToothChartEntry | undefined, incoming: ToothChartEntry): ToothChartEntry => {
+  if (!current) return incoming;
+  return {
+    tooth: current.tooth,
+    missing: current.missing || incoming.missing,
+    surfaces: { ...current.surfaces, ...incoming.surfaces },
+    conditions: unique([...current.conditions, ...incoming.conditions]),
+    planned: unique([...current.planned, ...incoming.planned]),
+    note: [current.note, incoming.note].filter(Boolean).join(' · ') || undefined,
+  };
+};
+
+// Adds entries to the chart (existing marks are kept); primary teeth switch the chart to mixed dentition
+export const mergeIntoOdontogram = (chart: Odontogram, entries: ToothChartEntry[]): Odontogram => {
+  const teeth = { ...chart.teeth };
+  entries.forEach(entry => { teeth[entry.tooth] = mergeEntry(teeth[entry.tooth], entry); });
+  const hasPrimary = Object.keys(teeth).some(tooth => Number(tooth[0]) > 4);
+  return { dentition: hasPrimary ? 'MIXED' : chart.dentition, teeth, updatedAt: Date.now() };
+};
+
+// 2. From image analysis findings
+export const entriesFromFindings = (findings: ToothFinding[]): ToothChartEntry[] =>
+  findings.map(finding => {
+    const entry = emptyEntry(finding.tooth);
+    const surfaceMark: SurfaceMark | undefined =
+      finding.condition === 'CARIES' ? 'CARIES' : finding.condition === 'RESTORATION' ? 'RESTORATION' : undefined;
+    if (finding.condition === 'MISSING') entry.missing = true;
+    else if (surfaceMark && finding.surfaces.length > 0) finding.surfaces.forEach(surface => { entry.surfaces[surface] = surfaceMark; });
+    else entry.conditions.push(finding.condition);
+    if (finding.description) entry.note = finding.description;
+    return entry;
+  });
+
+// 3. From simulation hotspots: tooth numbers and conditions are read from the free text
+const TOOTH_MENTION = /(?:#|tooth|teeth|السن|سن|الضرس|ضرس|الرحى|رحى)\s*(?:رقم|no\.?|number)?\s*(\d{2})\b/gi;
+
+const CONDITION_PATTERNS: [ToothCondition, RegExp][] = [
+  ['PERIAPICAL_LESION', /periapical|abscess|granuloma|cyst|ذروي|خراج|كيس/i],
+  ['ROOT_CANAL', /root canal treated|endodontically treated|معالج لبياً/i],
+  ['FRACTURE', /fractur|crack|كسر|صدع/i],
+  ['BONE_LOSS', /bone loss|periodontitis|فقدان عظمي|التهاب دواعم/i],
+  ['IMPACTED', /impact|منطمر/i],
+  ['CARIES', /caries|carious|decay|نخر|تسوس/i],
+];
+
+const TREATMENT_PATTERNS: [PlannedTreatment, RegExp][] = [
+  ['EXTRACTION', /extract|قلع/i],
+  ['ROOT_CANAL', /root canal|endodontic|pulpectomy|RCT|معالجة لبية|سحب العصب/i],
+  ['CROWN', /crown|تاج|تتويج/i],
+  ['IMPLANT', /implant|زرع/i],
+  ['SCALING', /scaling|root planing|تقليح|تنظيف/i],
+  ['FILLING', /filling|restor|composite|amalgam|حشو|ترميم/i],
+];
+
+export const entriesFromHotspots = (hotspots: Hotspot[]): ToothChartEntry[] =>
+  hotspots.flatMap(spot => {
+    const text = [spot.label, spot.description, spot.diagnosis].join(' ');
+    const teeth = unique(Array.from(text.matchAll(TOOTH_MENTION), match => toFdi(match[1], 'FDI')).filter((t): t is string => !!t));
+    const conditions = CONDITION_PATTERNS.filter(([, pattern]) => pattern.test(`${spot.diagnosis} ${spot.label}`)).map(([condition]) => condition);
+    const planned = TREATMENT_PATTERNS.filter(([, pattern]) => pattern.test(spot.treatmentPlan)).map(([treatment]) => treatment);
+    return teeth.map(tooth => ({ ...emptyEntry(tooth), conditions, planned, note: spot.label }));
+  });
+
+// 4. JSON export
+export const exportOdontogram = (chart: Odontogram): string =>
+  JSON.stringify({
+    format: 'dentalbrain.odontogram',
+    formatVersion: 1,
+    exportedAt: new Date().toISOString(),
+    notation: 'FDI',
+    chart,
+  } as OdontogramExport, null, 2);
@@ -0,0 +1,320 @@
+import { Consciousness, EmergencyActionId, PhysiologyEventId, Vitals, VitalSigns } from "../types";
+
+// Patient physiology for the simulation monitor.
+// Vitals start from the generated values and drift with the events of the session: each event pushes
+// the vitals towards its peak change as it develops, and the student's actions relieve emergencies.
+// Time is simulated seconds since the monitor started; the component decides how fast it runs.
+
+export interface EventRecord {
+  id: PhysiologyEventId;
+  startS: number;
+  actions: { id: EmergencyActionId; atS: number; harmful?: string }[];
+  resolvedAtS?: number;
+  // Ended by the student before it resolved (handed over); no longer acts on the patient
+  endedAtS?: number;
+}
+
+export interface MonitorState {
+  baseline: VitalSigns;
+  // Risk level of the case scales how strongly the patient reacts (drugs and emergencies)
+  sensitivity: number;
+  timeS: number;
+  events: EventRecord[];
+  history: { timeS: number; vitals: VitalSigns }[];
+}
+
+interface EventDefinition {
+  label: string;
+  description: string;
+  emergency: boolean;
+  // Change from baseline at full severity
+  peak: Partial<VitalSigns>;
+  onsetS: number;
+  // Self-limited events fade out by this time; emergencies persist until treated
+  resolveS?: number;
+  // Blood glucose falls as the event develops, clouding consciousness independently of the vitals
+  neuroglycopenic?: boolean;
+  // Share of the event each action relieves (summed, capped at 1)
+  treatments: Partial<Record<EmergencyActionId, number>>;
+  // Expected response; `action` lists acceptable alternatives, `withinS` is the target time from onset
+  protocol: { action: EmergencyActionId[]; withinS: number; points: number }[];
+  harmful: Partial<Record<EmergencyActionId, string>>;
+}
+
+const HISTORY_LENGTH = 120;
+// Time for an action to take full effect
+const ACTION_EFFECT_S = 60;
+const RESOLVED_RELIEF = 0.95;
+const HARMFUL_PENALTY = 15;
+
+// 1. Events and actions
+export const PHYSIOLOGY_EVENTS: Record<PhysiologyEventId, EventDefinition> = {
+  LA_EPINEPHRINE: {
+    label: 'تخدير موضعي مع إبينفرين',
+    description: 'ليدوكائين 2% مع إبينفرين 1:100,000 — تسرّع قلب وارتفاع ضغط عابران.',
+    emergency: false,
+    peak: { heartRate: 18, systolic: 14, diastolic: -2 },
+    onsetS: 90,
+    resolveS: 600,
+    treatments: {},
+    protocol: [],
+    harmful: {},
+  },
+  LA_PLAIN: {
+    label: 'تخدير موضعي بدون إبينفرين',
+    description: 'ميبيفاكائين 3% — تأثير قلبي وعائي ضئيل.',
+    emergency: false,
+    peak: { heartRate: 3, systolic: -3 },
+    onsetS: 60,
+    resolveS: 300,
+    treatments: {},
+    protocol: [],
+    harmful: {},
+  },
+  VASOVAGAL: {
+    label: 'غشي وعائي مبهمي',
+    description: 'بطء قلب وهبوط ضغط مع شحوب وتعرّق ثم فقدان وعي.',
+    emergency: true,
+    peak: { heartRate: -32, systolic: -50, diastolic: -30, oxygenSaturation: -3, respiratoryRate: -4 },
+    onsetS: 75,
+    treatments: { SUPINE: 0.75, OXYGEN: 0.15, STOP_PROCEDURE: 0.1 },
+    protocol: [
+      { action: ['STOP_PROCEDURE'], withinS: 30, points: 25 },
+      { action: ['SUPINE'], withinS: 60, points: 50 },
+      { action: ['OXYGEN'], withinS: 120, points: 25 },
+    ],
+    harmful: {
+      UPRIGHT: 'الجلوس يفاقم نقص التروية الدماغية',
+      ADRENALINE: 'الأدرينالين غير مستطب في الغشي الوعائي المبهمي',
+    },
+  },
+  HYPOGLYCAEMIA: {
+    label: 'نقص سكر الدم',
+    description: 'تسرّع قلب وتعرّق ورجفان، ثم تشوّش وفقدان وعي تدريجي.',
+    emergency: true,
+    peak: { heartRate: 28, systolic: 12, respiratoryRate: 4 },
+    onsetS: 360,
+    neuroglycopenic: true,
+    treatments: { ORAL_GLUCOSE: 0.9, GLUCAGON: 0.9, STOP_PROCEDURE: 0.1 },
+    protocol: [
+      { action: ['STOP_PROCEDURE'], withinS: 60, points: 25 },
+      { action: ['ORAL_GLUCOSE', 'GLUCAGON'], withinS: 180, points: 60 },
+      { action: ['CALL_EMERGENCY'], withinS: 300, points: 15 },
+    ],
+    harmful: {
+      ADRENALINE: 'الأدرينالين غير مستطب في نقص السكر',
+    },
+  },
+  ANAPHYLAXIS: {
+    label: 'تأق (صدمة تحسسية)',
+    description: 'شرى ووذمة وصعوبة تنفس مع تسرّع قلب وهبوط ضغط سريع.',
+    emergency: true,
+    peak: { heartRate: 45, systolic: -60, diastolic: -38, oxygenSaturation: -14, respiratoryRate: 16 },
+    onsetS: 150,
+    treatments: { ADRENALINE: 0.7, OXYGEN: 0.15, SUPINE: 0.1, ANTIHISTAMINE: 0.05, STOP_PROCEDURE: 0.05 },
+    protocol: [
+      { action: ['STOP_PROCEDURE'], withinS: 30, points: 10 },
+      { action: ['CALL_EMERGENCY'], withinS: 60, points: 20 },
+      { action: ['ADRENALINE'], withinS: 90, points: 50 },
+      { action: ['OXYGEN'], withinS: 120, points: 20 },
+    ],
+    harmful: {
+      ORAL_GLUCOSE: 'لا شيء عن طريق الفم مع وذمة المجرى التنفسي',
+    },
+  },
+};
+
+export const EMERGENCY_ACTIONS: { id: EmergencyActionId; label: string }[] = [
+  { id: 'STOP_PROCEDURE', label: 'إيقاف الإجراء' },
+  { id: 'CALL_EMERGENCY', label: 'طلب الإسعاف' },
+  { id: 'SUPINE', label: 'استلقاء ورفع الساقين' },
+  { id: 'UPRIGHT', label: 'وضعية الجلوس' },
+  { id: 'OXYGEN', label: 'أكسجين 15 ل/د' },
+  { id: 'ORAL_GLUCOSE', label: 'سكر فموي 15-20 غ' },
+  { id: 'GLUCAGON', label: 'غلوكاغون 1 ملغ عضلي' },
+  { id: 'ADRENALINE', label: 'أدرينالين 0.5 ملغ عضلي' },
+  { id: 'ANTIHISTAMINE', label: 'مضاد هيستامين' },
+];
+
+// 2. Starting point
+const SENSITIVITY: Record<string, number> = { LOW: 0.8, MODERATE: 1, HIGH: 1.3 };
+
+const DEFAULT_VITALS: VitalSigns = { heartRate: 76, systolic: 120, diastolic: 80, oxygenSaturation: 98, respiratoryRate: 14 };
+
+export const parseBloodPressure = (value?: string): { systolic: number; diastolic: number } | null => {
+  const match = value?.match(/(\d{2,3})\s*\/\s*(\d{2,3})/);
+  return match ? { systolic: Number(match[1]), diastolic: Number(match[2]) } : null;
+};
+
+export const createMonitor = (vitals?: Vitals, riskLevel?: string): MonitorState => {
+  const pressure = parseBloodPressure(vitals?.bloodPressure);
+  const baseline: VitalSigns = {
+    ...DEFAULT_VITALS,
+    ...(vitals?.heartRate ? { heartRate: vitals.heartRate } : {}),
+    ...(vitals?.oxygenSaturation ? { oxygenSaturation: vitals.oxygenSaturation } : {}),
+    ...(pressure || {}),
+  };
+  return {
+    baseline,
+    sensitivity: SENSITIVITY[riskLevel?.toUpperCase() || ''] ?? 1,
+    timeS: 0,
+    events: [],
+    history: [{ timeS: 0, vitals: baseline }],
+  };
+};
+
+// 3. Simulation
+const smoothstep = (t: number) => t * t * (3 - 2 * t);
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+// How far the event has developed, before treatment (0-1)
+const severityOf = (event: EventRecord, definition: EventDefinition, timeS: number) => {
+  const t = timeS - event.startS;
+  if (t <= 0) return 0;
+  const onset = smoothstep(clamp01(t / definition.onsetS));
+  if (!definition.resolveS || t <= definition.onsetS) return onset;
+  return 1 - clamp01((t - definition.onsetS) / (definition.resolveS - definition.onsetS));
+};
+
+const reliefOf = (event: EventRecord, definition: EventDefinition, timeS: number) =>
+  Math.min(1, event.actions.reduce((sum, action) => {
+    if (action.harmful) return sum;
+    const amount = definition.treatments[action.id] || 0;
+    return sum + amount * clamp01((timeS - action.atS) / ACTION_EFFECT_S);
+  }, 0));
+
+// Effective share of the event still acting on the patient
+const activityOf = (state: MonitorState, event: EventRecord, timeS = state.timeS) => {
+  if (event.endedAtS !== undefined) return 0;
+  const definition = PHYSIOLOGY_EVENTS[event.id];
+  return severityOf(event, definition, timeS) * (1 - reliefOf(event, definition, timeS));
+};
+
+const VITAL_LIMITS: Record<keyof VitalSigns, [number, number]> = {
+  heartRate: [25, 220],
+  systolic: [40, 240],
+  diastolic: [20, 140],
+  oxygenSaturation: [60, 100],
+  respiratoryRate: [4, 45],
+};
+
+export const currentVitals = (state: MonitorState, timeS = state.timeS): VitalSigns => {
+  const vitals = { ...state.baseline };
+  state.events.forEach(event => {
+    const activity = activityOf(state, event, timeS);
+    // Emergencies are scaled by the case risk; drug effects too, as they reflect cardiovascular reserve
+    (Object.entries(PHYSIOLOGY_EVENTS[event.id].peak) as [keyof VitalSigns, number][]).forEach(([key, delta]) => {
+      vitals[key] += delta * activity * state.sensitivity;
+    });
+  });
+  // Small beat-to-beat variability so the monitor does not look frozen
+  vitals.heartRate += Math.sin(timeS * 0.9) * 1.2;
+  vitals.respiratoryRate += Math.sin(timeS * 0.31) * 0.6;
+  (Object.keys(vitals) as (keyof VitalSigns)[]).forEach(key => {
+    const [min, max] = VITAL_LIMITS[key];
+    vitals[key] = Math.min(max, Math.max(min, vitals[key]));
+  });
+  return vitals;
+};
+
+export const consciousnessOf = (state: MonitorState): Consciousness => {
+  const vitals = currentVitals(state);
+  const glycaemic = state.events
+    .filter(event => PHYSIOLOGY_EVENTS[event.id].neuroglycopenic)
+    .reduce((max, event) => Math.max(max, activityOf(state, event)), 0);
+  if (vitals.systolic < 70 || vitals.oxygenSaturation < 80 || glycaemic > 0.85) return 'UNCONSCIOUS';
+  if (vitals.systolic < 90 || vitals.oxygenSaturation < 88 || glycaemic > 0.5) return 'DROWSY';
+  return 'ALERT';
+};
+
+export const activeEmergency = (state: MonitorState): EventRecord | undefined =>
+  state.events.find(event => PHYSIOLOGY_EVENTS[event.id].emergency && event.resolvedAtS === undefined && event.endedAtS === undefined);
+
+export const advanceMonitor = (state: MonitorState, dtS: number): MonitorState => {
+  const timeS = state.timeS + dtS;
+  const next = { ...state, timeS };
+  next.events = state.events.map(event => {
+    const definition = PHYSIOLOGY_EVENTS[event.id];
+    if (!definition.emergency || event.resolvedAtS !== undefined || event.endedAtS !== undefined) return event;
+    return reliefOf(event, definition, timeS) >= RESOLVED_RELIEF ? { ...event, resolvedAtS: timeS } : event;
+  });
+  next.history = [...state.history, { timeS, vitals: currentVitals(next) }].slice(-HISTORY_LENGTH);
+  return next;
+};
+
+export const triggerEvent = (state: MonitorState, id: PhysiologyEventId): MonitorState => {
+  // One emergency at a time, so every action belongs to a single event
+  if (PHYSIOLOGY_EVENTS[id].emergency && activeEmergency(state)) return state;
+  return { ...state, events: [...state.events, { id, startS: state.timeS, actions: [] }] };
+};
+
+export const endEmergency = (state: MonitorState): MonitorState => {
+  const emergency = activeEmergency(state);
+  if (!emergency) return state;
+  return { ...state, events: state.events.map(event => (event === emergency ? { ...event, endedAtS: state.timeS } : event)) };
+};
+
+// Actions are recorded against the running emergency; harmful ones are flagged and give no relief
+export const applyAction = (state: MonitorState, action: EmergencyActionId): MonitorState => {
+  const emergency = activeEmergency(state);
+  if (!emergency || emergency.actions.some(a => a.id === action)) return state;
+  const definition = PHYSIOLOGY_EVENTS[emergency.id];
+  const harmful = definition.harmful[action]
+    || (action === 'ORAL_GLUCOSE' && consciousnessOf(state) === 'UNCONSCIOUS' ? 'لا شيء عن طريق الفم لمريض فاقد الوعي (خطر الاستنشاق)' : undefined);
+  const recorded = { id: action, atS: state.timeS, ...(harmful ? { harmful } : {}) };
+  return { ...state, events: state.events.map(event => (event === emergency ? { ...event, actions: [...event.actions, recorded] } : event)) };
+};
+
+// 4. Alarms
+export type AlarmLevel = 'WARNING' | 'CRITICAL';
+
+export interface VitalAlarm {
+  vital: keyof VitalSigns | 'consciousness';
+  level: AlarmLevel;
+  message: string;
+}
+
+export const vitalAlarms = (vitals: VitalSigns, consciousness: Consciousness = 'ALERT'): VitalAlarm[] => {
+  const alarms: VitalAlarm[] = [];
+  const check = (vital: keyof VitalSigns, value: number, label: string, critical: [number, number], warning: [number, number]) => {
+    if (value < critical[0] || value > critical[1]) alarms.push({ vital, level: 'CRITICAL', message: `${label} ${value < critical[0] ? 'منخفض جداً' : 'مرتفع جداً'}` });
+    else if (value < warning[0] || value > warning[1]) alarms.push({ vital, level: 'WARNING', message: `${label} ${value < warning[0] ? 'منخفض' : 'مرتفع'}` });
+  };
+  check('heartRate', vitals.heartRate, 'النبض', [40, 140], [50, 110]);
+  check('systolic', vitals.systolic, 'الضغط الانقباضي', [80, 200], [90, 170]);
+  check('oxygenSaturation', vitals.oxygenSaturation, 'الإشباع', [90, 101], [94, 101]);
+  check('respiratoryRate', vitals.respiratoryRate, 'التنفس', [8, 30], [10, 24]);
+  if (consciousness !== 'ALERT') alarms.push({ vital: 'consciousness', level: consciousness === 'UNCONSCIOUS' ? 'CRITICAL' : 'WARNING', message: consciousness === 'UNCONSCIOUS' ? 'فاقد الوعي' : 'تشوّش الوعي' });
+  return alarms;
+};
+
+// 5. Scoring of the emergency response
+export interface EmergencyScore {
+  points: number;
+  maxPoints: number;
+  steps: { actions: EmergencyActionId[]; withinS: number; doneAfterS?: number; points: number; maxPoints: number }[];
+  harmful: { action: EmergencyActionId; reason: string }[];
+  resolved: boolean;
+  durationS: number;
+}
+
+// Steps done in time earn full points, late ones half; each harmful action costs HARMFUL_PENALTY
+export const scoreEmergency = (event: EventRecord, nowS: number): EmergencyScore => {
+  const definition = PHYSIOLOGY_EVENTS[event.id];
+  const steps = definition.protocol.map(step => {
+    const done = event.actions.find(a => !a.harmful && step.action.includes(a.id));
+    const doneAfterS = done ? done.atS - event.startS : undefined;
+    const points = doneAfterS === undefined ? 0 : doneAfterS <= step.withinS ? step.points : Math.round(step.points / 2);
+    return { actions: step.action, withinS: step.withinS, doneAfterS, points, maxPoints: step.points };
+  });
+  const harmful = event.actions.filter(a => a.harmful).map(a => ({ action: a.id, reason: a.harmful! }));
+  const earned = steps.reduce((sum, step) => sum + step.points, 0) - harmful.length * HARMFUL_PENALTY;
+  return {
+    points: Math.max(0, earned),
+    maxPoints: steps.reduce((sum, step) => sum + step.maxPoints, 0),
+    steps,
+    harmful,
+    resolved: event.resolvedAtS !== undefined,
+    durationS: (event.resolvedAtS ?? event.endedAtS ?? nowS) - event.startS,
+  };
+};
@@ -0,0 +1,23 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_TEMPLATES, PromptTemplate, builtInTemplate } from './promptTemplates';
+
+// Registry written before simulation v2 became a built-in version: custom versions 2 and 3, 3 active
+const custom = (version: number): PromptTemplate =>
+  ({ ...DEFAULT_TEMPLATES.simulation, version, userPrompt: `Custom ${version}: {{topic}} {{outputLanguage}}`, note: undefined, createdAt: version });
+const storage = new Map([['dentalbrain.promptTemplates', JSON.stringify({ versions: { simulation: [custom(2), custom(3)] }, active: { simulation: 3 } })]]);
+Object.assign(globalThis, {
+  localStorage: { getItem: (key: string) => storage.get(key) ?? null, setItem: (key: string, value: string) => storage.set(key, value) },
+});
+
+test('custom versions move above the built-in versions they collide with', async () => {
+  const { getActiveTemplate, listTemplateVersions, saveTemplateVersion } = await import('./promptRegistry');
+  const versions = listTemplateVersions('simulation');
+  assert.deepEqual(versions.map(t => t.version), [1, 2, 3, 4]);
+  assert.equal(versions[1], builtInTemplate('simulation', 2));
+  assert.match(versions[1].userPrompt, /requiredInstruments/);
+  assert.doesNotMatch(versions[0].userPrompt, /requiredInstruments/);
+  assert.deepEqual(versions.slice(2).map(t => t.userPrompt), [custom(2).userPrompt, custom(3).userPrompt]);
+  assert.equal(getActiveTemplate('simulation').userPrompt, custom(3).userPrompt);
+  assert.equal(saveTemplateVersion(custom(9)).version, 5);
+});
@@ -0,0 +1,160 @@
+import {
+  BUILT_IN_TEMPLATES,
+  DEFAULT_TEMPLATES,
+  PROMPT_TEMPLATE_IDS,
+  PromptPack,
+  PromptTemplate,
+  PromptTemplateId,
+  parseTemplate,
+  validateTemplate
+} from "./promptTemplates";
+
+// Browser-side registry of prompt template versions (localStorage).
+// The built-in versions (1, and any added later) are never stored; saved edits and imported
+// templates get the next free version number, so a version always identifies one text.
+// The active version is sent with every request and recorded on the generated artifact.
+// On the API proxy a custom version only runs with an instructor token or a signature (server/promptAuth.ts).
+
+interface StoredRegistry {
+  versions: Partial<Record<PromptTemplateId, PromptTemplate[]>>;
+  active: Partial<Record<PromptTemplateId, number>>;
+}
+
+const REGISTRY_STORAGE_KEY = 'dentalbrain.promptTemplates';
+// Session only: the token lets this browser run and sign custom templates on the proxy
+const INSTRUCTOR_TOKEN_STORAGE_KEY = 'dentalbrain.instructorToken';
+
+const readRegistry = (): StoredRegistry => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(REGISTRY_STORAGE_KEY) || 'null');
+    if (stored && typeof stored === 'object') {
+      return { versions: stored.versions || {}, active: stored.active || {} };
+    }
+  } catch (e) {
+    // localStorage unavailable or corrupted: fall back to the defaults
+  }
+  return { versions: {}, active: {} };
+};
+
+// Custom versions saved before a built-in version was added may use its number. They move above the
+// newest built-in version, in their order, and the active version moves with them. Runs on every load.
+const migrateVersions = (stored: StoredRegistry): StoredRegistry => {
+  const versions = { ...stored.versions };
+  const active = { ...stored.active };
+  PROMPT_TEMPLATE_IDS.forEach(id => {
+    const custom = versions[id] || [];
+    if (custom.length === 0) return;
+    const shift = DEFAULT_TEMPLATES[id].version - Math.min(...custom.map(t => t.version)) + 1;
+    if (shift <= 0) return;
+    versions[id] = custom.map(t => ({ ...t, version: t.version + shift }));
+    if (custom.some(t => t.version === active[id])) active[id] = active[id]! + shift;
+  });
+  return { versions, active };
+};
+
+let registry: StoredRegistry = migrateVersions(readRegistry());
+
+const persist = () => {
+  try {
+    localStorage.setItem(REGISTRY_STORAGE_KEY, JSON.stringify(registry));
+  } catch (e) {
+    // Edits simply won't survive a reload
+  }
+};
+
+// 1. Reading
+export const listTemplateVersions = (id: PromptTemplateId): PromptTemplate[] =>
+  [...BUILT_IN_TEMPLATES[id], ...(registry.versions[id] || [])];
+
+export const getActiveTemplate = (id: PromptTemplateId): PromptTemplate => {
+  const versions = listTemplateVersions(id);
+  return versions.find(t => t.version === registry.active[id]) || versions[versions.length - 1];
+};
+
+// 2. Editing; an edited text needs a new signature, so the draft's one is never carried over
+export const saveTemplateVersion = (draft: PromptTemplate, note?: string, signature?: string): PromptTemplate => {
+  const problems = validateTemplate(draft);
+  if (problems.length > 0) throw new Error(problems.join('\n'));
+
+  const versions = listTemplateVersions(draft.id);
+  const saved: PromptTemplate = {
+    ...draft,
+    version: Math.max(...versions.map(t => t.version)) + 1,
+    note: note?.trim() || undefined,
+    createdAt: Date.now(),
+    signature,
+  };
+  registry = {
+    versions: { ...registry.versions, [draft.id]: [...(registry.versions[draft.id] || []), saved] },
+    active: { ...registry.active, [draft.id]: saved.version },
+  };
+  persist();
+  return saved;
+};
+
+export const setActiveTemplateVersion = (id: PromptTemplateId, version: number) => {
+  if (!listTemplateVersions(id).some(t => t.version === version)) return;
+  registry = { ...registry, active: { ...registry.active, [id]: version } };
+  persist();
+};
+
+export const setTemplateSignature = (id: PromptTemplateId, version: number, signature: string) => {
+  const stored = registry.versions[id] || [];
+  if (!stored.some(t => t.version === version)) return;
+  registry = { ...registry, versions: { ...registry.versions, [id]: stored.map(t => (t.version === version ? { ...t, signature } : t)) } };
+  persist();
+};
+
+export const getInstructorToken = (): string => {
+  try {
+    return sessionStorage.getItem(INSTRUCTOR_TOKEN_STORAGE_KEY) || '';
+  } catch (e) {
+    // sessionStorage unavailable
+    return '';
+  }
+};
+
+export const setInstructorToken = (token: string) => {
+  try {
+    if (token.trim()) sessionStorage.setItem(INSTRUCTOR_TOKEN_STORAGE_KEY, token.trim());
+    else sessionStorage.removeItem(INSTRUCTOR_TOKEN_STORAGE_KEY);
+  } catch (e) {
+    // The token is simply not remembered
+  }
+};
+
+// History is kept; only the newest built-in version is re-activated
+export const resetTemplate = (id: PromptTemplateId) => setActiveTemplateVersion(id, DEFAULT_TEMPLATES[id].version);
+
+// 3. Template packs (JSON files shared between instructors, or handed to students with their signatures)
+export const exportPromptPack = (ids: PromptTemplateId[] = PROMPT_TEMPLATE_IDS): PromptPack => ({
+  format: 'dentalbrain.prompt-pack',
+  formatVersion: 1,
+  exportedAt: new Date().toISOString(),
+  templates: ids.map(getActiveTemplate),
+});
+
+// Every valid template becomes a new local version and is activated; invalid ones are counted
+export const importPromptPack = (text: string): { imported: PromptTemplate[]; rejected: number } => {
+  let pack: any;
+  try {
+    pack = JSON.parse(text);
+  } catch (e) {
+    throw new Error("الملف ليس JSON صالحاً.");
+  }
+  if (pack?.format !== 'dentalbrain.prompt-pack' || !Array.isArray(pack.templates)) {
+    throw new Error("الملف ليس حزمة قوالب DentalBrain.");
+  }
+
+  const imported: PromptTemplate[] = [];
+  let rejected = 0;
+  pack.templates.forEach((raw: unknown) => {
+    const template = parseTemplate(raw);
+    if (!template) {
+      rejected++;
+      return;
+    }
+    imported.push(saveTemplateVersion(template, template.note || `مستورد من حزمة (v${template.version})`, template.signature));
+  });
+  return { imported, rejected };
+};
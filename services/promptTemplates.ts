@@ -0,0 +1,256 @@
+import type { PromptStamp } from "../types";
+
+// Prompt templates for the text generators. Shared by the browser (editor, registry) and the
+// server (rendering), so this module must not touch browser-only APIs.
+//
+// Syntax: {{name}} is replaced by a variable. Request variables (topic, count, ...) are filled
+// per call; custom variables are defined on the template itself so instructors can tune tone,
+// comment length, mnemonic and exam style without touching the prompt body.
+
+export type PromptTemplateId = PromptStamp['templateId'];
+
+export interface TemplateVariable {
+  name: string;
+  description: string;
+  value: string;
+}
+
+export interface PromptTemplate {
+  id: PromptTemplateId;
+  version: number;
+  name: string;
+  systemInstruction: string;
+  userPrompt: string;
+  variables: TemplateVariable[]; // custom variables only
+  note?: string; // change note for this version
+  createdAt: number;
+  signature?: string; // issued by the API to an instructor; lets a custom version run on the proxy (server/promptAuth.ts)
+}
+
+export interface RenderedPrompt {
+  systemInstruction: string;
+  userPrompt: string;
+}
+
+export interface PromptPack {
+  format: 'dentalbrain.prompt-pack';
+  formatVersion: 1;
+  exportedAt: string;
+  templates: PromptTemplate[];
+}
+
+export const PROMPT_TEMPLATE_IDS: PromptTemplateId[] = ['simulation', 'practical', 'quiz', 'research'];
+
+// Variables supplied by each request; every other {{name}} must be a custom variable
+export const REQUEST_VARIABLES: Record<PromptTemplateId, string[]> = {
+  simulation: ['topic'],
+  practical: ['topic'],
+  quiz: ['topic', 'count', 'difficulty', 'language'],
+  research: ['topic'],
+};
+
+// Sample values for previews
+export const SAMPLE_REQUEST_VALUES: Record<string, string> = {
+  topic: 'Class II composite restoration',
+  count: '3',
+  difficulty: 'Medium',
+  language: 'ARABIC',
+};
+
+const MAX_TEMPLATE_LENGTH = 20000;
+
+// 1. Built-in versions. Version 1 reproduces the original hard-coded prompts. A built-in prompt is never
+// edited in place: a change is added as the next built-in version, so a stamp always identifies one text.
+const ORIGINAL_TEMPLATES: Record<PromptTemplateId, PromptTemplate> = {
+  simulation: {
+    id: 'simulation',
+    version: 1,
+    name: 'Clinical Simulation Architect',
+    systemInstruction: 'You are a Clinical Dental Simulation Architect. Return valid JSON.',
+    userPrompt: `Topic: "{{topic}}". Create a dental clinical simulation scenario.
+
+      OUTPUT: JSON Object.
+      LANGUAGE: {{outputLanguage}}.
+      Structure: {
+        "theorySummary": "string", "riskLevel": "string",
+        "hotspots": [{ "x": number, "y": number, "label": "string", "description": "string", "diagnosis": "string", "indications": "string", "classification": "string", "treatmentPlan": "string", "clinicalPearl": "string", "commonMistake": "string" }],
+        "vitals": { "heartRate": number, "bloodPressure": "string", "oxygenSaturation": number },
+        "imagePrompt": "string (English, Photorealistic clinical view)",
+        "radiologyPrompt": "string (English, X-Ray)",
+        "explodedPrompt": "string (English, 3D Diagram)"
+      }`,
+    variables: [
+      { name: 'outputLanguage', description: 'لغة النصوص الموجهة للطالب', value: 'ARABIC (Scientific Medical Arabic)' },
+    ],
+    createdAt: 0,
+  },
+  practical: {
+    id: 'practical',
+    version: 1,
+    name: 'Legendary Dental Mentor',
+    systemInstruction: "You are the 'Legendary Dental Mentor'. Output strictly valid JSON.",
+    userPrompt: `Topic/Text to Explain: "{{topic}}".
+
+      OUTPUT: JSON Object.
+      Structure: {
+        "practicalProtocol": [{
+            "id": "string",
+            "title": "string (Section Title)",
+            "originalText": "string (SECTION 1: The EXACT original English source text for this segment. Keep it raw and academic.)",
+            "medicalTranslation": "string (SECTION 2: Precise Medical Arabic Translation of the original text.)",
+            "professorComment": "string (SECTION 3: The Deep Explanation. Arabic. {{professorCommentStyle}})",
+            "memoryAid": "string (SECTION 4: The Funny Mnemonic. {{memoryAidStyle}})",
+            "visualPrompt": "string (SECTION 5: English. A description for a specific clinical image representing this exact step.)"
+        }]
+      }`,
+    variables: [
+      {
+        name: 'professorCommentStyle',
+        description: 'طول وأسلوب شرح الأستاذ',
+        value: 'Medium length. Insightful, linking concepts together, beautiful language, but not overly long.',
+      },
+      {
+        name: 'memoryAidStyle',
+        description: 'أسلوب الوسيلة التذكيرية',
+        value: "EXTREMELY FUNNY & CREATIVE. Use characters, scenarios, wordplay, puns, or local humor to help memorize the concept. E.g., 'Pharma -> A mouse (Far) didn't eat so he needed meds'. Make it memorable!",
+      },
+    ],
+    createdAt: 0,
+  },
+  quiz: {
+    id: 'quiz',
+    version: 1,
+    name: 'Exam Professor',
+    systemInstruction: 'You are a Dental School Professor. Create exam. JSON only. {{examStyle}}',
+    userPrompt: `Topic: "{{topic}}". Create an exam with {{count}} questions. Level: {{difficulty}}
+
+      OUTPUT: JSON Object.
+      LANGUAGE: {{language}}.
+      Structure: {
+        "essayQuestions": [{ "id": "string", "question": "string", "answer": "string", "difficulty": "{{difficulty}}", "keyPoints": ["string"] }],
+        "shortAnswerQuestions": [{ "id": "string", "question": "string", "answer": "string", "difficulty": "{{difficulty}}" }],
+        "mcqQuestions": [{ "id": "string", "question": "string", "options": ["string"], "correctAnswer": "string", "explanation": "string", "difficulty": "{{difficulty}}" }]
+      }`,
+    variables: [
+      { name: 'examStyle', description: 'أسلوب الأسئلة (سريري، نظري، حالات...)', value: '' },
+    ],
+    createdAt: 0,
+  },
+  research: {
+    id: 'research',
+    version: 1,
+    name: 'Visual Research',
+    systemInstruction: '',
+    userPrompt: `Topic: "{{topic}}". Create 3 distinct medical image prompts and use Google Search.
+
+      OUTPUT: JSON Object.
+      Structure: {
+        "imagePrompts": ["string", "string", "string"],
+        "searchQueries": ["string"]
+      }`,
+    variables: [],
+    createdAt: 0,
+  },
+};
+
+// Later built-in versions, oldest first; numbered on from version 1
+const LATER_VERSIONS: Partial<Record<PromptTemplateId, PromptTemplate[]>> = {
+  simulation: [
+    {
+      ...ORIGINAL_TEMPLATES.simulation,
+      version: 2,
+      userPrompt: `Topic: "{{topic}}". Create a dental clinical simulation scenario.
+
+      OUTPUT: JSON Object.
+      LANGUAGE: {{outputLanguage}}.
+      Structure: {
+        "theorySummary": "string", "riskLevel": "string",
+        "hotspots": [{ "x": number, "y": number, "label": "string", "description": "string", "diagnosis": "string", "indications": "string", "classification": "string", "treatmentPlan": "string", "clinicalPearl": "string", "commonMistake": "string" }],
+        "vitals": { "heartRate": number, "bloodPressure": "string", "oxygenSaturation": number },
+        "requiredInstruments": [{ "name": "string", "isoNumber": "string", "useCase": "string", "step": "string (procedure step, in procedure order)", "settings": { "kind": "HIGH_SPEED|SLOW_SPEED|ENDO_MOTOR|IMPLANT_DRILL|IMPLANT_INSERTION|SURGICAL|HAND", "rpm": { "value": number, "min": number, "max": number }, "torqueNcm": { "value": number, "min": number, "max": number }, "fileSystem": "string (endodontic file system, if any)", "program": "string (reciprocating motor program, if any)" } }],
+        "imagePrompt": "string (English, Photorealistic clinical view)",
+        "radiologyPrompt": "string (English, X-Ray)",
+        "explodedPrompt": "string (English, 3D Diagram)"
+      }
+      Instrument settings must be the textbook or manufacturer values for this procedure (rpm and torque with their safe range); omit rpm/torque for hand instruments.`,
+      note: 'أدوات كل خطوة مع إعدادات القبضة والمحرك (requiredInstruments)',
+    },
+  ],
+};
+
+export const BUILT_IN_TEMPLATES = Object.fromEntries(
+  PROMPT_TEMPLATE_IDS.map(id => [id, [ORIGINAL_TEMPLATES[id], ...(LATER_VERSIONS[id] || [])]])
+) as Record<PromptTemplateId, PromptTemplate[]>;
+
+// The newest built-in version of each template: used when no other version is active
+export const DEFAULT_TEMPLATES = Object.fromEntries(
+  PROMPT_TEMPLATE_IDS.map(id => [id, BUILT_IN_TEMPLATES[id][BUILT_IN_TEMPLATES[id].length - 1]])
+) as Record<PromptTemplateId, PromptTemplate>;
+
+// 2. Rendering
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z_][\w]*)\s*\}\}/g;
+
+export const extractVariables = (text: string): string[] =>
+  Array.from(new Set(Array.from(text.matchAll(VARIABLE_PATTERN), match => match[1])));
+
+export const renderTemplate = (template: PromptTemplate, requestValues: Record<string, string | number>): RenderedPrompt => {
+  const values: Record<string, string> = {};
+  template.variables.forEach(variable => { values[variable.name] = variable.value; });
+  Object.entries(requestValues).forEach(([name, value]) => { values[name] = String(value); });
+
+  // Unknown variables render as empty text; validateTemplate reports them before saving
+  const fill = (text: string) => text.replace(VARIABLE_PATTERN, (_, name: string) => values[name] ?? '').trim();
+  return { systemInstruction: fill(template.systemInstruction), userPrompt: fill(template.userPrompt) };
+};
+
+// The built-in text of a version, or undefined for custom versions
+export const builtInTemplate = (id: PromptTemplateId, version: number): PromptTemplate | undefined =>
+  BUILT_IN_TEMPLATES[id].find(template => template.version === version);
+
+export const stampOf = (template: PromptTemplate): PromptStamp => ({ templateId: template.id, version: template.version });
+
+export const stampLabel = (stamp: PromptStamp) => `${stamp.templateId} v${stamp.version}`;
+
+// 3. Validation (editor, pack import and the server all use the same rules)
+export const validateTemplate = (template: PromptTemplate): string[] => {
+  const problems: string[] = [];
+  if (!PROMPT_TEMPLATE_IDS.includes(template.id)) return [`قالب غير معروف: ${template.id}`];
+  if (!template.userPrompt.trim()) problems.push('نص الطلب فارغ.');
+  if (template.userPrompt.length + template.systemInstruction.length > MAX_TEMPLATE_LENGTH) problems.push('القالب أطول من المسموح.');
+
+  const used = [...extractVariables(template.systemInstruction), ...extractVariables(template.userPrompt)];
+  if (!used.includes('topic')) problems.push('القالب يجب أن يستخدم المتغير {{topic}}.');
+
+  const known = new Set([...REQUEST_VARIABLES[template.id], ...template.variables.map(v => v.name)]);
+  used.filter(name => !known.has(name)).forEach(name => problems.push(`متغير غير معرّف: {{${name}}}`));
+
+  const names = template.variables.map(v => v.name);
+  names.forEach((name, i) => {
+    if (!/^[A-Za-z_]\w*$/.test(name)) problems.push(`اسم متغير غير صالح: "${name}"`);
+    else if (names.indexOf(name) !== i) problems.push(`متغير مكرر: ${name}`);
+    else if (REQUEST_VARIABLES[template.id].includes(name)) problems.push(`المتغير ${name} محجوز للطلب.`);
+  });
+  return problems;
+};
+
+// Coerces untrusted JSON (pack files, request bodies) into a template, or null if unusable
+export const parseTemplate = (raw: any): PromptTemplate | null => {
+  if (!raw || typeof raw !== 'object' || !PROMPT_TEMPLATE_IDS.includes(raw.id)) return null;
+  if (typeof raw.userPrompt !== 'string') return null;
+  const template: PromptTemplate = {
+    id: raw.id,
+    version: Number.isInteger(raw.version) && raw.version > 0 ? raw.version : 1,
+    name: typeof raw.name === 'string' ? raw.name : DEFAULT_TEMPLATES[raw.id as PromptTemplateId].name,
+    systemInstruction: typeof raw.systemInstruction === 'string' ? raw.systemInstruction : '',
+    userPrompt: raw.userPrompt,
+    variables: Array.isArray(raw.variables)
+      ? raw.variables
+          .filter((v: any) => v && typeof v.name === 'string')
+          .map((v: any) => ({ name: v.name, description: String(v.description ?? ''), value: String(v.value ?? '') }))
+      : [],
+    note: typeof raw.note === 'string' ? raw.note : undefined,
+    createdAt: Number(raw.createdAt) || Date.now(),
+    signature: typeof raw.signature === 'string' ? raw.signature : undefined,
+  };
+  return validateTemplate(template).length === 0 ? template : null;
+};
@@ -0,0 +1,83 @@
+import { Radiograph, RadiographMetadata, WindowLevel } from "../types";
+
+// Shared helpers for decoded radiographs (services/dicom.ts, services/tiff.ts):
+// window/level mapping of the raw values to 8-bit grey, and rendering to a canvas or PNG data URL.
+
+export class RadiographFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RadiographFormatError';
+  }
+}
+
+export const createRadiograph = (
+  pixels: Float32Array,
+  metadata: RadiographMetadata,
+  options: { window?: WindowLevel; invert?: boolean } = {}
+): Radiograph => {
+  let minValue = Infinity;
+  let maxValue = -Infinity;
+  for (let i = 0; i < pixels.length; i++) {
+    if (pixels[i] < minValue) minValue = pixels[i];
+    if (pixels[i] > maxValue) maxValue = pixels[i];
+  }
+  return {
+    metadata,
+    pixels,
+    minValue,
+    maxValue,
+    defaultWindow: options.window || fullRangeWindow({ minValue, maxValue }),
+    invert: !!options.invert,
+  };
+};
+
+// 1. Window presets
+export const fullRangeWindow = ({ minValue, maxValue }: Pick<Radiograph, 'minValue' | 'maxValue'>): WindowLevel => ({
+  center: (minValue + maxValue) / 2,
+  width: Math.max(1, maxValue - minValue),
+});
+
+// Narrow window around the default centre: separates enamel, dentin and bone
+export const highContrastWindow = (radiograph: Radiograph): WindowLevel => ({
+  center: radiograph.defaultWindow.center,
+  width: Math.max(1, radiograph.defaultWindow.width / 2),
+});
+
+// 2. Rendering
+export const toGreyscaleImageData = (radiograph: Radiograph, window: WindowLevel, invert = radiograph.invert): ImageData => {
+  const { width, height } = radiograph.metadata;
+  const image = new ImageData(width, height);
+  const lower = window.center - window.width / 2;
+  const scale = 255 / Math.max(1, window.width);
+  const data = image.data;
+  for (let i = 0; i < radiograph.pixels.length; i++) {
+    let grey = (radiograph.pixels[i] - lower) * scale;
+    grey = grey < 0 ? 0 : grey > 255 ? 255 : grey;
+    if (invert) grey = 255 - grey;
+    const at = i * 4;
+    data[at] = data[at + 1] = data[at + 2] = grey;
+    data[at + 3] = 255;
+  }
+  return image;
+};
+
+export const drawRadiograph = (canvas: HTMLCanvasElement, radiograph: Radiograph, window: WindowLevel, invert?: boolean) => {
+  canvas.width = radiograph.metadata.width;
+  canvas.height = radiograph.metadata.height;
+  canvas.getContext('2d')?.putImageData(toGreyscaleImageData(radiograph, window, invert), 0, 0);
+};
+
+// PNG without any metadata: this is the only form of a radiograph that is sent to the model
+export const radiographToDataUrl = (radiograph: Radiograph, window = radiograph.defaultWindow): string => {
+  const canvas = document.createElement('canvas');
+  drawRadiograph(canvas, radiograph, window);
+  return canvas.toDataURL('image/png');
+};
+
+// 3. Display helpers
+export const describeRadiograph = (metadata: RadiographMetadata): string[] => [
+  metadata.format === 'dicom' ? `DICOM${metadata.modality ? ` · ${metadata.modality}` : ''}` : 'TIFF',
+  `${metadata.width}×${metadata.height} · ${metadata.bitsStored} bit`,
+  ...(metadata.pixelSpacingMm ? [`${metadata.pixelSpacingMm.column.toFixed(3)} مم/بكسل`] : []),
+  ...(metadata.acquisitionDate ? [metadata.acquisitionDate] : []),
+];
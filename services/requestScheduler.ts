@@ -0,0 +1,210 @@
+// Central scheduler for every outbound model request.
+// - Token bucket per model (requests per minute, small burst)
+// - Priority: text before images, visible tab before background tabs
+// - Global and per-kind concurrency limits
+// - 429 handling: the model's bucket is paused for the server-provided retry delay
+//   instead of sleeping a fixed amount inside each caller.
+// - Cancellation: an aborted task leaves the queue immediately; a running one is
+//   rejected at once while its slot is held until the underlying call settles.
+
+import { createAbortError, raceWithSignal } from "./abort";
+import { QuotaError } from "./aiErrors";
+
+export type RequestKind = 'text' | 'image';
+export type SchedulerTab = 'simulation' | 'practical' | 'gallery' | 'quiz';
+
+export interface ScheduledTask {
+  model: string;
+  kind: RequestKind;
+  tab?: SchedulerTab;
+  signal?: AbortSignal;
+}
+
+export interface ModelLimit {
+  requestsPerMinute: number;
+  burst: number;
+}
+
+export interface SchedulerConfig {
+  defaultLimit: ModelLimit;
+  modelLimits: Record<string, ModelLimit>;
+  maxConcurrent: number;
+  maxConcurrentPerKind: Record<RequestKind, number>;
+  // Used when a 429 carries no retry information
+  fallbackRetryAfterMs: number;
+}
+
+const CONFIG_STORAGE_KEY = 'dentalbrain.scheduler';
+
+const DEFAULT_CONFIG: SchedulerConfig = {
+  defaultLimit: { requestsPerMinute: 10, burst: 2 },
+  modelLimits: {
+    'gemini-1.5-flash-latest': { requestsPerMinute: 15, burst: 3 },
+    // Browser -> /api proxy (services/serverProvider.ts); the server applies the model limits above
+    'dentalbrain-api': { requestsPerMinute: 30, burst: 5 },
+  },
+  maxConcurrent: 3,
+  maxConcurrentPerKind: { text: 2, image: 1 },
+  fallbackRetryAfterMs: 15000,
+};
+
+interface Bucket {
+  tokens: number;
+  lastRefill: number;
+  blockedUntil: number;
+}
+
+interface QueueEntry {
+  task: ScheduledTask;
+  seq: number;
+  start: () => void;
+}
+
+// Allows overriding limits from devtools without a redeploy:
+// localStorage.setItem('dentalbrain.scheduler', JSON.stringify({ maxConcurrent: 1 }))
+const loadConfig = (): SchedulerConfig => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CONFIG_STORAGE_KEY) || 'null');
+    if (stored && typeof stored === 'object') {
+      return {
+        ...DEFAULT_CONFIG,
+        ...stored,
+        modelLimits: { ...DEFAULT_CONFIG.modelLimits, ...(stored.modelLimits || {}) },
+        maxConcurrentPerKind: { ...DEFAULT_CONFIG.maxConcurrentPerKind, ...(stored.maxConcurrentPerKind || {}) },
+      };
+    }
+  } catch (e) {
+    // Ignore malformed overrides
+  }
+  return DEFAULT_CONFIG;
+};
+
+let config = loadConfig();
+let visibleTab: SchedulerTab | undefined;
+let seqCounter = 0;
+let pumpTimer: ReturnType<typeof setTimeout> | null = null;
+const queue: QueueEntry[] = [];
+const buckets = new Map<string, Bucket>();
+const running: Record<RequestKind, number> = { text: 0, image: 0 };
+
+const limitFor = (model: string): ModelLimit => config.modelLimits[model] || config.defaultLimit;
+
+const getBucket = (model: string): Bucket => {
+  let bucket = buckets.get(model);
+  if (!bucket) {
+    bucket = { tokens: limitFor(model).burst, lastRefill: Date.now(), blockedUntil: 0 };
+    buckets.set(model, bucket);
+  }
+  const limit = limitFor(model);
+  const now = Date.now();
+  const refill = ((now - bucket.lastRefill) / 60000) * limit.requestsPerMinute;
+  bucket.tokens = Math.min(limit.burst, bucket.tokens + refill);
+  bucket.lastRefill = now;
+  return bucket;
+};
+
+// Milliseconds until the model may send its next request (0 = now)
+const waitTimeFor = (model: string): number => {
+  const bucket = getBucket(model);
+  const now = Date.now();
+  if (bucket.blockedUntil > now) return bucket.blockedUntil - now;
+  if (bucket.tokens >= 1) return 0;
+  return Math.ceil(((1 - bucket.tokens) / limitFor(model).requestsPerMinute) * 60000);
+};
+
+// Lower runs first; evaluated at dispatch time so switching tabs re-prioritises the queue
+const priorityOf = (task: ScheduledTask): number =>
+  (task.kind === 'text' ? 0 : 2) + (task.tab && visibleTab && task.tab !== visibleTab ? 1 : 0);
+
+const totalRunning = () => running.text + running.image;
+
+const pump = () => {
+  if (pumpTimer) {
+    clearTimeout(pumpTimer);
+    pumpTimer = null;
+  }
+
+  queue.sort((a, b) => priorityOf(a.task) - priorityOf(b.task) || a.seq - b.seq);
+
+  let nextWake = Infinity;
+  for (let i = 0; i < queue.length && totalRunning() < config.maxConcurrent; ) {
+    const entry = queue[i];
+    if (running[entry.task.kind] >= config.maxConcurrentPerKind[entry.task.kind]) {
+      i++;
+      continue;
+    }
+    const wait = waitTimeFor(entry.task.model);
+    if (wait > 0) {
+      nextWake = Math.min(nextWake, wait);
+      i++;
+      continue;
+    }
+    getBucket(entry.task.model).tokens -= 1;
+    queue.splice(i, 1);
+    entry.start();
+  }
+
+  if (queue.length > 0 && nextWake !== Infinity) {
+    pumpTimer = setTimeout(pump, nextWake);
+  }
+};
+
+// Pauses every queued request for this model until the retry window has passed
+export const reportRateLimited = (model: string, retryAfterMs: number = config.fallbackRetryAfterMs) => {
+  const bucket = getBucket(model);
+  bucket.tokens = 0;
+  bucket.blockedUntil = Math.max(bucket.blockedUntil, Date.now() + retryAfterMs);
+  console.log(`⏳ ${model} rate limited, pausing for ${Math.ceil(retryAfterMs / 1000)}s`);
+  pump();
+};
+
+export const scheduleRequest = <T>(task: ScheduledTask, run: () => Promise<T>): Promise<T> => {
+  const { signal } = task;
+  if (signal?.aborted) return Promise.reject(createAbortError());
+
+  const settled = new Promise<T>((resolve, reject) => {
+    const entry: QueueEntry = {
+      task,
+      seq: seqCounter++,
+      start: () => {
+        signal?.removeEventListener('abort', onAbortWhileQueued);
+        running[task.kind]++;
+        run()
+          .then(resolve, (error) => {
+            // Callers classify errors before they get here (see aiErrors.ts)
+            if (error instanceof QuotaError) reportRateLimited(task.model, error.retryAfterMs);
+            reject(error);
+          })
+          .finally(() => {
+            running[task.kind]--;
+            pump();
+          });
+      },
+    };
+    const onAbortWhileQueued = () => {
+      const index = queue.indexOf(entry);
+      if (index !== -1) queue.splice(index, 1);
+      reject(createAbortError());
+    };
+    signal?.addEventListener('abort', onAbortWhileQueued, { once: true });
+    queue.push(entry);
+    pump();
+  });
+
+  return raceWithSignal(settled, signal);
+};
+
+export const setVisibleTab = (tab: SchedulerTab) => {
+  visibleTab = tab;
+  pump();
+};
+
+export const configureScheduler = (overrides: Partial<SchedulerConfig>) => {
+  config = { ...config, ...overrides };
+  pump();
+};
+
+export const getSchedulerSnapshot = () => ({
+  queued: queue.length,
+  running: { ...running },
+});
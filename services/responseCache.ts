@@ -0,0 +1,210 @@
+// Persistent IndexedDB cache for generated content.
+// Values live in one store, small metadata records in another, so TTL checks and
+// LRU eviction never have to load the (often multi-MB) image payloads.
+
+export type CacheableFunction = 'simulation' | 'practical' | 'quiz' | 'research' | 'case' | 'blueprint' | 'image';
+export type CacheStatus = 'hit' | 'miss';
+
+export interface CacheKeyParts {
+  fn: CacheableFunction;
+  topic: string;
+  provider: string;
+  promptVersion: string;
+  language?: string;
+  count?: number;
+  difficulty?: string;
+  variant?: string; // e.g. image type
+}
+
+interface CacheMeta {
+  key: string;
+  fn: CacheableFunction;
+  size: number;
+  createdAt: number;
+  lastAccess: number;
+  expiresAt: number;
+}
+
+export interface CacheStats {
+  entries: number;
+  bytes: number;
+}
+
+const DB_NAME = 'dentalbrain-cache';
+const DB_VERSION = 1;
+const VALUES_STORE = 'values';
+const META_STORE = 'meta';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Images are the expensive part and do not go stale, so they are kept longer
+const TTL_MS: Record<CacheableFunction, number> = {
+  simulation: 7 * DAY_MS,
+  practical: 7 * DAY_MS,
+  quiz: 3 * DAY_MS,
+  research: 1 * DAY_MS,
+  case: 7 * DAY_MS,
+  blueprint: 7 * DAY_MS,
+  image: 30 * DAY_MS,
+};
+
+const MAX_ENTRIES = 300;
+const MAX_BYTES = 80 * 1024 * 1024;
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+// Resolves to null when IndexedDB is unavailable; the cache then behaves as always-miss
+const openDb = (): Promise<IDBDatabase | null> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise(resolve => {
+    if (typeof indexedDB === 'undefined') return resolve(null);
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(VALUES_STORE)) db.createObjectStore(VALUES_STORE);
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE, { keyPath: 'key' }).createIndex('lastAccess', 'lastAccess');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.warn("Response cache unavailable:", request.error);
+      resolve(null);
+    };
+  });
+  return dbPromise;
+};
+
+const normalizeTopic = (topic: string) => topic.trim().toLowerCase().replace(/\s+/g, ' ');
+
+export const buildCacheKey = (parts: CacheKeyParts): string =>
+  [
+    parts.fn,
+    parts.provider,
+    parts.promptVersion,
+    parts.language ?? '-',
+    parts.count ?? '-',
+    parts.difficulty ?? '-',
+    parts.variant ?? '-',
+    normalizeTopic(parts.topic),
+  ].join('|');
+
+const deleteEntries = async (db: IDBDatabase, keys: string[]) => {
+  if (keys.length === 0) return;
+  const tx = db.transaction([VALUES_STORE, META_STORE], 'readwrite');
+  keys.forEach(key => {
+    tx.objectStore(VALUES_STORE).delete(key);
+    tx.objectStore(META_STORE).delete(key);
+  });
+  await transactionDone(tx);
+};
+
+export const cacheGet = async <T>(key: string): Promise<T | undefined> => {
+  try {
+    const db = await openDb();
+    if (!db) return undefined;
+
+    const meta = await requestToPromise<CacheMeta | undefined>(
+      db.transaction(META_STORE).objectStore(META_STORE).get(key)
+    );
+    if (!meta) return undefined;
+    if (meta.expiresAt < Date.now()) {
+      await deleteEntries(db, [key]);
+      return undefined;
+    }
+
+    const tx = db.transaction([VALUES_STORE, META_STORE], 'readwrite');
+    const value = await requestToPromise<T | undefined>(tx.objectStore(VALUES_STORE).get(key));
+    tx.objectStore(META_STORE).put({ ...meta, lastAccess: Date.now() });
+    await transactionDone(tx);
+    return value;
+  } catch (e) {
+    console.warn("Response cache read failed:", e);
+    return undefined;
+  }
+};
+
+// Drops expired entries, then least-recently-used ones until both limits are met
+const evict = async (db: IDBDatabase) => {
+  const metas = await requestToPromise<CacheMeta[]>(
+    db.transaction(META_STORE).objectStore(META_STORE).index('lastAccess').getAll()
+  );
+  const now = Date.now();
+  const toDelete: string[] = [];
+  let entries = metas.length;
+  let bytes = metas.reduce((sum, m) => sum + m.size, 0);
+
+  for (const meta of metas) { // oldest access first
+    const expired = meta.expiresAt < now;
+    if (!expired && entries <= MAX_ENTRIES && bytes <= MAX_BYTES) continue;
+    toDelete.push(meta.key);
+    entries--;
+    bytes -= meta.size;
+  }
+  await deleteEntries(db, toDelete);
+};
+
+export const cacheSet = async <T>(key: string, fn: CacheableFunction, value: T): Promise<void> => {
+  try {
+    const db = await openDb();
+    if (!db) return;
+    const now = Date.now();
+    // UTF-16 estimate; good enough for budget purposes
+    const size = JSON.stringify(value).length * 2;
+    if (size > MAX_BYTES) return;
+
+    const tx = db.transaction([VALUES_STORE, META_STORE], 'readwrite');
+    tx.objectStore(VALUES_STORE).put(value, key);
+    tx.objectStore(META_STORE).put({ key, fn, size, createdAt: now, lastAccess: now, expiresAt: now + TTL_MS[fn] } as CacheMeta);
+    await transactionDone(tx);
+    await evict(db);
+  } catch (e) {
+    console.warn("Response cache write failed:", e);
+  }
+};
+
+export const clearCache = async (): Promise<void> => {
+  const db = await openDb();
+  if (!db) return;
+  const tx = db.transaction([VALUES_STORE, META_STORE], 'readwrite');
+  tx.objectStore(VALUES_STORE).clear();
+  tx.objectStore(META_STORE).clear();
+  await transactionDone(tx);
+};
+
+export const getCacheStats = async (): Promise<CacheStats> => {
+  const db = await openDb();
+  if (!db) return { entries: 0, bytes: 0 };
+  const metas = await requestToPromise<CacheMeta[]>(db.transaction(META_STORE).objectStore(META_STORE).getAll());
+  return { entries: metas.length, bytes: metas.reduce((sum, m) => sum + m.size, 0) };
+};
+
+// Read-through helper: returns the cached value unless `force` is set, otherwise produces and stores it
+export const withCache = async <T>(
+  parts: CacheKeyParts,
+  force: boolean,
+  produce: () => Promise<T>,
+  shouldStore: (value: T) => boolean = () => true
+): Promise<{ value: T; cache: CacheStatus }> => {
+  const key = buildCacheKey(parts);
+  if (!force) {
+    const cached = await cacheGet<T>(key);
+    if (cached !== undefined) return { value: cached, cache: 'hit' };
+  }
+  const value = await produce();
+  if (shouldStore(value)) await cacheSet(key, parts.fn, value);
+  return { value, cache: 'miss' };
+};
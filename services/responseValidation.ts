@@ -0,0 +1,809 @@
+import {
+  ClinicalData, QuizData, QuizItem, MCQItem, Hotspot, Vitals, PracticalStep,
+  DangerZone, ImageAnalysisResult, DifficultyLevel, ComparativeAnalysisResult, ComparisonTrend,
+  ToothFinding, ToothCondition, ToothSurface, ToothNotation, InstrumentSpec, InstrumentSettings, HandpieceKind, SettingRange,
+  ClinicalCase, CaseNode, CaseChoice, CaseChoiceQuality, CaseOutcome, TechnicalBlueprint, VisualParameter, StructuralComponent
+} from "../types";
+import { ResearchResult } from "./aiProvider";
+import { CONDITION_LABELS, toFdi } from "./toothNumbering";
+import { HANDPIECE_KINDS, fileSystemPreset, inferHandpieceKind, sanitizeRange, settingLimits } from "./instrumentSettings";
+import { findBackEdges, reachableNodeIds } from "./caseEngine";
+import { ParseError } from "./aiErrors";
+
+// Runtime validation for everything the model returns.
+// Fixable problems are coerced in place, unfixable items are dropped and reported,
+// so the UI never has to trust a bare `as ClinicalData` cast again.
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+  severity: 'coerced' | 'dropped';
+}
+
+// An item that could not be fixed locally; kept raw so the model can be asked to repair it
+export interface InvalidItem {
+  collection: RepairableCollection;
+  index: number;
+  raw: unknown;
+  reasons: string[];
+}
+
+export interface ValidationResult<T> {
+  value: T;
+  issues: ValidationIssue[];
+  invalidItems: InvalidItem[];
+}
+
+export type RepairableCollection =
+  | 'hotspots' | 'practicalProtocol' | 'essayQuestions' | 'shortAnswerQuestions' | 'mcqQuestions' | 'dangerZones' | 'toothFindings'
+  | 'requiredInstruments';
+
+const DIFFICULTIES: DifficultyLevel[] = ['Easy', 'Medium', 'Hard', 'Intellectual'];
+const RISK_LEVELS: DangerZone['riskLevel'][] = ['HIGH', 'MODERATE', 'LOW'];
+const TRENDS: ComparisonTrend[] = ['IMPROVED', 'STABLE', 'WORSENED', 'NOT_APPLICABLE'];
+const CONDITIONS = Object.keys(CONDITION_LABELS) as ToothCondition[];
+const HANDPIECE_KIND_IDS = Object.keys(HANDPIECE_KINDS) as HandpieceKind[];
+const NOTATIONS: ToothNotation[] = ['FDI', 'UNIVERSAL', 'PALMER'];
+const CASE_OUTCOMES: CaseOutcome[] = ['GOOD', 'FAIR', 'POOR'];
+
+// Words the model uses for the quality of a case choice
+const CHOICE_QUALITY_ALIASES: Record<string, CaseChoiceQuality> = {
+  OPTIMAL: 'OPTIMAL', BEST: 'OPTIMAL', CORRECT: 'OPTIMAL',
+  ACCEPTABLE: 'ACCEPTABLE', GOOD: 'ACCEPTABLE', ADEQUATE: 'ACCEPTABLE',
+  POOR: 'POOR', SUBOPTIMAL: 'POOR', BAD: 'POOR',
+  HARMFUL: 'HARMFUL', DANGEROUS: 'HARMFUL', WRONG: 'HARMFUL',
+};
+
+// Surface names the model uses instead of the single-letter codes
+const SURFACE_ALIASES: Record<string, ToothSurface> = {
+  MESIAL: 'M', OCCLUSAL: 'O', DISTAL: 'D', BUCCAL: 'B', FACIAL: 'B', LABIAL: 'B',
+  LINGUAL: 'L', PALATAL: 'L', INCISAL: 'I', F: 'B', P: 'L',
+};
+
+// Per-item shape descriptions, sent along with invalid items when asking the model for a repair
+export const ITEM_SCHEMAS: Record<RepairableCollection, string> = {
+  hotspots: '{ "x": number (0-100), "y": number (0-100), "label": "string", "description": "string", "diagnosis": "string", "indications": "string", "classification": "string", "treatmentPlan": "string", "clinicalPearl": "string", "commonMistake": "string" }',
+  practicalProtocol: '{ "id": "string", "title": "string", "originalText": "string", "medicalTranslation": "string", "professorComment": "string", "memoryAid": "string", "visualPrompt": "string" }',
+  essayQuestions: '{ "id": "string", "question": "string", "answer": "string", "difficulty": "Easy|Medium|Hard|Intellectual", "keyPoints": ["string"] }',
+  shortAnswerQuestions: '{ "id": "string", "question": "string", "answer": "string", "difficulty": "Easy|Medium|Hard|Intellectual" }',
+  mcqQuestions: '{ "id": "string", "question": "string", "options": ["string"], "correctAnswer": "string (must equal one of options)", "explanation": "string", "difficulty": "Easy|Medium|Hard|Intellectual" }',
+  dangerZones: '{ "name": "string", "riskLevel": "HIGH|MODERATE|LOW", "description": "string", "box": { "ymin": number, "xmin": number, "ymax": number, "xmax": number } (percent 0-100) }',
+  toothFindings: `{ "tooth": "string (FDI two-digit, e.g. 36)", "surfaces": ["M|O|D|B|L|I"], "condition": "${CONDITIONS.join('|')}", "confidence": number (0-1), "description": "string" }`,
+  requiredInstruments: `{ "name": "string", "isoNumber": "string", "useCase": "string", "step": "string", "settings": { "kind": "${HANDPIECE_KIND_IDS.join('|')}", "rpm": { "value": number, "min": number, "max": number }, "torqueNcm": { "value": number, "min": number, "max": number }, "fileSystem": "string", "program": "string" } }`,
+};
+
+// --- Primitive coercers ---
+
+type IssueSink = (path: string, message: string) => void;
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asString = (value: unknown): string | undefined => {
+  if (typeof value === 'string') return value.trim() || undefined;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return undefined;
+};
+
+// Accepts numbers and numeric strings ("42", "42%", " 3.5 ")
+const asNumber = (value: unknown): number | undefined => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+  if (typeof value === 'string') {
+    const parsed = parseFloat(value.replace('%', '').trim());
+    return Number.isFinite(parsed) ? parsed : undefined;
+  }
+  return undefined;
+};
+
+const clampPercent = (value: number) => Math.min(100, Math.max(0, value));
+
+const readNumber = (
+  source: Record<string, any>, key: string, path: string, coerced: IssueSink
+): number | undefined => {
+  const value = asNumber(source[key]);
+  if (value !== undefined && typeof source[key] !== 'number') coerced(`${path}.${key}`, `تم تحويل "${source[key]}" إلى رقم`);
+  return value;
+};
+
+const readPercent = (
+  source: Record<string, any>, key: string, path: string, coerced: IssueSink
+): number | undefined => {
+  const value = readNumber(source, key, path, coerced);
+  if (value === undefined) return undefined;
+  const clamped = clampPercent(value);
+  if (clamped !== value) coerced(`${path}.${key}`, `القيمة ${value} خارج النطاق 0-100 وتم تعديلها`);
+  return clamped;
+};
+
+const readStringArray = (value: unknown): string[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  return value.map(asString).filter((v): v is string => !!v);
+};
+
+const readChoiceQuality = (value: unknown, path: string, coerced: IssueSink): CaseChoiceQuality => {
+  const raw = asString(value);
+  const match = raw ? CHOICE_QUALITY_ALIASES[raw.toUpperCase()] : undefined;
+  if (match) {
+    if (match !== raw) coerced(path, `تم توحيد جودة الخيار "${raw}"`);
+    return match;
+  }
+  coerced(path, `جودة خيار غير معروفة "${raw ?? ''}"، تم استخدام ACCEPTABLE`);
+  return 'ACCEPTABLE';
+};
+
+const normalizeDifficulty = (
+  value: unknown, fallback: DifficultyLevel, path: string, coerced: IssueSink
+): DifficultyLevel => {
+  const raw = asString(value);
+  const match = raw && DIFFICULTIES.find(d => d.toLowerCase() === raw.toLowerCase());
+  if (match) {
+    if (match !== raw) coerced(path, `تم توحيد مستوى الصعوبة "${raw}"`);
+    return match;
+  }
+  coerced(path, `مستوى صعوبة غير معروف "${raw ?? ''}"، تم استخدام ${fallback}`);
+  return fallback;
+};
+
+// --- Item validators: return the fixed item, or a list of reasons it must be dropped ---
+
+type ItemOutcome<T> = { value: T; reasons?: undefined } | { value?: undefined; reasons: string[] };
+
+const validateHotspot = (raw: unknown, path: string, coerced: IssueSink): ItemOutcome<Hotspot> => {
+  if (!isRecord(raw)) return { reasons: ['العنصر ليس كائناً'] };
+  const x = readPercent(raw, 'x', path, coerced);
+  const y = readPercent(raw, 'y', path, coerced);
+  const label = asString(raw.label);
+  const reasons: string[] = [];
+  if (x === undefined) reasons.push('الإحداثي x غير رقمي');
+  if (y === undefined) reasons.push('الإحداثي y غير رقمي');
+  if (!label) reasons.push('التسمية (label) مفقودة');
+  if (reasons.length) return { reasons };
+  return {
+    value: {
+      x: x!, y: y!, label: label!,
+      description: asString(raw.description) || '',
+      diagnosis: asString(raw.diagnosis) || '',
+      indications: asString(raw.indications) || '',
+      classification: asString(raw.classification) || '',
+      treatmentPlan: asString(raw.treatmentPlan) || '',
+      clinicalPearl: asString(raw.clinicalPearl),
+      commonMistake: asString(raw.commonMistake),
+    }
+  };
+};
+
+const validatePracticalStep = (raw: unknown, path: string, coerced: IssueSink, index: number): ItemOutcome<PracticalStep> => {
+  if (!isRecord(raw)) return { reasons: ['العنصر ليس كائناً'] };
+  const title = asString(raw.title);
+  const originalText = asString(raw.originalText);
+  const medicalTranslation = asString(raw.medicalTranslation);
+  if (!title && !originalText && !medicalTranslation) return { reasons: ['الخطوة لا تحتوي على عنوان أو نص'] };
+  let id = asString(raw.id);
+  if (!id) {
+    id = `step-${index + 1}`;
+    coerced(`${path}.id`, 'تم إنشاء معرّف مفقود');
+  }
+  return {
+    value: {
+      ...raw,
+      id,
+      title: title || `الخطوة ${index + 1}`,
+      originalText: originalText || '',
+      medicalTranslation: medicalTranslation || '',
+      professorComment: asString(raw.professorComment) || '',
+      memoryAid: asString(raw.memoryAid) || '',
+      visualPrompt: asString(raw.visualPrompt),
+    } as PracticalStep
+  };
+};
+
+const validateQuizItem = (
+  raw: unknown, path: string, coerced: IssueSink, index: number, prefix: string, fallbackDifficulty: DifficultyLevel
+): ItemOutcome<QuizItem> => {
+  if (!isRecord(raw)) return { reasons: ['العنصر ليس كائناً'] };
+  const question = asString(raw.question);
+  const answer = asString(raw.answer);
+  const reasons: string[] = [];
+  if (!question) reasons.push('نص السؤال مفقود');
+  if (!answer) reasons.push('الإجابة مفقودة');
+  if (reasons.length) return { reasons };
+  let id = asString(raw.id);
+  if (!id) {
+    id = `${prefix}-${index + 1}`;
+    coerced(`${path}.id`, 'تم إنشاء معرّف مفقود');
+  }
+  return {
+    value: {
+      id,
+      question: question!,
+      answer: answer!,
+      difficulty: normalizeDifficulty(raw.difficulty, fallbackDifficulty, `${path}.difficulty`, coerced),
+      keyPoints: readStringArray(raw.keyPoints),
+    }
+  };
+};
+
+// Resolves correctAnswer against options: exact, case/space-insensitive, letter ("B") or index ("2")
+const resolveCorrectAnswer = (options: string[], answer: string | undefined): string | undefined => {
+  if (!answer) return undefined;
+  if (options.includes(answer)) return answer;
+  const norm = (s: string) => s.toLowerCase().replace(/\s+/g, ' ').trim();
+  const byText = options.find(o => norm(o) === norm(answer));
+  if (byText) return byText;
+  const letter = answer.trim().match(/^\(?([A-Da-d])[\).:]?$/);
+  if (letter) return options[letter[1].toUpperCase().charCodeAt(0) - 65];
+  const prefixed = answer.trim().match(/^\(?([A-Da-d])[\).:]\s*(.+)$/);
+  if (prefixed) return options.find(o => norm(o) === norm(prefixed[2]));
+  const index = asNumber(answer);
+  if (index !== undefined && Number.isInteger(index)) return options[index - 1];
+  return undefined;
+};
+
+const validateMCQ = (
+  raw: unknown, path: string, coerced: IssueSink, index: number, fallbackDifficulty: DifficultyLevel
+): ItemOutcome<MCQItem> => {
+  if (!isRecord(raw)) return { reasons: ['العنصر ليس كائناً'] };
+  const question = asString(raw.question);
+  const options = readStringArray(raw.options) || [];
+  const reasons: string[] = [];
+  if (!question) reasons.push('نص السؤال مفقود');
+  if (options.length < 2) reasons.push('عدد الخيارات أقل من 2');
+  const correctAnswer = resolveCorrectAnswer(options, asString(raw.correctAnswer));
+  if (options.length >= 2 && !correctAnswer) reasons.push('الإجابة الصحيحة ليست ضمن الخيارات');
+  if (reasons.length) return { reasons };
+  if (correctAnswer !== raw.correctAnswer) coerced(`${path}.correctAnswer`, 'تمت مطابقة الإجابة الصحيحة مع أحد الخيارات');
+  let id = asString(raw.id);
+  if (!id) {
+    id = `mcq-${index + 1}`;
+    coerced(`${path}.id`, 'تم إنشاء معرّف مفقود');
+  }
+  return {
+    value: {
+      id,
+      question: question!,
+      options,
+      correctAnswer: correctAnswer!,
+      explanation: asString(raw.explanation) || '',
+      difficulty: normalizeDifficulty(raw.difficulty, fallbackDifficulty, `${path}.difficulty`, coerced),
+    }
+  };
+};
+
+const validateDangerZone = (raw: unknown, path: string, coerced: IssueSink): ItemOutcome<DangerZone> => {
+  if (!isRecord(raw)) return { reasons: ['العنصر ليس كائناً'] };
+  const name = asString(raw.name);
+  const box = isRecord(raw.box) ? raw.box : undefined;
+  const reasons: string[] = [];
+  if (!name) reasons.push('اسم المنطقة مفقود');
+  if (!box) reasons.push('الإطار (box) مفقود');
+  if (reasons.length) return { reasons };
+
+  const coords = (['ymin', 'xmin', 'ymax', 'xmax'] as const).map(k => readNumber(box!, k, `${path}.box`, coerced));
+  if (coords.some(c => c === undefined)) return { reasons: ['إحداثيات الإطار غير رقمية'] };
+  let [ymin, xmin, ymax, xmax] = coords as number[];
+
+  // Gemini often answers in its native 0-1000 box scale, or 0-1 fractions
+  const maxCoord = Math.max(ymin, xmin, ymax, xmax);
+  if (maxCoord > 100 && maxCoord <= 1000) {
+    [ymin, xmin, ymax, xmax] = [ymin, xmin, ymax, xmax].map(c => c / 10);
+    coerced(`${path}.box`, 'تم تحويل الإطار من مقياس 0-1000 إلى نسب مئوية');
+  } else if (maxCoord > 0 && maxCoord <= 1) {
+    [ymin, xmin, ymax, xmax] = [ymin, xmin, ymax, xmax].map(c => c * 100);
+    coerced(`${path}.box`, 'تم تحويل الإطار من مقياس 0-1 إلى نسب مئوية');
+  }
+  if (ymin > ymax) [ymin, ymax] = [ymax, ymin];
+  if (xmin > xmax) [xmin, xmax] = [xmax, xmin];
+  [ymin, xmin, ymax, xmax] = [ymin, xmin, ymax, xmax].map(clampPercent);
+  if (ymax - ymin <= 0 || xmax - xmin <= 0) return { reasons: ['الإطار بمساحة صفرية'] };
+
+  const rawRisk = asString(raw.riskLevel)?.toUpperCase();
+  const riskLevel = RISK_LEVELS.find(r => r === rawRisk) || 'MODERATE';
+  if (riskLevel !== rawRisk) coerced(`${path}.riskLevel`, `مستوى خطورة غير معروف "${rawRisk ?? ''}"، تم استخدام ${riskLevel}`);
+
+  return { value: { name: name!, riskLevel, description: asString(raw.description) || '', box: { ymin, xmin, ymax, xmax } } };
+};
+
+const validateToothFinding = (raw: unknown, path: string, coerced: IssueSink): ItemOutcome<ToothFinding> => {
+  if (!isRecord(raw)) return { reasons: ['العنصر ليس كائناً'] };
+  const rawTooth = asString(raw.tooth);
+  if (!rawTooth) return { reasons: ['رقم السن مفقود'] };
+  const rawNotation = asString(raw.notation)?.toUpperCase();
+  const notation = NOTATIONS.find(n => n === rawNotation);
+  const tooth = toFdi(rawTooth, notation);
+  if (!tooth) return { reasons: [`رقم سن غير صالح "${rawTooth}"`] };
+  if (tooth !== rawTooth) coerced(`${path}.tooth`, `تم تحويل رقم السن "${rawTooth}" إلى ترقيم FDI (${tooth})`);
+
+  const rawCondition = asString(raw.condition)?.toUpperCase().replace(/[\s-]+/g, '_');
+  const condition = CONDITIONS.find(c => c === rawCondition) || 'OTHER';
+  if (condition !== rawCondition) coerced(`${path}.condition`, `حالة غير معروفة "${rawCondition ?? ''}"، تم استخدام OTHER`);
+
+  // Accepts ["M", "O"], "MOD", "mesial, occlusal"
+  const surfaceTokens: string[] = (Array.isArray(raw.surfaces) ? raw.surfaces : [raw.surfaces])
+    .flatMap((item: unknown) => (asString(item) || '').toUpperCase().split(/[\s,/]+/))
+    .flatMap((token: string) => (SURFACE_ALIASES[token] ? [SURFACE_ALIASES[token]] : /^[MODBLI]+$/.test(token) ? token.split('') : []));
+  const surfaces = Array.from(new Set(surfaceTokens)) as ToothSurface[];
+
+  let confidence = asNumber(raw.confidence) ?? 0.5;
+  if (confidence > 1 && confidence <= 100) {
+    confidence /= 100;
+    coerced(`${path}.confidence`, 'تم تحويل الثقة من نسبة مئوية إلى 0-1');
+  }
+  confidence = Math.min(1, Math.max(0, confidence));
+
+  return { value: { tooth, surfaces, condition, confidence, description: asString(raw.description) || '' } };
+};
+
+// Accepts { value, min, max } or a bare number (then the reference range is widened to include it)
+const readRange = (raw: unknown, reference: SettingRange | undefined): SettingRange | undefined => {
+  const single = asNumber(raw);
+  if (single !== undefined) {
+    return reference ? { value: single, min: Math.min(reference.min, single), max: Math.max(reference.max, single) } : { value: single, min: single, max: single };
+  }
+  if (!isRecord(raw)) return undefined;
+  const value = asNumber(raw.value);
+  const min = asNumber(raw.min) ?? reference?.min;
+  const max = asNumber(raw.max) ?? reference?.max;
+  if (min === undefined || max === undefined) return undefined;
+  return { value: value ?? (min + max) / 2, min, max };
+};
+
+const validateInstrumentSettings = (raw: unknown, instrumentText: string, path: string, coerced: IssueSink): InstrumentSettings | undefined => {
+  const source = isRecord(raw) ? raw : {};
+  const rawKind = asString(source.kind)?.toUpperCase().replace(/[\s-]+/g, '_');
+  let kind = HANDPIECE_KIND_IDS.find(k => k === rawKind);
+  if (!kind) {
+    kind = inferHandpieceKind(instrumentText);
+    if (rawKind) coerced(`${path}.kind`, `نوع قبضة غير معروف "${rawKind}"، تم استنتاج ${kind}`);
+  }
+  if (kind === 'HAND') return isRecord(raw) ? { kind } : undefined;
+
+  const fileSystem = asString(source.fileSystem);
+  const preset = fileSystemPreset(fileSystem);
+  const program = asString(source.program) || preset?.program;
+  const reference = HANDPIECE_KINDS[kind];
+  const settings: InstrumentSettings = { kind, ...(fileSystem ? { fileSystem } : {}), ...(program ? { program } : {}) };
+  (['rpm', 'torqueNcm'] as const).forEach(key => {
+    const fallback = preset?.[key] || reference[key];
+    const proposed = readRange(source[key], fallback);
+    const range = sanitizeRange(proposed, settingLimits(kind!, key), fallback);
+    if (proposed && range && (range.value !== proposed.value || range.min !== proposed.min || range.max !== proposed.max)) {
+      coerced(`${path}.${key}`, range === fallback ? 'قيمة غير معقولة، تم استخدام القيمة المرجعية' : 'تم ترتيب النطاق الآمن وضبط القيمة ضمنه');
+    }
+    // Reciprocating systems run a motor program instead of rpm/torque values
+    if (range && !(program && !source[key])) settings[key] = range;
+  });
+  return settings;
+};
+
+const validateInstrument = (raw: unknown, path: string, coerced: IssueSink): ItemOutcome<InstrumentSpec> => {
+  if (!isRecord(raw)) return { reasons: ['العنصر ليس كائناً'] };
+  const name = asString(raw.name);
+  if (!name) return { reasons: ['اسم الأداة مفقود'] };
+  const useCase = asString(raw.useCase) || '';
+  const settings = validateInstrumentSettings(raw.settings, `${name} ${useCase} ${asString(raw.settings?.fileSystem) || ''}`, `${path}.settings`, coerced);
+  return {
+    value: {
+      name,
+      isoNumber: asString(raw.isoNumber) || '',
+      useCase,
+      ...(asString(raw.step) ? { step: asString(raw.step) } : {}),
+      ...(settings ? { settings } : {}),
+    }
+  };
+};
+
+// --- Collection helpers ---
+
+type ItemValidator<T> = (raw: unknown, path: string, coerced: IssueSink, index: number) => ItemOutcome<T>;
+
+const createCollector = () => {
+  const issues: ValidationIssue[] = [];
+  const invalidItems: InvalidItem[] = [];
+  const coerced: IssueSink = (path, message) => issues.push({ path, message, severity: 'coerced' });
+
+  const collect = <T>(collection: RepairableCollection, raw: unknown, validate: ItemValidator<T>): T[] => {
+    if (raw === undefined || raw === null) return [];
+    if (!Array.isArray(raw)) {
+      issues.push({ path: collection, message: 'القيمة ليست مصفوفة وتم تجاهلها', severity: 'dropped' });
+      return [];
+    }
+    const items: T[] = [];
+    raw.forEach((item, index) => {
+      const path = `${collection}[${index}]`;
+      const outcome = validate(item, path, coerced, index);
+      if (outcome.value !== undefined) {
+        items.push(outcome.value);
+      } else {
+        issues.push({ path, message: outcome.reasons.join('، '), severity: 'dropped' });
+        invalidItems.push({ collection, index, raw: item, reasons: outcome.reasons });
+      }
+    });
+    return items;
+  };
+
+  return { issues, invalidItems, coerced, collect };
+};
+
+const ensureObject = (raw: unknown): Record<string, any> => {
+  if (!isRecord(raw)) throw new ParseError("بنية الاستجابة غير صالحة: كان متوقعاً كائن JSON.");
+  return raw;
+};
+
+// Incomplete vitals are dropped as a whole
+const readVitals = (raw: unknown, path: string, issues: ValidationIssue[], coerced: IssueSink): Vitals | undefined => {
+  if (!isRecord(raw)) return undefined;
+  const heartRate = readNumber(raw, 'heartRate', path, coerced);
+  const oxygenSaturation = readNumber(raw, 'oxygenSaturation', path, coerced);
+  const bloodPressure = asString(raw.bloodPressure);
+  if (heartRate !== undefined && oxygenSaturation !== undefined && bloodPressure) {
+    return { heartRate, oxygenSaturation: Math.min(100, oxygenSaturation), bloodPressure };
+  }
+  issues.push({ path, message: 'العلامات الحيوية ناقصة وتم تجاهلها', severity: 'dropped' });
+  return undefined;
+};
+
+// --- Top-level validators, one per generator ---
+
+export const validateSimulationData = (raw: unknown): ValidationResult<ClinicalData> => {
+  const source = ensureObject(raw);
+  const { issues, invalidItems, coerced, collect } = createCollector();
+
+  const vitals = readVitals(source.vitals, 'vitals', issues, coerced);
+  const hotspots = collect('hotspots', source.hotspots, validateHotspot);
+  const requiredInstruments = collect('requiredInstruments', source.requiredInstruments, validateInstrument);
+  if (source.hotspots === undefined) issues.push({ path: 'hotspots', message: 'لا توجد نقاط تفاعلية في الاستجابة', severity: 'coerced' });
+
+  return {
+    value: {
+      ...source,
+      theorySummary: asString(source.theorySummary),
+      riskLevel: asString(source.riskLevel),
+      imagePrompt: asString(source.imagePrompt),
+      radiologyPrompt: asString(source.radiologyPrompt),
+      explodedPrompt: asString(source.explodedPrompt),
+      hotspots,
+      requiredInstruments,
+      vitals,
+    },
+    issues,
+    invalidItems,
+  };
+};
+
+export const validatePracticalData = (raw: unknown): ValidationResult<ClinicalData> => {
+  const source = ensureObject(raw);
+  const { issues, invalidItems, coerced, collect } = createCollector();
+  const practicalProtocol = collect('practicalProtocol', source.practicalProtocol, validatePracticalStep);
+  if (practicalProtocol.length === 0 && invalidItems.length === 0) {
+    throw new ParseError("لم يتم العثور على أي خطوات في البروتوكول العملي.");
+  }
+  return { value: { ...source, practicalProtocol }, issues, invalidItems };
+};
+
+// Single streamed step; `value` is undefined (and the step reported) when it cannot be used
+export const validateStreamedStep = (raw: unknown, index: number): ValidationResult<PracticalStep | undefined> => {
+  const { issues, invalidItems, collect } = createCollector();
+  const [step] = collect('practicalProtocol', [raw], (item, _path, sink) =>
+    validatePracticalStep(item, `practicalProtocol[${index}]`, sink, index));
+  return {
+    value: step,
+    issues: issues.map(issue => ({ ...issue, path: issue.path.replace('practicalProtocol[0]', `practicalProtocol[${index}]`) })),
+    invalidItems: invalidItems.map(item => ({ ...item, index }))
+  };
+};
+
+export const validateQuizData = (raw: unknown, requestedDifficulty: DifficultyLevel): ValidationResult<QuizData> => {
+  const source = ensureObject(raw);
+  const { issues, invalidItems, collect } = createCollector();
+  return {
+    value: {
+      essayQuestions: collect('essayQuestions', source.essayQuestions, (item, path, sink, index) =>
+        validateQuizItem(item, path, sink, index, 'essay', requestedDifficulty)),
+      shortAnswerQuestions: collect('shortAnswerQuestions', source.shortAnswerQuestions, (item, path, sink, index) =>
+        validateQuizItem(item, path, sink, index, 'sa', requestedDifficulty)),
+      mcqQuestions: collect('mcqQuestions', source.mcqQuestions, (item, path, sink, index) =>
+        validateMCQ(item, path, sink, index, requestedDifficulty)),
+    },
+    issues,
+    invalidItems,
+  };
+};
+
+export const validateImageAnalysis = (raw: unknown): ValidationResult<ImageAnalysisResult> => {
+  const source = ensureObject(raw);
+  const { issues, invalidItems, coerced, collect } = createCollector();
+  const detailedClinicalAnalysis = asString(source.detailedClinicalAnalysis);
+  if (!detailedClinicalAnalysis) throw new ParseError("التحليل السريري مفقود من الاستجابة.");
+
+  const ada = isRecord(source.adaCompliance) ? source.adaCompliance : {};
+  if (!isRecord(source.adaCompliance)) coerced('adaCompliance', 'بيانات الامتثال مفقودة');
+
+  return {
+    value: {
+      ...source,
+      isHighQuality: source.isHighQuality !== false && source.isHighQuality !== 'false',
+      rejectionReason: asString(source.rejectionReason),
+      detailedClinicalAnalysis,
+      landmarks: readStringArray(source.landmarks) || [],
+      dangerZones: collect('dangerZones', source.dangerZones, validateDangerZone),
+      toothFindings: collect('toothFindings', source.toothFindings, validateToothFinding),
+      adaCompliance: {
+        compliant: ada.compliant === true || ada.compliant === 'true',
+        notes: asString(ada.notes) || '',
+      },
+    },
+    issues,
+    invalidItems,
+  };
+};
+
+// Per-image findings are matched back to the submitted labels (by label, then by position).
+// Invalid danger zones are dropped without a repair round: the repair merge works on flat collections.
+export const validateComparativeAnalysis = (raw: unknown, labels: string[]): ValidationResult<ComparativeAnalysisResult> => {
+  const source = ensureObject(raw);
+  const issues: ValidationIssue[] = [];
+  const rawImages: unknown[] = Array.isArray(source.images) ? source.images : [];
+  if (rawImages.length === 0) throw new ParseError("نتائج الصور مفقودة من استجابة التحليل المقارن.");
+
+  const images = labels.map((label, index) => {
+    const atIndex = rawImages[index];
+    const byLabel = isRecord(atIndex) && asString(atIndex.label) === label
+      ? atIndex
+      : rawImages.find(item => isRecord(item) && asString(item.label) === label);
+    const match = byLabel ?? atIndex;
+    if (!byLabel) issues.push({ path: `images[${index}]`, message: `لم يُعثر على الوسم "${label}"، تمت المطابقة حسب الترتيب`, severity: 'coerced' });
+    if (!isRecord(match)) throw new ParseError(`نتيجة الصورة "${label}" مفقودة من الاستجابة.`);
+    const result = validateImageAnalysis(isRecord(match.analysis) ? match.analysis : match);
+    issues.push(...result.issues.map(issue => ({ ...issue, path: `images[${index}].${issue.path}` })));
+    return { label, analysis: result.value };
+  });
+
+  const comparison = isRecord(source.comparison) ? source.comparison : {};
+  if (!isRecord(source.comparison)) issues.push({ path: 'comparison', message: 'قسم المقارنة مفقود', severity: 'coerced' });
+  const field = (key: string) => {
+    const value = asString(comparison[key]);
+    if (!value) issues.push({ path: `comparison.${key}`, message: 'الحقل مفقود', severity: 'coerced' });
+    return value || 'غير متوفر';
+  };
+  const rawTrend = asString(comparison.trend)?.toUpperCase();
+  const trend = TRENDS.find(t => t === rawTrend) || 'NOT_APPLICABLE';
+  if (trend !== rawTrend) issues.push({ path: 'comparison.trend', message: `اتجاه غير معروف "${rawTrend ?? ''}"، تم استخدام ${trend}`, severity: 'coerced' });
+
+  return {
+    value: {
+      images,
+      comparison: {
+        summary: field('summary'),
+        lesionChanges: field('lesionChanges'),
+        restorationOutcome: field('restorationOutcome'),
+        boneLevelChange: field('boneLevelChange'),
+        trend,
+      },
+    },
+    issues,
+    invalidItems: [],
+  };
+};
+
+export const validateResearchResult = (raw: ResearchResult, topic: string): ValidationResult<ResearchResult> => {
+  const issues: ValidationIssue[] = [];
+  const prompts = (readStringArray(raw.prompts) || []).slice(0, 3);
+  while (prompts.length < 3) {
+    issues.push({ path: `prompts[${prompts.length}]`, message: 'وصف صورة مفقود وتم استخدام وصف افتراضي', severity: 'coerced' });
+    prompts.push(`Dental clinical view of ${topic}`);
+  }
+  const sources = Array.isArray(raw.sources) ? raw.sources.filter(s => isRecord(s)) : [];
+  return { value: { sources, prompts }, issues, invalidItems: [] };
+};
+
+// Branching case from the model or an instructor file. Nodes are not sent for repair: a broken
+// node is dropped, and the choices that led to it go with it.
+export const validateClinicalCase = (raw: unknown, source: ClinicalCase['source']): ValidationResult<ClinicalCase> => {
+  const data = ensureObject(raw);
+  const issues: ValidationIssue[] = [];
+  const coerced: IssueSink = (path, message) => issues.push({ path, message, severity: 'coerced' });
+  const dropped: IssueSink = (path, message) => issues.push({ path, message, severity: 'dropped' });
+
+  // 1. Nodes
+  let nodes: CaseNode[] = [];
+  (Array.isArray(data.nodes) ? data.nodes : []).forEach((rawNode: unknown, i: number) => {
+    const path = `nodes[${i}]`;
+    if (!isRecord(rawNode)) return dropped(path, 'العنصر ليس كائناً');
+    const ownId = asString(rawNode.id);
+    const id = ownId || `node-${i + 1}`;
+    if (!ownId) coerced(`${path}.id`, `معرّف مفقود، تم استخدام ${id}`);
+    if (nodes.some(node => node.id === id)) return dropped(path, `المعرّف "${id}" مكرر`);
+    const title = asString(rawNode.title) || `المرحلة ${i + 1}`;
+    const narrative = asString(rawNode.narrative);
+    if (!narrative) return dropped(path, 'وصف المرحلة (narrative) مفقود');
+
+    const hotspots: Hotspot[] = [];
+    (Array.isArray(rawNode.hotspots) ? rawNode.hotspots : []).forEach((spot: unknown, j: number) => {
+      const outcome = validateHotspot(spot, `${path}.hotspots[${j}]`, coerced);
+      if (outcome.value) hotspots.push(outcome.value);
+      else dropped(`${path}.hotspots[${j}]`, outcome.reasons.join('، '));
+    });
+
+    const choices: CaseChoice[] = [];
+    (Array.isArray(rawNode.choices) ? rawNode.choices : []).forEach((rawChoice: unknown, k: number) => {
+      const choicePath = `${path}.choices[${k}]`;
+      if (!isRecord(rawChoice)) return dropped(choicePath, 'العنصر ليس كائناً');
+      const label = asString(rawChoice.label);
+      const nextNodeId = asString(rawChoice.nextNodeId);
+      if (!label) return dropped(choicePath, 'نص الخيار (label) مفقود');
+      if (!nextNodeId) return dropped(choicePath, 'المرحلة التالية (nextNodeId) مفقودة');
+      const choiceId = asString(rawChoice.id);
+      choices.push({
+        id: choiceId && !choices.some(choice => choice.id === choiceId) ? choiceId : `${id}-${k + 1}`,
+        label,
+        nextNodeId,
+        feedback: asString(rawChoice.feedback) || '',
+        quality: readChoiceQuality(rawChoice.quality, `${choicePath}.quality`, coerced),
+      });
+    });
+
+    const outcome = asString(rawNode.outcome)?.toUpperCase() as CaseOutcome | undefined;
+    nodes.push({
+      id,
+      title,
+      narrative,
+      imagePrompt: asString(rawNode.imagePrompt) || title,
+      vitals: readVitals(rawNode.vitals, `${path}.vitals`, issues, coerced),
+      hotspots,
+      choices,
+      outcome: outcome && CASE_OUTCOMES.includes(outcome) ? outcome : undefined,
+    });
+  });
+  if (nodes.length === 0) throw new ParseError("لا توجد أي مرحلة صالحة في الحالة السريرية.");
+
+  // 2. Graph: choices to missing nodes or back to an earlier state, then nodes the student can never reach
+  const ids = new Set(nodes.map(node => node.id));
+  let startNodeId = asString(data.startNodeId);
+  if (!startNodeId || !ids.has(startNodeId)) {
+    startNodeId = nodes[0].id;
+    coerced('startNodeId', `مرحلة البداية غير موجودة، تم استخدام "${startNodeId}"`);
+  }
+  nodes.forEach(node => {
+    node.choices = node.choices.filter(choice => {
+      if (ids.has(choice.nextNodeId)) return true;
+      dropped(`nodes["${node.id}"].choices["${choice.id}"]`, `المرحلة التالية "${choice.nextNodeId}" غير موجودة`);
+      return false;
+    });
+  });
+  findBackEdges(nodes, startNodeId).forEach(({ nodeId, choiceId }) => {
+    const node = nodes.find(item => item.id === nodeId)!;
+    node.choices = node.choices.filter(choice => choice.id !== choiceId);
+    dropped(`nodes["${nodeId}"].choices["${choiceId}"]`, 'الخيار يعيد إلى مرحلة سابقة');
+  });
+  const reachable = reachableNodeIds(nodes, startNodeId);
+  nodes = nodes.filter(node => {
+    if (reachable.has(node.id)) return true;
+    dropped(`nodes["${node.id}"]`, 'لا يمكن الوصول إلى المرحلة من البداية');
+    return false;
+  });
+
+  const title = asString(data.title) || 'حالة سريرية';
+  return {
+    value: {
+      id: asString(data.id) || title,
+      title,
+      summary: asString(data.summary) || '',
+      startNodeId,
+      nodes,
+      source,
+    },
+    issues,
+    invalidItems: [],
+  };
+};
+
+// Colours for components the model left without a valid one
+const BLUEPRINT_PALETTE = ['#f8fafc', '#fde68a', '#f87171', '#fca5a5', '#a5b4fc', '#94a3b8', '#6ee7b7'];
+
+const readHexColor = (value: unknown): string | undefined => {
+  const raw = asString(value);
+  if (raw && /^#?[0-9a-f]{6}$/i.test(raw)) return raw.startsWith('#') ? raw : `#${raw}`;
+  if (raw && /^#?[0-9a-f]{3}$/i.test(raw)) return `#${raw.replace('#', '').split('').map(c => c + c).join('')}`;
+  return undefined;
+};
+
+// 3D lab blueprint: every structural component gets exactly one visual parameter (colour and a
+// position in 0-100 lab space); missing ones are filled in, stacked from crown to bone.
+export const validateTechnicalBlueprint = (raw: unknown, topic: string): ValidationResult<TechnicalBlueprint> => {
+  const source = ensureObject(raw);
+  const issues: ValidationIssue[] = [];
+  const coerced: IssueSink = (path, message) => issues.push({ path, message, severity: 'coerced' });
+
+  const structuralComponents: StructuralComponent[] = [];
+  (Array.isArray(source.structuralComponents) ? source.structuralComponents : []).forEach((item: unknown, i: number) => {
+    const partName = asString(isRecord(item) ? item.partName : item);
+    if (!partName) {
+      issues.push({ path: `structuralComponents[${i}]`, message: 'اسم المكوّن (partName) مفقود', severity: 'dropped' });
+    } else if (!structuralComponents.some(component => component.partName.toLowerCase() === partName.toLowerCase())) {
+      structuralComponents.push({ partName });
+    }
+  });
+  if (structuralComponents.length === 0) throw new ParseError("لم يتم العثور على أي مكوّن في النموذج ثلاثي الأبعاد.");
+
+  const rawParameters: Record<string, any>[] = (Array.isArray(source.visualParameters) ? source.visualParameters : []).filter(isRecord);
+  const visualParameters: VisualParameter[] = structuralComponents.map(({ partName }, i) => {
+    const path = `visualParameters[${partName}]`;
+    const match = rawParameters.find(item => asString(item.componentId)?.toLowerCase() === partName.toLowerCase());
+    const colorHex = readHexColor(match?.colorHex);
+    if (!colorHex) coerced(`${path}.colorHex`, 'لون غير صالح، تم استخدام لون افتراضي');
+    const position = isRecord(match?.spatialPosition) ? match!.spatialPosition : undefined;
+    const x = position && readPercent(position, 'x', `${path}.spatialPosition`, coerced);
+    const y = position && readPercent(position, 'y', `${path}.spatialPosition`, coerced);
+    const z = position && readPercent(position, 'z', `${path}.spatialPosition`, coerced);
+    const hasPosition = x !== undefined && y !== undefined && z !== undefined;
+    if (!hasPosition) coerced(`${path}.spatialPosition`, 'موضع مفقود، تم ترتيب المكوّن عمودياً');
+    return {
+      componentId: partName,
+      colorHex: colorHex || BLUEPRINT_PALETTE[i % BLUEPRINT_PALETTE.length],
+      spatialPosition: hasPosition
+        ? { x: x!, y: y!, z: z! }
+        : { x: 50, y: Math.round(80 - (60 * i) / Math.max(1, structuralComponents.length - 1)), z: 50 },
+    };
+  });
+
+  const metadata = isRecord(source.modelMetadata) ? source.modelMetadata : {};
+  const entityName = asString(metadata.entityName);
+  if (!entityName) coerced('modelMetadata.entityName', 'اسم النموذج مفقود، تم استخدام الموضوع');
+
+  return {
+    value: {
+      structuralComponents,
+      visualParameters,
+      modelMetadata: { entityName: entityName || topic, scientificClassification: asString(metadata.scientificClassification) || '' },
+    },
+    issues,
+    invalidItems: [],
+  };
+};
+
+// --- Repair merge ---
+
+const ITEM_VALIDATORS: Record<RepairableCollection, ItemValidator<unknown>> = {
+  hotspots: validateHotspot,
+  practicalProtocol: validatePracticalStep,
+  essayQuestions: (item, path, sink, index) => validateQuizItem(item, path, sink, index, 'essay', 'Medium'),
+  shortAnswerQuestions: (item, path, sink, index) => validateQuizItem(item, path, sink, index, 'sa', 'Medium'),
+  mcqQuestions: (item, path, sink, index) => validateMCQ(item, path, sink, index, 'Medium'),
+  dangerZones: validateDangerZone,
+  toothFindings: validateToothFinding,
+  requiredInstruments: validateInstrument,
+};
+
+// Re-validates model-repaired items and splices the ones that now pass back at their original position.
+// `repaired[i]` answers `result.invalidItems[i]`.
+export const mergeRepairedItems = <T extends object>(
+  result: ValidationResult<T>,
+  repaired: unknown[]
+): ValidationResult<T> => {
+  const value: Record<string, any> = { ...result.value };
+  const issues = [...result.issues];
+  const stillInvalid: InvalidItem[] = [];
+  const coerced: IssueSink = (path, message) => issues.push({ path, message, severity: 'coerced' });
+
+  result.invalidItems.forEach((item, i) => {
+    const outcome = ITEM_VALIDATORS[item.collection](repaired[i], `${item.collection}[${item.index}]`, coerced, item.index);
+    if (outcome.value === undefined) {
+      stillInvalid.push(item);
+      return;
+    }
+    const list = [...(value[item.collection] || [])];
+    list.splice(Math.min(item.index, list.length), 0, outcome.value);
+    value[item.collection] = list;
+    const droppedIdx = issues.findIndex(issue => issue.severity === 'dropped' && issue.path === `${item.collection}[${item.index}]`);
+    if (droppedIdx !== -1) issues[droppedIdx] = { ...issues[droppedIdx], message: 'تم إصلاح العنصر بواسطة النموذج', severity: 'coerced' };
+  });
+
+  return { value: value as T, issues, invalidItems: stillInvalid };
+};
+
+// Short Arabic summary for the assistant panel, empty when nothing was dropped
+export const summarizeValidation = (issues: ValidationIssue[]): string => {
+  const dropped = issues.filter(i => i.severity === 'dropped');
+  if (dropped.length === 0) return '';
+  return `⚠️ تم تجاهل ${dropped.length} عنصر غير صالح من استجابة النموذج:\n${dropped.map(i => `- ${i.path}: ${i.message}`).join('\n')}`;
+};
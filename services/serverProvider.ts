@@ -0,0 +1,170 @@
+import { ClinicalData, QuizData, ImageAnalysisResult, DifficultyLevel, ComparativeAnalysisResult, ClinicalCase, TechnicalBlueprint } from "../types";
+import { AIProvider, ImageKind, QuizLanguage, RepairRequest, RequestContext, ResearchResult } from "./aiProvider";
+import { RequestKind, scheduleRequest } from "./requestScheduler";
+import { isAbortError, throwIfAborted } from "./abort";
+import { AIServiceError, NetworkError, deserializeAIError } from "./aiErrors";
+import { USAGE_HEADER, mergeRequestUsage } from "./usage";
+import { PromptTemplate } from "./promptTemplates";
+import { getInstructorToken } from "./promptRegistry";
+
+// Gemini through our own backend (server/api.ts): the API key stays on the server.
+// Requests still go through the client scheduler so tab priority and 429 pauses apply;
+// the server answers rate-limit errors with a Retry-After header that the scheduler honours.
+
+const API_BASE_URL = (import.meta.env.VITE_API_BASE_URL || '/api').replace(/\/+$/, '');
+
+// Scheduler bucket for all proxy calls; its limits mirror the server's per-client limits
+export const PROXY_SCHEDULER_MODEL = 'dentalbrain-api';
+
+// The server sends the typed error (services/aiErrors.ts); anything else means the API itself is unreachable
+const toApiError = async (response: Response): Promise<AIServiceError> => {
+  try {
+    const body = await response.json();
+    if (body?.error) {
+      const retryAfter = Number(response.headers.get('retry-after'));
+      return deserializeAIError({
+        ...body.error,
+        retryAfterMs: body.error.retryAfterMs ?? (retryAfter > 0 ? retryAfter * 1000 : undefined),
+      }, response.status);
+    }
+  } catch (e) {
+    // Non-JSON error page (e.g. proxy not running)
+  }
+  return new NetworkError(`HTTP ${response.status}`, { status: response.status });
+};
+
+// The prompt template travels with the request; the server validates and renders it, and runs a
+// custom one only for an instructor (token) or when it is signed
+const post = async (route: string, body: object, ctx: RequestContext) => {
+  const token = ctx.prompt ? getInstructorToken() : '';
+  try {
+    return await fetch(`${API_BASE_URL}/${route}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+      body: JSON.stringify(ctx.prompt ? { ...body, template: ctx.prompt } : body),
+      signal: ctx.signal,
+    });
+  } catch (error: any) {
+    if (isAbortError(error)) throw error;
+    throw new NetworkError(error?.message || "Failed to fetch");
+  }
+};
+
+const readUsageHeader = (response: Response, ctx: RequestContext) => {
+  const header = response.headers.get(USAGE_HEADER);
+  if (!header || !ctx.usage) return;
+  try {
+    mergeRequestUsage(ctx.usage, JSON.parse(header));
+  } catch (e) {
+    // Accounting is best-effort; the content itself is fine
+  }
+};
+
+const callApi = <T>(route: string, body: object, ctx: RequestContext, kind: RequestKind = 'text'): Promise<T> =>
+  scheduleRequest({ model: PROXY_SCHEDULER_MODEL, kind, tab: ctx.tab, signal: ctx.signal }, async () => {
+    const response = await post(route, body, ctx);
+    if (!response.ok) throw await toApiError(response);
+    readUsageHeader(response, ctx);
+    return response.json() as Promise<T>;
+  });
+
+// Signature for a custom template, so students can run it without the instructor token
+export const signPromptTemplate = async (template: PromptTemplate, token: string): Promise<string> => {
+  let response: Response;
+  try {
+    response = await fetch(`${API_BASE_URL}/templates/sign`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+      body: JSON.stringify({ template }),
+    });
+  } catch (error: any) {
+    throw new NetworkError(error?.message || "Failed to fetch");
+  }
+  if (!response.ok) throw await toApiError(response);
+  return (await response.json()).signature;
+};
+
+// A healthy server is remembered for the page's lifetime; failures are re-checked on the next call
+// (the key may be added or the server started in the meantime)
+let healthCheck: Promise<boolean> | null = null;
+
+const isConfigured = (): Promise<boolean> => {
+  if (!healthCheck) {
+    healthCheck = fetch(`${API_BASE_URL}/health`)
+      .then(response => response.ok ? response.json() : { configured: false })
+      .then(body => !!body?.configured)
+      .catch(() => false)
+      .then(configured => {
+        if (!configured) healthCheck = null;
+        return configured;
+      });
+  }
+  return healthCheck;
+};
+
+// NDJSON stream: { step, index } lines, then { result, usage } or { error }
+const streamPractical = (
+  topic: string,
+  onStep: (rawStep: unknown, index: number) => void,
+  ctx: RequestContext
+): Promise<ClinicalData> =>
+  scheduleRequest({ model: PROXY_SCHEDULER_MODEL, kind: 'text', tab: ctx.tab, signal: ctx.signal }, async () => {
+    const response = await post('practical/stream', { topic }, ctx);
+    if (!response.ok || !response.body) throw await toApiError(response);
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let result: ClinicalData | undefined;
+
+    const handleLine = (line: string) => {
+      if (!line.trim()) return;
+      const message = JSON.parse(line);
+      if (message.error) throw deserializeAIError(message.error);
+      if ('step' in message) onStep(message.step, message.index);
+      if ('result' in message) {
+        result = message.result;
+        mergeRequestUsage(ctx.usage, message.usage);
+      }
+    };
+
+    while (true) {
+      throwIfAborted(ctx.signal);
+      let chunk: ReadableStreamReadResult<Uint8Array>;
+      try {
+        chunk = await reader.read();
+      } catch (error: any) {
+        if (isAbortError(error)) throw error;
+        throw new NetworkError(error?.message || "Stream interrupted");
+      }
+      if (chunk.done) break;
+      buffer += decoder.decode(chunk.value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      lines.forEach(handleLine);
+    }
+    handleLine(buffer + decoder.decode());
+
+    if (!result) throw new NetworkError("انقطع البث قبل اكتمال البروتوكول.");
+    return result;
+  });
+
+export const serverProvider: AIProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  promptVersion: 'v2',
+  isConfigured,
+  generateSimulation: (topic, ctx) => callApi<ClinicalData>('simulation', { topic }, ctx),
+  generatePractical: (topic, ctx) => callApi<ClinicalData>('practical', { topic }, ctx),
+  streamPractical,
+  generateQuiz: (topic: string, language: QuizLanguage, count: number, difficulty: DifficultyLevel, ctx: RequestContext) =>
+    callApi<QuizData>('quiz', { topic, language, count, difficulty }, ctx),
+  generateResearch: (topic, ctx) => callApi<ResearchResult>('research', { topic }, ctx),
+  generateCase: (topic, ctx) => callApi<ClinicalCase>('case', { topic }, ctx),
+  generateBlueprint: (topic, ctx) => callApi<TechnicalBlueprint>('blueprint', { topic }, ctx),
+  analyzeImage: (base64Image, ctx) => callApi<ImageAnalysisResult>('analyze-image', { image: base64Image }, ctx, 'image'),
+  analyzeImageSet: (images, ctx) => callApi<ComparativeAnalysisResult>('analyze-images', { images }, ctx, 'image'),
+  generateImage: async (prompt: string, type: ImageKind, ctx: RequestContext) =>
+    (await callApi<{ image: string | null }>('image', { prompt, type }, ctx, 'image')).image,
+  repairItems: (request: RepairRequest, ctx) => callApi<unknown[]>('repair', request, ctx),
+};
@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseTiff } from './tiff';
+
+// 2×2 8-bit grayscale little-endian TIFF with the given XResolution/YResolution (dots per ResolutionUnit)
+const tiff = (dpi: number, unit = 2): ArrayBuffer => {
+  const entries: [number, number, number, number][] = [
+    [256, 3, 1, 2], [257, 3, 1, 2], [258, 3, 1, 8], [259, 3, 1, 1], [262, 3, 1, 1],
+    [273, 4, 1, 0], [277, 3, 1, 1], [279, 4, 1, 4], [282, 5, 1, 0], [283, 5, 1, 0], [296, 3, 1, unit],
+  ];
+  const ifdSize = 2 + entries.length * 12 + 4;
+  const rationalAt = 8 + ifdSize;
+  const pixelsAt = rationalAt + 8;
+  const view = new DataView(new ArrayBuffer(pixelsAt + 4));
+  view.setUint8(0, 0x49); view.setUint8(1, 0x49); view.setUint16(2, 42, true); view.setUint32(4, 8, true);
+  view.setUint16(8, entries.length, true);
+  entries.forEach(([tag, type, count, value], i) => {
+    const at = 10 + i * 12;
+    view.setUint16(at, tag, true); view.setUint16(at + 2, type, true); view.setUint32(at + 4, count, true);
+    const resolved = tag === 273 ? pixelsAt : tag === 282 || tag === 283 ? rationalAt : value;
+    if (type === 3) view.setUint16(at + 8, resolved, true);
+    else view.setUint32(at + 8, resolved, true);
+  });
+  view.setUint32(rationalAt, dpi * 1000, true); view.setUint32(rationalAt + 4, 1000, true);
+  return view.buffer;
+};
+
+test('a sensor resolution becomes the pixel spacing', () => {
+  const spacing = parseTiff(tiff(1000)).metadata.pixelSpacingMm;
+  assert.ok(spacing);
+  assert.ok(Math.abs(spacing.column - 0.0254) < 1e-9 && Math.abs(spacing.row - 0.0254) < 1e-9);
+  assert.ok(parseTiff(tiff(400, 3)).metadata.pixelSpacingMm); // 0.025 mm per pixel, in dots per cm
+});
+
+test('screen and print default resolutions are not a calibration', () => {
+  for (const dpi of [72, 96, 150, 300, 180]) {
+    assert.equal(parseTiff(tiff(dpi)).metadata.pixelSpacingMm, undefined, `${dpi} dpi`);
+  }
+  assert.equal(parseTiff(tiff(1000, 1)).metadata.pixelSpacingMm, undefined); // no absolute unit
+});
@@ -0,0 +1,126 @@
+import { Radiograph, RadiographMetadata } from "../types";
+import { RadiographFormatError, createRadiograph } from "./radiograph";
+
+// Minimal baseline TIFF reader for 8/16-bit grayscale sensor exports (uncompressed, stripped, first page).
+// Browsers cannot display 16-bit TIFF at all, so every TIFF upload is decoded here.
+
+const TAG = {
+  width: 256,
+  height: 257,
+  bitsPerSample: 258,
+  compression: 259,
+  photometric: 262,
+  stripOffsets: 273,
+  samplesPerPixel: 277,
+  stripByteCounts: 279,
+  xResolution: 282,
+  yResolution: 283,
+  resolutionUnit: 296,
+  dateTime: 306,
+  tileWidth: 322,
+  sampleFormat: 339,
+};
+
+// Resolutions that image editors and converters write by default (screen 72/96 dpi, print 150/300 dpi).
+// Dental sensors and plate scanners export at 250-1700 dpi (0.1-0.015 mm per pixel), so anything coarser
+// or equal to a default says nothing about the detector and is not used as a calibration.
+const DEFAULT_DPI = [72, 96, 150, 300];
+const MIN_SENSOR_DPI = 200;
+
+const isSensorDpi = (dpi: number) => dpi >= MIN_SENSOR_DPI && !DEFAULT_DPI.some(value => Math.abs(dpi - value) < 0.5);
+
+// Field type -> byte size (BYTE, ASCII, SHORT, LONG, RATIONAL, SBYTE, UNDEFINED, SSHORT, SLONG, SRATIONAL)
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8 };
+
+export const isTiff = (buffer: ArrayBuffer): boolean => {
+  if (buffer.byteLength < 8) return false;
+  const head = new Uint8Array(buffer, 0, 4);
+  return (head[0] === 0x49 && head[1] === 0x49 && head[2] === 42 && head[3] === 0)
+    || (head[0] === 0x4d && head[1] === 0x4d && head[2] === 0 && head[3] === 42);
+};
+
+export const parseTiff = (buffer: ArrayBuffer): Radiograph => {
+  if (!isTiff(buffer)) throw new RadiographFormatError("الملف ليس بصيغة TIFF.");
+  const view = new DataView(buffer);
+  const little = view.getUint8(0) === 0x49;
+
+  // 1. First IFD
+  const ifd = view.getUint32(4, little);
+  if (ifd + 2 > buffer.byteLength) throw new RadiographFormatError("ملف TIFF مقطوع.");
+  const fields = new Map<number, number[]>();
+  const ascii = new Map<number, string>();
+  const entries = view.getUint16(ifd, little);
+  for (let i = 0; i < entries; i++) {
+    const at = ifd + 2 + i * 12;
+    const tag = view.getUint16(at, little);
+    const type = view.getUint16(at + 2, little);
+    const count = view.getUint32(at + 4, little);
+    const size = (TYPE_SIZES[type] || 1) * count;
+    const valueAt = size <= 4 ? at + 8 : view.getUint32(at + 8, little);
+    if (valueAt + size > buffer.byteLength) continue;
+
+    if (type === 2) {
+      ascii.set(tag, String.fromCharCode(...new Uint8Array(buffer, valueAt, count)).replace(/\0/g, '').trim());
+      continue;
+    }
+    const values: number[] = [];
+    for (let n = 0; n < count; n++) {
+      if (type === 3) values.push(view.getUint16(valueAt + n * 2, little));
+      else if (type === 4) values.push(view.getUint32(valueAt + n * 4, little));
+      else if (type === 5) values.push(view.getUint32(valueAt + n * 8, little) / (view.getUint32(valueAt + n * 8 + 4, little) || 1));
+      else if (type === 1 || type === 7) values.push(view.getUint8(valueAt + n));
+    }
+    fields.set(tag, values);
+  }
+
+  const first = (tag: number, fallback?: number) => fields.get(tag)?.[0] ?? fallback;
+  const width = first(TAG.width, 0)!;
+  const height = first(TAG.height, 0)!;
+  const bits = first(TAG.bitsPerSample, 1)!;
+  const samples = first(TAG.samplesPerPixel, 1)!;
+  const photometric = first(TAG.photometric, 1)!;
+  const signed = first(TAG.sampleFormat, 1) === 2;
+  if (!width || !height) throw new RadiographFormatError("أبعاد صورة TIFF مفقودة.");
+  if (first(TAG.compression, 1) !== 1) throw new RadiographFormatError("ملفات TIFF المضغوطة غير مدعومة. صدّر الصورة دون ضغط.");
+  if (fields.has(TAG.tileWidth)) throw new RadiographFormatError("ملفات TIFF المقسمة إلى مربعات غير مدعومة.");
+  if (samples !== 1 || (photometric !== 0 && photometric !== 1)) throw new RadiographFormatError("يدعم الاستيراد صور TIFF الرمادية فقط.");
+  if (bits !== 8 && bits !== 16) throw new RadiographFormatError(`عمق البت ${bits} غير مدعوم.`);
+
+  // 2. Strips, concatenated in order
+  const offsets = fields.get(TAG.stripOffsets) || [];
+  const counts = fields.get(TAG.stripByteCounts) || [];
+  const bytesPerSample = bits / 8;
+  const total = width * height;
+  const pixels = new Float32Array(total);
+  let index = 0;
+  offsets.forEach((stripOffset, strip) => {
+    const end = Math.min(stripOffset + (counts[strip] ?? 0), buffer.byteLength);
+    for (let at = stripOffset; at + bytesPerSample <= end && index < total; at += bytesPerSample) {
+      pixels[index++] = bits === 8
+        ? (signed ? view.getInt8(at) : view.getUint8(at))
+        : (signed ? view.getInt16(at, little) : view.getUint16(at, little));
+    }
+  });
+  if (index < total) throw new RadiographFormatError("بيانات البكسل أقصر من أبعاد الصورة.");
+
+  // 3. Metadata: resolution gives the pixel spacing (unit 2 = inch, 3 = cm; 1 = no absolute unit),
+  // unless it is an editor default; the user then calibrates with a reference line
+  const unit = first(TAG.resolutionUnit, 2);
+  const mmPerUnit = unit === 2 ? 25.4 : unit === 3 ? 10 : undefined;
+  const xRes = first(TAG.xResolution);
+  const yRes = first(TAG.yResolution);
+  const sensorResolution = !!mmPerUnit && !!xRes && !!yRes && isSensorDpi(xRes * 25.4 / mmPerUnit) && isSensorDpi(yRes * 25.4 / mmPerUnit);
+  const date = ascii.get(TAG.dateTime)?.match(/^(\d{4}):(\d{2}):(\d{2})/);
+  const metadata: RadiographMetadata = {
+    format: 'tiff',
+    acquisitionDate: date ? `${date[1]}-${date[2]}-${date[3]}` : undefined,
+    pixelSpacingMm: sensorResolution ? { row: mmPerUnit! / yRes!, column: mmPerUnit! / xRes! } : undefined,
+    width,
+    height,
+    bitsStored: bits,
+    // TIFF tags hold no patient fields; free-text tags (description, artist) are simply not read
+    removedTags: [],
+  };
+
+  return createRadiograph(pixels, metadata, { invert: photometric === 0 });
+};
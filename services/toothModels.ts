@@ -0,0 +1,297 @@
+import * as THREE from 'three';
+import { TechnicalBlueprint, ToothTissue, ToothType } from "../types";
+
+// Anatomical tooth models for the 3D lab, built procedurally so the bundle carries no mesh files.
+// Dimensions are textbook averages in millimetres (Wheeler). Each tissue is its own group named after
+// the tissue, nested inside the next one (pulp in dentin in enamel, roots in PDL in bone), so the
+// cross-section view and the layer toggles show the real layering.
+
+const SCENE_UNITS_PER_MM = 0.25;
+const SEGMENTS = 48;
+
+interface RootSpec {
+  offsetMm: [number, number]; // from the tooth axis: x mesiodistal, z buccolingual
+  lengthMm: number;
+  radiusMm: number;
+  tiltDeg: number; // positive leans the apex distally (+x)
+}
+
+interface ToothSpec {
+  label: string;
+  crownHeightMm: number;
+  mesiodistalMm: number; // crown width at the height of contour
+  buccolingualMm: number;
+  cervicalMesiodistalMm: number; // at the cemento-enamel junction
+  cervicalBuccolingualMm: number;
+  // Crown outline from the CEJ (t = 0) to the occlusal/incisal end (t = 1): [radius, t, cusp weight]
+  profile: [number, number, number][];
+  incisalFlatten: number; // buccolingual scale at the incisal edge (1 = no edge)
+  cusps: number; // cusp tips around the occlusal ring
+  cuspPhaseDeg: number; // angle of the first tip from buccal, towards mesial
+  cuspDepthMm: number;
+  trunkMm: number; // root trunk before a furcation; 0 for single roots
+  roots: RootSpec[];
+}
+
+// 1. Library
+const ROUND_TIP: [number, number, number][] = [[0, 0, 0], [0.92, 0, 0], [1, 0.3, 0], [0.96, 0.62, 0], [0.86, 0.84, 0.4], [0.6, 0.96, 1], [0, 0.86, 0]];
+
+export const TOOTH_MODELS: Record<ToothType, ToothSpec> = {
+  INCISOR: {
+    label: 'قاطع علوي مركزي',
+    crownHeightMm: 10.5,
+    mesiodistalMm: 8.5,
+    buccolingualMm: 7,
+    cervicalMesiodistalMm: 6.5,
+    cervicalBuccolingualMm: 6,
+    profile: [[0, 0, 0], [0.9, 0, 0], [1, 0.35, 0], [1, 0.8, 0], [0.92, 0.97, 0], [0, 1, 0]],
+    incisalFlatten: 0.22,
+    cusps: 0,
+    cuspPhaseDeg: 0,
+    cuspDepthMm: 0,
+    trunkMm: 0,
+    roots: [{ offsetMm: [0, 0], lengthMm: 13, radiusMm: 3.1, tiltDeg: 0 }],
+  },
+  CANINE: {
+    label: 'ناب علوي',
+    crownHeightMm: 10,
+    mesiodistalMm: 7.5,
+    buccolingualMm: 8,
+    cervicalMesiodistalMm: 5.5,
+    cervicalBuccolingualMm: 7,
+    profile: [[0, 0, 0], [0.9, 0, 0], [1, 0.35, 0], [0.9, 0.7, 0], [0.45, 0.92, 0], [0, 1, 0]],
+    incisalFlatten: 0.55,
+    cusps: 0,
+    cuspPhaseDeg: 0,
+    cuspDepthMm: 0,
+    trunkMm: 0,
+    roots: [{ offsetMm: [0, 0], lengthMm: 17, radiusMm: 3.3, tiltDeg: 0 }],
+  },
+  PREMOLAR: {
+    label: 'ضاحك سفلي أول',
+    crownHeightMm: 8.5,
+    mesiodistalMm: 7,
+    buccolingualMm: 7.5,
+    cervicalMesiodistalMm: 5,
+    cervicalBuccolingualMm: 6.5,
+    profile: ROUND_TIP,
+    incisalFlatten: 1,
+    cusps: 2, // buccal and lingual
+    cuspPhaseDeg: 0,
+    cuspDepthMm: 1.6,
+    trunkMm: 0,
+    roots: [{ offsetMm: [0, 0], lengthMm: 14, radiusMm: 2.8, tiltDeg: 0 }],
+  },
+  MOLAR: {
+    label: 'رحى سفلية أولى',
+    crownHeightMm: 7.5,
+    mesiodistalMm: 11,
+    buccolingualMm: 10.5,
+    cervicalMesiodistalMm: 9,
+    cervicalBuccolingualMm: 9,
+    profile: ROUND_TIP,
+    incisalFlatten: 1,
+    cusps: 4, // mesiobuccal, distobuccal, mesiolingual, distolingual
+    cuspPhaseDeg: 45,
+    cuspDepthMm: 1.4,
+    trunkMm: 3,
+    roots: [
+      { offsetMm: [-2.6, 0], lengthMm: 11, radiusMm: 2.2, tiltDeg: -8 },
+      { offsetMm: [2.6, 0], lengthMm: 10, radiusMm: 2, tiltDeg: 10 },
+    ],
+  },
+};
+
+export const TOOTH_TYPES = Object.keys(TOOTH_MODELS) as ToothType[];
+
+export const TISSUE_LABELS: Record<ToothTissue, string> = {
+  ENAMEL: 'المينا',
+  DENTIN: 'العاج',
+  PULP: 'اللب',
+  PDL: 'الرباط حول السني',
+  BONE: 'العظم السنخي',
+};
+
+export const TISSUE_COLORS: Record<ToothTissue, string> = {
+  ENAMEL: '#f1f5f9',
+  DENTIN: '#fde68a',
+  PULP: '#f87171',
+  PDL: '#f9a8d4',
+  BONE: '#cbd5e1',
+};
+
+// Soft tissues and bone are see-through so the roots stay visible
+const TISSUE_OPACITY: Partial<Record<ToothTissue, number>> = { PDL: 0.55, BONE: 0.28 };
+
+// 2. Matching generated blueprints and file names to the library
+const TYPE_PATTERNS: [ToothType, RegExp][] = [
+  ['PREMOLAR', /premolar|bicuspid|ضاحك|ضواحك/i],
+  ['CANINE', /canine|cuspid|ناب|أنياب/i],
+  ['MOLAR', /molar|رحى|أرحاء|طاحن|ضرس/i],
+  ['INCISOR', /incisor|قاطع|قواطع|ثنية|رباعية/i],
+];
+
+const TISSUE_PATTERNS: [ToothTissue, RegExp][] = [
+  ['ENAMEL', /enamel|مينا/i],
+  ['DENTIN', /dentin|عاج/i],
+  ['PDL', /periodontal ligament|\bpdl\b|رباط/i],
+  ['BONE', /bone|alveol|عظم|سنخ/i],
+  ['PULP', /pulp|canal|اللب|لبي|قناة|قنوات/i],
+];
+
+export const inferToothType = (text: string): ToothType | undefined =>
+  TYPE_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0];
+
+export const inferTissue = (text: string): ToothTissue | undefined =>
+  TISSUE_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0];
+
+export const blueprintToothType = (blueprint: TechnicalBlueprint): ToothType | undefined =>
+  inferToothType([
+    blueprint.modelMetadata?.entityName,
+    blueprint.modelMetadata?.scientificClassification,
+    ...(blueprint.structuralComponents || []).map(component => component.partName),
+  ].filter(Boolean).join(' '));
+
+// Colours the model chose for components that name a tissue
+export const blueprintTissueColors = (blueprint: TechnicalBlueprint): Partial<Record<ToothTissue, string>> => {
+  const colors: Partial<Record<ToothTissue, string>> = {};
+  (blueprint.visualParameters || []).forEach(param => {
+    const tissue = inferTissue(param.componentId);
+    if (tissue && !colors[tissue]) colors[tissue] = param.colorHex;
+  });
+  return colors;
+};
+
+// 3. Geometry (millimetres, CEJ at y = 0, crown up, roots down)
+const smoothstep = (edge0: number, edge1: number, x: number) => {
+  const t = Math.min(1, Math.max(0, (x - edge0) / (edge1 - edge0)));
+  return t * t * (3 - 2 * t);
+};
+
+// Lathe of the crown outline, stretched to the elliptical cross-section and raised into cusps.
+// `scale` shrinks it towards the CEJ centre for the dentin core and the pulp chamber.
+const crownGeometry = (spec: ToothSpec, scale: [number, number]): THREE.BufferGeometry => {
+  const [horizontal, vertical] = scale;
+  const points = spec.profile.map(([r, t]) => new THREE.Vector2(r, t));
+  const geometry = new THREE.LatheGeometry(points, SEGMENTS);
+  const position = geometry.attributes.position as THREE.BufferAttribute;
+
+  for (let index = 0; index < position.count; index++) {
+    const segment = Math.floor(index / points.length);
+    const [radius, t, cuspWeight] = spec.profile[index % points.length];
+    const phi = (segment / SEGMENTS) * Math.PI * 2;
+    // LatheGeometry puts sin(phi) on x and cos(phi) on z
+    const widthMd = THREE.MathUtils.lerp(spec.cervicalMesiodistalMm, spec.mesiodistalMm, smoothstep(0, 0.3, t)) / 2;
+    const widthBl = THREE.MathUtils.lerp(spec.cervicalBuccolingualMm, spec.buccolingualMm, smoothstep(0, 0.3, t)) / 2
+      * THREE.MathUtils.lerp(1, spec.incisalFlatten, smoothstep(0.35, 1, t));
+    const cusp = spec.cusps ? Math.cos(spec.cusps * (phi - THREE.MathUtils.degToRad(spec.cuspPhaseDeg))) * cuspWeight * spec.cuspDepthMm / 2 : 0;
+    position.setXYZ(
+      index,
+      Math.sin(phi) * radius * widthMd * horizontal,
+      (t * spec.crownHeightMm + cusp) * vertical,
+      Math.cos(phi) * radius * widthBl * horizontal,
+    );
+  }
+  geometry.computeVertexNormals();
+  return geometry;
+};
+
+// Tapered root from 1 mm inside the crown (or trunk) to the apex, leaning by its tilt
+const rootGeometry = (spec: ToothSpec, root: RootSpec, radiusScale: number, lengthScale: number, extraMm = 0): THREE.BufferGeometry => {
+  const length = root.lengthMm * lengthScale + extraMm;
+  const radius = root.radiusMm * radiusScale + extraMm;
+  const points = [
+    new THREE.Vector2(0, 1),
+    new THREE.Vector2(radius, 1),
+    new THREE.Vector2(radius * 0.92, -length * 0.3),
+    new THREE.Vector2(radius * 0.6, -length * 0.75),
+    new THREE.Vector2(radius * 0.2, -length * 0.98),
+    new THREE.Vector2(0, -length),
+  ];
+  const geometry = new THREE.LatheGeometry(points, SEGMENTS);
+  // Roots are wider buccolingually than mesiodistally
+  geometry.scale(1, 1, spec.cervicalBuccolingualMm / spec.cervicalMesiodistalMm);
+  geometry.rotateZ(THREE.MathUtils.degToRad(root.tiltDeg));
+  geometry.translate(root.offsetMm[0], -spec.trunkMm, root.offsetMm[1]);
+  return geometry;
+};
+
+// Undivided part of the root below the CEJ on multi-rooted teeth
+const trunkGeometry = (spec: ToothSpec, radiusScale: number, extraMm = 0): THREE.BufferGeometry => {
+  const points = [new THREE.Vector2(0, 1), new THREE.Vector2(1, 1), new THREE.Vector2(1, 0), new THREE.Vector2(0.9, -spec.trunkMm - 1), new THREE.Vector2(0, -spec.trunkMm - 1)];
+  const geometry = new THREE.LatheGeometry(points, SEGMENTS);
+  geometry.scale(
+    (spec.cervicalMesiodistalMm / 2) * radiusScale + extraMm,
+    1,
+    (spec.cervicalBuccolingualMm / 2) * radiusScale + extraMm,
+  );
+  return geometry;
+};
+
+const rootPortion = (spec: ToothSpec, radiusScale: number, lengthScale: number, extraMm = 0): THREE.BufferGeometry[] => [
+  ...(spec.trunkMm > 0 ? [trunkGeometry(spec, radiusScale, extraMm)] : []),
+  ...spec.roots.map(root => rootGeometry(spec, root, radiusScale, lengthScale, extraMm)),
+];
+
+const tissueGeometries = (spec: ToothSpec, tissue: ToothTissue): THREE.BufferGeometry[] => {
+  switch (tissue) {
+    case 'ENAMEL':
+      return [crownGeometry(spec, [1, 1])];
+    case 'DENTIN':
+      return [crownGeometry(spec, [0.84, 0.8]), ...rootPortion(spec, 1, 1)];
+    case 'PULP':
+      // Chamber with pulp horns under the cusps, canals ending short of the apex
+      return [crownGeometry(spec, [0.42, 0.55]), ...rootPortion(spec, 0.28, 0.95)];
+    case 'PDL':
+      return rootPortion(spec, 1, 1, 0.25);
+    case 'BONE': {
+      // Alveolar crest 1.5 mm below the CEJ, 3 mm of bone around the longest root
+      const depth = spec.trunkMm + Math.max(...spec.roots.map(root => root.lengthMm)) + 3;
+      const geometry = new THREE.BoxGeometry(spec.mesiodistalMm + 6, depth - 1.5, spec.buccolingualMm + 6);
+      geometry.translate(0, -1.5 - (depth - 1.5) / 2, 0);
+      return [geometry];
+    }
+  }
+};
+
+// 4. Model: one group per tissue (named after it, Arabic label and colour in userData), centred on the origin
+export const buildToothModel = (
+  type: ToothType,
+  { colors = {}, clippingPlanes = [] }: { colors?: Partial<Record<ToothTissue, string>>; clippingPlanes?: THREE.Plane[] } = {}
+): THREE.Group => {
+  const spec = TOOTH_MODELS[type];
+  const model = new THREE.Group();
+  model.name = type;
+
+  (Object.keys(TISSUE_LABELS) as ToothTissue[]).forEach(tissue => {
+    const color = colors[tissue] || TISSUE_COLORS[tissue];
+    const opacity = TISSUE_OPACITY[tissue];
+    const material = new THREE.MeshStandardMaterial({
+      color: new THREE.Color(color),
+      metalness: 0.05,
+      roughness: tissue === 'ENAMEL' ? 0.25 : 0.55,
+      transparent: opacity !== undefined,
+      opacity: opacity ?? 1,
+      depthWrite: opacity === undefined,
+      clippingPlanes,
+      clipShadows: true,
+      side: THREE.DoubleSide,
+    });
+    const group = new THREE.Group();
+    group.name = tissue;
+    group.userData = { label: TISSUE_LABELS[tissue], color };
+    tissueGeometries(spec, tissue).forEach(geometry => {
+      const mesh = new THREE.Mesh(geometry, material);
+      mesh.castShadow = opacity === undefined;
+      mesh.receiveShadow = true;
+      group.add(mesh);
+    });
+    model.add(group);
+  });
+
+  // Centre between the cusp tips and the apex of the longest root
+  const rootDepth = spec.trunkMm + Math.max(...spec.roots.map(root => root.lengthMm));
+  model.scale.setScalar(SCENE_UNITS_PER_MM);
+  model.position.y = ((rootDepth - spec.crownHeightMm) / 2) * SCENE_UNITS_PER_MM;
+  return model;
+};
@@ -0,0 +1,152 @@
+import { ToothCondition, ToothNotation, ToothSurface } from "../types";
+
+// Tooth numbering conversions. Findings are stored in FDI (ISO 3950) and converted for display,
+// so the same result can be read in Universal (ADA) or Palmer notation.
+//
+// FDI: quadrant digit + position from the midline. Permanent quadrants 1-4 (positions 1-8),
+// primary quadrants 5-8 (positions 1-5); 1/5 upper right, 2/6 upper left, 3/7 lower left, 4/8 lower right.
+
+const NOTATION_STORAGE_KEY = 'dentalbrain.toothNotation';
+const PRIMARY_LETTERS = 'ABCDEFGHIJKLMNOPQRST';
+
+// Palmer quadrant brackets: the lines point towards the midline and the occlusal plane
+const PALMER_QUADRANTS = ['UR', 'UL', 'LL', 'LR'] as const;
+
+export const TOOTH_NOTATIONS: { id: ToothNotation; label: string }[] = [
+  { id: 'FDI', label: 'FDI' },
+  { id: 'UNIVERSAL', label: 'Universal' },
+  { id: 'PALMER', label: 'Palmer' },
+];
+
+export const CONDITION_LABELS: Record<ToothCondition, string> = {
+  CARIES: 'نخر',
+  RESTORATION: 'حشوة',
+  CROWN: 'تاج',
+  ROOT_CANAL: 'معالجة لبية',
+  PERIAPICAL_LESION: 'آفة ذروية',
+  BONE_LOSS: 'فقدان عظمي',
+  FRACTURE: 'كسر',
+  IMPLANT: 'زرعة',
+  MISSING: 'سن مفقود',
+  IMPACTED: 'سن منطمر',
+  CALCULUS: 'قلح',
+  OTHER: 'أخرى',
+};
+
+export const SURFACE_LABELS: Record<ToothSurface, string> = {
+  M: 'إنسي',
+  O: 'إطباقي',
+  D: 'وحشي',
+  B: 'دهليزي',
+  L: 'لساني/حنكي',
+  I: 'قاطع',
+};
+
+// 1. FDI helpers
+export const isValidFdi = (fdi: string): boolean => {
+  const match = /^([1-8])([1-8])$/.exec(fdi);
+  if (!match) return false;
+  const quadrant = Number(match[1]);
+  return quadrant <= 4 || Number(match[2]) <= 5;
+};
+
+const splitFdi = (fdi: string) => ({ quadrant: Number(fdi[0]), position: Number(fdi[1]), primary: Number(fdi[0]) > 4 });
+
+// 2. FDI -> other notations
+const toUniversal = (fdi: string): string => {
+  const { quadrant, position, primary } = splitFdi(fdi);
+  if (!primary) return String([9 - position, 8 + position, 25 - position, 24 + position][quadrant - 1]);
+  return PRIMARY_LETTERS[[5 - position, 4 + position, 15 - position, 14 + position][quadrant - 5]];
+};
+
+const toPalmer = (fdi: string): string => {
+  const { quadrant, position, primary } = splitFdi(fdi);
+  const symbol = primary ? PRIMARY_LETTERS[position - 1] : String(position);
+  switch ((quadrant - 1) % 4) {
+    case 0: return `${symbol}┘`;
+    case 1: return `└${symbol}`;
+    case 2: return `┌${symbol}`;
+    default: return `${symbol}┐`;
+  }
+};
+
+export const formatTooth = (fdi: string, notation: ToothNotation): string => {
+  if (!isValidFdi(fdi)) return fdi;
+  if (notation === 'UNIVERSAL') return toUniversal(fdi);
+  if (notation === 'PALMER') return toPalmer(fdi);
+  return fdi;
+};
+
+// 3. Other notations -> FDI (for model output that ignores the requested notation)
+const fromUniversal = (value: string): string | undefined => {
+  if (/^\d{1,2}$/.test(value)) {
+    const n = Number(value);
+    if (n < 1 || n > 32) return undefined;
+    const quadrant = Math.ceil(n / 8);
+    const position = [9 - n, n - 8, 25 - n, n - 24][quadrant - 1];
+    return `${quadrant}${position}`;
+  }
+  const index = PRIMARY_LETTERS.indexOf(value.toUpperCase());
+  if (index === -1 || value.length !== 1) return undefined;
+  const quadrant = Math.floor(index / 5) + 5;
+  const position = [5 - index, index - 4, 15 - index, index - 14][quadrant - 5];
+  return `${quadrant}${position}`;
+};
+
+// Accepts "UR6", "ul E", "6┘", "└E"
+const fromPalmer = (value: string): string | undefined => {
+  const compact = value.replace(/\s+/g, '').toUpperCase();
+  let quadrantIdx = -1;
+  let symbol = '';
+  const named = /^(UR|UL|LL|LR)([1-8A-E])$/.exec(compact);
+  if (named) {
+    quadrantIdx = PALMER_QUADRANTS.indexOf(named[1] as typeof PALMER_QUADRANTS[number]);
+    symbol = named[2];
+  } else {
+    const bracket = /^([1-8A-E])([┘┐])$|^([└┌])([1-8A-E])$/.exec(compact);
+    if (!bracket) return undefined;
+    quadrantIdx = bracket[2] === '┘' ? 0 : bracket[3] === '└' ? 1 : bracket[3] === '┌' ? 2 : 3;
+    symbol = bracket[1] || bracket[4];
+  }
+  const primary = /[A-E]/.test(symbol);
+  const position = primary ? PRIMARY_LETTERS.indexOf(symbol) + 1 : Number(symbol);
+  return `${quadrantIdx + 1 + (primary ? 4 : 0)}${position}`;
+};
+
+// Returns the FDI number, or undefined when the value is not a tooth in the given (or any) notation
+export const toFdi = (raw: string, notation?: ToothNotation): string | undefined => {
+  const value = raw.trim();
+  if (notation === 'UNIVERSAL') return fromUniversal(value);
+  if (notation === 'PALMER') return fromPalmer(value);
+  const fdi = value.replace(/[.\s-]/g, '');
+  if (isValidFdi(fdi)) return fdi;
+  if (notation === 'FDI') return undefined;
+  return fromPalmer(value) ?? fromUniversal(value);
+};
+
+// Sort key in dental chart order: 18 → 11, 21 → 28, then 48 → 41, 31 → 38
+export const chartOrder = (fdi: string): number => {
+  const { quadrant, position, primary } = splitFdi(fdi);
+  const q = primary ? quadrant - 4 : quadrant;
+  const base = [0, 20, 60, 40][q - 1];
+  return (q === 1 || q === 4 ? base + (10 - position) : base + position) + (primary ? 0.5 : 0);
+};
+
+// 4. Preferred notation (per browser)
+export const getPreferredNotation = (): ToothNotation => {
+  try {
+    const stored = localStorage.getItem(NOTATION_STORAGE_KEY);
+    if (stored && TOOTH_NOTATIONS.some(n => n.id === stored)) return stored as ToothNotation;
+  } catch (e) {
+    // localStorage is unavailable (private mode / SSR)
+  }
+  return 'FDI';
+};
+
+export const setPreferredNotation = (notation: ToothNotation) => {
+  try {
+    localStorage.setItem(NOTATION_STORAGE_KEY, notation);
+  } catch (e) {
+    // Not persisted; the choice still applies to this session
+  }
+};
@@ -0,0 +1,26 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createRequestUsage, mergeRequestUsage } from './usage';
+
+test('merges well-formed server usage and skips malformed parts', () => {
+  const usage = createRequestUsage();
+  mergeRequestUsage(usage, {
+    calls: [
+      { model: 'gemini-2.0-flash', promptTokens: 120.4, responseTokens: 80, images: 0 },
+      { model: 42, promptTokens: 5 },
+      null,
+      { model: 'imagen', promptTokens: -3, responseTokens: '7', images: 1 },
+    ],
+    retries: 1,
+    fallbacks: 'two',
+  });
+  assert.deepEqual(usage.calls, [
+    { model: 'gemini-2.0-flash', promptTokens: 120, responseTokens: 80, images: 0 },
+    { model: 'imagen', promptTokens: 0, responseTokens: 0, images: 1 },
+  ]);
+  assert.equal(usage.retries, 1);
+  assert.equal(usage.fallbacks, 0);
+
+  for (const source of [null, 'calls', [1, 2], { calls: 'none' }]) mergeRequestUsage(usage, source);
+  assert.equal(usage.calls.length, 2);
+});
@@ -0,0 +1,45 @@
+// Token accounting for one service-level request (which may involve several model calls:
+// retries, model fallbacks, the repair round). Filled by the provider that talks to the model
+// (server/geminiProvider.ts) and shipped back to the browser over the /api proxy, where the
+// service layer turns it into a usage log entry (usageLog.ts). No browser-only APIs here.
+
+export interface ModelCallUsage {
+  model: string;
+  promptTokens: number;
+  responseTokens: number;
+  images: number;
+}
+
+export interface RequestUsage {
+  calls: ModelCallUsage[];
+  retries: number;
+  fallbacks: number;
+}
+
+// JSON responses carry the usage in this header; the practical NDJSON stream puts it on its final line
+export const USAGE_HEADER = 'X-DentalBrain-Usage';
+
+export const createRequestUsage = (): RequestUsage => ({ calls: [], retries: 0, fallbacks: 0 });
+
+const count = (value: unknown) => (typeof value === 'number' && value > 0 ? Math.round(value) : 0);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Adds usage reported by another party (the API server) to `target`; malformed input is ignored
+export const mergeRequestUsage = (target: RequestUsage | undefined, source: unknown) => {
+  if (!target || !isRecord(source)) return;
+  if (Array.isArray(source.calls)) {
+    source.calls.forEach((call: unknown) => {
+      if (!isRecord(call) || typeof call.model !== 'string') return;
+      target.calls.push({
+        model: call.model,
+        promptTokens: count(call.promptTokens),
+        responseTokens: count(call.responseTokens),
+        images: count(call.images),
+      });
+    });
+  }
+  target.retries += count(source.retries);
+  target.fallbacks += count(source.fallbacks);
+};
@@ -0,0 +1,241 @@
+import type { AIProviderId } from "./aiProvider";
+import type { SchedulerTab } from "./requestScheduler";
+import { BudgetExceededError } from "./aiErrors";
+import { RequestUsage } from "./usage";
+
+// Local usage log: one entry per request the service layer actually sent to a provider
+// (cache hits cost nothing and are not logged), plus the daily budget that can block or
+// downgrade requests. Everything lives in localStorage; nothing leaves the browser.
+
+export type UsageFunction = 'simulation' | 'practical' | 'quiz' | 'research' | 'case' | 'blueprint' | 'analyze' | 'image' | 'preview';
+export type UsageStatus = 'ok' | 'error' | 'cancelled';
+
+export interface UsageEntry {
+  id: string;
+  timestamp: number;
+  fn: UsageFunction;
+  tab?: SchedulerTab; // missing for prompt editor previews
+  topic: string;
+  provider: AIProviderId;
+  models: string[];
+  promptTokens: number;
+  responseTokens: number;
+  images: number;
+  retries: number;
+  fallbacks: number;
+  latencyMs: number;
+  costUsd: number;
+  status: UsageStatus;
+  downgraded?: boolean;
+}
+
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  responseTokens: number;
+  images: number;
+  costUsd: number;
+}
+
+export type BudgetMode = 'block' | 'downgrade';
+
+// Limits are per calendar day (local time); null = no limit
+export interface BudgetSettings {
+  dailyTokens: number | null;
+  dailyCostUsd: number | null;
+  dailyImages: number | null;
+  warnAtPercent: number;
+  onLimit: BudgetMode;
+}
+
+export type BudgetLevel = 'ok' | 'warning' | 'exceeded';
+
+export interface BudgetStatus {
+  level: BudgetLevel;
+  today: UsageTotals;
+  // Share of each configured limit already used (1 = limit reached)
+  ratios: { tokens?: number; cost?: number; images?: number };
+  onLimit: BudgetMode;
+}
+
+// Decision for one request: 'downgrade' means text only, without generated images or the repair round
+export type BudgetDecision = 'allow' | 'downgrade';
+
+const LOG_STORAGE_KEY = 'dentalbrain.usageLog';
+const BUDGET_STORAGE_KEY = 'dentalbrain.usageBudget';
+const MAX_ENTRIES = 3000;
+const RETENTION_MS = 90 * 24 * 60 * 60 * 1000;
+
+// Approximate list prices in USD; adjust to your billing account
+interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+  perImage: number;
+}
+
+const MODEL_PRICING: Record<string, ModelPrice> = {
+  'gemini-1.5-flash-latest': { inputPerMillion: 0.075, outputPerMillion: 0.3, perImage: 0.039 },
+};
+
+const DEFAULT_PRICE: ModelPrice = { inputPerMillion: 0.1, outputPerMillion: 0.4, perImage: 0.039 };
+
+export const DEFAULT_BUDGET: BudgetSettings = {
+  dailyTokens: null,
+  dailyCostUsd: null,
+  dailyImages: null,
+  warnAtPercent: 80,
+  onLimit: 'downgrade',
+};
+
+// 1. Storage
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? { ...fallback, ...JSON.parse(stored) } : fallback;
+  } catch (e) {
+    // localStorage unavailable or corrupted
+    return fallback;
+  }
+};
+
+const writeJson = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (e) {
+    // Quota exceeded / private mode: the log simply won't persist
+  }
+};
+
+let entries: UsageEntry[] = (() => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(LOG_STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch (e) {
+    return [];
+  }
+})();
+
+let budget: BudgetSettings = readJson(BUDGET_STORAGE_KEY, DEFAULT_BUDGET);
+
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+export const subscribeUsage = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const getUsageEntries = (): UsageEntry[] => entries;
+
+export const clearUsageLog = () => {
+  entries = [];
+  writeJson(LOG_STORAGE_KEY, entries);
+  notify();
+};
+
+// 2. Recording
+export const estimateCostUsd = (usage: RequestUsage): number =>
+  usage.calls.reduce((sum, call) => {
+    const price = MODEL_PRICING[call.model] || DEFAULT_PRICE;
+    return sum
+      + (call.promptTokens / 1e6) * price.inputPerMillion
+      + (call.responseTokens / 1e6) * price.outputPerMillion
+      + call.images * price.perImage;
+  }, 0);
+
+export const recordUsage = (
+  details: Pick<UsageEntry, 'fn' | 'tab' | 'topic' | 'provider' | 'latencyMs' | 'status' | 'downgraded'>,
+  usage: RequestUsage
+) => {
+  const entry: UsageEntry = {
+    ...details,
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    timestamp: Date.now(),
+    topic: details.topic.slice(0, 120),
+    models: Array.from(new Set(usage.calls.map(call => call.model))),
+    promptTokens: usage.calls.reduce((sum, call) => sum + call.promptTokens, 0),
+    responseTokens: usage.calls.reduce((sum, call) => sum + call.responseTokens, 0),
+    images: usage.calls.reduce((sum, call) => sum + call.images, 0),
+    retries: usage.retries,
+    fallbacks: usage.fallbacks,
+    costUsd: estimateCostUsd(usage),
+  };
+  const cutoff = Date.now() - RETENTION_MS;
+  entries = [...entries.filter(e => e.timestamp >= cutoff), entry].slice(-MAX_ENTRIES);
+  writeJson(LOG_STORAGE_KEY, entries);
+  notify();
+};
+
+// 3. Aggregation (dashboard)
+export const emptyTotals = (): UsageTotals => ({ requests: 0, promptTokens: 0, responseTokens: 0, images: 0, costUsd: 0 });
+
+const addTo = (totals: UsageTotals, entry: UsageEntry) => {
+  totals.requests++;
+  totals.promptTokens += entry.promptTokens;
+  totals.responseTokens += entry.responseTokens;
+  totals.images += entry.images;
+  totals.costUsd += entry.costUsd;
+};
+
+export const dayKey = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+export const totalUsage = (list: UsageEntry[]): UsageTotals => {
+  const totals = emptyTotals();
+  list.forEach(entry => addTo(totals, entry));
+  return totals;
+};
+
+// Groups entries by key, largest cost first
+export const groupUsage = (list: UsageEntry[], keyOf: (entry: UsageEntry) => string): { key: string; totals: UsageTotals }[] => {
+  const groups = new Map<string, UsageTotals>();
+  list.forEach(entry => {
+    const key = keyOf(entry);
+    if (!groups.has(key)) groups.set(key, emptyTotals());
+    addTo(groups.get(key)!, entry);
+  });
+  return Array.from(groups, ([key, totals]) => ({ key, totals }))
+    .sort((a, b) => b.totals.costUsd - a.totals.costUsd || b.totals.requests - a.totals.requests);
+};
+
+export const entriesSince = (days: number): UsageEntry[] => {
+  const start = new Date();
+  start.setHours(0, 0, 0, 0);
+  start.setDate(start.getDate() - (days - 1));
+  return entries.filter(entry => entry.timestamp >= start.getTime());
+};
+
+// 4. Budget
+export const getBudgetSettings = (): BudgetSettings => budget;
+
+export const setBudgetSettings = (settings: BudgetSettings) => {
+  budget = settings;
+  writeJson(BUDGET_STORAGE_KEY, budget);
+  notify();
+};
+
+export const getBudgetStatus = (): BudgetStatus => {
+  const today = totalUsage(entriesSince(1));
+  const ratio = (used: number, limit: number | null) => (limit && limit > 0 ? used / limit : undefined);
+  const ratios = {
+    tokens: ratio(today.promptTokens + today.responseTokens, budget.dailyTokens),
+    cost: ratio(today.costUsd, budget.dailyCostUsd),
+    images: ratio(today.images, budget.dailyImages),
+  };
+  const highest = Math.max(0, ...Object.values(ratios).filter((r): r is number => r !== undefined));
+  const level: BudgetLevel = highest >= 1 ? 'exceeded' : highest >= budget.warnAtPercent / 100 ? 'warning' : 'ok';
+  return { level, today, ratios, onLimit: budget.onLimit };
+};
+
+// Called before every request that would reach a paid provider
+export const checkBudget = (): BudgetDecision => {
+  const status = getBudgetStatus();
+  if (status.level !== 'exceeded') return 'allow';
+  if (status.onLimit === 'block') {
+    throw new BudgetExceededError("تم بلوغ الحد اليومي للاستهلاك. عدّل الميزانية من لوحة الاستهلاك أو انتظر حتى الغد.");
+  }
+  return 'downgrade';
+};
@@ -0,0 +1,62 @@
+// Zoom / pan state for the microscope view. Offsets are fractions of the viewport, so overlays
+// positioned in percent can be mapped without measuring the DOM:
+//   screen = offset + content * zoom   (both in fractions of the viewport)
+
+export interface ViewTransform {
+  zoom: number;
+  x: number;
+  y: number;
+}
+
+// Dental operating microscope steps; the lowest shows the whole field (zoom 1)
+export const MAGNIFICATION_STEPS = [2.5, 4, 6, 10, 16, 20];
+export const BASE_MAGNIFICATION = MAGNIFICATION_STEPS[0];
+const MAX_ZOOM = MAGNIFICATION_STEPS[MAGNIFICATION_STEPS.length - 1] / BASE_MAGNIFICATION;
+
+export const IDENTITY_VIEW: ViewTransform = { zoom: 1, x: 0, y: 0 };
+
+export const magnificationOf = (view: ViewTransform) => view.zoom * BASE_MAGNIFICATION;
+
+// The content always covers the viewport: no empty border when panning
+export const clampView = (view: ViewTransform): ViewTransform => {
+  const zoom = Math.min(MAX_ZOOM, Math.max(1, view.zoom));
+  return {
+    zoom,
+    x: Math.min(0, Math.max(1 - zoom, view.x)),
+    y: Math.min(0, Math.max(1 - zoom, view.y)),
+  };
+};
+
+// Zooms while keeping the anchor (fractions of the viewport) fixed on screen
+export const zoomAt = (view: ViewTransform, zoom: number, anchorX = 0.5, anchorY = 0.5): ViewTransform => {
+  const next = Math.min(MAX_ZOOM, Math.max(1, zoom));
+  const factor = next / view.zoom;
+  return clampView({ zoom: next, x: anchorX - (anchorX - view.x) * factor, y: anchorY - (anchorY - view.y) * factor });
+};
+
+export const setMagnification = (view: ViewTransform, magnification: number) => zoomAt(view, magnification / BASE_MAGNIFICATION);
+
+export const panBy = (view: ViewTransform, dx: number, dy: number): ViewTransform => clampView({ ...view, x: view.x + dx, y: view.y + dy });
+
+// Centres the view on a content point (fractions of the content), e.g. from a minimap click
+export const centerOn = (view: ViewTransform, contentX: number, contentY: number): ViewTransform =>
+  clampView({ ...view, x: 0.5 - contentX * view.zoom, y: 0.5 - contentY * view.zoom });
+
+// Percent of the content -> percent of the viewport
+export const toScreenPercent = (view: ViewTransform, percentX: number, percentY: number) => ({
+  x: view.x * 100 + percentX * view.zoom,
+  y: view.y * 100 + percentY * view.zoom,
+});
+
+// Visible part of the content, in percent (for the minimap)
+export const visibleRegion = (view: ViewTransform) => ({
+  left: (-view.x / view.zoom) * 100,
+  top: (-view.y / view.zoom) * 100,
+  width: 100 / view.zoom,
+  height: 100 / view.zoom,
+});
+
+export const transformStyle = (view: ViewTransform) => ({
+  transform: `translate(${view.x * 100}%, ${view.y * 100}%) scale(${view.zoom})`,
+  transformOrigin: '0 0',
+});
@@ -37,10 +37,46 @@ export interface Vitals {
   oxygenSaturation: number;
 }
 
+// Patient monitor (see services/physiology.ts); derived from the generated Vitals
+export interface VitalSigns {
+  heartRate: number; // bpm
+  systolic: number; // mmHg
+  diastolic: number; // mmHg
+  oxygenSaturation: number; // %
+  respiratoryRate: number; // breaths/min
+}
+
+export type Consciousness = 'ALERT' | 'DROWSY' | 'UNCONSCIOUS';
+
+export type PhysiologyEventId = 'LA_EPINEPHRINE' | 'LA_PLAIN' | 'VASOVAGAL' | 'HYPOGLYCAEMIA' | 'ANAPHYLAXIS';
+
+export type EmergencyActionId =
+  | 'STOP_PROCEDURE' | 'SUPINE' | 'UPRIGHT' | 'OXYGEN' | 'ORAL_GLUCOSE' | 'GLUCAGON'
+  | 'ADRENALINE' | 'ANTIHISTAMINE' | 'CALL_EMERGENCY';
+
+// Powered instruments and their settings (see services/instrumentSettings.ts)
+export type HandpieceKind = 'HIGH_SPEED' | 'SLOW_SPEED' | 'ENDO_MOTOR' | 'IMPLANT_DRILL' | 'IMPLANT_INSERTION' | 'SURGICAL' | 'HAND';
+
+export interface SettingRange {
+  value: number; // recommended setting
+  min: number; // safe range for this procedure
+  max: number;
+}
+
+export interface InstrumentSettings {
+  kind: HandpieceKind;
+  rpm?: SettingRange;
+  torqueNcm?: SettingRange;
+  fileSystem?: string; // endodontic file system the motor is set for
+  program?: string; // reciprocating motor program (e.g. "WAVEONE ALL"), used instead of rpm/torque
+}
+
 export interface InstrumentSpec {
   name: string;
   isoNumber: string;
   useCase: string;
+  step?: string; // procedure step the instrument is used in
+  settings?: InstrumentSettings;
 }
 
 export interface PracticalStep {
@@ -52,7 +88,7 @@ export interface PracticalStep {
   memoryAid: string; // 4. اسلوب الحفظ الفكاهي
   visualPrompt?: string; // 5. وصف الصورة (للتوليد)
   imageUrl?: string; // الصورة المولدة
-  imageStatus?: 'pending' | 'loading' | 'completed' | 'failed'; // حالة توليد الصورة
+  imageStatus?: 'pending' | 'loading' | 'completed' | 'failed' | 'cancelled'; // حالة توليد الصورة
   
   // Optional legacy fields
   practicalAction?: string;
@@ -69,18 +105,138 @@ export interface DangerZone {
   box: { ymin: number; xmin: number; ymax: number; xmax: number };
 }
 
+export type ToothNotation = 'FDI' | 'UNIVERSAL' | 'PALMER';
+
+// M mesial, O occlusal, D distal, B buccal/labial, L lingual/palatal, I incisal
+export type ToothSurface = 'M' | 'O' | 'D' | 'B' | 'L' | 'I';
+
+export type ToothCondition =
+  | 'CARIES' | 'RESTORATION' | 'CROWN' | 'ROOT_CANAL' | 'PERIAPICAL_LESION' | 'BONE_LOSS'
+  | 'FRACTURE' | 'IMPLANT' | 'MISSING' | 'IMPACTED' | 'CALCULUS' | 'OTHER';
+
+export interface ToothFinding {
+  tooth: string; // always stored in FDI (e.g. "36", "75"); converted for display only
+  surfaces: ToothSurface[];
+  condition: ToothCondition;
+  confidence: number; // 0-1
+  description: string;
+}
+
 export interface ImageAnalysisResult {
   isHighQuality: boolean;
   rejectionReason?: string;
   detailedClinicalAnalysis: string;
   landmarks: string[];
   dangerZones: DangerZone[];
+  toothFindings: ToothFinding[];
   adaCompliance: {
     compliant: boolean;
     notes: string;
   };
 }
 
+// Odontogram (dental chart); teeth keyed by FDI number
+export type Dentition = 'ADULT' | 'MIXED';
+export type SurfaceMark = 'CARIES' | 'RESTORATION';
+export type PlannedTreatment = 'FILLING' | 'CROWN' | 'ROOT_CANAL' | 'EXTRACTION' | 'IMPLANT' | 'SCALING';
+
+export interface ToothChartEntry {
+  tooth: string;
+  missing: boolean;
+  surfaces: Partial<Record<ToothSurface, SurfaceMark>>;
+  conditions: ToothCondition[]; // whole-tooth findings (crown, root canal, periapical lesion...)
+  planned: PlannedTreatment[];
+  note?: string;
+}
+
+export interface Odontogram {
+  dentition: Dentition;
+  teeth: Record<string, ToothChartEntry>;
+  updatedAt: number;
+}
+
+// Sensor exports (DICOM, 16-bit TIFF). Only non-identifying attributes are kept.
+export interface RadiographMetadata {
+  format: 'dicom' | 'tiff';
+  modality?: string; // DICOM code: IO (intraoral), PX (panoramic), DX, CT...
+  acquisitionDate?: string; // YYYY-MM-DD
+  pixelSpacingMm?: { row: number; column: number }; // physical size of one pixel, for measurements
+  width: number;
+  height: number;
+  bitsStored: number;
+  removedTags: string[]; // identifying attributes found in the file and discarded
+  burnedInAnnotation?: boolean; // patient data may be printed into the pixels themselves
+}
+
+export interface WindowLevel {
+  center: number;
+  width: number;
+}
+
+// Decoded pixel values (after rescale slope/intercept), rendered client-side with a window/level
+export interface Radiograph {
+  metadata: RadiographMetadata;
+  pixels: Float32Array;
+  minValue: number;
+  maxValue: number;
+  defaultWindow: WindowLevel;
+  invert: boolean; // MONOCHROME1 / WhiteIsZero: high values are dark
+}
+
+export type MeasurementTool = 'RULER' | 'ANGLE' | 'AREA';
+
+// Percent of the image, like danger-zone boxes
+export interface MeasurementPoint {
+  x: number;
+  y: number;
+}
+
+export interface Measurement {
+  id: string;
+  tool: MeasurementTool;
+  points: MeasurementPoint[]; // ruler: 2, angle: 3 (vertex in the middle), area: polygon
+  label: string;
+}
+
+export interface Calibration {
+  mmPerPixelX: number;
+  mmPerPixelY: number;
+  source: 'METADATA' | 'REFERENCE'; // DICOM/TIFF pixel spacing, or a drawn reference of known length
+  referenceMm?: number;
+}
+
+export interface MeasurementSet {
+  calibration?: Calibration;
+  measurements: Measurement[];
+  updatedAt: number;
+}
+
+export const MAX_COMPARISON_IMAGES = 4;
+
+// One image of an ordered, labeled set (e.g. pre-op / post-op, left / right bitewing)
+export interface LabeledImage {
+  label: string;
+  dataUrl: string;
+  // Browser-only source data for DICOM/TIFF uploads; never sent to the API
+  radiograph?: Radiograph;
+}
+
+export type ComparisonTrend = 'IMPROVED' | 'STABLE' | 'WORSENED' | 'NOT_APPLICABLE';
+
+export interface ImageComparison {
+  summary: string;
+  lesionChanges: string; // تغيرات الآفات
+  restorationOutcome: string; // نتيجة الترميم
+  boneLevelChange: string; // تغير مستوى العظم
+  trend: ComparisonTrend;
+}
+
+export interface ComparativeAnalysisResult {
+  // Same order and labels as the submitted images
+  images: { label: string; analysis: ImageAnalysisResult }[];
+  comparison: ImageComparison;
+}
+
 export interface VisualParameter {
   componentId: string;
   colorHex: string;
@@ -102,11 +258,17 @@ export interface TechnicalBlueprint {
   modelMetadata?: ModelMetadata;
 }
 
+// 3D lab anatomy (see services/toothModels.ts); tissues are separate meshes so each can be hidden or sectioned
+export type ToothType = 'INCISOR' | 'CANINE' | 'PREMOLAR' | 'MOLAR';
+export type ToothTissue = 'ENAMEL' | 'DENTIN' | 'PULP' | 'PDL' | 'BONE';
+
+export type DifficultyLevel = 'Easy' | 'Medium' | 'Hard' | 'Intellectual';
+
 export interface QuizItem {
   id: string;
   question: string;
   answer: string;
-  difficulty: 'Easy' | 'Medium' | 'Hard' | 'Intellectual';
+  difficulty: DifficultyLevel;
   keyPoints?: string[];
 }
 
@@ -116,13 +278,95 @@ export interface MCQItem {
   options: string[];
   correctAnswer: string;
   explanation: string;
-  difficulty: 'Easy' | 'Medium' | 'Hard' | 'Intellectual';
+  difficulty: DifficultyLevel;
+}
+
+// Hotspot exam: the student names each hotspot of a simulation
+export type HotspotExamField = 'label' | 'diagnosis' | 'classification';
+export type HotspotExamAnswerMode = 'FREE_TEXT' | 'MULTIPLE_CHOICE';
+
+export interface HotspotExamQuestion {
+  hotspotIdx: number;
+  field: HotspotExamField;
+  expected: string;
+  choices?: string[]; // multiple choice only; includes `expected`
+  timeLimitMs: number;
+}
+
+export interface HotspotExamAnswer {
+  response: string; // empty when the time ran out
+  accuracy: number; // 0-1 (fuzzy match for free text)
+  points: number;
+  elapsedMs: number;
+}
+
+// Hotspot pinned to the student's personal notes (kept across simulations)
+export interface PinnedHotspot {
+  id: string;
+  topic: string; // simulation the hotspot came from
+  hotspot: Hotspot;
+  note: string;
+  pinnedAt: number;
+}
+
+// Branching clinical case (see services/caseEngine.ts): a decision tree of clinical states
+export type CaseChoiceQuality = 'OPTIMAL' | 'ACCEPTABLE' | 'POOR' | 'HARMFUL';
+export type CaseOutcome = 'GOOD' | 'FAIR' | 'POOR';
+
+export interface CaseChoice {
+  id: string;
+  label: string;
+  nextNodeId: string;
+  feedback: string; // shown once the choice is made
+  quality: CaseChoiceQuality;
+}
+
+export interface CaseNode {
+  id: string;
+  title: string;
+  narrative: string;
+  imagePrompt: string; // English, generated when the node is reached
+  vitals?: Vitals;
+  hotspots: Hotspot[];
+  choices: CaseChoice[]; // empty on end states
+  outcome?: CaseOutcome; // end states only
+}
+
+export interface ClinicalCase {
+  id: string;
+  title: string;
+  summary: string;
+  startNodeId: string;
+  nodes: CaseNode[];
+  source: 'AI' | 'FILE';
+}
+
+export interface CasePathStep {
+  nodeId: string;
+  choiceId?: string; // missing on the last step
+}
+
+// A finished play-through, kept so students can compare attempts
+export interface CaseRun {
+  caseId: string;
+  caseTitle: string;
+  path: CasePathStep[];
+  score: number;
+  maxScore: number;
+  finishedAt: number;
+}
+
+// Prompt template version an artifact was generated with (see services/promptTemplates.ts)
+export interface PromptStamp {
+  templateId: 'simulation' | 'practical' | 'quiz' | 'research';
+  version: number;
 }
 
 export interface QuizData {
   essayQuestions: QuizItem[];
   shortAnswerQuestions: QuizItem[];
   mcqQuestions: MCQItem[];
+  promptTemplate?: PromptStamp;
 }
 
 export interface ClinicalData {
@@ -137,7 +381,9 @@ export interface ClinicalData {
   riskLevel?: string;
   vitals?: Vitals;
   analysisResult?: ImageAnalysisResult;
+  comparativeAnalysis?: ComparativeAnalysisResult;
   quizData?: QuizData;
+  promptTemplate?: PromptStamp;
 }
 
 export interface ChatMessage {
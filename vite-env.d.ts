@@ -0,0 +1,11 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Base URL of the API proxy (server/api.ts); defaults to same-origin /api
+  readonly VITE_API_BASE_URL?: string;
+  readonly VITE_AI_PROVIDER?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
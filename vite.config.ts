@@ -1,28 +1,23 @@
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
-  const cwd = (process as any).cwd ? (process as any).cwd() : '.';
-  const env = loadEnv(mode, cwd, '');
-
-  const apiKey = 
-    process.env.API_KEY || 
-    process.env.VITE_API_KEY || 
-    process.env.GOOGLE_API_KEY || 
-    env.API_KEY || 
-    env.VITE_API_KEY || 
-    '';
+export default defineConfig(() => {
+  // The Gemini API key is only read by the API server (server/), never injected into the bundle.
+  // In development, /api is forwarded to `npm run server`.
+  const apiPort = process.env.API_PORT || '8787';
 
   return {
     // Changed base to empty string for relative paths (Critical for GitHub Pages)
     base: '', 
     plugins: [react()],
-    define: {
-      'process.env.API_KEY': JSON.stringify(apiKey),
+    server: {
+      proxy: {
+        '/api': `http://localhost:${apiPort}`,
+      },
     },
     build: {
       outDir: 'dist',
       target: 'esnext',
     }
   };
-});
\ No newline at end of file
+});